@@ -9,6 +9,8 @@ import Canvas from "./pages/Canvas";
 import Projects from "./pages/Projects";
 import Templates from "./pages/Templates";
 import Login from "./pages/Login";
+import Usage from "./pages/Usage";
+import SharedProject from "./pages/SharedProject";
 
 function Router() {
   return (
@@ -17,7 +19,9 @@ function Router() {
       <Route path="/login" component={Login} />
       <Route path="/projects" component={Projects} />
       <Route path="/templates" component={Templates} />
+      <Route path="/usage" component={Usage} />
       <Route path="/canvas/:projectId" component={Canvas} />
+      <Route path="/share/:token" component={SharedProject} />
       <Route path="/404" component={NotFound} />
       <Route component={NotFound} />
     </Switch>
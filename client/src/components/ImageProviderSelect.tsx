@@ -0,0 +1,41 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { trpc } from "@/lib/trpc";
+
+// 不指定服务时由服务端按用户默认设置、系统配置依次选择
+export const DEFAULT_IMAGE_PROVIDER = "default";
+
+interface ImageProviderSelectProps {
+  value: string;
+  onChange: (value: string) => void;
+  // 图生图只列出支持参考图的服务
+  requireReferences?: boolean;
+}
+
+/**
+ * 节点上的图片生成服务选择；旧工作流中保存的未知值显示为“默认”
+ */
+export function ImageProviderSelect({ value, onChange, requireReferences }: ImageProviderSelectProps) {
+  const { data } = trpc.ai.listImageProviders.useQuery(undefined, { staleTime: 5 * 60 * 1000 });
+  const providers = (data?.providers ?? []).filter(
+    provider => provider.available && (!requireReferences || provider.supportsReferences)
+  );
+  const current = providers.some(provider => provider.id === value) ? value : DEFAULT_IMAGE_PROVIDER;
+
+  return (
+    <Select value={current} onValueChange={onChange}>
+      <SelectTrigger className="h-7 w-32 text-xs bg-background/50 border-border/30">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={DEFAULT_IMAGE_PROVIDER} className="text-xs">
+          默认
+        </SelectItem>
+        {providers.map(provider => (
+          <SelectItem key={provider.id} value={provider.id} className="text-xs">
+            {provider.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -13,12 +13,15 @@ import {
   FileText,
   FileImage,
   FileArchive,
+  History,
+  Trash2,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Streamdown } from "streamdown";
 import { trpc } from "@/lib/trpc";
 import CharacterDesignAssistant from "@/components/panels/CharacterDesignAssistant";
 import { EntryCards } from "@/components/assistant/EntryCards";
+import { toast } from "sonner";
 
 interface Message {
   id: string;
@@ -32,6 +35,16 @@ interface Message {
   }[];
 }
 
+// 历史会话的步骤说明
+const SESSION_STEP_LABELS: Record<string, string> = {
+  init: "待输入剧本",
+  script_analyzed: "待选择风格",
+  style_searched: "待选择参考图",
+  reference_selected: "待确认执行",
+  generating: "生成中",
+  completed: "已完成",
+};
+
 interface AIAssistantProps {
   open: boolean;
   onToggle: () => void;
@@ -50,6 +63,28 @@ export default function AIAssistant({ open, onToggle, onAddNode, projectId, onLo
   const [isCharacterDesignAssistantOpen, setIsCharacterDesignAssistantOpen] = useState(false);
   const [scriptContentForAssistant, setScriptContentForAssistant] = useState<string>('');
   const [scriptTitleForAssistant, setScriptTitleForAssistant] = useState<string>('');
+  const [resumeSessionId, setResumeSessionId] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+
+  // 角色设计历史会话
+  const { data: historySessions = [], isLoading: isHistoryLoading, refetch: refetchHistory } =
+    trpc.assistantCharacterDesign.listSessions.useQuery(undefined, { enabled: open && showHistory });
+  const deleteSessionMutation = trpc.assistantCharacterDesign.deleteSession.useMutation();
+
+  const handleResumeSession = useCallback((sessionId: string) => {
+    setResumeSessionId(sessionId);
+    setShowHistory(false);
+    setIsCharacterDesignAssistantOpen(true);
+  }, []);
+
+  const handleDeleteSession = useCallback(async (sessionId: string) => {
+    try {
+      await deleteSessionMutation.mutateAsync({ sessionId });
+      refetchHistory();
+    } catch (error) {
+      toast.error("删除会话失败，请重试");
+    }
+  }, [deleteSessionMutation, refetchHistory]);
   
   // 处理初始动作（从外部触发）
   useEffect(() => {
@@ -180,11 +215,69 @@ export default function AIAssistant({ open, onToggle, onAddNode, projectId, onLo
             <p className="text-xs text-muted-foreground">随时为你提供帮助</p>
           </div>
         </div>
-        <Button variant="ghost" size="icon" onClick={onToggle}>
-          <X className="w-5 h-5" />
-        </Button>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setShowHistory(prev => !prev)}
+            className={cn(showHistory && "bg-purple-500/20")}
+            title="历史会话"
+          >
+            <History className="w-5 h-5" />
+          </Button>
+          <Button variant="ghost" size="icon" onClick={onToggle}>
+            <X className="w-5 h-5" />
+          </Button>
+        </div>
       </div>
 
+      {/* 历史会话列表 */}
+      {showHistory && (
+        <div className="border-b border-purple-500/30 max-h-72 overflow-y-auto shrink-0">
+          <div className="px-4 py-2 text-xs text-muted-foreground">角色设计历史会话</div>
+          {isHistoryLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+            </div>
+          ) : historySessions.length === 0 ? (
+            <div className="px-4 pb-4 text-xs text-muted-foreground">暂无历史会话</div>
+          ) : (
+            <div className="px-2 pb-2 space-y-1">
+              {historySessions.map((session) => (
+                <div
+                  key={session.sessionId}
+                  className="group flex items-center gap-2 rounded-md px-2 py-2 hover:bg-purple-500/10 cursor-pointer"
+                  onClick={() => handleResumeSession(session.sessionId)}
+                >
+                  <MessageSquare className="w-4 h-4 text-primary shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm truncate">{session.title}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {SESSION_STEP_LABELS[session.step] ?? session.step}
+                      {session.characterCount > 0 && ` · ${session.characterCount} 个角色`}
+                      {" · "}
+                      {new Date(session.updatedAt).toLocaleString()}
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 opacity-0 group-hover:opacity-100"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDeleteSession(session.sessionId);
+                    }}
+                    title="删除会话"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Messages Area */}
       <div className="flex-1 overflow-hidden">
         <ScrollArea className="h-full" ref={scrollRef}>
@@ -395,10 +488,12 @@ export default function AIAssistant({ open, onToggle, onAddNode, projectId, onLo
           // 关闭时清空剧本内容
           setScriptContentForAssistant('');
           setScriptTitleForAssistant('');
+          setResumeSessionId(null);
         }}
         onLoadToCanvas={onLoadToCanvas}
         initialScriptContent={scriptContentForAssistant}
         initialScriptTitle={scriptTitleForAssistant}
+        resumeSessionId={resumeSessionId}
       />
     </div>
   );
@@ -0,0 +1,84 @@
+import { createContext, useContext } from "react";
+import { ViewportPortal } from "@xyflow/react";
+import { Lock, MousePointer2 } from "lucide-react";
+import type { CollabLock, CollabUser } from "@/hooks/useCollaboration";
+import { cn } from "@/lib/utils";
+
+interface CollabLockContextType {
+  // 被其他成员锁定（正在生成）的节点
+  lockedByOthers: Record<string, CollabLock>;
+  // 查看者 / 评论者不能编辑任何节点
+  readOnly: boolean;
+}
+
+export const CollabLockContext = createContext<CollabLockContextType | null>(null);
+
+/**
+ * 节点被其他成员锁定或画布只读时覆盖在节点上，阻止编辑
+ */
+export function NodeLockOverlay({ nodeId }: { nodeId: string }) {
+  const context = useContext(CollabLockContext);
+  const lock = context?.lockedByOthers[nodeId];
+  if (!lock) {
+    return context?.readOnly ? <div className="nodrag nopan absolute inset-0 z-10 rounded-lg cursor-default" /> : null;
+  }
+
+  return (
+    <div className="nodrag nopan absolute inset-0 z-10 rounded-lg bg-background/40 cursor-not-allowed">
+      <span className="absolute -top-7 left-0 flex items-center gap-1 px-2 py-0.5 rounded text-[10px] bg-amber-500/20 text-amber-300">
+        <Lock className="w-3 h-3" />
+        {lock.name} 正在生成
+      </span>
+    </div>
+  );
+}
+
+/**
+ * 其他成员的鼠标位置（画布坐标，随画布缩放平移）
+ */
+export function CollabCursors({ users }: { users: CollabUser[] }) {
+  return (
+    <ViewportPortal>
+      {users.map(user =>
+        user.cursor ? (
+          <div
+            key={user.clientId}
+            className="absolute pointer-events-none z-[1000] transition-transform duration-100 ease-linear"
+            style={{ transform: `translate(${user.cursor.x}px, ${user.cursor.y}px)` }}
+          >
+            <MousePointer2 className="w-4 h-4" style={{ color: user.color, fill: user.color }} />
+            <span
+              className="ml-3 px-1.5 py-0.5 rounded text-[10px] text-black whitespace-nowrap"
+              style={{ backgroundColor: user.color }}
+            >
+              {user.name}
+            </span>
+          </div>
+        ) : null
+      )}
+    </ViewportPortal>
+  );
+}
+
+/**
+ * 顶栏的在线成员头像
+ */
+export function CollabUsers({ users, connected }: { users: CollabUser[]; connected: boolean }) {
+  return (
+    <div className="flex items-center gap-2" title={connected ? "实时协同已连接" : "实时协同未连接"}>
+      <span className={cn("w-2 h-2 rounded-full", connected ? "bg-green-400" : "bg-muted-foreground")} />
+      <div className="flex -space-x-2">
+        {users.map(user => (
+          <div
+            key={user.clientId}
+            className="w-7 h-7 rounded-full border-2 border-background flex items-center justify-center text-[11px] font-medium text-black"
+            style={{ backgroundColor: user.color }}
+            title={user.name}
+          >
+            {user.name.slice(0, 1).toUpperCase()}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { createContext, memo, useContext, type ComponentType } from "react";
+import type { NodeProps } from "@xyflow/react";
+import { AlertCircle, Check, Clock, History, Loader2, Play, SkipForward } from "lucide-react";
+import type { NodeRunState } from "@/hooks/useWorkflowRunner";
+import type { NodeRunStatus } from "@shared/workflow";
+import { cn } from "@/lib/utils";
+import { NodeLockOverlay } from "./CollabOverlay";
+import { CommentBadge } from "./ReviewComments";
+import { NODE_LABELS } from "./WorkflowPreview";
+
+interface WorkflowRunContextType {
+  nodeStates: Record<string, NodeRunState>;
+  isRunning: boolean;
+  runFrom: (nodeId: string) => void;
+}
+
+export const WorkflowRunContext = createContext<WorkflowRunContextType | null>(null);
+
+const STATUS_DISPLAY: Record<NodeRunStatus, { label: string; icon: ComponentType<{ className?: string }>; className: string }> = {
+  queued: { label: "等待中", icon: Clock, className: "bg-muted text-muted-foreground" },
+  running: { label: "运行中", icon: Loader2, className: "bg-primary/20 text-primary" },
+  done: { label: "完成", icon: Check, className: "bg-green-500/20 text-green-400" },
+  cached: { label: "已缓存", icon: History, className: "bg-cyan-500/20 text-cyan-300" },
+  error: { label: "失败", icon: AlertCircle, className: "bg-destructive/20 text-destructive" },
+  skipped: { label: "已跳过", icon: SkipForward, className: "bg-muted text-muted-foreground" },
+};
+
+/**
+ * 为画布节点加上运行状态徽标和“从此处运行”按钮、评论徽标，以及协同编辑时的节点锁
+ */
+export function withRunStatus(Component: ComponentType<any>): ComponentType<NodeProps> {
+  function NodeWithRunStatus(props: NodeProps) {
+    const run = useContext(WorkflowRunContext);
+    const state = run?.nodeStates[props.id];
+    const display = state ? STATUS_DISPLAY[state.status] : null;
+
+    return (
+      <div className="relative group/run">
+        <Component {...props} />
+        <NodeLockOverlay nodeId={props.id} />
+        <div className="absolute -top-7 right-0 flex items-center gap-1">
+          {display && (
+            <span
+              className={cn("flex items-center gap-1 px-2 py-0.5 rounded text-[10px]", display.className)}
+              title={state?.error}
+            >
+              <display.icon className={cn("w-3 h-3", state?.status === "running" && "animate-spin")} />
+              {display.label}
+            </span>
+          )}
+          {run && !run.isRunning && (
+            <button
+              className="nodrag flex items-center gap-1 px-2 py-0.5 rounded text-[10px] bg-background/80 text-muted-foreground hover:text-foreground opacity-0 group-hover/run:opacity-100 transition-opacity"
+              onClick={() => run.runFrom(props.id)}
+              title="运行此节点及其下游节点"
+            >
+              <Play className="w-3 h-3" />
+              从此处运行
+            </button>
+          )}
+          <CommentBadge
+            targetType="node"
+            targetId={props.id}
+            label={`节点 · ${NODE_LABELS[props.type] ?? props.type}`}
+            emptyClassName="opacity-0 group-hover/run:opacity-100 transition-opacity"
+          />
+        </div>
+      </div>
+    );
+  }
+
+  return memo(NodeWithRunStatus);
+}
@@ -0,0 +1,253 @@
+import { createContext, useCallback, useContext, useState } from "react";
+import { Check, Crosshair, Loader2, MessageSquare, RotateCcw, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Textarea } from "@/components/ui/textarea";
+import type { CommentThread } from "@/hooks/useProjectComments";
+import { trpc } from "@/lib/trpc";
+import { cn } from "@/lib/utils";
+import { commentTargetKey, type CommentTargetType } from "@shared/comments";
+
+interface ReviewCommentsContextType {
+  projectId: number;
+  threadsByTarget: Map<string, CommentThread[]>;
+  currentUserId?: number;
+  // 评论者及以上可以发表、回复和解决
+  canComment: boolean;
+  // 所有者可以删除任何人的评论
+  isOwner: boolean;
+}
+
+export const ReviewCommentsContext = createContext<ReviewCommentsContextType | null>(null);
+
+/**
+ * 按对象查询未解决的讨论数，用于列表中不便放置徽标的位置
+ */
+export function useOpenCommentCount() {
+  const context = useContext(ReviewCommentsContext);
+  return useCallback(
+    (targetType: CommentTargetType, targetId: string) =>
+      (context?.threadsByTarget.get(commentTargetKey(targetType, targetId)) ?? []).filter((thread) => !thread.resolvedAt).length,
+    [context]
+  );
+}
+
+function authorOf(comment: { name: string | null; username: string | null }) {
+  return comment.name || comment.username || "未知用户";
+}
+
+function formatTime(date: Date | string) {
+  return new Date(date).toLocaleString("zh-CN", { month: "numeric", day: "numeric", hour: "2-digit", minute: "2-digit" });
+}
+
+function useCommentMutations() {
+  const context = useContext(ReviewCommentsContext);
+  const utils = trpc.useUtils();
+  const options = {
+    onSuccess: () => context && utils.comment.list.invalidate({ projectId: context.projectId }),
+    onError: (error: { message: string }) => toast.error(error.message),
+  };
+  return {
+    create: trpc.comment.create.useMutation(options),
+    reply: trpc.comment.reply.useMutation(options),
+    remove: trpc.comment.delete.useMutation(options),
+    setResolved: trpc.comment.setResolved.useMutation(options),
+  };
+}
+
+function CommentComposer({ placeholder, pending, onSubmit }: { placeholder: string; pending: boolean; onSubmit: (content: string) => Promise<unknown> }) {
+  const [content, setContent] = useState("");
+  const submit = () => {
+    if (!content.trim()) return;
+    onSubmit(content.trim()).then(() => setContent(""), () => undefined);
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <Textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) submit();
+        }}
+        placeholder={placeholder}
+        className="min-h-[56px] text-xs"
+      />
+      <div className="flex justify-end">
+        <Button size="sm" onClick={submit} disabled={!content.trim() || pending}>
+          {pending && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+          发送
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * 一个讨论串：第一条评论、回复、解决 / 重新打开
+ */
+export function CommentThreadView({ thread, onLocate }: { thread: CommentThread; onLocate?: () => void }) {
+  const context = useContext(ReviewCommentsContext);
+  const { reply, remove, setResolved } = useCommentMutations();
+  const canDelete = (comment: { userId: number }) => !!context && (context.isOwner || comment.userId === context.currentUserId);
+  const resolved = !!thread.resolvedAt;
+
+  return (
+    <div className={cn("rounded-md border border-border/50 p-2 space-y-2 text-xs", resolved && "opacity-60")}>
+      <div className="flex items-center justify-between gap-2">
+        <span className="truncate text-muted-foreground">{thread.targetLabel}</span>
+        <div className="flex items-center gap-0.5 shrink-0">
+          {onLocate && (
+            <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onLocate} title="定位到评论对象">
+              <Crosshair className="w-3 h-3" />
+            </Button>
+          )}
+          {context?.canComment && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={() => setResolved.mutate({ id: thread.id, resolved: !resolved })}
+              title={resolved ? "重新打开" : "标记为已解决"}
+            >
+              {resolved ? <RotateCcw className="w-3 h-3" /> : <Check className="w-3 h-3" />}
+            </Button>
+          )}
+        </div>
+      </div>
+      {[thread, ...thread.replies].map((comment) => (
+        <div key={comment.id} className="group/comment">
+          <div className="flex items-center gap-2">
+            <span className="font-medium">{authorOf(comment)}</span>
+            <span className="text-[10px] text-muted-foreground">{formatTime(comment.createdAt)}</span>
+            {canDelete(comment) && (
+              <button
+                className="ml-auto opacity-0 group-hover/comment:opacity-100 text-muted-foreground hover:text-destructive"
+                onClick={() => remove.mutate({ id: comment.id })}
+                title={comment.id === thread.id ? "删除讨论串" : "删除回复"}
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+          <p className="whitespace-pre-wrap break-words">{comment.content}</p>
+        </div>
+      ))}
+      {resolved && <div className="text-[10px] text-green-400">已解决</div>}
+      {context?.canComment && !resolved && (
+        <CommentComposer
+          placeholder="回复（Ctrl+Enter 发送）"
+          pending={reply.isPending}
+          onSubmit={(content) => reply.mutateAsync({ commentId: thread.id, content })}
+        />
+      )}
+    </div>
+  );
+}
+
+interface CommentBadgeProps {
+  targetType: CommentTargetType;
+  targetId: string;
+  // 对象名称，记录在评论上供收件箱显示
+  label: string;
+  className?: string;
+  // 还没有评论时附加的样式，如只在悬停时显示
+  emptyClassName?: string;
+}
+
+/**
+ * 对象上的评论徽标，显示未解决的讨论数，点击展开讨论串
+ */
+export function CommentBadge({ targetType, targetId, label, className, emptyClassName }: CommentBadgeProps) {
+  const context = useContext(ReviewCommentsContext);
+  const { create } = useCommentMutations();
+  if (!context) return null;
+
+  const threads = context.threadsByTarget.get(commentTargetKey(targetType, targetId)) ?? [];
+  const openCount = threads.filter((thread) => !thread.resolvedAt).length;
+  if (threads.length === 0 && !context.canComment) return null;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className={cn(
+            "nodrag flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px]",
+            openCount > 0 ? "bg-amber-500/20 text-amber-300" : "bg-background/80 text-muted-foreground hover:text-foreground",
+            className,
+            threads.length === 0 && emptyClassName
+          )}
+          onClick={(e) => e.stopPropagation()}
+          title={openCount > 0 ? `${openCount} 条未解决的评论` : "评论"}
+        >
+          <MessageSquare className="w-3 h-3" />
+          {threads.length > 0 && (openCount > 0 ? openCount : <Check className="w-3 h-3" />)}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-3" onClick={(e) => e.stopPropagation()}>
+        <div className="text-sm font-medium mb-2 truncate">{label}</div>
+        <div className="max-h-80 overflow-y-auto space-y-2">
+          {threads.map((thread) => (
+            <CommentThreadView key={thread.id} thread={thread} />
+          ))}
+          {context.canComment && (
+            <CommentComposer
+              placeholder="添加评论（Ctrl+Enter 发送）"
+              pending={create.isPending}
+              onSubmit={(content) =>
+                create.mutateAsync({ projectId: context.projectId, targetType, targetId, targetLabel: label, content })
+              }
+            />
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+interface ReviewInboxProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  threads: CommentThread[];
+  onLocate: (thread: CommentThread) => void;
+}
+
+/**
+ * 评审收件箱：项目中的全部讨论串，按最近动态排序
+ */
+export function ReviewInbox({ open, onOpenChange, threads, onLocate }: ReviewInboxProps) {
+  const [showResolved, setShowResolved] = useState(false);
+  const visible = threads.filter((thread) => showResolved || !thread.resolvedAt);
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-[400px] sm:max-w-[400px] flex flex-col">
+        <SheetHeader>
+          <SheetTitle>评审意见</SheetTitle>
+          <SheetDescription>画布节点、分镜和设计项上的评论</SheetDescription>
+        </SheetHeader>
+        <div className="flex gap-2 px-4">
+          <Button variant={showResolved ? "ghost" : "secondary"} size="sm" onClick={() => setShowResolved(false)}>
+            未解决
+          </Button>
+          <Button variant={showResolved ? "secondary" : "ghost"} size="sm" onClick={() => setShowResolved(true)}>
+            全部
+          </Button>
+        </div>
+        <ScrollArea className="flex-1 px-4">
+          <div className="space-y-2 pb-4">
+            {visible.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-8">暂无{showResolved ? "" : "未解决的"}评论</p>
+            )}
+            {visible.map((thread) => (
+              <CommentThreadView key={thread.id} thread={thread} onLocate={() => onLocate(thread)} />
+            ))}
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
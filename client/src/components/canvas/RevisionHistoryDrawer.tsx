@@ -0,0 +1,145 @@
+import { useEffect, useState } from "react";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { trpc } from "@/lib/trpc";
+import { cn } from "@/lib/utils";
+import { WorkflowPreview } from "./WorkflowPreview";
+
+const SOURCE_LABELS: Record<string, string> = {
+  manual: "手动保存",
+  auto: "自动保存",
+  restore: "恢复前",
+};
+
+interface RevisionHistoryDrawerProps {
+  projectId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // 恢复前保存画布上未保存的修改
+  beforeRestore?: () => Promise<void>;
+  // 恢复成功后由画布重新加载项目
+  onRestored: () => void;
+  // 查看者 / 评论者只能浏览版本
+  canRestore?: boolean;
+}
+
+/**
+ * 项目版本历史：列出保存过的版本，预览其节点图后恢复
+ */
+export function RevisionHistoryDrawer({
+  projectId,
+  open,
+  onOpenChange,
+  beforeRestore,
+  onRestored,
+  canRestore = true,
+}: RevisionHistoryDrawerProps) {
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const { data: revisions, isLoading } = trpc.project.listRevisions.useQuery(
+    { projectId },
+    { enabled: open && projectId > 0 }
+  );
+  const { data: revision, isFetching: isLoadingPreview } = trpc.project.getRevision.useQuery(
+    { projectId, revisionId: selectedId ?? 0 },
+    { enabled: open && selectedId !== null }
+  );
+  const utils = trpc.useUtils();
+  const restore = trpc.project.restoreRevision.useMutation({
+    onSuccess: async () => {
+      toast.success("已恢复到所选版本");
+      await utils.project.listRevisions.invalidate({ projectId });
+      onRestored();
+      onOpenChange(false);
+    },
+    onError: (error) => toast.error(`恢复失败: ${error.message}`),
+  });
+
+  const handleRestore = async (revisionId: number) => {
+    try {
+      await beforeRestore?.();
+    } catch {
+      toast.error("保存当前画布失败，已取消恢复");
+      return;
+    }
+    restore.mutate({ projectId, revisionId });
+  };
+
+  // 打开时默认预览最新版本
+  useEffect(() => {
+    if (open && revisions?.length && (selectedId === null || !revisions.some((r) => r.id === selectedId))) {
+      setSelectedId(revisions[0].id);
+    }
+  }, [open, revisions, selectedId]);
+
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-[860px] sm:max-w-[860px] flex flex-col">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <History className="w-4 h-4" />
+            版本历史
+          </SheetTitle>
+          <SheetDescription>手动保存时记录版本，自动保存每 10 分钟记录一次。恢复前的画布也会保存为一个版本。</SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 flex gap-3 min-h-0 px-4 pb-4">
+          <ScrollArea className="w-56 shrink-0 border border-border/50 rounded-md">
+            {isLoading ? (
+              <div className="flex justify-center p-4">
+                <Loader2 className="w-4 h-4 animate-spin" />
+              </div>
+            ) : !revisions?.length ? (
+              <div className="p-4 text-xs text-muted-foreground">还没有保存过版本</div>
+            ) : (
+              <div className="p-1 space-y-1">
+                {revisions.map((item) => (
+                  <button
+                    key={item.id}
+                    onClick={() => setSelectedId(item.id)}
+                    className={cn(
+                      "w-full text-left px-3 py-2 rounded text-xs hover:bg-muted/50",
+                      item.id === selectedId && "bg-primary/15 text-primary"
+                    )}
+                  >
+                    <div>{new Date(item.createdAt).toLocaleString()}</div>
+                    <div className="text-[10px] text-muted-foreground">
+                      {SOURCE_LABELS[item.source]} · {item.nodeCount} 个节点 · {item.edgeCount} 条连线
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+
+          <div className="flex-1 flex flex-col gap-3 min-w-0">
+            <div className="flex-1 border border-border/50 rounded-md overflow-hidden relative">
+              {isLoadingPreview && (
+                <div className="absolute inset-0 z-10 flex items-center justify-center bg-background/60">
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                </div>
+              )}
+              {revision && <WorkflowPreview key={revision.id} workflowData={revision.workflowData} />}
+            </div>
+            {canRestore && (
+              <div className="flex justify-end">
+                <Button
+                  size="sm"
+                  onClick={() => selectedId !== null && handleRestore(selectedId)}
+                  disabled={selectedId === null || restore.isPending}
+                >
+                  {restore.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RotateCcw className="w-4 h-4 mr-2" />}
+                  恢复此版本
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,220 @@
+import { useState } from "react";
+import { Copy, Link2, Loader2, LogOut, Trash2, UserPlus } from "lucide-react";
+import { toast } from "sonner";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { trpc } from "@/lib/trpc";
+import { MEMBER_ROLES, PROJECT_ROLE_LABELS, type ProjectMemberRole, type ProjectRole } from "@shared/projectRoles";
+
+interface ShareProjectDialogProps {
+  projectId: number;
+  // 当前用户在项目中的角色；只有所有者可以管理成员和分享链接
+  role: ProjectRole;
+  currentUserId?: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function shareUrl(token: string) {
+  return `${window.location.origin}/share/${token}`;
+}
+
+function RoleSelect({ value, onChange, disabled }: { value: ProjectMemberRole; onChange: (role: ProjectMemberRole) => void; disabled?: boolean }) {
+  return (
+    <Select value={value} onValueChange={(role) => onChange(role as ProjectMemberRole)} disabled={disabled}>
+      <SelectTrigger size="sm" className="w-[96px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {MEMBER_ROLES.map((role) => (
+          <SelectItem key={role} value={role}>
+            {PROJECT_ROLE_LABELS[role]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+/**
+ * 项目共享：按用户名邀请成员并设置角色，创建只读分享链接
+ */
+export function ShareProjectDialog({ projectId, role, currentUserId, open, onOpenChange }: ShareProjectDialogProps) {
+  const [, setLocation] = useLocation();
+  const [username, setUsername] = useState("");
+  const [inviteRole, setInviteRole] = useState<ProjectMemberRole>("editor");
+  const isOwner = role === "owner";
+
+  const utils = trpc.useUtils();
+  const { data: members, isLoading } = trpc.projectSharing.listMembers.useQuery({ projectId }, { enabled: open });
+  const { data: links } = trpc.projectSharing.listShareLinks.useQuery({ projectId }, { enabled: open && isOwner });
+
+  const onError = (error: { message: string }) => toast.error(error.message);
+  const invite = trpc.projectSharing.invite.useMutation({
+    onSuccess: () => {
+      toast.success(`已邀请 ${username}`);
+      setUsername("");
+      utils.projectSharing.listMembers.invalidate({ projectId });
+    },
+    onError,
+  });
+  const updateRole = trpc.projectSharing.updateRole.useMutation({
+    onSuccess: () => utils.projectSharing.listMembers.invalidate({ projectId }),
+    onError,
+  });
+  const removeMember = trpc.projectSharing.removeMember.useMutation({
+    onSuccess: (_data, variables) => {
+      if (variables.userId === currentUserId) {
+        toast.success("已退出项目");
+        utils.project.list.invalidate();
+        setLocation("/projects");
+        return;
+      }
+      utils.projectSharing.listMembers.invalidate({ projectId });
+    },
+    onError,
+  });
+  const createLink = trpc.projectSharing.createShareLink.useMutation({
+    onSuccess: (link) => {
+      utils.projectSharing.listShareLinks.invalidate({ projectId });
+      copyLink(link.token);
+    },
+    onError,
+  });
+  const revokeLink = trpc.projectSharing.revokeShareLink.useMutation({
+    onSuccess: () => {
+      toast.success("分享链接已撤销");
+      utils.projectSharing.listShareLinks.invalidate({ projectId });
+    },
+    onError,
+  });
+
+  const copyLink = (token: string) => {
+    navigator.clipboard
+      .writeText(shareUrl(token))
+      .then(() => toast.success("分享链接已复制"))
+      .catch(() => toast.error("复制失败，请手动复制链接"));
+  };
+
+  const handleInvite = () => {
+    const name = username.trim();
+    if (!name) return;
+    invite.mutate({ projectId, username: name, role: inviteRole });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>共享项目</DialogTitle>
+          <DialogDescription>
+            编辑者可以修改画布和生成内容，评论者和查看者只能查看。
+          </DialogDescription>
+        </DialogHeader>
+
+        {isOwner && (
+          <div className="flex gap-2">
+            <Input
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleInvite()}
+              placeholder="输入用户名"
+            />
+            <RoleSelect value={inviteRole} onChange={setInviteRole} />
+            <Button onClick={handleInvite} disabled={!username.trim() || invite.isPending}>
+              {invite.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserPlus className="w-4 h-4" />}
+            </Button>
+          </div>
+        )}
+
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {isLoading && <Loader2 className="w-4 h-4 animate-spin mx-auto" />}
+          {members && (
+            <div className="flex items-center justify-between text-sm py-1">
+              <span>{members.owner.name || members.owner.username}</span>
+              <span className="text-xs text-muted-foreground">{PROJECT_ROLE_LABELS.owner}</span>
+            </div>
+          )}
+          {members?.members.map((member) => (
+            <div key={member.userId} className="flex items-center justify-between gap-2 text-sm py-1">
+              <span className="truncate">
+                {member.name || member.username}
+                {member.username && member.name && (
+                  <span className="ml-1 text-xs text-muted-foreground">@{member.username}</span>
+                )}
+              </span>
+              <div className="flex items-center gap-1">
+                {isOwner ? (
+                  <>
+                    <RoleSelect
+                      value={member.role}
+                      onChange={(role) => updateRole.mutate({ projectId, userId: member.userId, role })}
+                      disabled={updateRole.isPending}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeMember.mutate({ projectId, userId: member.userId })}
+                      title="移除成员"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </>
+                ) : (
+                  <span className="text-xs text-muted-foreground">{PROJECT_ROLE_LABELS[member.role]}</span>
+                )}
+                {!isOwner && member.userId === currentUserId && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => removeMember.mutate({ projectId, userId: member.userId })}
+                    title="退出项目"
+                  >
+                    <LogOut className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {isOwner && (
+          <div className="space-y-2 border-t border-border/50 pt-4">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">只读分享链接</span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => createLink.mutate({ projectId })}
+                disabled={createLink.isPending}
+              >
+                <Link2 className="w-4 h-4 mr-2" />
+                创建链接
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">拿到链接的人无需登录即可查看画布，不能修改。</p>
+            {links?.map((link) => (
+              <div key={link.id} className="flex items-center gap-2">
+                <Input readOnly value={shareUrl(link.token)} className="text-xs" />
+                <Button variant="ghost" size="icon" onClick={() => copyLink(link.token)} title="复制链接">
+                  <Copy className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => revokeLink.mutate({ projectId, linkId: link.id })}
+                  title="撤销链接"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
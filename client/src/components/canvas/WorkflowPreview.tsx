@@ -0,0 +1,79 @@
+import { useMemo } from "react";
+import { ReactFlow, ReactFlowProvider, Background, BackgroundVariant, type Edge, type Node } from "@xyflow/react";
+
+export const NODE_LABELS: Record<string, string> = {
+  prompt: "提示词",
+  textToImage: "文生图",
+  imageToImage: "图生图",
+  imageToVideo: "图生视频",
+  imageDisplay: "图片",
+  videoDisplay: "视频",
+  imageEditor: "图片编辑",
+  subjectMultiView: "主体形象固定",
+  storyboardWorkbench: "影视分镜台",
+  nineGridInput: "定格九宫格",
+  nineGridResult: "九宫格结果",
+  shotReverseShot: "正反打镜头",
+  dynamicNineGridInput: "动态九宫格",
+};
+
+function previewImageOf(data: Record<string, unknown>): string | null {
+  const url = data.outputImage || data.imageUrl || data.image || data.gridImageUrl;
+  return typeof url === "string" ? url : null;
+}
+
+// 预览只用默认节点显示类型和图片，不挂载真实节点组件（避免触发生成等副作用）
+function toPreviewGraph(workflowData: unknown): { nodes: Node[]; edges: Edge[] } {
+  const data = (workflowData ?? {}) as { nodes?: Node[]; edges?: Edge[] };
+  const nodes = (data.nodes ?? []).map((node) => {
+    const nodeData = (node.data ?? {}) as Record<string, unknown>;
+    const image = previewImageOf(nodeData);
+    const prompt = typeof nodeData.prompt === "string" ? nodeData.prompt : "";
+    return {
+      id: node.id,
+      position: node.position,
+      data: {
+        label: (
+          <div className="space-y-1 text-left">
+            <div className="text-[10px] font-medium">{NODE_LABELS[node.type ?? ""] ?? node.type}</div>
+            {image && <img src={image} alt="" className="w-full max-h-24 object-cover rounded" />}
+            {prompt && <div className="text-[9px] text-muted-foreground line-clamp-2">{prompt}</div>}
+          </div>
+        ),
+      },
+      draggable: false,
+      selectable: false,
+      connectable: false,
+    };
+  });
+  const edges = (data.edges ?? []).map((edge) => ({
+    id: edge.id,
+    source: edge.source,
+    target: edge.target,
+    style: { strokeWidth: 2 },
+  }));
+  return { nodes, edges };
+}
+
+/**
+ * 只读的工作流节点图预览（版本历史、分享链接）
+ */
+export function WorkflowPreview({ workflowData }: { workflowData: unknown }) {
+  const preview = useMemo(() => toPreviewGraph(workflowData), [workflowData]);
+
+  return (
+    <ReactFlowProvider>
+      <ReactFlow
+        nodes={preview.nodes}
+        edges={preview.edges}
+        fitView
+        nodesDraggable={false}
+        nodesConnectable={false}
+        elementsSelectable={false}
+        proOptions={{ hideAttribution: true }}
+      >
+        <Background variant={BackgroundVariant.Dots} gap={20} size={1} />
+      </ReactFlow>
+    </ReactFlowProvider>
+  );
+}
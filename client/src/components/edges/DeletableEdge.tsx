@@ -18,6 +18,7 @@ function DeletableEdge({
   targetPosition,
   style = {},
   markerEnd,
+  data,
 }: EdgeProps) {
   const { setEdges } = useReactFlow();
   const [edgePath, labelX, labelY] = getBezierPath({
@@ -29,6 +30,9 @@ function DeletableEdge({
     targetPosition,
   });
 
+  // 类型不匹配的旧连线（见 Canvas 中的端口校验）
+  const invalidReason = typeof data?.invalidReason === "string" ? data.invalidReason : null;
+
   const onEdgeClick = () => {
     setEdges((edges) => edges.filter((edge) => edge.id !== id));
   };
@@ -48,7 +52,7 @@ function DeletableEdge({
           <button
             className="w-5 h-5 rounded-full bg-destructive/80 hover:bg-destructive flex items-center justify-center text-destructive-foreground transition-all opacity-0 hover:opacity-100 group-hover:opacity-100 edge-delete-button"
             onClick={onEdgeClick}
-            title="切断连线"
+            title={invalidReason ? `${invalidReason}，点击切断连线` : "切断连线"}
           >
             <X className="w-3 h-3" />
           </button>
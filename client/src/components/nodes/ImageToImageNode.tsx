@@ -10,6 +10,7 @@ import { ImageActions } from "@/components/ImageActions";
 import { trpc } from "@/lib/trpc";
 import { toast } from "sonner";
 import { useCanvasContext } from "@/pages/Canvas";
+import { DEFAULT_IMAGE_PROVIDER, ImageProviderSelect } from "@/components/ImageProviderSelect";
 
 
 
@@ -25,7 +26,7 @@ const aspectRatios = [
 function ImageToImageNode({ id, data }: NodeProps) {
   const [prompt, setPrompt] = useState(data.prompt as string || "");
   const [recognizedContent, setRecognizedContent] = useState(data.recognizedContent as string || "");
-  const [model, setModel] = useState(data.model as string || "stability");
+  const [model, setModel] = useState(data.model as string || DEFAULT_IMAGE_PROVIDER);
   const [aspectRatio, setAspectRatio] = useState(data.aspectRatio as string || "9:16");
   const [strength, setStrength] = useState(data.strength as number || 0.7);
   const [inputImage, setInputImage] = useState<string | null>(data.inputImage as string || null);
@@ -85,6 +86,9 @@ function ImageToImageNode({ id, data }: NodeProps) {
               ...node.data,
               prompt,
               recognizedContent,
+              model,
+              aspectRatio,
+              strength,
               inputImage,
               outputImage: generatedImage,
             },
@@ -93,7 +97,14 @@ function ImageToImageNode({ id, data }: NodeProps) {
         return node;
       })
     );
-  }, [prompt, recognizedContent, inputImage, generatedImage, id, setNodes]);
+  }, [prompt, recognizedContent, model, aspectRatio, strength, inputImage, generatedImage, id, setNodes]);
+
+  // 工作流运行后同步结果
+  useEffect(() => {
+    if (data.outputImage) {
+      setGeneratedImage(data.outputImage as string);
+    }
+  }, [data.outputImage]);
 
   // 显示的图片（优先使用连接的图片）
   const displayImage = connectedImageUrl || inputImage;
@@ -222,7 +233,7 @@ function ImageToImageNode({ id, data }: NodeProps) {
         prompt: combinedPrompt,
         imageUrl,
         strength,
-        model,
+        model: model === DEFAULT_IMAGE_PROVIDER ? undefined : model,
         nodeId: id,
         width: selectedRatio.width,
         height: selectedRatio.height,
@@ -308,6 +319,7 @@ function ImageToImageNode({ id, data }: NodeProps) {
           </div>
           <span className="font-medium text-sm neon-text-cyan">图生图</span>
         </div>
+        <ImageProviderSelect value={model} onChange={setModel} requireReferences />
       </div>
 
       {/* Connected Indicators */}
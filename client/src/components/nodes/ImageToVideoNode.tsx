@@ -60,7 +60,7 @@ function ImageToVideoNode({ id, data }: NodeProps) {
     // Context not available
   }
 
-  const createTask = trpc.generation.create.useMutation();
+  const imageToVideoMutation = trpc.ai.imageToVideo.useMutation();
   const recognizeMutation = trpc.ai.recognizeImageContent.useMutation();
   const optimizeMutation = trpc.ai.optimizeVideoPrompt.useMutation();
 
@@ -95,6 +95,9 @@ function ImageToVideoNode({ id, data }: NodeProps) {
               desiredEffect,
               optimizedPrompt,
               recognizedContent,
+              model,
+              aspectRatio,
+              duration,
               inputImage,
               outputVideo: generatedVideo,
             },
@@ -103,7 +106,14 @@ function ImageToVideoNode({ id, data }: NodeProps) {
         return node;
       })
     );
-  }, [desiredEffect, optimizedPrompt, recognizedContent, inputImage, generatedVideo, id, setNodes]);
+  }, [desiredEffect, optimizedPrompt, recognizedContent, model, aspectRatio, duration, inputImage, generatedVideo, id, setNodes]);
+
+  // 工作流运行后同步结果
+  useEffect(() => {
+    if (data.outputVideo) {
+      setGeneratedVideo(data.outputVideo as string);
+    }
+  }, [data.outputVideo]);
 
   // 显示的图片（优先使用连接的图片）
   const displayImage = connectedImageUrl || inputImage;
@@ -230,34 +240,31 @@ function ImageToVideoNode({ id, data }: NodeProps) {
     
     try {
       const selectedRatio = aspectRatios.find(r => r.id === aspectRatio) || aspectRatios[1];
-      
-      const task = await createTask.mutateAsync({
-        taskType: "img2video",
-        inputData: {
-          prompt: promptToUse,
-          model,
-          duration: parseInt(duration),
-          inputImage: imageToUse,
-          width: selectedRatio.width,
-          height: selectedRatio.height,
-        },
+      // 如果是 blob URL，先转换为 data URL
+      const imageUrl = await convertBlobToDataUrl(imageToUse);
+
+      const result = await imageToVideoMutation.mutateAsync({
+        prompt: promptToUse,
+        imageUrl,
+        model,
+        duration: parseInt(duration),
+        aspectRatio: selectedRatio.id as "1:1" | "16:9" | "9:16" | "4:3" | "3:4" | "21:9",
+        width: selectedRatio.width,
+        height: selectedRatio.height,
+        projectId: canvasContext?.projectId,
+        nodeId: id,
       });
 
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 4000));
-      
-      // Use a sample video for demo
-      const sampleVideo = "https://sample-videos.com/video321/mp4/720/big_buck_bunny_720p_1mb.mp4";
-      setGeneratedVideo(sampleVideo);
-      
+      setGeneratedVideo(result.videoUrl);
       toast.success("视频生成成功");
       
       // 更新加载中的节点为完成状态
       if (loadingNodeId && canvasContext?.updateVideoNode) {
-        canvasContext.updateVideoNode(loadingNodeId, sampleVideo);
+        canvasContext.updateVideoNode(loadingNodeId, result.videoUrl);
       }
     } catch (error) {
-      toast.error("生成失败，请重试");
+      const message = error instanceof Error ? error.message : "生成失败";
+      toast.error(`生成失败：${message}`);
       // 设置节点错误状态
       if (loadingNodeId && canvasContext?.setVideoNodeError) {
         canvasContext.setVideoNodeError(loadingNodeId, "生成失败");
@@ -265,7 +272,7 @@ function ImageToVideoNode({ id, data }: NodeProps) {
     } finally {
       setIsGenerating(false);
     }
-  }, [desiredEffect, optimizedPrompt, connectedPromptText, model, duration, aspectRatio, inputImage, connectedImageUrl, id, createTask, canvasContext]);
+  }, [desiredEffect, optimizedPrompt, connectedPromptText, model, duration, aspectRatio, inputImage, connectedImageUrl, id, imageToVideoMutation, canvasContext]);
 
   // 计算图片显示尺寸（自适应）
   const getImageDisplayStyle = useCallback(() => {
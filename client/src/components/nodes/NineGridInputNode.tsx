@@ -8,6 +8,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { toast } from "sonner";
 import { trpc } from "@/lib/trpc";
 import { CanvasContext } from "@/pages/Canvas";
+import { useGenerationJob } from "@/hooks/useGenerationJob";
+import type { inferRouterOutputs } from "@trpc/server";
+import type { AppRouter } from "../../../../server/routers";
 import { 
   Grid3X3, 
   Upload as UploadIcon, 
@@ -17,6 +20,8 @@ import {
   Wand2,
 } from "lucide-react";
 
+type NineGridResult = inferRouterOutputs<AppRouter>["storyboardWorkbench"]["generateNineGridStoryboard"];
+
 export function NineGridInputNode({ data }: { data: Record<string, unknown> }) {
   const nodeId = useNodeId();
   const { addNodes, addEdges, getNode, setNodes, getEdges } = useReactFlow();
@@ -36,7 +41,7 @@ export function NineGridInputNode({ data }: { data: Record<string, unknown> }) {
   const currentResultNodeIdRef = useRef<string | null>(null);
 
   // API mutations
-  const generateNineGrid = trpc.storyboardWorkbench.generateNineGridStoryboard.useMutation();
+  const generationJob = useGenerationJob();
   const analyzeImage = trpc.storyboardWorkbench.analyzeImageForFreezeFrame.useMutation();
 
   // 处理文件上传
@@ -264,10 +269,15 @@ export function NineGridInputNode({ data }: { data: Record<string, unknown> }) {
     try {
       let imageUrl = referenceImageUrl;
 
-      const result = await generateNineGrid.mutateAsync({
-        referenceImageUrl: imageUrl,
-        prompt: finalPrompt,
-        aspectRatio,
+      const result = await generationJob.run<NineGridResult>({
+        jobType: "storyboardWorkbench.generateNineGridStoryboard",
+        projectId: canvasContext?.projectId,
+        nodeId: nodeId ?? undefined,
+        input: {
+          referenceImageUrl: imageUrl,
+          prompt: finalPrompt,
+          aspectRatio,
+        },
       });
 
       if (result.gridImageUrl) {
@@ -325,7 +335,7 @@ export function NineGridInputNode({ data }: { data: Record<string, unknown> }) {
       setIsGenerating(false);
       currentResultNodeIdRef.current = null;
     }
-  }, [referenceImageUrl, prompt, aspectRatio, generateNineGrid, nodeId, getNode, addNodes, addEdges, setNodes]);
+  }, [referenceImageUrl, prompt, aspectRatio, generationJob, canvasContext, nodeId, getNode, addNodes, addEdges, setNodes]);
 
   return (
     <Card className="w-[320px] bg-gradient-to-br from-purple-950/90 to-indigo-950/90 border-purple-500/50 shadow-lg shadow-purple-500/20">
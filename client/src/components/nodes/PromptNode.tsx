@@ -29,6 +29,13 @@ function PromptNode({ id, data }: NodeProps) {
     );
   }, [prompt, id, setNodes]);
 
+  // 撤销 / 重做改回节点数据时同步输入框
+  useEffect(() => {
+    if (typeof data.prompt === "string") {
+      setPrompt(data.prompt);
+    }
+  }, [data.prompt]);
+
   const optimizeMutation = trpc.ai.optimizePrompt.useMutation();
 
   const handleOptimize = useCallback(async () => {
@@ -2,7 +2,6 @@ import { memo, useState, useCallback, useRef, useEffect } from "react";
 import { Handle, Position, NodeProps, useReactFlow } from "@xyflow/react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -10,12 +9,8 @@ import { Loader2, Image, Sparkles, Wand2, Download, X, Plus, Upload, Check, Link
 import { trpc } from "@/lib/trpc";
 import { toast } from "sonner";
 import { useCanvasContext } from "@/pages/Canvas";
-
-const models = [
-  { id: "stability", name: "Stability AI", description: "高质量写实风格" },
-  { id: "dalle3", name: "DALL-E 3", description: "创意艺术风格" },
-  { id: "flux", name: "Flux", description: "快速生成" },
-];
+import { useGenerationJob } from "@/hooks/useGenerationJob";
+import { DEFAULT_IMAGE_PROVIDER, ImageProviderSelect } from "@/components/ImageProviderSelect";
 
 const aspectRatios = [
   { id: "1:1", name: "1:1", width: 1024, height: 1024, icon: "□" },
@@ -40,9 +35,9 @@ const presetStyles = [
 
 function TextToImageNode({ id, data }: NodeProps) {
   const [prompt, setPrompt] = useState(data.prompt as string || "");
-  const [model, setModel] = useState(data.model as string || "stability");
+  const [model, setModel] = useState(data.model as string || DEFAULT_IMAGE_PROVIDER);
   const [aspectRatio, setAspectRatio] = useState(data.aspectRatio as string || "1:1");
-  const [selectedStyle, setSelectedStyle] = useState<string>("none");
+  const [selectedStyle, setSelectedStyle] = useState<string>(data.style as string || "none");
   const [isGenerating, setIsGenerating] = useState(false);
   const [isOptimizing, setIsOptimizing] = useState(false);
   const [generatedImage, setGeneratedImage] = useState<string | null>(data.outputImage as string || null);
@@ -67,7 +62,8 @@ function TextToImageNode({ id, data }: NodeProps) {
     // Context not available
   }
 
-  const generateMutation = trpc.ai.textToImage.useMutation();
+  // 通过服务端队列生成，连接中断也不会丢失结果
+  const generationJob = useGenerationJob();
   const optimizeMutation = trpc.ai.optimizePrompt.useMutation();
   
   // 获取用户自定义风格
@@ -96,6 +92,11 @@ function TextToImageNode({ id, data }: NodeProps) {
             data: {
               ...node.data,
               prompt,
+              model,
+              aspectRatio,
+              style: selectedStyle,
+              // 工作流运行时按名称拼接风格（见 shared/workflow.ts）
+              styleName: presetStyles.find(s => s.id === selectedStyle && s.id !== "none")?.name,
               outputImage: generatedImage,
             },
           };
@@ -103,7 +104,14 @@ function TextToImageNode({ id, data }: NodeProps) {
         return node;
       })
     );
-  }, [prompt, generatedImage, id, setNodes]);
+  }, [prompt, model, aspectRatio, selectedStyle, generatedImage, id, setNodes]);
+
+  // 工作流运行后同步结果
+  useEffect(() => {
+    if (data.outputImage) {
+      setGeneratedImage(data.outputImage as string);
+    }
+  }, [data.outputImage]);
 
   const handleOptimize = useCallback(async () => {
     const textToOptimize = connectedPromptText ? `${connectedPromptText}, ${prompt}` : prompt;
@@ -155,12 +163,16 @@ function TextToImageNode({ id, data }: NodeProps) {
         }
       }
       
-      const result = await generateMutation.mutateAsync({
-        prompt: fullPrompt,
-        model,
-        width: ratio?.width || 1024,
-        height: ratio?.height || 1024,
+      const result = await generationJob.run<{ imageUrl: string }>({
+        jobType: "ai.textToImage",
         nodeId: id,
+        input: {
+          prompt: fullPrompt,
+          model: model === DEFAULT_IMAGE_PROVIDER ? undefined : model,
+          width: ratio?.width || 1024,
+          height: ratio?.height || 1024,
+          nodeId: id,
+        },
       });
 
       if (result.imageUrl) {
@@ -181,7 +193,7 @@ function TextToImageNode({ id, data }: NodeProps) {
     } finally {
       setIsGenerating(false);
     }
-  }, [prompt, connectedPromptText, model, aspectRatio, selectedStyle, id, generateMutation, canvasContext]);
+  }, [prompt, connectedPromptText, model, aspectRatio, selectedStyle, id, generationJob, canvasContext]);
 
   const handleDownload = useCallback(async () => {
     if (generatedImage) {
@@ -275,18 +287,7 @@ function TextToImageNode({ id, data }: NodeProps) {
           </div>
           <span className="font-medium text-sm neon-text-pink">文生图</span>
         </div>
-        <Select value={model} onValueChange={setModel}>
-          <SelectTrigger className="h-7 w-32 text-xs bg-background/50 border-border/30">
-            <SelectValue />
-          </SelectTrigger>
-          <SelectContent>
-            {models.map((m) => (
-              <SelectItem key={m.id} value={m.id} className="text-xs">
-                {m.name}
-              </SelectItem>
-            ))}
-          </SelectContent>
-        </Select>
+        <ImageProviderSelect value={model} onChange={setModel} />
       </div>
 
       {/* Connected Prompt Indicator */}
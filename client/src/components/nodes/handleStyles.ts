@@ -1,3 +1,5 @@
+import type { PortType } from "@shared/workflowPorts";
+
 // 节点连接点样式常量
 // 深蓝色：图片数据连接点（可以传递/接收图片）
 // 深红色：非图片数据连接点（文本、视频等）
@@ -13,3 +15,16 @@ export const VIDEO_HANDLE_STYLE = "!w-3 !h-3 !bg-emerald-500 !border-2 !border-e
 
 // 文本连接点样式（深红色）
 export const TEXT_HANDLE_STYLE = "!w-3 !h-3 !bg-red-500 !border-2 !border-red-700";
+
+// 连线颜色（按端口数据类型，与上面的连接点配色一致）
+export const PORT_EDGE_COLORS: Record<PortType, string> = {
+  text: "#ef4444",
+  image: "#3b82f6",
+  "image[]": "#6366f1",
+  video: "#10b981",
+  "character-ref": "#f59e0b",
+  grid: "#f472b6",
+};
+
+// 类型不匹配的旧连线
+export const INVALID_EDGE_COLOR = "#71717a";
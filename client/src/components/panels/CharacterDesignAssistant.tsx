@@ -76,6 +76,8 @@ interface CharacterDesignAssistantProps {
   onLoadToCanvas?: (imageUrl: string, name: string, type: 'character' | 'scene' | 'prop') => void;
   initialScriptContent?: string;
   initialScriptTitle?: string;
+  // 重新打开的历史会话 ID，为空时开始新会话
+  resumeSessionId?: string | null;
 }
 
 // 图片搜索结果卡片组件
@@ -373,7 +375,8 @@ export default function CharacterDesignAssistant({
   onClose, 
   onLoadToCanvas,
   initialScriptContent,
-  initialScriptTitle
+  initialScriptTitle,
+  resumeSessionId
 }: CharacterDesignAssistantProps) {
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [messages, setMessages] = useState<AssistantMessage[]>([]);
@@ -391,12 +394,12 @@ export default function CharacterDesignAssistant({
   // 异步生成进度状态
   const [isGenerating, setIsGenerating] = useState(false);
   const [generationProgress, setGenerationProgress] = useState({ current: 0, total: 0, currentCharacter: '' });
-  const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
   // tRPC mutations
   const startSessionMutation = trpc.assistantCharacterDesign.startSession.useMutation();
   const chatMutation = trpc.assistantCharacterDesign.chat.useMutation();
   const endSessionMutation = trpc.assistantCharacterDesign.endSession.useMutation();
+  const utils = trpc.useUtils();
 
   // 滚动到底部
   const scrollToBottom = useCallback(() => {
@@ -426,33 +429,47 @@ export default function CharacterDesignAssistant({
     }
   }, []); // 移除 startSessionMutation 依赖，避免无限循环
 
-  // 打开时自动开始会话
+  // 重新打开历史会话
+  const resumeSession = useCallback(async (id: string) => {
+    try {
+      setIsLoading(true);
+      const result = await utils.assistantCharacterDesign.getSession.fetch({ sessionId: id });
+      if (!result) {
+        toast.error("会话不存在，已开始新会话");
+        await startNewSession();
+        return;
+      }
+      setSessionId(result.sessionId);
+      setMessages(result.messages as AssistantMessage[]);
+      setSelectedImages([]);
+      setExpandedCards(new Set());
+      // 离开时仍在生成，继续跟踪进度
+      if (result.step === "generating") {
+        setIsGenerating(true);
+      }
+    } catch (error) {
+      toast.error("打开会话失败，请重试");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [utils, startNewSession]);
+
+  // 打开时恢复历史会话或自动开始新会话
   useEffect(() => {
     if (isOpen && !sessionId) {
-      startNewSession();
+      if (resumeSessionId) {
+        resumeSession(resumeSessionId);
+      } else {
+        startNewSession();
+      }
     }
   }, [isOpen]); // 只依赖 isOpen，避免无限循环
 
   // 当有初始剧本内容时，自动发送到对话框
   const [hasAutoSentScript, setHasAutoSentScript] = useState(false);
 
-  // 组件卸载时清理轮询
-  useEffect(() => {
-    return () => {
-      if (pollingIntervalRef.current) {
-        clearInterval(pollingIntervalRef.current);
-        pollingIntervalRef.current = null;
-      }
-    };
-  }, []);
-
   // 关闭时结束会话
   const handleClose = useCallback(() => {
-    // 清理轮询
-    if (pollingIntervalRef.current) {
-      clearInterval(pollingIntervalRef.current);
-      pollingIntervalRef.current = null;
-    }
     if (sessionId) {
       endSessionMutation.mutate({ sessionId });
     }
@@ -461,19 +478,17 @@ export default function CharacterDesignAssistant({
     setSelectedImages([]);
     setIsGenerating(false);
     setGenerationProgress({ current: 0, total: 0, currentCharacter: '' });
+    // 刷新历史会话列表
+    utils.assistantCharacterDesign.listSessions.invalidate();
     onClose();
-  }, [sessionId, endSessionMutation, onClose]);
+  }, [sessionId, endSessionMutation, onClose, utils]);
 
-  // 轮询生成进度
-  const pollGenerationProgress = useCallback(async () => {
+  // 获取生成进度（收到进度事件时调用）
+  const refreshGenerationProgress = useCallback(async () => {
     if (!sessionId) return;
     
     try {
-      // 使用正确的 tRPC GET 请求格式
-      const input = JSON.stringify({ json: { sessionId } });
-      const response = await fetch(`/api/trpc/assistantCharacterDesign.getGenerationProgress?input=${encodeURIComponent(input)}`);
-      const data = await response.json();
-      const result = data?.result?.data?.json;
+      const result = await utils.assistantCharacterDesign.getGenerationProgress.fetch({ sessionId }, { staleTime: 0 });
       
       if (!result) return;
       
@@ -497,11 +512,7 @@ export default function CharacterDesignAssistant({
       
       // 如果生成完成
       if (result.isCompleted) {
-        // 停止轮询
-        if (pollingIntervalRef.current) {
-          clearInterval(pollingIntervalRef.current);
-          pollingIntervalRef.current = null;
-        }
+        // 停止订阅
         setIsGenerating(false);
         setIsLoading(false);
         
@@ -520,26 +531,33 @@ export default function CharacterDesignAssistant({
         toast.success("角色生成完成！");
       }
     } catch (error) {
-      console.error("轮询生成进度失败:", error);
+      console.error("获取生成进度失败:", error);
     }
-  }, [sessionId]);
-
-  // 开始轮询
-  const startPolling = useCallback(() => {
-    // 清理旧的轮询
-    if (pollingIntervalRef.current) {
-      clearInterval(pollingIntervalRef.current);
+  }, [sessionId, utils]);
+
+  // 生成期间订阅进度事件（SSE），每个事件到达后刷新一次完整进度
+  trpc.assistantCharacterDesign.onProgress.useSubscription(
+    { sessionId: sessionId ?? "" },
+    {
+      enabled: isGenerating && !!sessionId,
+      // 订阅建立前可能已有角色生成完成
+      onStarted: () => {
+        refreshGenerationProgress();
+      },
+      onData: (event) => {
+        if (event.type === "started" && event.label) {
+          setLoadingText(`正在生成角色：${event.label} (${event.current ?? 0}/${event.total ?? 0})`);
+        }
+        refreshGenerationProgress();
+      },
     }
-    
+  );
+
+  // 开始跟踪生成进度
+  const startProgressTracking = useCallback(() => {
     setIsGenerating(true);
     setGenerationProgress({ current: 0, total: 0, currentCharacter: '' });
-    
-    // 立即执行一次
-    pollGenerationProgress();
-    
-    // 每 2 秒轮询一次
-    pollingIntervalRef.current = setInterval(pollGenerationProgress, 2000);
-  }, [pollGenerationProgress]);
+  }, []);
 
   // 发送消息
   const handleSend = useCallback(async () => {
@@ -602,7 +620,7 @@ export default function CharacterDesignAssistant({
         // 开始轮询生成进度
         setLoadingText("正在生成角色图片...");
         setLoadingEstimatedTime(120); // 多个角色需要更长时间
-        startPolling();
+        startProgressTracking();
         return; // 不要设置 isLoading 为 false
       }
     } catch (error: any) {
@@ -621,7 +639,7 @@ export default function CharacterDesignAssistant({
         setIsLoading(false);
       }
     }
-  }, [input, sessionId, isLoading, isGenerating, selectedImages, chatMutation, messages.length, uploadedFiles, startPolling]);
+  }, [input, sessionId, isLoading, isGenerating, selectedImages, chatMutation, messages.length, uploadedFiles, startProgressTracking]);
 
   // 自动发送剧本内容的函数
   const autoSendScriptContent = useCallback(async (scriptContent: string, scriptTitle: string) => {
@@ -690,7 +708,7 @@ ${truncatedContent}${isContentTruncated ? `
       if (result.step === "generating") {
         setLoadingText("正在生成角色图片...");
         setLoadingEstimatedTime(120);
-        startPolling();
+        startProgressTracking();
         return;
       }
     } catch (error: any) {
@@ -707,7 +725,7 @@ ${truncatedContent}${isContentTruncated ? `
         setIsLoading(false);
       }
     }
-  }, [sessionId, isLoading, isGenerating, chatMutation, startPolling]);
+  }, [sessionId, isLoading, isGenerating, chatMutation, startProgressTracking]);
   
   // 监听初始剧本内容，自动发送
   useEffect(() => {
@@ -769,7 +787,7 @@ ${truncatedContent}${isContentTruncated ? `
       if (result.step === "generating") {
         setLoadingText("正在生成角色图片...");
         setLoadingEstimatedTime(120);
-        startPolling();
+        startProgressTracking();
         return;
       }
     } catch (error: any) {
@@ -786,7 +804,7 @@ ${truncatedContent}${isContentTruncated ? `
         setIsLoading(false);
       }
     }
-  }, [sessionId, isLoading, isGenerating, chatMutation, startPolling]);
+  }, [sessionId, isLoading, isGenerating, chatMutation, startProgressTracking]);
 
   // 选择风格 - 直接发送，不需要用户再点击发送按钮
   const handleSelectStyle = useCallback(async (style: StyleData) => {
@@ -827,7 +845,7 @@ ${truncatedContent}${isContentTruncated ? `
       if (result.step === "generating") {
         setLoadingText("正在生成角色图片...");
         setLoadingEstimatedTime(120);
-        startPolling();
+        startProgressTracking();
         return;
       }
     } catch (error: any) {
@@ -844,7 +862,7 @@ ${truncatedContent}${isContentTruncated ? `
         setIsLoading(false);
       }
     }
-  }, [sessionId, isLoading, isGenerating, chatMutation, startPolling]);
+  }, [sessionId, isLoading, isGenerating, chatMutation, startProgressTracking]);
 
   // 下载图片
   const handleDownload = useCallback((url: string, name: string) => {
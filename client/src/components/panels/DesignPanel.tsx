@@ -10,10 +10,13 @@ import {
   User, MapPin, Package, ChevronLeft, ChevronDown, ChevronUp, Upload, Grid, FolderOpen, Edit2, Check, X, Wand2, Trash2
 } from "lucide-react";
 import { trpc } from "@/lib/trpc";
+import { useQueuedMutation } from "@/hooks/useGenerationJob";
 import { toast } from "sonner";
 import { ImageActions } from "@/components/ImageActions";
 import { AssetLibrary } from "@/components/AssetLibrary";
 import CharacterDesignAssistant from "@/components/panels/CharacterDesignAssistant";
+import { CommentBadge } from "@/components/canvas/ReviewComments";
+import { designItemTargetId } from "@shared/comments";
 import { Bot } from "lucide-react";
 
 // 类型定义
@@ -423,7 +426,8 @@ export default function DesignPanel({ canvasId, onClose, onLoadToCanvas, onOpenA
   };
   
   // 生成角色图片（形象场景设计模块）
-  const generateCharacterImageMutation = trpc.basicCreation.generateDesignCharacterImage.useMutation({
+  const generateCharacterImageMutation = useQueuedMutation("basicCreation.generateDesignCharacterImage", {
+    projectId: canvasId,
     onSuccess: (data, variables) => {
       toast.success("角色图片生成成功");
       setGeneratingItems(prev => {
@@ -457,7 +461,8 @@ export default function DesignPanel({ canvasId, onClose, onLoadToCanvas, onOpenA
   });
   
   // 生成场景图片（形象场景设计模块）
-  const generateSceneImageMutation = trpc.basicCreation.generateDesignSceneImage.useMutation({
+  const generateSceneImageMutation = useQueuedMutation("basicCreation.generateDesignSceneImage", {
+    projectId: canvasId,
     onSuccess: (data, variables) => {
       toast.success("场景图片生成成功");
       setGeneratingItems(prev => {
@@ -491,7 +496,8 @@ export default function DesignPanel({ canvasId, onClose, onLoadToCanvas, onOpenA
   });
   
   // 生成道具图片（形象场景设计模块）
-  const generatePropImageMutation = trpc.basicCreation.generateDesignPropImage.useMutation({
+  const generatePropImageMutation = useQueuedMutation("basicCreation.generateDesignPropImage", {
+    projectId: canvasId,
     onSuccess: (data, variables) => {
       toast.success("道具图片生成成功");
       setGeneratingItems(prev => {
@@ -1387,6 +1393,13 @@ export default function DesignPanel({ canvasId, onClose, onLoadToCanvas, onOpenA
                   )}
                 </div>
               </div>
+              {design && (
+                <CommentBadge
+                  targetType="designItem"
+                  targetId={designItemTargetId(design.id, "characters", character.id)}
+                  label={`角色 · ${character.characterName}`}
+                />
+              )}
             </div>
             
             <div className="grid grid-cols-2 gap-x-6 gap-y-2 text-sm">
@@ -1627,6 +1640,13 @@ export default function DesignPanel({ canvasId, onClose, onLoadToCanvas, onOpenA
                   {scene.timeSetting && ` | ${scene.timeSetting}`}
                 </span>
               </div>
+              {design && (
+                <CommentBadge
+                  targetType="designItem"
+                  targetId={designItemTargetId(design.id, "scenes", scene.id)}
+                  label={`场景 · ${scene.sceneName}`}
+                />
+              )}
             </div>
             
             <div className="grid grid-cols-2 gap-x-6 gap-y-2 text-sm">
@@ -1850,9 +1870,18 @@ export default function DesignPanel({ canvasId, onClose, onLoadToCanvas, onOpenA
                   disabled={isDisabled}
                 />
               </div>
-              <span className={`px-2 py-1 rounded text-xs ${hierarchyInfo.color}`}>
-                {hierarchyInfo.label}
-              </span>
+              <div className="flex items-center gap-2">
+                {design && (
+                  <CommentBadge
+                    targetType="designItem"
+                    targetId={designItemTargetId(design.id, "props", prop.id)}
+                    label={`道具 · ${prop.name}`}
+                  />
+                )}
+                <span className={`px-2 py-1 rounded text-xs ${hierarchyInfo.color}`}>
+                  {hierarchyInfo.label}
+                </span>
+              </div>
             </div>
             
             <div className="grid grid-cols-2 gap-x-6 gap-y-2 text-sm">
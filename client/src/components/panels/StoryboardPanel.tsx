@@ -7,9 +7,10 @@
 import { useState, useEffect, useCallback, useRef } from "react";
 import { 
   ChevronLeft, Loader2, Film, Clock, Sparkles, Download, X,
-  Plus, Image, Copy, RefreshCw, Wand2, Play, Upload, FolderOpen, Send, Trash2, Check
+  Plus, Image, Copy, RefreshCw, Wand2, Play, Upload, FolderOpen, Send, Trash2, Check, MessageSquare, Clapperboard
 } from "lucide-react";
 import { trpc } from "@/lib/trpc";
+import { useGenerationJob } from "@/hooks/useGenerationJob";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -20,6 +21,7 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { UploadToLibraryDialog } from "@/components/UploadToLibraryDialog";
+import { CommentBadge, useOpenCommentCount } from "@/components/canvas/ReviewComments";
 
 // ============================================================================
 // 类型定义
@@ -67,6 +69,8 @@ interface StoryboardPanelProps {
   canvasId: number;
   onClose: () => void;
   onSendToCanvas?: (imageUrl: string, name: string) => void;
+  // 把剧本的分镜按顺序排到时间轴上并保持关联
+  onSendToTimeline?: (scriptId: number) => Promise<void>;
 }
 
 interface AddRefDialogState {
@@ -342,7 +346,7 @@ const SketchCanvas = ({ onSketchChange, sketchDescription, onDescriptionChange,
 // 主组件
 // ============================================================================
 
-export default function StoryboardPanel({ canvasId, onClose, onSendToCanvas }: StoryboardPanelProps) {
+export default function StoryboardPanel({ canvasId, onClose, onSendToCanvas, onSendToTimeline }: StoryboardPanelProps) {
   // 状态
   const [selectedScriptId, setSelectedScriptId] = useState<number | null>(null);
   const [shots, setShots] = useState<StoryboardShot[]>([]);
@@ -354,6 +358,7 @@ export default function StoryboardPanel({ canvasId, onClose, onSendToCanvas }: S
   const [isGeneratingImage, setIsGeneratingImage] = useState(false);
   const [imageGenerationProgress, setImageGenerationProgress] = useState({ step: '', progress: 0 });
   const [isGeneratingDynamicPrompt, setIsGeneratingDynamicPrompt] = useState(false);
+  const [isSendingToTimeline, setIsSendingToTimeline] = useState(false);
   
   // 添加参考图弹窗状态
   const [addRefDialog, setAddRefDialog] = useState<AddRefDialogState>({
@@ -401,9 +406,12 @@ export default function StoryboardPanel({ canvasId, onClose, onSendToCanvas }: S
     }
   };
 
-  // 获取用户资产库（根据当前选择的类型过滤）
+  // 分镜列表上显示未解决的评审意见数
+  const openCommentCount = useOpenCommentCount();
+
+  // 获取项目所有者的资产库（根据当前选择的类型过滤），协作成员看到的是同一份
   const { data: assetLibraryItems } = trpc.assetLibrary.list.useQuery(
-    { category: getAssetCategory(addRefDialog.type) as any },
+    { category: getAssetCategory(addRefDialog.type) as any, projectId: canvasId },
     { enabled: addRefDialog.isOpen } // 只在弹窗打开时查询
   );
 
@@ -449,19 +457,8 @@ export default function StoryboardPanel({ canvasId, onClose, onSendToCanvas }: S
   });
 
   // 生成分镜图片（使用完整版API - 自动调用prepareImageGeneration转译参考图编号）
-  const generateImageMutation = trpc.storyboardShot.generateStoryboardImage.useMutation({
-    onSuccess: (data: { imageUrl: string }) => {
-      if (selectedShotId && data.imageUrl) {
-        updateLocalShot(selectedShotId, { generatedImageUrl: data.imageUrl });
-        toast.success("分镜图片生成成功");
-      }
-      setIsGeneratingImage(false);
-    },
-    onError: (error: { message: string }) => {
-      toast.error(`图片生成失败: ${error.message}`);
-      setIsGeneratingImage(false);
-    },
-  });
+  // 通过服务端队列执行，关闭面板或刷新页面不会中断生成
+  const generationJob = useGenerationJob();
 
   // 生成动态提示词
   const generateDynamicPromptMutation = trpc.storyboardShot.generateDynamicPrompt.useMutation({
@@ -787,14 +784,27 @@ export default function StoryboardPanel({ canvasId, onClose, onSendToCanvas }: S
     }, 2000);
     
     // generateStoryboardImage只需要shotId，它会自动调用prepareImageGeneration转译参考图编号
-    generateImageMutation.mutate({
-      shotId: selectedShot.id,
-    }, {
-      onSettled: () => {
+    const shotId = selectedShot.id;
+    generationJob
+      .run<{ imageUrl: string }>({
+        jobType: "storyboardShot.generateStoryboardImage",
+        projectId: canvasId,
+        input: { shotId },
+      })
+      .then(data => {
+        if (data.imageUrl) {
+          updateLocalShot(shotId, { generatedImageUrl: data.imageUrl });
+          toast.success("分镜图片生成成功");
+        }
+      })
+      .catch((error: Error) => {
+        toast.error(`图片生成失败: ${error.message}`);
+      })
+      .finally(() => {
         clearInterval(progressInterval);
         setImageGenerationProgress({ step: '', progress: 0 });
-      }
-    });
+        setIsGeneratingImage(false);
+      });
   };
 
   // 生成动态提示词
@@ -954,6 +964,28 @@ export default function StoryboardPanel({ canvasId, onClose, onSendToCanvas }: S
                   )}
                   生成分镜脚本
                 </button>
+                {onSendToTimeline && (
+                  <button
+                    onClick={async () => {
+                      setIsSendingToTimeline(true);
+                      try {
+                        await onSendToTimeline(selectedScriptId!);
+                      } finally {
+                        setIsSendingToTimeline(false);
+                      }
+                    }}
+                    disabled={!selectedScriptId || shots.length === 0 || isSendingToTimeline}
+                    className="flex items-center gap-1.5 px-3 py-1.5 bg-[#1a1035] border border-purple-900/30 text-white text-sm rounded-lg hover:bg-purple-900/30 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="按镜头顺序和时长排到时间轴，分镜修改后自动同步"
+                  >
+                    {isSendingToTimeline ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <Clapperboard className="w-4 h-4" />
+                    )}
+                    发送到时间轴
+                  </button>
+                )}
               </div>
             </div>
             
@@ -997,6 +1029,12 @@ export default function StoryboardPanel({ canvasId, onClose, onSendToCanvas }: S
                         <span className="text-white font-medium text-sm">
                           #{shot.shotNumber} {shot.title || "未命名"}
                         </span>
+                        {openCommentCount("storyboardShot", String(shot.id)) > 0 && (
+                          <span className="ml-auto flex items-center gap-1 px-1.5 rounded text-[10px] bg-amber-500/20 text-amber-300">
+                            <MessageSquare className="w-3 h-3" />
+                            {openCommentCount("storyboardShot", String(shot.id))}
+                          </span>
+                        )}
                       </div>
                       <div className="flex items-center gap-3 text-xs text-gray-400 ml-4">
                         <span className={`px-1.5 py-0.5 rounded text-white text-[10px] ${shotTypeColors[shot.shotType] || "bg-gray-500"}`}>
@@ -1021,7 +1059,14 @@ export default function StoryboardPanel({ canvasId, onClose, onSendToCanvas }: S
                 <div className="p-4 space-y-4">
                   {/* 模块1：基本信息 */}
                   <section className="bg-black/30 rounded-xl p-4 border border-purple-500/20">
-                    <h4 className="text-sm font-medium text-purple-300 mb-4">基本信息</h4>
+                    <div className="flex items-center justify-between mb-4">
+                      <h4 className="text-sm font-medium text-purple-300">基本信息</h4>
+                      <CommentBadge
+                        targetType="storyboardShot"
+                        targetId={String(selectedShot.id)}
+                        label={`分镜 #${selectedShot.shotNumber} ${selectedShot.title || "未命名"}`}
+                      />
+                    </div>
                     <div className="grid grid-cols-5 gap-4">
                       <div>
                         <Label className="text-xs text-gray-400">场景</Label>
@@ -1,4 +1,4 @@
-import { useState, useRef, useCallback, useEffect } from "react";
+import { useState, useRef, useCallback, useEffect, useMemo } from "react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import {
@@ -18,31 +18,108 @@ import {
   GripVertical,
   ChevronDown,
   ChevronRight,
+  Film,
+  Loader2,
+  Link2,
+  Captions,
+  Plus,
+  Download,
+  Mic,
 } from "lucide-react";
 import { toast } from "sonner";
+import { trpc } from "@/lib/trpc";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  DEFAULT_IMAGE_DURATION,
+  subtitleEnd,
+  trackEnd,
+  type TimelineClip,
+  type TimelineData,
+  type TimelineMediaType,
+  type TimelineSubtitle,
+  type TimelineTrack,
+} from "@shared/timeline";
+import {
+  SUBTITLE_FORMATS,
+  SUBTITLE_FORMAT_LABELS,
+  SUBTITLE_MIME_TYPES,
+  formatSubtitles,
+  type SubtitleFormat,
+} from "@shared/subtitles";
 
-// 素材类型
-export interface TimelineClip {
-  id: string;
-  type: "image" | "video" | "audio";
-  name: string;
-  url: string;
-  startTime: number; // 在轨道上的开始时间（秒）
-  duration: number; // 素材时长（秒）
-  trimStart: number; // 裁剪开始点（秒）
-  trimEnd: number; // 裁剪结束点（秒）
-  thumbnail?: string; // 缩略图
-}
+export type { TimelineClip } from "@shared/timeline";
 
 interface TimelineProps {
+  projectId: number;
+  // 时间轴数据由画布持有，随 workflowData 一起加载和保存
+  value: TimelineData;
+  onChange: (timeline: TimelineData) => void;
+  // 只读成员可以浏览和播放，不能编辑
+  readOnly?: boolean;
   onExport?: (clips: { video: TimelineClip[]; audio: TimelineClip[] }) => void;
+  // 为关联的分镜生成对白配音，没有关联分镜时不显示
+  onVoiceover?: () => void;
   show?: boolean; // 外部控制显示/隐藏
 }
 
-export default function Timeline({ onExport, show }: TimelineProps) {
+function createClipId(prefix = "clip") {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// 手动添加的字幕默认显示 3 秒
+const DEFAULT_SUBTITLE_DURATION = 3;
+
+function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(",")[1] ?? "");
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+// 读取本地音频 / 视频文件的时长
+function readMediaDuration(file: File, type: "audio" | "video"): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const media = type === "audio" ? new Audio() : document.createElement("video");
+    media.preload = "metadata";
+    media.addEventListener("loadedmetadata", () => {
+      URL.revokeObjectURL(url);
+      resolve(Number.isFinite(media.duration) && media.duration > 0 ? media.duration : 10);
+    });
+    media.addEventListener("error", () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(type === "audio" ? "无法加载音频文件" : "无法加载视频文件"));
+    });
+    media.src = url;
+  });
+}
+
+export default function Timeline({ projectId, value, onChange, readOnly = false, onExport, onVoiceover, show }: TimelineProps) {
   // 轨道数据
-  const [videoClips, setVideoClips] = useState<TimelineClip[]>([]);
-  const [audioClips, setAudioClips] = useState<TimelineClip[]>([]);
+  const videoClips = useMemo(() => value.clips.filter(clip => clip.track === "video"), [value.clips]);
+  const audioClips = useMemo(() => value.clips.filter(clip => clip.track === "audio"), [value.clips]);
+  // 上传完成等异步回调中基于最新的片段修改
+  const valueRef = useRef(value);
+  valueRef.current = value;
+  const updateClips = useCallback(
+    (update: (clips: TimelineClip[]) => TimelineClip[]) => {
+      onChange({ ...valueRef.current, clips: update(valueRef.current.clips) });
+    },
+    [onChange]
+  );
+  const updateSubtitles = useCallback(
+    (update: (subtitles: TimelineSubtitle[]) => TimelineSubtitle[]) => {
+      onChange({ ...valueRef.current, subtitles: update(valueRef.current.subtitles) });
+    },
+    [onChange]
+  );
   
   // 播放状态
   const [isPlaying, setIsPlaying] = useState(false);
@@ -51,13 +128,15 @@ export default function Timeline({ onExport, show }: TimelineProps) {
   
   // 缩放和选择
   const [zoom, setZoom] = useState(1); // 1 = 100%
+  // 选中的片段或字幕（两者 id 不重复）
   const [selectedClip, setSelectedClip] = useState<string | null>(null);
+  // 正在编辑文字的字幕
+  const [editingSubtitleId, setEditingSubtitleId] = useState<string | null>(null);
   const [isMuted, setIsMuted] = useState(false);
   
   // 拖拽状态
   const [isDragging, setIsDragging] = useState(false);
   const [dragClip, setDragClip] = useState<TimelineClip | null>(null);
-  const [dragTrack, setDragTrack] = useState<"video" | "audio" | null>(null);
   
   // 裁剪状态
   const [isResizing, setIsResizing] = useState(false);
@@ -66,7 +145,9 @@ export default function Timeline({ onExport, show }: TimelineProps) {
   
   // 外部拖入状态
   const [isDragOver, setIsDragOver] = useState(false);
-  const [dragOverTrack, setDragOverTrack] = useState<"video" | "audio" | null>(null);
+  const [dragOverTrack, setDragOverTrack] = useState<TimelineTrack | null>(null);
+  // 正在上传的素材数
+  const [uploadingCount, setUploadingCount] = useState(0);
   
   // 时间轴整体显示/隐藏状态（由外部控制）
   const showTimeline = show ?? false;
@@ -76,15 +157,31 @@ export default function Timeline({ onExport, show }: TimelineProps) {
   const mediaInputRef = useRef<HTMLInputElement>(null);
   const audioElementsRef = useRef<Map<string, HTMLAudioElement>>(new Map());
 
+  // 片段引用的素材地址
+  const utils = trpc.useUtils();
+  const { data: assets = [] } = trpc.asset.list.useQuery(
+    { projectId },
+    { enabled: projectId > 0 && (showTimeline || value.clips.length > 0) }
+  );
+  const assetUrls = useMemo(() => new Map(assets.map(asset => [asset.id, asset.url])), [assets]);
+  const assetUrl = useCallback((clip: TimelineClip) => assetUrls.get(clip.assetId) ?? "", [assetUrls]);
+
+  const assetOptions = {
+    onSuccess: () => utils.asset.list.invalidate({ projectId }),
+  };
+  const importMedia = trpc.timeline.importMedia.useMutation(assetOptions);
+  const uploadMedia = trpc.timeline.upload.useMutation(assetOptions);
+
   // 计算总时长
   useEffect(() => {
     const videoEnd = videoClips.reduce((max, clip) => 
       Math.max(max, clip.startTime + (clip.trimEnd - clip.trimStart)), 0);
     const audioEnd = audioClips.reduce((max, clip) => 
       Math.max(max, clip.startTime + (clip.trimEnd - clip.trimStart)), 0);
-    const maxEnd = Math.max(videoEnd, audioEnd, 60);
+    const subtitlesEnd = value.subtitles.reduce((max, subtitle) => Math.max(max, subtitleEnd(subtitle)), 0);
+    const maxEnd = Math.max(videoEnd, audioEnd, subtitlesEnd, 60);
     setTotalDuration(Math.ceil(maxEnd / 10) * 10 + 10);
-  }, [videoClips, audioClips]);
+  }, [videoClips, audioClips, value.subtitles]);
 
   // 时间转像素
   const timeToPixels = useCallback((time: number) => {
@@ -138,7 +235,10 @@ export default function Timeline({ onExport, show }: TimelineProps) {
       let audio = audioElementsRef.current.get(clip.id);
       
       if (!audio) {
-        audio = new Audio(clip.url);
+        // 素材列表加载完成后再创建
+        const url = assetUrl(clip);
+        if (!url) return;
+        audio = new Audio(url);
         audio.preload = 'auto';
         audioElementsRef.current.set(clip.id, audio);
       }
@@ -165,7 +265,7 @@ export default function Timeline({ onExport, show }: TimelineProps) {
         audioElementsRef.current.delete(id);
       }
     });
-  }, [currentTime, isPlaying, audioClips, isMuted]);
+  }, [currentTime, isPlaying, audioClips, isMuted, assetUrl]);
 
   // 组件卸载时清理音频
   useEffect(() => {
@@ -186,11 +286,7 @@ export default function Timeline({ onExport, show }: TimelineProps) {
 
   // 跳转到结束
   const skipToEnd = () => {
-    const videoEnd = videoClips.reduce((max, clip) => 
-      Math.max(max, clip.startTime + (clip.trimEnd - clip.trimStart)), 0);
-    const audioEnd = audioClips.reduce((max, clip) => 
-      Math.max(max, clip.startTime + (clip.trimEnd - clip.trimStart)), 0);
-    setCurrentTime(Math.max(videoEnd, audioEnd));
+    setCurrentTime(Math.max(trackEnd(value.clips, "video"), trackEnd(value.clips, "audio")));
     setIsPlaying(false);
   };
 
@@ -200,13 +296,78 @@ export default function Timeline({ onExport, show }: TimelineProps) {
 
   // 删除选中素材
   const deleteSelected = () => {
-    if (!selectedClip) return;
-    setVideoClips(prev => prev.filter(c => c.id !== selectedClip));
-    setAudioClips(prev => prev.filter(c => c.id !== selectedClip));
+    if (!selectedClip || readOnly) return;
+    if (value.subtitles.some(subtitle => subtitle.id === selectedClip)) {
+      updateSubtitles(prev => prev.filter(subtitle => subtitle.id !== selectedClip));
+      setSelectedClip(null);
+      toast.success("字幕已删除");
+      return;
+    }
+    updateClips(prev => prev.filter(c => c.id !== selectedClip));
     setSelectedClip(null);
     toast.success("素材已删除");
   };
 
+  // 在播放头位置添加一条字幕并进入编辑
+  const addSubtitle = () => {
+    const subtitle: TimelineSubtitle = {
+      id: createClipId("subtitle"),
+      startTime: currentTime,
+      duration: DEFAULT_SUBTITLE_DURATION,
+      text: "",
+    };
+    updateSubtitles(prev => [...prev, subtitle]);
+    setSelectedClip(subtitle.id);
+    setEditingSubtitleId(subtitle.id);
+  };
+
+  // 结束编辑；清空文字即删除，关联分镜的字幕改过文字后同步分镜时保留
+  const commitSubtitleText = (subtitle: TimelineSubtitle, text: string) => {
+    setEditingSubtitleId(null);
+    if (text === subtitle.text) return;
+    updateSubtitles(prev =>
+      text.trim()
+        ? prev.map(s => (s.id === subtitle.id ? { ...s, text, ...(s.shotId !== undefined ? { edited: true } : {}) } : s))
+        : prev.filter(s => s.id !== subtitle.id)
+    );
+  };
+
+  // 拖动字幕（move）或拖动右边缘调整时长（resize）
+  const startSubtitleDrag = (e: React.MouseEvent, subtitle: TimelineSubtitle, mode: "move" | "resize") => {
+    e.stopPropagation();
+    setSelectedClip(subtitle.id);
+    if (readOnly || editingSubtitleId === subtitle.id) return;
+    const originX = e.clientX;
+    const handleMove = (moveEvent: MouseEvent) => {
+      const delta = pixelsToTime(moveEvent.clientX - originX);
+      updateSubtitles(prev =>
+        prev.map(s => {
+          if (s.id !== subtitle.id) return s;
+          return mode === "move"
+            ? { ...s, startTime: Math.max(0, subtitle.startTime + delta) }
+            : { ...s, duration: Math.max(0.2, subtitle.duration + delta) };
+        })
+      );
+    };
+    const handleUp = () => {
+      document.removeEventListener("mousemove", handleMove);
+      document.removeEventListener("mouseup", handleUp);
+    };
+    document.addEventListener("mousemove", handleMove);
+    document.addEventListener("mouseup", handleUp);
+  };
+
+  // 导出字幕文件
+  const exportSubtitles = (format: SubtitleFormat) => {
+    const blob = new Blob([formatSubtitles(value.subtitles, format)], { type: `${SUBTITLE_MIME_TYPES[format]};charset=utf-8` });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `字幕.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   // 处理轨道点击（设置播放头位置）
   const handleTimelineClick = (e: React.MouseEvent) => {
     if (isDragging || isResizing) return;
@@ -218,17 +379,17 @@ export default function Timeline({ onExport, show }: TimelineProps) {
   };
 
   // 处理素材拖拽开始
-  const handleClipDragStart = (e: React.MouseEvent, clip: TimelineClip, track: "video" | "audio") => {
+  const handleClipDragStart = (e: React.MouseEvent, clip: TimelineClip) => {
     e.stopPropagation();
+    setSelectedClip(clip.id);
+    if (readOnly) return;
     setIsDragging(true);
     setDragClip(clip);
-    setDragTrack(track);
-    setSelectedClip(clip.id);
   };
 
   // 处理素材拖拽
   const handleClipDrag = (e: React.MouseEvent) => {
-    if (!isDragging || !dragClip || !dragTrack) return;
+    if (!isDragging || !dragClip) return;
     
     const rect = timelineRef.current?.getBoundingClientRect();
     if (!rect) return;
@@ -236,27 +397,21 @@ export default function Timeline({ onExport, show }: TimelineProps) {
     const x = e.clientX - rect.left + (timelineRef.current?.scrollLeft || 0);
     const newStartTime = Math.max(0, pixelsToTime(x) - (dragClip.trimEnd - dragClip.trimStart) / 2);
     
-    if (dragTrack === "video") {
-      setVideoClips(prev => prev.map(c => 
-        c.id === dragClip.id ? { ...c, startTime: newStartTime } : c
-      ));
-    } else {
-      setAudioClips(prev => prev.map(c => 
-        c.id === dragClip.id ? { ...c, startTime: newStartTime } : c
-      ));
-    }
+    updateClips(prev => prev.map(c => 
+      c.id === dragClip.id ? { ...c, startTime: newStartTime } : c
+    ));
   };
 
   // 处理素材拖拽结束
   const handleClipDragEnd = () => {
     setIsDragging(false);
     setDragClip(null);
-    setDragTrack(null);
   };
 
   // 处理素材裁剪开始
   const handleResizeStart = (e: React.MouseEvent, clipId: string, edge: "left" | "right") => {
     e.stopPropagation();
+    if (readOnly) return;
     setIsResizing(true);
     setResizeEdge(edge);
     setResizeClipId(clipId);
@@ -293,8 +448,7 @@ export default function Timeline({ onExport, show }: TimelineProps) {
       }
     });
     
-    setVideoClips(prev => updateClip(prev));
-    setAudioClips(prev => updateClip(prev));
+    updateClips(updateClip);
   };
 
   // 处理素材裁剪结束
@@ -305,9 +459,10 @@ export default function Timeline({ onExport, show }: TimelineProps) {
   };
 
   // 处理外部拖入 - dragover
-  const handleDragOver = (e: React.DragEvent, track: "video" | "audio") => {
+  const handleDragOver = (e: React.DragEvent, track: TimelineTrack) => {
     e.preventDefault();
     e.stopPropagation();
+    if (readOnly) return;
     setIsDragOver(true);
     setDragOverTrack(track);
   };
@@ -319,12 +474,33 @@ export default function Timeline({ onExport, show }: TimelineProps) {
     setDragOverTrack(null);
   };
 
+  // 素材登记完成后加入轨道
+  const addClip = (clip: Omit<TimelineClip, "id" | "startTime"> & { startTime?: number }) => {
+    updateClips(prev => [
+      ...prev,
+      { ...clip, id: createClipId(), startTime: clip.startTime ?? trackEnd(prev, clip.track) },
+    ]);
+  };
+
+  // 上传本地文件为项目素材
+  const withUploading = async (task: () => Promise<void>) => {
+    setUploadingCount(count => count + 1);
+    try {
+      await task();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "上传失败");
+    } finally {
+      setUploadingCount(count => count - 1);
+    }
+  };
+
   // 处理外部拖入 - drop（从画布拖入图片/视频）
-  const handleDrop = (e: React.DragEvent, track: "video" | "audio") => {
+  const handleDrop = (e: React.DragEvent, track: TimelineTrack) => {
     e.preventDefault();
     e.stopPropagation();
     setIsDragOver(false);
     setDragOverTrack(null);
+    if (readOnly) return;
 
     // 获取拖入的数据
     const dataStr = e.dataTransfer.getData("application/json");
@@ -333,26 +509,19 @@ export default function Timeline({ onExport, show }: TimelineProps) {
         const data = JSON.parse(dataStr);
         if (data.type === "canvas-media") {
           // 从画布拖入的素材
+          if (track !== "video" || !data.url) return;
           const rect = timelineRef.current?.getBoundingClientRect();
           const x = rect ? e.clientX - rect.left + (timelineRef.current?.scrollLeft || 0) : 0;
-          const startTime = pixelsToTime(x);
-          
-          const newClip: TimelineClip = {
-            id: `clip-${Date.now()}`,
-            type: data.mediaType || "image",
-            name: data.name || (data.mediaType === "video" ? "视频素材" : "图片素材"),
-            url: data.url || "",
-            startTime: Math.max(0, startTime),
-            duration: data.mediaType === "video" ? 10 : 5,
-            trimStart: 0,
-            trimEnd: data.mediaType === "video" ? 10 : 5,
-            thumbnail: data.thumbnail || data.url,
-          };
-
-          if (track === "video") {
-            setVideoClips(prev => [...prev, newClip]);
-          }
-          toast.success(`已添加${data.mediaType === "video" ? "视频" : "图片"}到轨道`);
+          const startTime = Math.max(0, pixelsToTime(x));
+          const mediaType: TimelineMediaType = data.mediaType === "video" ? "video" : "image";
+          const name = data.name || (mediaType === "video" ? "视频素材" : "图片素材");
+          const duration = mediaType === "video" ? 10 : DEFAULT_IMAGE_DURATION;
+
+          void withUploading(async () => {
+            const asset = await importMedia.mutateAsync({ projectId, type: mediaType, url: data.url, name });
+            addClip({ track, assetId: asset.id, type: mediaType, name, startTime, duration, trimStart: 0, trimEnd: duration });
+            toast.success(`已添加${mediaType === "video" ? "视频" : "图片"}到轨道`);
+          });
           return;
         }
       } catch (err) {
@@ -373,85 +542,37 @@ export default function Timeline({ onExport, show }: TimelineProps) {
     }
   };
 
+  const uploadFile = async (file: File, type: TimelineMediaType) => {
+    return uploadMedia.mutateAsync({
+      projectId,
+      type,
+      fileName: file.name,
+      mimeType: file.type,
+      data: await readFileAsBase64(file),
+    });
+  };
+
   // 添加音频文件
   const addAudioFile = (file: File) => {
-    const url = URL.createObjectURL(file);
-    const audio = new Audio(url);
-    
-    audio.addEventListener("loadedmetadata", () => {
-      const duration = audio.duration || 10;
-      const startTime = audioClips.reduce((max, c) => 
-        Math.max(max, c.startTime + (c.trimEnd - c.trimStart)), 0);
-      
-      const newClip: TimelineClip = {
-        id: `clip-${Date.now()}`,
-        type: "audio",
-        name: file.name,
-        url,
-        startTime,
-        duration,
-        trimStart: 0,
-        trimEnd: duration,
-      };
-      
-      setAudioClips(prev => [...prev, newClip]);
+    void withUploading(async () => {
+      const duration = await readMediaDuration(file, "audio");
+      const asset = await uploadFile(file, "audio");
+      addClip({ track: "audio", assetId: asset.id, type: "audio", name: file.name, duration, trimStart: 0, trimEnd: duration });
       toast.success(`已添加音频: ${file.name}`);
     });
-
-    audio.addEventListener("error", () => {
-      toast.error("无法加载音频文件");
-    });
   };
 
   // 添加图片/视频文件
   const addMediaFile = (file: File) => {
-    const url = URL.createObjectURL(file);
     const isVideo = file.type.startsWith("video/");
-    
-    if (isVideo) {
-      const video = document.createElement("video");
-      video.src = url;
-      video.addEventListener("loadedmetadata", () => {
-        const duration = video.duration || 10;
-        const startTime = videoClips.reduce((max, c) => 
-          Math.max(max, c.startTime + (c.trimEnd - c.trimStart)), 0);
-        
-        const newClip: TimelineClip = {
-          id: `clip-${Date.now()}`,
-          type: "video",
-          name: file.name,
-          url,
-          startTime,
-          duration,
-          trimStart: 0,
-          trimEnd: duration,
-          thumbnail: url,
-        };
-        
-        setVideoClips(prev => [...prev, newClip]);
-        toast.success(`已添加视频: ${file.name}`);
-      });
-    } else {
-      const startTime = videoClips.reduce((max, c) => 
-        Math.max(max, c.startTime + (c.trimEnd - c.trimStart)), 0);
-      
+    void withUploading(async () => {
       // 图片默认时长设为 5 秒
-      const defaultDuration = 5;
-      const newClip: TimelineClip = {
-        id: `clip-${Date.now()}`,
-        type: "image",
-        name: file.name,
-        url,
-        startTime,
-        duration: defaultDuration,
-        trimStart: 0,
-        trimEnd: defaultDuration,
-        thumbnail: url,
-      };
-      
-      setVideoClips(prev => [...prev, newClip]);
-      toast.success(`已添加图片: ${file.name}`);
-    }
+      const duration = isVideo ? await readMediaDuration(file, "video") : DEFAULT_IMAGE_DURATION;
+      const type: TimelineMediaType = isVideo ? "video" : "image";
+      const asset = await uploadFile(file, type);
+      addClip({ track: "video", assetId: asset.id, type, name: file.name, duration, trimStart: 0, trimEnd: duration });
+      toast.success(`已添加${isVideo ? "视频" : "图片"}: ${file.name}`);
+    });
   };
 
   // 处理图片/视频上传按钮点击
@@ -519,83 +640,152 @@ export default function Timeline({ onExport, show }: TimelineProps) {
   };
 
   // 渲染素材片段
-  const renderClip = (clip: TimelineClip, track: "video" | "audio") => {
+  const renderClip = (clip: TimelineClip, track: TimelineTrack) => {
     const clipDuration = clip.trimEnd - clip.trimStart;
     const width = timeToPixels(clipDuration);
     const left = timeToPixels(clip.startTime);
     const isSelected = selectedClip === clip.id;
+    const url = assetUrl(clip);
     
     return (
       <div
         key={clip.id}
         className={cn(
-          "absolute top-1 bottom-1 rounded cursor-move transition-all group overflow-hidden",
+          "absolute top-1 bottom-1 rounded transition-all group overflow-hidden",
+          readOnly ? "cursor-pointer" : "cursor-move",
           track === "audio" && "bg-gradient-to-r from-emerald-600/80 to-cyan-600/80",
           isSelected && "ring-2 ring-white ring-offset-1 ring-offset-transparent"
         )}
         style={{ left, width: Math.max(width, 80) }} // 最小宽度 80px 确保可见
-        onMouseDown={(e) => handleClipDragStart(e, clip, track)}
+        onMouseDown={(e) => handleClipDragStart(e, clip)}
         onClick={(e) => {
           e.stopPropagation();
           setSelectedClip(clip.id);
         }}
       >
         {/* 图片/视频铺满背景（参考剪映） */}
-        {track === "video" && (clip.thumbnail || clip.url) && (
+        {track === "video" && url && (
           <div className="absolute inset-0">
-            <img 
-              src={clip.thumbnail || clip.url} 
-              alt="" 
-              className="w-full h-full object-cover"
-            />
+            {clip.type === "video" ? (
+              <video src={url} muted preload="metadata" className="w-full h-full object-cover" />
+            ) : (
+              <img 
+                src={url} 
+                alt="" 
+                className="w-full h-full object-cover"
+              />
+            )}
             {/* 渐变遮罩确保文字可见 */}
             <div className="absolute inset-0 bg-gradient-to-r from-black/60 via-transparent to-black/60" />
           </div>
         )}
         
         {/* 图片/视频无缩略图时的默认背景 */}
-        {track === "video" && !clip.thumbnail && !clip.url && (
+        {track === "video" && !url && (
           <div className="absolute inset-0 bg-gradient-to-r from-purple-600/80 to-pink-600/80" />
         )}
         
         {/* 左边裁剪手柄 */}
-        <div
+        {!readOnly && <div
           className="absolute left-0 top-0 bottom-0 w-3 cursor-ew-resize hover:bg-white/30 rounded-l flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity z-10"
           onMouseDown={(e) => handleResizeStart(e, clip.id, "left")}
         >
           <GripVertical className="w-3 h-3 text-white/70" />
-        </div>
+        </div>}
         
         {/* 素材内容 */}
         <div className="relative px-2 py-1 truncate text-xs text-white select-none flex items-center h-full z-[1]">
           {clip.type === "audio" && <Music className="w-3 h-3 mr-1 flex-shrink-0" />}
+          {clip.shotId !== undefined && (
+            <span title="关联分镜，随分镜的时长和图片同步" className="flex-shrink-0 mr-1">
+              <Link2 className="w-3 h-3" />
+            </span>
+          )}
           <span className="truncate font-medium drop-shadow-md">{clip.name}</span>
+          {clip.transition && clip.transition !== "切入" && (
+            <span className="ml-1 flex-shrink-0 rounded bg-black/40 px-1 text-[10px]">{clip.transition}</span>
+          )}
         </div>
         
         {/* 右边裁剪手柄 */}
-        <div
+        {!readOnly && <div
           className="absolute right-0 top-0 bottom-0 w-3 cursor-ew-resize hover:bg-white/30 rounded-r flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity z-10"
           onMouseDown={(e) => handleResizeStart(e, clip.id, "right")}
         >
           <GripVertical className="w-3 h-3 text-white/70" />
-        </div>
+        </div>}
 
         {/* 删除按钮 */}
-        <button
-          className="absolute -top-2 -right-2 w-5 h-5 bg-red-500 rounded-full flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity hover:bg-red-600 z-20"
-          onClick={(e) => {
-            e.stopPropagation();
-            if (track === "video") {
-              setVideoClips(prev => prev.filter(c => c.id !== clip.id));
-            } else {
-              setAudioClips(prev => prev.filter(c => c.id !== clip.id));
-            }
-            if (selectedClip === clip.id) setSelectedClip(null);
-            toast.success("素材已删除");
-          }}
-        >
-          <Trash2 className="w-3 h-3 text-white" />
-        </button>
+        {!readOnly && (
+          <button
+            className="absolute -top-2 -right-2 w-5 h-5 bg-red-500 rounded-full flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity hover:bg-red-600 z-20"
+            onClick={(e) => {
+              e.stopPropagation();
+              updateClips(prev => prev.filter(c => c.id !== clip.id));
+              if (selectedClip === clip.id) setSelectedClip(null);
+              toast.success("素材已删除");
+            }}
+          >
+            <Trash2 className="w-3 h-3 text-white" />
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  // 渲染字幕
+  const renderSubtitle = (subtitle: TimelineSubtitle) => {
+    const isSelected = selectedClip === subtitle.id;
+    const isEditing = editingSubtitleId === subtitle.id;
+
+    return (
+      <div
+        key={subtitle.id}
+        className={cn(
+          "absolute top-1 bottom-1 rounded group bg-amber-600/70",
+          readOnly ? "cursor-pointer" : "cursor-move",
+          isSelected && "ring-2 ring-white ring-offset-1 ring-offset-transparent",
+          isEditing && "z-30"
+        )}
+        style={{ left: timeToPixels(subtitle.startTime), width: Math.max(timeToPixels(subtitle.duration), 24) }}
+        onMouseDown={(e) => startSubtitleDrag(e, subtitle, "move")}
+        onClick={(e) => e.stopPropagation()}
+        onDoubleClick={() => !readOnly && setEditingSubtitleId(subtitle.id)}
+        title={readOnly ? subtitle.text : "双击编辑字幕"}
+      >
+        <div className="px-2 h-full flex items-center text-xs text-white select-none overflow-hidden">
+          {subtitle.shotId !== undefined && <Link2 className="w-3 h-3 mr-1 flex-shrink-0" />}
+          <span className="truncate">{subtitle.text.replace(/\n/g, " / ") || "（空字幕）"}</span>
+        </div>
+
+        {/* 编辑文字：Enter 确认，Shift+Enter 换行，Esc 取消 */}
+        {isEditing && (
+          <textarea
+            autoFocus
+            defaultValue={subtitle.text}
+            rows={3}
+            className="absolute bottom-full left-0 mb-1 w-64 rounded border border-amber-500 bg-black/90 p-1.5 text-xs text-white outline-none"
+            onMouseDown={(e) => e.stopPropagation()}
+            onBlur={(e) => commitSubtitleText(subtitle, e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault();
+                commitSubtitleText(subtitle, e.currentTarget.value);
+              } else if (e.key === "Escape") {
+                setEditingSubtitleId(null);
+                if (!subtitle.text) updateSubtitles(prev => prev.filter(s => s.id !== subtitle.id));
+              }
+            }}
+          />
+        )}
+
+        {/* 右边调整时长手柄 */}
+        {!readOnly && !isEditing && (
+          <div
+            className="absolute right-0 top-0 bottom-0 w-2 cursor-ew-resize hover:bg-white/30 rounded-r opacity-0 group-hover:opacity-100 transition-opacity"
+            onMouseDown={(e) => startSubtitleDrag(e, subtitle, "resize")}
+          />
+        )}
       </div>
     );
   };
@@ -607,7 +797,7 @@ export default function Timeline({ onExport, show }: TimelineProps) {
 
   return (
     <div 
-      className="bg-black/80 backdrop-blur-sm border-t border-purple-500/30 flex flex-col transition-all duration-300 h-56"
+      className="bg-black/80 backdrop-blur-sm border-t border-purple-500/30 flex flex-col transition-all duration-300 h-60"
       onMouseMove={(e) => {
         if (isDragging) handleClipDrag(e);
         if (isResizing) handleResize(e);
@@ -658,7 +848,8 @@ export default function Timeline({ onExport, show }: TimelineProps) {
         </div>
         
         {/* 中间：上传按钮 */}
-        <div className="flex items-center gap-2 text-xs">
+        {!readOnly && <div className="flex items-center gap-2 text-xs">
+          {uploadingCount > 0 && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
           <Button 
             variant="outline" 
             size="sm" 
@@ -677,7 +868,27 @@ export default function Timeline({ onExport, show }: TimelineProps) {
             <Music className="w-4 h-4 mr-1.5" />
             上传音频
           </Button>
-        </div>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 text-xs bg-gradient-to-r from-amber-500/20 to-purple-500/20 border-amber-500/50 text-amber-400 hover:bg-amber-500/30 hover:text-amber-300 hover:border-amber-400"
+            onClick={addSubtitle}
+          >
+            <Plus className="w-4 h-4 mr-1.5" />
+            添加字幕
+          </Button>
+          {onVoiceover && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8 text-xs bg-gradient-to-r from-emerald-500/20 to-cyan-500/20 border-emerald-500/50 text-emerald-400 hover:bg-emerald-500/30 hover:text-emerald-300 hover:border-emerald-400"
+              onClick={onVoiceover}
+            >
+              <Mic className="w-4 h-4 mr-1.5" />
+              生成配音
+            </Button>
+          )}
+        </div>}
         
         {/* 右侧：工具 */}
         <div className="flex items-center gap-1 mr-16">
@@ -694,10 +905,42 @@ export default function Timeline({ onExport, show }: TimelineProps) {
             size="icon" 
             className="h-7 w-7"
             onClick={deleteSelected}
-            disabled={!selectedClip}
+            disabled={!selectedClip || readOnly}
           >
             <Trash2 className="w-4 h-4" />
           </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                disabled={value.subtitles.length === 0}
+                title="导出字幕"
+              >
+                <Download className="w-4 h-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {SUBTITLE_FORMATS.map(format => (
+                <DropdownMenuItem key={format} onClick={() => exportSubtitles(format)}>
+                  导出 {SUBTITLE_FORMAT_LABELS[format]}（.{format}）
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          {onExport && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => onExport({ video: videoClips, audio: audioClips })}
+              disabled={videoClips.length === 0}
+              title="合成视频"
+            >
+              <Film className="w-4 h-4" />
+            </Button>
+          )}
           <div className="w-px h-4 bg-purple-500/30 mx-1" />
           <Button variant="ghost" size="icon" className="h-7 w-7" onClick={zoomOut}>
             <ZoomOut className="w-4 h-4" />
@@ -723,10 +966,14 @@ export default function Timeline({ onExport, show }: TimelineProps) {
               <Video className="w-3 h-3 text-purple-400 mr-1" />
               <span className="text-purple-400">主轨道</span>
             </div>
-            <div className="h-16 flex items-center px-2 text-xs">
+            <div className="h-16 flex items-center px-2 text-xs border-b border-purple-500/10">
               <Music className="w-3 h-3 text-emerald-400 mr-1" />
               <span className="text-emerald-400">音频</span>
             </div>
+            <div className="h-10 flex items-center px-2 text-xs">
+              <Captions className="w-3 h-3 text-amber-400 mr-1" />
+              <span className="text-amber-400">字幕</span>
+            </div>
           </div>
           
           {/* 时间轴内容 */}
@@ -758,7 +1005,7 @@ export default function Timeline({ onExport, show }: TimelineProps) {
               >
                 {videoClips.length === 0 && !isDragOver && (
                   <div className="absolute inset-0 flex items-center justify-center text-xs text-muted-foreground/50">
-                    点击上方"上传图片/视频"添加素材
+                    {readOnly ? "暂无素材" : '点击上方"上传图片/视频"添加素材'}
                   </div>
                 )}
                 {isDragOver && dragOverTrack === "video" && (
@@ -772,7 +1019,7 @@ export default function Timeline({ onExport, show }: TimelineProps) {
               {/* 音频轨道 */}
               <div 
                 className={cn(
-                  "h-16 relative transition-all",
+                  "h-16 relative border-b border-purple-500/10 transition-all",
                   isDragOver && dragOverTrack === "audio" 
                     ? "bg-emerald-500/30 border-emerald-500" 
                     : "bg-emerald-950/20"
@@ -783,7 +1030,7 @@ export default function Timeline({ onExport, show }: TimelineProps) {
               >
                 {audioClips.length === 0 && !isDragOver && (
                   <div className="absolute inset-0 flex items-center justify-center text-xs text-muted-foreground/50">
-                    点击上方"上传音频"添加音频
+                    {readOnly ? "暂无音频" : '点击上方"上传音频"添加音频'}
                   </div>
                 )}
                 {isDragOver && dragOverTrack === "audio" && (
@@ -793,6 +1040,16 @@ export default function Timeline({ onExport, show }: TimelineProps) {
                 )}
                 {audioClips.map(clip => renderClip(clip, "audio"))}
               </div>
+
+              {/* 字幕轨道 */}
+              <div className="h-10 relative bg-amber-950/20">
+                {value.subtitles.length === 0 && (
+                  <div className="absolute inset-0 flex items-center justify-center text-xs text-muted-foreground/50">
+                    {readOnly ? "暂无字幕" : '点击上方"添加字幕"，或从分镜面板发送到时间轴生成对白字幕'}
+                  </div>
+                )}
+                {value.subtitles.map(renderSubtitle)}
+              </div>
               
               {/* 播放头 - 增大可点击区域 */}
               <div
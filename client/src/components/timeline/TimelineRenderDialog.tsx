@@ -0,0 +1,272 @@
+import { useState } from "react";
+import { Download, Film, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useGenerationJob } from "@/hooks/useGenerationJob";
+import { trpc } from "@/lib/trpc";
+import {
+  TIMELINE_RENDER_ASPECT_RATIOS,
+  TIMELINE_RENDER_RESOLUTIONS,
+  timelineDuration,
+  timelineRenderSize,
+  type TimelineClip,
+  type TimelineRenderAspectRatio,
+  type TimelineRenderResolution,
+  type TimelineSubtitle,
+} from "@shared/timeline";
+import {
+  DEFAULT_SUBTITLE_STYLE,
+  SUBTITLE_FONTS,
+  type SubtitlePosition,
+  type SubtitleStyle,
+} from "@shared/subtitles";
+import type { TimelineRenderResult } from "../../../../server/timelineRender";
+
+interface TimelineRenderDialogProps {
+  projectId: number;
+  clips: TimelineClip[];
+  subtitles: TimelineSubtitle[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const POSITION_LABELS: Record<SubtitlePosition, string> = {
+  bottom: "底部",
+  top: "顶部",
+};
+
+// 烧录字幕的字体和样式
+function SubtitleStyleFields({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: SubtitleStyle;
+  onChange: (style: SubtitleStyle) => void;
+  disabled: boolean;
+}) {
+  const set = <K extends keyof SubtitleStyle>(key: K, next: SubtitleStyle[K]) => onChange({ ...value, [key]: next });
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <div className="space-y-1.5">
+        <Label>字体</Label>
+        <Select value={value.font} onValueChange={(font) => set("font", font)} disabled={disabled}>
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SUBTITLE_FONTS.map((font) => (
+              <SelectItem key={font} value={font}>
+                {font}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1.5">
+        <Label>位置</Label>
+        <Select value={value.position} onValueChange={(position) => set("position", position as SubtitlePosition)} disabled={disabled}>
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(POSITION_LABELS) as SubtitlePosition[]).map((position) => (
+              <SelectItem key={position} value={position}>
+                {POSITION_LABELS[position]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1.5">
+        <Label>字号（1080p）</Label>
+        <Input
+          type="number"
+          min={12}
+          max={200}
+          value={value.fontSize}
+          onChange={(e) => set("fontSize", Math.min(200, Math.max(12, Number(e.target.value) || DEFAULT_SUBTITLE_STYLE.fontSize)))}
+          disabled={disabled}
+        />
+      </div>
+      <div className="space-y-1.5">
+        <Label>描边宽度</Label>
+        <Input
+          type="number"
+          min={0}
+          max={10}
+          step={0.5}
+          value={value.outline}
+          onChange={(e) => set("outline", Math.min(10, Math.max(0, Number(e.target.value) || 0)))}
+          disabled={disabled || value.box}
+        />
+      </div>
+      <div className="flex items-center gap-2">
+        <Label className="w-14">文字</Label>
+        <Input type="color" className="h-8 w-14 p-1" value={value.color} onChange={(e) => set("color", e.target.value)} disabled={disabled} />
+      </div>
+      <div className="flex items-center gap-2">
+        <Label className="w-14">描边</Label>
+        <Input
+          type="color"
+          className="h-8 w-14 p-1"
+          value={value.outlineColor}
+          onChange={(e) => set("outlineColor", e.target.value)}
+          disabled={disabled || value.box}
+        />
+      </div>
+      <div className="flex items-center gap-2">
+        <Switch checked={value.bold} onCheckedChange={(bold) => set("bold", bold)} disabled={disabled} />
+        <Label>粗体</Label>
+      </div>
+      <div className="flex items-center gap-2">
+        <Switch checked={value.box} onCheckedChange={(box) => set("box", box)} disabled={disabled} />
+        <Label>半透明底框</Label>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * 时间轴合成：选择画面比例和分辨率，在服务端队列中合成 MP4，结果存为项目的视频素材；
+ * 字幕轨道不为空时可选择把字幕烧录进画面
+ */
+export function TimelineRenderDialog({ projectId, clips, subtitles, open, onOpenChange }: TimelineRenderDialogProps) {
+  const [aspectRatio, setAspectRatio] = useState<TimelineRenderAspectRatio>("16:9");
+  const [resolution, setResolution] = useState<TimelineRenderResolution>("720p");
+  const [burnSubtitles, setBurnSubtitles] = useState(false);
+  const [subtitleStyle, setSubtitleStyle] = useState<SubtitleStyle>(DEFAULT_SUBTITLE_STYLE);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [result, setResult] = useState<TimelineRenderResult | null>(null);
+  const { run } = useGenerationJob();
+  const utils = trpc.useUtils();
+
+  const { width, height } = timelineRenderSize(aspectRatio, resolution);
+  const duration = timelineDuration(clips);
+  const rendering = progress !== null;
+  const hasSubtitles = subtitles.some((subtitle) => subtitle.text.trim());
+
+  const startRender = async () => {
+    setResult(null);
+    setProgress(0);
+    try {
+      const output = await run<TimelineRenderResult>(
+        {
+          jobType: "timeline.render",
+          projectId,
+          input: {
+            projectId,
+            clips,
+            aspectRatio,
+            resolution,
+            ...(burnSubtitles && hasSubtitles ? { subtitles, subtitleStyle } : {}),
+          },
+        },
+        {
+          onEvent: (event) => {
+            if (event.type === "progress") setProgress(event.percent);
+          },
+        }
+      );
+      setResult(output);
+      utils.asset.list.invalidate({ projectId });
+      toast.success("视频合成完成");
+    } catch (error) {
+      toast.error(`合成失败: ${error instanceof Error ? error.message : "未知错误"}`);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>合成视频</DialogTitle>
+          <DialogDescription>
+            按时间轴合成 H.264 / AAC 的 MP4（时长 {duration.toFixed(1)} 秒），完成后保存到项目素材
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1.5">
+            <Label>画面比例</Label>
+            <Select value={aspectRatio} onValueChange={(value) => setAspectRatio(value as TimelineRenderAspectRatio)} disabled={rendering}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TIMELINE_RENDER_ASPECT_RATIOS.map((ratio) => (
+                  <SelectItem key={ratio} value={ratio}>
+                    {ratio}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label>分辨率</Label>
+            <Select value={resolution} onValueChange={(value) => setResolution(value as TimelineRenderResolution)} disabled={rendering}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TIMELINE_RENDER_RESOLUTIONS.map((item) => (
+                  <SelectItem key={item} value={item}>
+                    {item}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          输出 {width}×{height}，画面比例不同的素材居中并留黑边
+        </p>
+
+        {hasSubtitles && (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <Switch checked={burnSubtitles} onCheckedChange={setBurnSubtitles} disabled={rendering} />
+              <Label>烧录字幕</Label>
+            </div>
+            {burnSubtitles && <SubtitleStyleFields value={subtitleStyle} onChange={setSubtitleStyle} disabled={rendering} />}
+          </div>
+        )}
+
+        {rendering && (
+          <div className="space-y-1.5">
+            <Progress value={progress} />
+            <p className="text-xs text-muted-foreground">正在合成… {progress}%</p>
+          </div>
+        )}
+
+        {result && (
+          <div className="space-y-2">
+            <video src={result.url} controls className="w-full rounded-md bg-black" />
+            <Button variant="outline" size="sm" asChild>
+              <a href={result.url} download>
+                <Download className="w-4 h-4 mr-1.5" />
+                下载 MP4
+              </a>
+            </Button>
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button onClick={startRender} disabled={rendering || clips.length === 0}>
+            {rendering ? <Loader2 className="w-4 h-4 mr-1.5 animate-spin" /> : <Film className="w-4 h-4 mr-1.5" />}
+            {result ? "重新合成" : "开始合成"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
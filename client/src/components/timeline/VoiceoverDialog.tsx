@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { Loader2, Mic } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useGenerationJob } from "@/hooks/useGenerationJob";
+import { trpc } from "@/lib/trpc";
+import type { VoiceoverResult } from "../../../../server/voiceover";
+
+interface VoiceoverDialogProps {
+  projectId: number;
+  // 时间轴关联的剧本
+  scriptId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // 生成完成后重新同步分镜，把配音排到音频轨道
+  onGenerated: () => Promise<void>;
+}
+
+const AUTO_VOICE = "auto";
+
+/**
+ * 分镜对白配音：查看和修改各角色的声音，在服务端队列中为每个有对白的镜头合成配音
+ */
+export function VoiceoverDialog({ projectId, scriptId, open, onOpenChange, onGenerated }: VoiceoverDialogProps) {
+  const [regenerate, setRegenerate] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const { run } = useGenerationJob();
+  const utils = trpc.useUtils();
+  const { data: cast, isLoading } = trpc.voiceover.cast.useQuery({ projectId, scriptId }, { enabled: open });
+  const setCharacterVoice = trpc.voiceover.setCharacterVoice.useMutation({
+    onSuccess: () => utils.voiceover.cast.invalidate({ projectId, scriptId }),
+    onError: (error) => toast.error(`保存失败: ${error.message}`),
+  });
+
+  const generating = progress !== null;
+  const voiceName = (id: string) => cast?.voices.find((voice) => voice.id === id)?.name ?? id;
+
+  const startGenerate = async () => {
+    setProgress(0);
+    try {
+      const result = await run<VoiceoverResult>(
+        { jobType: "voiceover.generate", projectId, input: { projectId, scriptId, regenerate } },
+        {
+          onEvent: (event) => {
+            if (event.type === "progress") setProgress(event.percent);
+          },
+        }
+      );
+      utils.asset.list.invalidate({ projectId });
+      await onGenerated();
+      const reused = result.shots.filter((shot) => shot.reused).length;
+      toast.success(`已为 ${result.shots.length} 个镜头生成配音${reused > 0 ? `（${reused} 个沿用之前的配音）` : ""}`);
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(`配音失败: ${error instanceof Error ? error.message : "未知错误"}`);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>生成配音</DialogTitle>
+          <DialogDescription>
+            把分镜对白按角色的声音合成为每个镜头的配音，放到音频轨道上与镜头对齐。
+            对白写作“角色：台词”，“旁白：”或不带角色的行由旁白朗读
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !cast ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-xs text-muted-foreground">配音服务：{cast.provider.name}</p>
+            <div className="max-h-72 space-y-2 overflow-y-auto pr-1">
+              <div className="flex items-center gap-3">
+                <Label className="w-24 truncate">旁白</Label>
+                <span className="text-sm text-muted-foreground">{voiceName(cast.narratorVoice)}</span>
+              </div>
+              {cast.characters.map((character) => (
+                <div key={character.name} className="flex items-center gap-3">
+                  <Label className="w-24 truncate" title={character.name}>
+                    {character.name}
+                  </Label>
+                  <Select
+                    value={character.voiceId ?? AUTO_VOICE}
+                    onValueChange={(value) =>
+                      character.designId !== null &&
+                      setCharacterVoice.mutate({
+                        designId: character.designId,
+                        name: character.name,
+                        voiceId: value === AUTO_VOICE ? null : value,
+                      })
+                    }
+                    disabled={generating || character.designId === null || setCharacterVoice.isPending}
+                  >
+                    <SelectTrigger
+                      className="flex-1"
+                      title={character.designId === null ? "角色设定中没有该角色，按称呼自动分配声音" : undefined}
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={AUTO_VOICE}>自动（{voiceName(character.assignedVoiceId)}）</SelectItem>
+                      {cast.voices.map((voice) => (
+                        <SelectItem key={voice.id} value={voice.id}>
+                          {voice.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+              {cast.characters.length === 0 && (
+                <p className="text-sm text-muted-foreground">没有找到角色，对白全部由旁白朗读</p>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch checked={regenerate} onCheckedChange={setRegenerate} disabled={generating} />
+              <Label>全部重新生成（默认沿用对白和声音都没变的配音）</Label>
+            </div>
+          </div>
+        )}
+
+        {generating && (
+          <div className="space-y-1.5">
+            <Progress value={progress} />
+            <p className="text-xs text-muted-foreground">正在生成配音… {progress}%</p>
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button onClick={startGenerate} disabled={generating || !cast}>
+            {generating ? <Loader2 className="w-4 h-4 mr-1.5 animate-spin" /> : <Mic className="w-4 h-4 mr-1.5" />}
+            生成配音
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
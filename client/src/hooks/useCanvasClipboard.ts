@@ -0,0 +1,228 @@
+import { useCallback, useEffect, useRef } from "react";
+import { useReactFlow, type Edge, type Node } from "@xyflow/react";
+import { toast } from "sonner";
+import { toWorkflowSnapshot } from "@/hooks/useCanvasHistory";
+
+const CLIPBOARD_FORMAT = "ai-canvas/selection";
+// 系统剪贴板写入失败（未授权等）时的备份，同一浏览器内跨项目粘贴也能用
+const STORAGE_KEY = "canvasClipboard";
+const PASTE_OFFSET = 40;
+
+interface CanvasClipboardPayload {
+  format: typeof CLIPBOARD_FORMAT;
+  version: 1;
+  nodes: Node[];
+  edges: Edge[];
+}
+
+// 生成中的占位状态不复制，粘贴后的节点不会一直显示加载中
+const TRANSIENT_DATA_KEYS = ["isLoading", "loadingProgress"];
+
+async function blobUrlToDataUrl(url: string): Promise<string> {
+  const blob = await (await fetch(url)).blob();
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * 让节点数据中的图片 / 视频地址在其他项目、其他标签页中仍然可用：
+ * 相对地址补全为绝对地址，仅在当前页面有效的 blob URL 转为 data URL
+ */
+async function portableValue(value: unknown): Promise<unknown> {
+  if (typeof value === "string") {
+    if (value.startsWith("/uploads/")) return `${window.location.origin}${value}`;
+    if (value.startsWith("blob:")) return blobUrlToDataUrl(value).catch(() => value);
+    return value;
+  }
+  if (Array.isArray(value)) return Promise.all(value.map(portableValue));
+  if (value && typeof value === "object") {
+    const entries = await Promise.all(
+      Object.entries(value).map(async ([key, v]) => [key, await portableValue(v)] as const)
+    );
+    return Object.fromEntries(entries);
+  }
+  return value;
+}
+
+/**
+ * 选中的节点及其之间的连线
+ */
+export async function buildClipboardPayload(nodes: Node[], edges: Edge[]): Promise<CanvasClipboardPayload | null> {
+  const selected = nodes.filter((node) => node.selected);
+  if (selected.length === 0) return null;
+  const ids = new Set(selected.map((node) => node.id));
+  const snapshot = toWorkflowSnapshot(
+    selected,
+    edges.filter((edge) => ids.has(edge.source) && ids.has(edge.target))
+  );
+
+  const copiedNodes = await Promise.all(
+    snapshot.nodes.map(async (node) => {
+      const data = Object.fromEntries(Object.entries(node.data).filter(([key]) => !TRANSIENT_DATA_KEYS.includes(key)));
+      return { ...node, data: (await portableValue(data)) as Record<string, unknown> };
+    })
+  );
+  return { format: CLIPBOARD_FORMAT, version: 1, nodes: copiedNodes, edges: snapshot.edges };
+}
+
+export function parseClipboardPayload(text: string | null | undefined): CanvasClipboardPayload | null {
+  if (!text) return null;
+  try {
+    const payload = JSON.parse(text);
+    if (payload?.format !== CLIPBOARD_FORMAT || !Array.isArray(payload.nodes) || !Array.isArray(payload.edges)) {
+      return null;
+    }
+    return payload as CanvasClipboardPayload;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 为粘贴的节点生成新 id 并偏移位置，连线改为指向新节点
+ */
+export function instantiateClipboardPayload(
+  payload: CanvasClipboardPayload,
+  offset: number
+): { nodes: Node[]; edges: Edge[] } {
+  const stamp = Date.now();
+  const idMap = new Map(payload.nodes.map((node, i) => [node.id, `${node.type ?? "node"}-${stamp}-${i}`]));
+
+  const nodes = payload.nodes.map((node) => {
+    const { parentId, ...rest } = node;
+    const mappedParent = parentId ? idMap.get(parentId) : undefined;
+    return {
+      ...rest,
+      id: idMap.get(node.id)!,
+      // 父节点一起复制时保持相对位置，否则只偏移
+      ...(mappedParent ? { parentId: mappedParent } : {}),
+      position: mappedParent ? node.position : { x: node.position.x + offset, y: node.position.y + offset },
+      selected: true,
+    };
+  });
+  const edges = payload.edges.map((edge, i) => ({
+    ...edge,
+    id: `edge-${stamp}-${i}`,
+    source: idMap.get(edge.source)!,
+    target: idMap.get(edge.target)!,
+  }));
+  return { nodes, edges };
+}
+
+/**
+ * 画布复制 / 剪切 / 粘贴 / 创建副本
+ * Ctrl+C / Ctrl+X 写入系统剪贴板（同时备份到 localStorage），Ctrl+V 粘贴，Ctrl+D 原地创建副本。
+ * 剪贴板内容带格式标记，可以粘贴到其他项目的画布中。只读画布只能复制
+ */
+export function useCanvasClipboard({ readOnly = false }: { readOnly?: boolean } = {}) {
+  const { getNodes, getEdges, setNodes, setEdges } = useReactFlow();
+  // 同一份内容连续粘贴时逐次偏移，避免叠在一起
+  const pasteRef = useRef<{ text: string; count: number }>({ text: "", count: 0 });
+
+  const insert = useCallback(
+    (payload: CanvasClipboardPayload, offset: number) => {
+      const pasted = instantiateClipboardPayload(payload, offset);
+      setNodes((nds) => [...nds.map((node) => (node.selected ? { ...node, selected: false } : node)), ...pasted.nodes]);
+      setEdges((eds) => [...eds, ...pasted.edges]);
+      return pasted.nodes.length;
+    },
+    [setNodes, setEdges]
+  );
+
+  const copy = useCallback(
+    async (cut = false) => {
+      const nodes = getNodes();
+      const payload = await buildClipboardPayload(nodes, getEdges());
+      if (!payload) return;
+
+      const text = JSON.stringify(payload);
+      try {
+        localStorage.setItem(STORAGE_KEY, text);
+      } catch {
+        // 内嵌图片较大时可能超出 localStorage 配额，只依赖系统剪贴板
+      }
+      try {
+        await navigator.clipboard.writeText(text);
+      } catch (error) {
+        console.warn("[CanvasClipboard] 写入系统剪贴板失败，仅可在本浏览器内粘贴:", error);
+      }
+      pasteRef.current = { text, count: 0 };
+
+      if (cut) {
+        const ids = new Set(payload.nodes.map((node) => node.id));
+        setNodes((nds) => nds.filter((node) => !ids.has(node.id)));
+        setEdges((eds) => eds.filter((edge) => !ids.has(edge.source) && !ids.has(edge.target)));
+        toast.success(`已剪切 ${payload.nodes.length} 个节点`);
+      } else {
+        toast.success(`已复制 ${payload.nodes.length} 个节点`);
+      }
+    },
+    [getNodes, getEdges, setNodes, setEdges]
+  );
+
+  const paste = useCallback(
+    (clipboardText?: string) => {
+      let text = clipboardText;
+      let payload = parseClipboardPayload(text);
+      // 系统剪贴板为空时使用本浏览器内的备份；剪贴板里是其他内容则不粘贴节点
+      if (!payload && !clipboardText) {
+        text = localStorage.getItem(STORAGE_KEY) ?? undefined;
+        payload = parseClipboardPayload(text);
+      }
+      if (!payload || !text) return false;
+
+      const count = pasteRef.current.text === text ? pasteRef.current.count + 1 : 1;
+      pasteRef.current = { text, count };
+      const pastedCount = insert(payload, PASTE_OFFSET * count);
+      toast.success(`已粘贴 ${pastedCount} 个节点`);
+      return true;
+    },
+    [insert]
+  );
+
+  const duplicate = useCallback(async () => {
+    const payload = await buildClipboardPayload(getNodes(), getEdges());
+    if (payload) insert(payload, PASTE_OFFSET);
+  }, [getNodes, getEdges, insert]);
+
+  useEffect(() => {
+    const isEditing = (target: EventTarget | null) => {
+      const element = target as HTMLElement | null;
+      return !!element && (element.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(element.tagName));
+    };
+    // 页面上有选中的文字时保留浏览器默认的复制
+    const hasTextSelection = () => !!window.getSelection()?.toString();
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.shiftKey || isEditing(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (readOnly && key !== "c") return;
+      if ((key === "c" || key === "x") && !hasTextSelection() && getNodes().some((node) => node.selected)) {
+        event.preventDefault();
+        void copy(key === "x");
+      } else if (key === "d") {
+        event.preventDefault();
+        void duplicate();
+      }
+    };
+    const onPaste = (event: ClipboardEvent) => {
+      if (readOnly || isEditing(event.target)) return;
+      if (paste(event.clipboardData?.getData("text/plain"))) {
+        event.preventDefault();
+      }
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    document.addEventListener("paste", onPaste);
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+      document.removeEventListener("paste", onPaste);
+    };
+  }, [copy, paste, duplicate, getNodes, readOnly]);
+
+  return { copy, paste, duplicate };
+}
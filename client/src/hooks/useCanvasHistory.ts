@@ -0,0 +1,241 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Edge, Node } from "@xyflow/react";
+import { mergeCollabSteps, type CollabChange, type CollabStep } from "@shared/collab";
+import type { TimelineData } from "@shared/timeline";
+
+// 连续编辑（输入文字、微调参数）在停顿后才记为一步
+const COMMIT_DELAY_MS = 400;
+const MAX_HISTORY = 100;
+
+export interface WorkflowSnapshot {
+  nodes: Node[];
+  edges: Edge[];
+  // 时间轴随画布一起保存，但不参与撤销
+  timeline?: TimelineData;
+}
+
+/**
+ * 去掉选中、拖动、尺寸测量等界面状态，得到需要保存的工作流。
+ * 撤销历史与自动保存 / 关闭页面时的保存使用同一份数据，两者不会出现差异
+ */
+export function toWorkflowSnapshot(nodes: Node[], edges: Edge[], timeline?: TimelineData): WorkflowSnapshot {
+  return {
+    nodes: nodes.map(({ selected, dragging, measured, resizing, ...node }) => node),
+    edges: edges.map(({ selected, ...edge }) => edge),
+    ...(timeline && { timeline }),
+  };
+}
+
+function sameData(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+function sameSnapshot(a: WorkflowSnapshot, b: WorkflowSnapshot): boolean {
+  if (a.nodes.length !== b.nodes.length || a.edges.length !== b.edges.length) return false;
+  const nodesEqual = a.nodes.every((node, i) => {
+    const other = b.nodes[i];
+    return (
+      node.id === other.id &&
+      node.type === other.type &&
+      node.position.x === other.position.x &&
+      node.position.y === other.position.y &&
+      node.width === other.width &&
+      node.height === other.height &&
+      node.parentId === other.parentId &&
+      sameData(node.data, other.data)
+    );
+  });
+  return nodesEqual && a.edges.every((edge, i) => {
+    const other = b.edges[i];
+    return (
+      edge.id === other.id &&
+      edge.source === other.source &&
+      edge.target === other.target &&
+      edge.sourceHandle === other.sourceHandle &&
+      edge.targetHandle === other.targetHandle &&
+      sameData(edge.data, other.data)
+    );
+  });
+}
+
+// 实时协同（useCollaboration）提供的本地修改通知与提交
+export interface CanvasHistoryCollab {
+  connected: boolean;
+  flush: () => void;
+  applyLocalChanges: (changes: CollabChange[]) => void;
+  subscribeLocalChanges: (listener: (step: CollabStep) => void) => () => void;
+}
+
+/**
+ * 画布撤销 / 重做
+ * 观察 nodes / edges 的变化，在操作停顿后记录快照（拖动中不记录），
+ * 覆盖节点增删、移动、连线变化以及节点数据修改（包括生成结果覆盖图片）。
+ * 撤销后画布照常标记为未保存，由自动保存写回项目。
+ * 协同连接期间改为只记录本地修改的字段，撤销时把这些字段改回原值并作为新的修改提交，
+ * 不会把他人在此期间的修改一并回退
+ */
+export function useCanvasHistory({
+  nodes,
+  edges,
+  setNodes,
+  setEdges,
+  readOnly = false,
+  collab,
+}: {
+  nodes: Node[];
+  edges: Edge[];
+  setNodes: (nodes: Node[]) => void;
+  setEdges: (edges: Edge[]) => void;
+  // 只读（查看者 / 评论者）时不响应撤销快捷键
+  readOnly?: boolean;
+  collab?: CanvasHistoryCollab;
+}) {
+  const pastRef = useRef<WorkflowSnapshot[]>([]);
+  const futureRef = useRef<WorkflowSnapshot[]>([]);
+  const currentRef = useRef<WorkflowSnapshot>(toWorkflowSnapshot(nodes, edges));
+  const latestRef = useRef({ nodes, edges });
+  latestRef.current = { nodes, edges };
+  // 协同连接期间的历史
+  const collabPastRef = useRef<CollabStep[]>([]);
+  const collabFutureRef = useRef<CollabStep[]>([]);
+  const lastStepAt = useRef(0);
+  const collabConnected = !!collab?.connected;
+  const [counts, setCounts] = useState({ past: 0, future: 0 });
+
+  const syncCounts = useCallback(() => {
+    setCounts(
+      collabConnected
+        ? { past: collabPastRef.current.length, future: collabFutureRef.current.length }
+        : { past: pastRef.current.length, future: futureRef.current.length }
+    );
+  }, [collabConnected]);
+
+  // 连接或断开协同时以当前画布为起点，两种历史不能混用
+  useEffect(() => {
+    pastRef.current = [];
+    futureRef.current = [];
+    collabPastRef.current = [];
+    collabFutureRef.current = [];
+    currentRef.current = toWorkflowSnapshot(latestRef.current.nodes, latestRef.current.edges);
+    syncCounts();
+  }, [syncCounts]);
+
+  // 本地修改记为一步，停顿之前的连续修改（拖动、输入）合并
+  const { flush: flushCollab, applyLocalChanges, subscribeLocalChanges } = collab ?? {};
+  useEffect(() => {
+    if (!collabConnected || !subscribeLocalChanges) return;
+    return subscribeLocalChanges(({ changes, inverse }) => {
+      // 与快照历史一致，时间轴不参与撤销
+      const onCanvas = (change: CollabChange) => change.kind === "node" || change.kind === "edge";
+      const step = { changes: changes.filter(onCanvas), inverse: inverse.filter(onCanvas) };
+      if (step.changes.length === 0) return;
+      const now = Date.now();
+      const last = collabPastRef.current[collabPastRef.current.length - 1];
+      collabPastRef.current =
+        last && now - lastStepAt.current < COMMIT_DELAY_MS
+          ? [...collabPastRef.current.slice(0, -1), mergeCollabSteps(last, step)]
+          : [...collabPastRef.current, step].slice(-MAX_HISTORY);
+      collabFutureRef.current = [];
+      lastStepAt.current = now;
+      syncCounts();
+    });
+  }, [collabConnected, subscribeLocalChanges, syncCounts]);
+
+  // 把当前画布与最近一次快照比较，有变化则记为一步
+  const commit = useCallback(() => {
+    if (collabConnected) return;
+    const { nodes, edges } = latestRef.current;
+    if (nodes.some((node) => node.dragging)) return;
+    const snapshot = toWorkflowSnapshot(nodes, edges);
+    if (sameSnapshot(snapshot, currentRef.current)) return;
+    pastRef.current = [...pastRef.current, currentRef.current].slice(-MAX_HISTORY);
+    futureRef.current = [];
+    currentRef.current = snapshot;
+    syncCounts();
+  }, [collabConnected, syncCounts]);
+
+  useEffect(() => {
+    const timer = setTimeout(commit, COMMIT_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [nodes, edges, commit]);
+
+  // 加载项目后以其为起点，不能撤销到空画布
+  const reset = useCallback((nodes: Node[], edges: Edge[]) => {
+    pastRef.current = [];
+    futureRef.current = [];
+    currentRef.current = toWorkflowSnapshot(nodes, edges);
+    syncCounts();
+  }, [syncCounts]);
+
+  const restore = useCallback((snapshot: WorkflowSnapshot) => {
+    currentRef.current = snapshot;
+    setNodes(snapshot.nodes);
+    setEdges(snapshot.edges);
+    syncCounts();
+  }, [setNodes, setEdges, syncCounts]);
+
+  // 协同时撤销 / 重做只提交这一步涉及的字段
+  const applyCollabStep = useCallback(
+    (from: { current: CollabStep[] }, to: { current: CollabStep[] }, changesOf: (step: CollabStep) => CollabChange[]) => {
+      flushCollab?.();
+      const step = from.current[from.current.length - 1];
+      if (!step) return;
+      from.current = from.current.slice(0, -1);
+      to.current = [...to.current, step];
+      // 之后的修改不与撤销前的一步合并
+      lastStepAt.current = 0;
+      applyLocalChanges?.(changesOf(step));
+      syncCounts();
+    },
+    [flushCollab, applyLocalChanges, syncCounts]
+  );
+
+  const undo = useCallback(() => {
+    if (collabConnected) {
+      applyCollabStep(collabPastRef, collabFutureRef, step => step.inverse);
+      return;
+    }
+    commit();
+    const previous = pastRef.current[pastRef.current.length - 1];
+    if (!previous) return;
+    pastRef.current = pastRef.current.slice(0, -1);
+    futureRef.current = [...futureRef.current, currentRef.current];
+    restore(previous);
+  }, [collabConnected, applyCollabStep, commit, restore]);
+
+  const redo = useCallback(() => {
+    if (collabConnected) {
+      applyCollabStep(collabFutureRef, collabPastRef, step => step.changes);
+      return;
+    }
+    commit();
+    const next = futureRef.current[futureRef.current.length - 1];
+    if (!next) return;
+    futureRef.current = futureRef.current.slice(0, -1);
+    pastRef.current = [...pastRef.current, currentRef.current];
+    restore(next);
+  }, [collabConnected, applyCollabStep, commit, restore]);
+
+  // Ctrl+Z 撤销，Ctrl+Shift+Z / Ctrl+Y 重做；输入框内保留浏览器自身的撤销
+  useEffect(() => {
+    if (readOnly) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) return;
+
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [undo, redo, readOnly]);
+
+  return { undo, redo, reset, canUndo: counts.past > 0, canRedo: counts.future > 0 };
+}
@@ -0,0 +1,273 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type Dispatch, type SetStateAction } from "react";
+import { useReactFlow, type Edge, type Node } from "@xyflow/react";
+import { toast } from "sonner";
+import { trpc } from "@/lib/trpc";
+import {
+  applyCollabOps,
+  createCollabClock,
+  createCollabDoc,
+  diffCollabGraph,
+  invertCollabChanges,
+  materializeCollabDoc,
+  maxCollabCounter,
+  stampChanges,
+  type CollabChange,
+  type CollabClock,
+  type CollabGraph,
+  type CollabOp,
+  type CollabStep,
+} from "@shared/collab";
+import { normalizeTimeline, type TimelineData } from "@shared/timeline";
+import { toWorkflowSnapshot } from "./useCanvasHistory";
+
+// 本地修改停顿后再提交，拖动节点时约每 100ms 同步一次位置
+const PUSH_DELAY_MS = 100;
+const PRESENCE_INTERVAL_MS = 100;
+
+export interface CollabUser {
+  clientId: string;
+  userId: number;
+  name: string;
+  color: string;
+  cursor: { x: number; y: number } | null;
+}
+
+export interface CollabLock {
+  nodeId: string;
+  userId: number;
+  name: string;
+  expiresAt: number;
+}
+
+interface UseCollaborationOptions {
+  projectId: number;
+  // 项目加载完成后才加入协同
+  enabled: boolean;
+  // 只读成员只接收他人的修改，不提交本地修改
+  readOnly?: boolean;
+  nodes: Node[];
+  edges: Edge[];
+  setNodes: Dispatch<SetStateAction<Node[]>>;
+  setEdges: Dispatch<SetStateAction<Edge[]>>;
+  // 时间轴片段与节点一样逐字段合并
+  timeline: TimelineData;
+  setTimeline: (timeline: TimelineData) => void;
+}
+
+function createClientId() {
+  return typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+// 用合并结果替换本地节点时保留选中、尺寸测量等本地界面状态
+function mergeLocalState<T extends { id: string }>(current: T[], next: Record<string, unknown>[], localKeys: string[]): T[] {
+  const byId = new Map(current.map(item => [item.id, item as Record<string, unknown>]));
+  return next.map(item => {
+    const local = byId.get(item.id as string);
+    if (!local) return item as unknown as T;
+    const merged: Record<string, unknown> = { ...item };
+    for (const key of localKeys) {
+      if (local[key] !== undefined) merged[key] = local[key];
+    }
+    return merged as unknown as T;
+  });
+}
+
+/**
+ * 画布实时协同
+ * 本地 nodes / edges / 时间轴变化后与上次同步的版本比较，只把变化的字段打上时间戳提交；
+ * 收到他人的修改后按时间戳合并进本地副本再写回画布（冲突的修改按字段合并，不会整体覆盖）。
+ * 同时上报鼠标在画布上的位置，返回在线成员和被锁定（正在生成）的节点。
+ * 每次提交的本地修改连同反向修改通知撤销历史，撤销时以新的本地修改提交
+ */
+export function useCollaboration({
+  projectId,
+  enabled,
+  readOnly = false,
+  nodes,
+  edges,
+  setNodes,
+  setEdges,
+  timeline,
+  setTimeline,
+}: UseCollaborationOptions) {
+  const { screenToFlowPosition } = useReactFlow();
+  const clientId = useMemo(createClientId, []);
+  const clockRef = useRef<CollabClock>(createCollabClock(clientId));
+  const docRef = useRef(createCollabDoc());
+  // 与协同文档一致的最近一次画布内容；为 null 表示尚未收到快照
+  const syncedRef = useRef<CollabGraph | null>(null);
+  // 已提交但服务端尚未确认的修改，重连后重新提交
+  const unackedRef = useRef<CollabOp[]>([]);
+  const pushTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const latestRef = useRef({ nodes, edges, timeline });
+  // 合并结果已写回画布但还未渲染，此时的 nodes / edges 仍是旧值，不能用来比较
+  const renderPending = useRef(false);
+  const lastPresenceAt = useRef(0);
+  // 撤销历史订阅本地修改（不含收到的他人修改）
+  const localListeners = useRef(new Set<(step: CollabStep) => void>());
+
+  const [connected, setConnected] = useState(false);
+  const [users, setUsers] = useState<CollabUser[]>([]);
+  const [locks, setLocks] = useState<CollabLock[]>([]);
+
+  const pushMutation = trpc.collab.push.useMutation();
+  const presenceMutation = trpc.collab.presence.useMutation();
+  const saveMutation = trpc.collab.save.useMutation();
+
+  const sendOps = useCallback(
+    (ops: CollabOp[]) => {
+      if (ops.length === 0) return;
+      unackedRef.current.push(...ops);
+      pushMutation
+        .mutateAsync({ projectId, clientId, ops })
+        .then(({ rejected }) => {
+          unackedRef.current = unackedRef.current.filter(op => !ops.includes(op));
+          if (rejected > 0) toast.warning("节点正在生成中，部分修改未生效");
+        })
+        // 连接断开时保留，重新加入后随快照一起重新提交
+        .catch(() => undefined);
+    },
+    [projectId, clientId, pushMutation]
+  );
+
+  const currentGraph = () =>
+    toWorkflowSnapshot(latestRef.current.nodes, latestRef.current.edges, latestRef.current.timeline) as unknown as CollabGraph;
+
+  // 把尚未提交的本地修改写入协同文档并提交
+  const flush = useCallback(() => {
+    if (pushTimer.current) {
+      clearTimeout(pushTimer.current);
+      pushTimer.current = null;
+    }
+    const synced = syncedRef.current;
+    if (!synced || renderPending.current || readOnly) return;
+    const current = currentGraph();
+    const changes = diffCollabGraph(synced, current);
+    if (changes.length === 0) return;
+    const ops = applyCollabOps(docRef.current, stampChanges(changes, clockRef.current));
+    syncedRef.current = current;
+    sendOps(ops);
+    const step = { changes, inverse: invertCollabChanges(synced, changes) };
+    localListeners.current.forEach(listener => listener(step));
+  }, [sendOps, readOnly]);
+
+  // 把协同文档写回画布
+  const render = useCallback(() => {
+    const graph = materializeCollabDoc(docRef.current);
+    syncedRef.current = graph;
+    renderPending.current = true;
+    setNodes(nodes => mergeLocalState(nodes, graph.nodes, ["selected", "dragging", "measured", "resizing"]));
+    setEdges(edges => mergeLocalState(edges, graph.edges, ["selected"]));
+    setTimeline(normalizeTimeline(graph.timeline));
+  }, [setNodes, setEdges, setTimeline]);
+
+  const subscription = trpc.collab.join.useSubscription(
+    { projectId, clientId },
+    {
+      enabled: enabled && projectId > 0,
+      onData: (event) => {
+        switch (event.type) {
+          case "snapshot": {
+            // 断线期间的本地修改重新计时后合并进新的快照
+            const pending = readOnly ? [] : [...unackedRef.current];
+            if (syncedRef.current && !renderPending.current && !readOnly) {
+              const changes = diffCollabGraph(syncedRef.current, currentGraph());
+              pending.push(...stampChanges(changes, clockRef.current));
+            }
+            docRef.current = event.doc;
+            clockRef.current.observe({ c: maxCollabCounter(event.doc), id: clientId });
+            const resend = pending.map(op => ({ ...op, stamp: clockRef.current.tick() }));
+            unackedRef.current = [];
+            applyCollabOps(docRef.current, resend);
+            render();
+            sendOps(resend);
+            setUsers(event.presence.filter(user => user.clientId !== clientId));
+            setLocks(event.locks);
+            setConnected(true);
+            break;
+          }
+          case "ops": {
+            if (event.clientId === clientId) return;
+            flush();
+            for (const op of event.ops) clockRef.current.observe(op.stamp);
+            if (applyCollabOps(docRef.current, event.ops).length > 0) render();
+            break;
+          }
+          case "presence": {
+            const presence = event.presence;
+            if (presence.clientId === clientId) return;
+            setUsers(users => {
+              const index = users.findIndex(user => user.clientId === presence.clientId);
+              if (index === -1) return [...users, presence];
+              return users.map((user, i) => (i === index ? presence : user));
+            });
+            break;
+          }
+          case "leave":
+            setUsers(users => users.filter(user => user.clientId !== event.clientId));
+            break;
+          case "locks":
+            setLocks(event.locks);
+            break;
+        }
+      },
+      onError: () => setConnected(false),
+    }
+  );
+
+  useEffect(() => {
+    if (subscription.status !== "pending") setConnected(false);
+  }, [subscription.status]);
+
+  // 画布变化（本地编辑或写回的合并结果）渲染后，比较并提交本地修改
+  useEffect(() => {
+    latestRef.current = { nodes, edges, timeline };
+    renderPending.current = false;
+    if (!syncedRef.current || pushTimer.current) return;
+    pushTimer.current = setTimeout(flush, PUSH_DELAY_MS);
+  }, [nodes, edges, timeline, flush]);
+
+  useEffect(() => () => {
+    if (pushTimer.current) clearTimeout(pushTimer.current);
+  }, []);
+
+  // 撤销 / 重做：把修改作为新的本地修改提交并写回画布，不记入撤销历史
+  const applyLocalChanges = useCallback(
+    (changes: CollabChange[]) => {
+      flush();
+      if (!syncedRef.current || readOnly || changes.length === 0) return;
+      sendOps(applyCollabOps(docRef.current, stampChanges(changes, clockRef.current)));
+      render();
+    },
+    [flush, render, sendOps, readOnly]
+  );
+
+  const subscribeLocalChanges = useCallback((listener: (step: CollabStep) => void) => {
+    localListeners.current.add(listener);
+    return () => {
+      localListeners.current.delete(listener);
+    };
+  }, []);
+
+  const updateCursor = useCallback(
+    (event: { clientX: number; clientY: number } | null) => {
+      if (!connected) return;
+      const now = Date.now();
+      if (event && now - lastPresenceAt.current < PRESENCE_INTERVAL_MS) return;
+      lastPresenceAt.current = now;
+      const cursor = event ? screenToFlowPosition({ x: event.clientX, y: event.clientY }) : null;
+      presenceMutation.mutate({ projectId, clientId, cursor });
+    },
+    [connected, screenToFlowPosition, presenceMutation, projectId, clientId]
+  );
+
+  // 立即写回项目并记录版本
+  const save = useCallback(async () => {
+    flush();
+    await saveMutation.mutateAsync({ projectId });
+  }, [flush, saveMutation, projectId]);
+
+  return { clientId, connected, users, locks, updateCursor, save, flush, applyLocalChanges, subscribeLocalChanges };
+}
@@ -0,0 +1,115 @@
+import { trpc } from "@/lib/trpc";
+import type { inferRouterInputs, inferRouterOutputs } from "@trpc/server";
+import type { AppRouter } from "../../../server/routers";
+import type { GenerationEventMessage } from "../../../server/generationEvents";
+import { useCallback } from "react";
+
+type RouterInputs = inferRouterInputs<AppRouter>;
+type RouterOutputs = inferRouterOutputs<AppRouter>;
+type EnqueueInput = RouterInputs["generation"]["enqueue"];
+type QueueableJobType = EnqueueInput["jobType"];
+
+// 任务类型即过程路径，如 "basicCreation.generateDesignCharacterImage"
+type JobInput<K extends QueueableJobType> = K extends `${infer R extends keyof RouterInputs & string}.${infer P}`
+  ? P extends keyof RouterInputs[R] ? RouterInputs[R][P] : never
+  : never;
+type JobOutput<K extends QueueableJobType> = K extends `${infer R extends keyof RouterOutputs & string}.${infer P}`
+  ? P extends keyof RouterOutputs[R] ? RouterOutputs[R][P] : never
+  : never;
+
+// 订阅断开时退回轮询的间隔
+const FALLBACK_POLL_INTERVAL_MS = 3000;
+
+/**
+ * 通过服务端队列执行生成任务：先入队，再订阅 generation.onProgress 等待完成。
+ * 请求断开不会影响任务，刷新页面后可通过 generation.listByProject 找回结果。
+ */
+export function useGenerationJob() {
+  const utils = trpc.useUtils();
+  const enqueueMutation = trpc.generation.enqueue.useMutation();
+
+  const run = useCallback(
+    async <T = any>(
+      input: EnqueueInput,
+      options?: { onEvent?: (event: GenerationEventMessage) => void }
+    ): Promise<T> => {
+      const task = await enqueueMutation.mutateAsync(input);
+
+      return new Promise<T>((resolve, reject) => {
+        let settled = false;
+        let pollTimer: ReturnType<typeof setInterval> | null = null;
+
+        const cleanup = () => {
+          settled = true;
+          subscription.unsubscribe();
+          if (pollTimer) clearInterval(pollTimer);
+        };
+
+        // 以数据库中的任务记录为准
+        const check = async () => {
+          if (settled) return;
+          try {
+            const current = await utils.generation.get.fetch({ id: task.id }, { staleTime: 0 });
+            if (settled) return;
+            if (current.status === "completed") {
+              cleanup();
+              resolve(current.outputData as T);
+            } else if (current.status === "failed") {
+              cleanup();
+              reject(new Error(current.errorMessage || "生成失败"));
+            }
+          } catch (error) {
+            console.error("[GenerationJob] 查询任务状态失败:", error);
+          }
+        };
+
+        const subscription = utils.client.generation.onProgress.subscribe(
+          { taskId: task.id },
+          {
+            // 订阅建立前任务可能已经完成
+            onStarted: () => void check(),
+            onData: event => {
+              options?.onEvent?.(event);
+              if (event.type === "completed" || event.type === "failed") {
+                void check();
+              }
+            },
+            onError: error => {
+              console.warn("[GenerationJob] 进度订阅中断，改为轮询:", error);
+              if (!pollTimer && !settled) {
+                pollTimer = setInterval(() => void check(), FALLBACK_POLL_INTERVAL_MS);
+              }
+            },
+          }
+        );
+      });
+    },
+    [enqueueMutation, utils]
+  );
+
+  return { run, isEnqueuing: enqueueMutation.isPending };
+}
+
+/**
+ * 与 useMutation 相同的 mutate / onSuccess / onError 写法，但通过服务端队列执行，
+ * 回调在任务完成或失败时触发。
+ */
+export function useQueuedMutation<K extends QueueableJobType>(
+  jobType: K,
+  options: {
+    projectId?: number;
+    onSuccess?: (data: JobOutput<K>, variables: JobInput<K>) => void;
+    onError?: (error: Error, variables: JobInput<K>) => void;
+  }
+) {
+  const { run } = useGenerationJob();
+
+  const mutate = (variables: JobInput<K>) => {
+    run<JobOutput<K>>({ jobType, projectId: options.projectId, input: variables }).then(
+      data => options.onSuccess?.(data, variables),
+      (error: Error) => options.onError?.(error, variables)
+    );
+  };
+
+  return { mutate };
+}
@@ -0,0 +1,33 @@
+import { useMemo } from "react";
+import type { inferRouterOutputs } from "@trpc/server";
+import { trpc } from "@/lib/trpc";
+import { commentTargetKey } from "@shared/comments";
+import type { AppRouter } from "../../../server/routers";
+
+export type CommentThread = inferRouterOutputs<AppRouter>["comment"]["list"][number];
+
+// 他人的评论没有实时推送，定时刷新
+const REFRESH_INTERVAL_MS = 30_000;
+
+/**
+ * 项目的评审讨论串，按对象分组供徽标使用
+ */
+export function useProjectComments(projectId: number, enabled: boolean) {
+  const { data: threads = [] } = trpc.comment.list.useQuery(
+    { projectId },
+    { enabled: enabled && projectId > 0, refetchInterval: REFRESH_INTERVAL_MS }
+  );
+
+  const threadsByTarget = useMemo(() => {
+    const map = new Map<string, CommentThread[]>();
+    for (const thread of threads) {
+      const key = commentTargetKey(thread.targetType, thread.targetId);
+      map.set(key, [...(map.get(key) ?? []), thread]);
+    }
+    return map;
+  }, [threads]);
+
+  const openCount = useMemo(() => threads.filter((thread) => !thread.resolvedAt).length, [threads]);
+
+  return { threads, threadsByTarget, openCount };
+}
@@ -0,0 +1,84 @@
+import { useCallback, useRef, useState } from "react";
+import { useReactFlow } from "@xyflow/react";
+import {
+  executeWorkflow,
+  type NodeRunStatus,
+  type WorkflowJob,
+  type WorkflowJobResult,
+  type WorkflowRunMode,
+  type WorkflowRunResult,
+} from "@shared/workflow";
+import { useGenerationJob } from "@/hooks/useGenerationJob";
+
+export type NodeRunState = { status: NodeRunStatus; error?: string };
+
+// 本地上传的图片是 blob URL，入队前转换为 data URL
+async function toTransferableUrl(url: unknown): Promise<unknown> {
+  if (typeof url !== "string" || !url.startsWith("blob:")) return url;
+  const blob = await (await fetch(url)).blob();
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * 按节点图执行工作流（见 shared/workflow.ts），生成任务通过服务端队列执行。
+ * 节点状态保存在内存中；结果与缓存 key 写回节点数据，随项目一起保存
+ */
+export function useWorkflowRunner(projectId?: number) {
+  const { getNodes, getEdges, setNodes } = useReactFlow();
+  const generationJob = useGenerationJob();
+  const [nodeStates, setNodeStates] = useState<Record<string, NodeRunState>>({});
+  const [isRunning, setIsRunning] = useState(false);
+  const cancelledRef = useRef(false);
+
+  const run = useCallback(
+    async (mode: WorkflowRunMode, options?: { force?: boolean }): Promise<WorkflowRunResult | null> => {
+      if (isRunning) return null;
+      cancelledRef.current = false;
+      setIsRunning(true);
+      setNodeStates({});
+
+      try {
+        return await executeWorkflow(
+          { nodes: getNodes(), edges: getEdges() },
+          mode,
+          {
+            runJob: async (job: WorkflowJob) => {
+              const input = job.input.imageUrl
+                ? { ...job.input, imageUrl: await toTransferableUrl(job.input.imageUrl) }
+                : job.input;
+              return generationJob.run<WorkflowJobResult>({
+                jobType: job.jobType,
+                input: { ...input, projectId },
+                projectId,
+                nodeId: job.input.nodeId as string,
+              });
+            },
+            onNodeStatus: (nodeId, status, error) => {
+              setNodeStates(prev => ({ ...prev, [nodeId]: { status, error } }));
+            },
+            onNodeOutput: (nodeId, data) => {
+              setNodes(nds => nds.map(node => (node.id === nodeId ? { ...node, data: { ...node.data, ...data } } : node)));
+            },
+            isCancelled: () => cancelledRef.current,
+          },
+          options
+        );
+      } finally {
+        setIsRunning(false);
+      }
+    },
+    [isRunning, getNodes, getEdges, setNodes, generationJob, projectId]
+  );
+
+  // 已开始的生成任务会继续完成，只是不再调度后续节点
+  const cancel = useCallback(() => {
+    cancelledRef.current = true;
+  }, []);
+
+  return { run, cancel, isRunning, nodeStates };
+}
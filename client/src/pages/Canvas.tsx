@@ -19,6 +19,9 @@ import {
   getOutgoers,
   getConnectedEdges,
   SelectionMode,
+  type NodeTypes,
+  type IsValidConnection,
+  type OnConnectEnd,
 } from "@xyflow/react";
 import "@xyflow/react/dist/style.css";
 
@@ -42,6 +45,15 @@ import {
   Download,
   Trash2,
   ImagePlus,
+  Play,
+  Square,
+  ListChecks,
+  Undo2,
+  Redo2,
+  History,
+  Share2,
+  Eye,
+  MessageSquareText,
 } from "lucide-react";
 
 import TextToImageNode from "@/components/nodes/TextToImageNode";
@@ -68,12 +80,39 @@ import StoryboardPanel from "@/components/panels/StoryboardPanel";
 import { AssetLibrary } from "@/components/AssetLibrary";
 import { FolderOpen } from "lucide-react";
 import Timeline from "@/components/timeline/Timeline";
+import { TimelineRenderDialog } from "@/components/timeline/TimelineRenderDialog";
+import { VoiceoverDialog } from "@/components/timeline/VoiceoverDialog";
 import DeletableEdge from "@/components/edges/DeletableEdge";
+import { WorkflowRunContext, withRunStatus } from "@/components/canvas/NodeRunStatus";
+import { useWorkflowRunner } from "@/hooks/useWorkflowRunner";
+import { toWorkflowSnapshot, useCanvasHistory } from "@/hooks/useCanvasHistory";
+import { useCanvasClipboard } from "@/hooks/useCanvasClipboard";
+import { useCollaboration } from "@/hooks/useCollaboration";
+import { CollabCursors, CollabLockContext, CollabUsers } from "@/components/canvas/CollabOverlay";
+import { RevisionHistoryDrawer } from "@/components/canvas/RevisionHistoryDrawer";
+import { ShareProjectDialog } from "@/components/canvas/ShareProjectDialog";
+import { ReviewCommentsContext, ReviewInbox } from "@/components/canvas/ReviewComments";
+import { useProjectComments, type CommentThread } from "@/hooks/useProjectComments";
+import { hasProjectRole, PROJECT_ROLE_LABELS } from "@shared/projectRoles";
+import type { WorkflowRunMode } from "@shared/workflow";
+import {
+  createTimeline,
+  layoutStoryboard,
+  linkedStoryboardScriptId,
+  normalizeTimeline,
+  type StoryboardTimelineShot,
+  type TimelineClip,
+  type TimelineData,
+} from "@shared/timeline";
+import { checkEdgePortTypes, findPort, normalizeWorkflowEdges, validateConnection } from "@shared/workflowPorts";
+import { INVALID_EDGE_COLOR, PORT_EDGE_COLORS } from "@/components/nodes/handleStyles";
 
 // 创建一个 Context 用于在节点间传递数据
 import { createContext, useContext } from "react";
 
 interface CanvasContextType {
+  // 当前项目，生成的素材记录到该项目
+  projectId: number;
   nodes: Node[];
   edges: Edge[];
   getConnectedPrompts: (nodeId: string) => string[];
@@ -102,7 +141,7 @@ export function useCanvasContext() {
   return context;
 }
 
-const nodeTypes = {
+const baseNodeTypes = {
   textToImage: TextToImageNode,
   imageToImage: ImageToImageNode,
   imageToVideo: ImageToVideoNode,
@@ -119,6 +158,11 @@ const nodeTypes = {
   dynamicNineGridInput: DynamicNineGridInputNode,
 };
 
+// 所有节点都显示工作流运行状态
+const nodeTypes: NodeTypes = Object.fromEntries(
+  Object.entries(baseNodeTypes).map(([type, component]) => [type, withRunStatus(component)])
+);
+
 // 边类型定义
 const edgeTypes = {
   deletable: DeletableEdge,
@@ -133,7 +177,7 @@ function CanvasContent() {
   const [, setLocation] = useLocation();
   const { user, isAuthenticated } = useAuth();
   const reactFlowWrapper = useRef<HTMLDivElement>(null);
-  const { screenToFlowPosition, getNode } = useReactFlow();
+  const { screenToFlowPosition, getNode, getNodes, getEdges, setCenter } = useReactFlow();
 
   const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes);
   const [edges, setEdges, onEdgesChange] = useEdgesState(initialEdges);
@@ -143,8 +187,16 @@ function CanvasContent() {
   const [aiAssistantScriptContent, setAiAssistantScriptContent] = useState<string>('');
   const [aiAssistantScriptTitle, setAiAssistantScriptTitle] = useState<string>('');
   const [showTimeline, setShowTimeline] = useState(false); // 时间轴默认隐藏
+  // 时间轴编排，与节点图一起保存在 workflowData.timeline
+  const [timeline, setTimeline] = useState<TimelineData>(createTimeline);
+  // 正在合成的时间轴片段（打开合成对话框）
+  const [renderClips, setRenderClips] = useState<TimelineClip[] | null>(null);
+  const [showVoiceover, setShowVoiceover] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [assetLibraryOpen, setAssetLibraryOpen] = useState(false);
+  const [revisionsOpen, setRevisionsOpen] = useState(false);
+  const [shareOpen, setShareOpen] = useState(false);
+  const [reviewInboxOpen, setReviewInboxOpen] = useState(false);
   const [activePanel, setActivePanel] = useState<'script' | 'design' | 'storyboard' | null>(null);
   // 记录已经打开过的面板，用于保留组件状态（不卸载组件）
   const [mountedPanels, setMountedPanels] = useState<Set<'script' | 'design' | 'storyboard'>>(new Set());
@@ -152,13 +204,57 @@ function CanvasContent() {
   const [editedName, setEditedName] = useState("");
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const initialLoadDone = useRef(false);
+  // 拖拽连线时当前目标端口不可连接的原因
+  const [connectionHint, setConnectionHint] = useState<string | null>(null);
+  const connectionHintRef = useRef<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // 画布内容只在打开项目时加载一次，窗口重新获得焦点时不重新获取，以免覆盖未保存的编辑
   const { data: project, isLoading } = trpc.project.get.useQuery(
     { id: projectId },
-    { enabled: projectId > 0 && isAuthenticated }
+    { enabled: projectId > 0 && isAuthenticated, refetchOnWindowFocus: false }
+  );
+  // 已加载到画布的项目 id；恢复版本后清空以重新加载
+  const loadedProjectId = useRef<number | null>(null);
+  // 查看者和评论者只能浏览画布，不能编辑、运行或保存
+  const readOnly = !!project && !hasProjectRole(project.role, "editor");
+
+  const { run: runWorkflowGraph, cancel: cancelWorkflowRun, isRunning: isWorkflowRunning, nodeStates } =
+    useWorkflowRunner(projectId);
+  // Ctrl+C / Ctrl+X / Ctrl+V / Ctrl+D，可跨项目粘贴
+  useCanvasClipboard({ readOnly });
+
+  // 实时协同：加入后画布内容以协同房间为准，由房间负责写回项目
+  const collab = useCollaboration({
+    projectId,
+    enabled: !!project,
+    readOnly,
+    nodes,
+    edges,
+    setNodes,
+    setEdges,
+    timeline,
+    setTimeline,
+  });
+  const collabJoined = useRef(false);
+  if (collab.connected) collabJoined.current = true;
+  // 协同连接期间只撤销自己的修改
+  const history = useCanvasHistory({ nodes, edges, setNodes, setEdges, readOnly, collab });
+
+  // 评审评论：节点、分镜和设计项上的讨论串
+  const comments = useProjectComments(projectId, !!project);
+  const reviewCommentsContextValue = useMemo(
+    () => ({
+      projectId,
+      threadsByTarget: comments.threadsByTarget,
+      currentUserId: user?.id,
+      canComment: hasProjectRole(project?.role, "commenter"),
+      isOwner: project?.role === "owner",
+    }),
+    [projectId, comments.threadsByTarget, user?.id, project?.role]
   );
 
+  const utils = trpc.useUtils();
   const updateProject = trpc.project.update.useMutation({
     onSuccess: () => {
       // 静默保存，不显示toast提示
@@ -172,42 +268,59 @@ function CanvasContent() {
 
   // Load workflow data when project is loaded
   useEffect(() => {
-    if (project?.workflowData) {
-      const data = project.workflowData as { nodes?: Node[]; edges?: Edge[] };
+    // 加入协同后不再用重新获取的项目覆盖画布（恢复版本等修改由协同房间同步过来）
+    if (collabJoined.current) return;
+    if (!project || project.id !== projectId || loadedProjectId.current === projectId) return;
+    loadedProjectId.current = projectId;
+    if (project.workflowData) {
+      const data = project.workflowData as { nodes?: Node[]; edges?: Edge[]; timeline?: unknown };
+      const loadedEdges = normalizeWorkflowEdges(data.nodes ?? [], data.edges ?? []);
       if (data.nodes) setNodes(data.nodes);
-      if (data.edges) setEdges(data.edges);
+      if (data.edges) {
+        setEdges(loadedEdges);
+        // 旧项目中类型不匹配的连线保留，以虚线标出
+        const invalidCount = loadedEdges.filter(edge => !checkEdgePortTypes(data.nodes ?? [], edge).valid).length;
+        if (invalidCount > 0) {
+          toast.warning(`有 ${invalidCount} 条连线的数据类型不匹配，已用灰色虚线标出`);
+        }
+      }
+      setTimeline(normalizeTimeline(data.timeline));
+      // 撤销历史从加载的项目开始
+      history.reset(data.nodes ?? [], loadedEdges);
       initialLoadDone.current = true;
     }
-  }, [project, setNodes, setEdges]);
+  }, [project, projectId, setNodes, setEdges, history.reset]);
 
   // Track unsaved changes after initial load
   useEffect(() => {
     if (initialLoadDone.current) {
       setHasUnsavedChanges(true);
     }
-  }, [nodes, edges]);
+  }, [nodes, edges, timeline]);
 
-  // Auto-save every 30 seconds
+  // Auto-save every 30 seconds（协同时由协同房间保存）
   useEffect(() => {
     const autoSaveInterval = setInterval(() => {
-      if (hasUnsavedChanges && projectId > 0 && !isSaving) {
+      if (hasUnsavedChanges && projectId > 0 && !isSaving && !collab.connected && !readOnly) {
         updateProject.mutate({
           id: projectId,
-          workflowData: { nodes, edges },
+          workflowData: toWorkflowSnapshot(nodes, edges, timeline),
+          saveKind: "auto",
         });
         setHasUnsavedChanges(false);
       }
     }, 30000);
     return () => clearInterval(autoSaveInterval);
-  }, [hasUnsavedChanges, projectId, nodes, edges, updateProject, isSaving]);
+  }, [hasUnsavedChanges, projectId, nodes, edges, timeline, updateProject, isSaving, collab.connected, readOnly]);
 
   // Save on page unload
   useEffect(() => {
     const saveData = () => {
-      if (hasUnsavedChanges && projectId > 0) {
+      if (hasUnsavedChanges && projectId > 0 && !collab.connected && !readOnly) {
         const data = JSON.stringify({
           id: projectId,
-          workflowData: { nodes, edges },
+          workflowData: toWorkflowSnapshot(nodes, edges, timeline),
+          saveKind: "auto",
         });
         navigator.sendBeacon('/api/trpc/project.update?batch=1',
           new Blob([JSON.stringify({ "0": { json: JSON.parse(data) } })], { type: 'application/json' })
@@ -216,27 +329,147 @@ function CanvasContent() {
     };
     window.addEventListener('beforeunload', saveData);
     return () => window.removeEventListener('beforeunload', saveData);
-  }, [hasUnsavedChanges, projectId, nodes, edges]);
+  }, [hasUnsavedChanges, projectId, nodes, edges, timeline, collab.connected, readOnly]);
 
   const onConnect = useCallback(
     (params: Connection) => {
+      const check = validateConnection({ nodes: getNodes(), edges: getEdges() }, params);
+      if (!check.valid) {
+        toast.error(check.reason);
+        return;
+      }
       setEdges((eds) => addEdge({
         ...params,
         animated: true,
-        style: { stroke: 'oklch(0.7 0.25 350)', strokeWidth: 2 },
+        style: { strokeWidth: 2 },
       }, eds));
     },
-    [setEdges]
+    [setEdges, getNodes, getEdges]
+  );
+
+  // 拖拽连线时按端口类型校验，不可连接的端口显示原因
+  const isValidConnection: IsValidConnection = useCallback(
+    (connection) => {
+      const check = validateConnection({ nodes: getNodes(), edges: getEdges() }, connection);
+      const hint = check.valid ? null : check.reason;
+      connectionHintRef.current = hint;
+      setConnectionHint(hint);
+      return check.valid;
+    },
+    [getNodes, getEdges]
   );
 
+  const onConnectEnd: OnConnectEnd = useCallback((_event, connectionState) => {
+    if (!connectionState.isValid && connectionState.toHandle && connectionHintRef.current) {
+      toast.error(connectionHintRef.current);
+    }
+    connectionHintRef.current = null;
+    setConnectionHint(null);
+  }, []);
+
+  // 连线按数据类型着色（仅用于显示，不写入保存的 workflowData）
+  // 只在节点增删或类型变化时重新计算，拖动节点不触发
+  const nodeTypeKey = nodes.map((n) => `${n.id}:${n.type}`).join("|");
+  const portNodes = useMemo(() => nodes.map((n) => ({ id: n.id, type: n.type })), [nodeTypeKey]);
+  const displayEdges = useMemo(() => {
+    return edges.map((edge) => {
+      const check = checkEdgePortTypes(portNodes, edge);
+      if (!check.valid) {
+        return {
+          ...edge,
+          animated: false,
+          style: { ...edge.style, stroke: INVALID_EDGE_COLOR, strokeDasharray: "6 4" },
+          data: { ...edge.data, invalidReason: check.reason },
+        };
+      }
+      return check.type ? { ...edge, style: { ...edge.style, stroke: PORT_EDGE_COLORS[check.type] } } : edge;
+    });
+  }, [edges, portNodes]);
+
   const handleSave = useCallback(() => {
     setIsSaving(true);
+    if (collab.connected) {
+      collab.save()
+        .catch(() => toast.error("保存失败"))
+        .finally(() => setIsSaving(false));
+      setHasUnsavedChanges(false);
+      return;
+    }
     updateProject.mutate({
       id: projectId,
-      workflowData: { nodes, edges },
+      workflowData: toWorkflowSnapshot(nodes, edges, timeline),
+      saveKind: "manual",
+    });
+    setHasUnsavedChanges(false);
+  }, [projectId, nodes, edges, timeline, updateProject, collab.connected, collab.save]);
+
+  // 恢复版本前先保存未保存的修改，使其也留在版本历史中
+  const saveBeforeRestore = useCallback(async () => {
+    if (collab.connected) {
+      await collab.save();
+      return;
+    }
+    if (!hasUnsavedChanges) return;
+    await updateProject.mutateAsync({
+      id: projectId,
+      workflowData: toWorkflowSnapshot(nodes, edges, timeline),
+      saveKind: "manual",
     });
     setHasUnsavedChanges(false);
-  }, [projectId, nodes, edges, updateProject]);
+  }, [hasUnsavedChanges, projectId, nodes, edges, timeline, updateProject, collab.connected, collab.save]);
+
+  // 时间轴导出：合成为 MP4
+  const handleTimelineExport = useCallback((clips: { video: TimelineClip[]; audio: TimelineClip[] }) => {
+    setRenderClips([...clips.video, ...clips.audio]);
+  }, []);
+
+  // 分镜 → 时间轴：发送后片段和对白字幕与分镜关联，分镜列表变化（修改时长、对白、生成图片）或打开项目时重新同步
+  const linkStoryboard = trpc.timeline.linkStoryboard.useMutation();
+  const linkedScriptId = linkedStoryboardScriptId(timeline);
+  const applyStoryboardShots = useCallback((scriptId: number, shots: StoryboardTimelineShot[]) => {
+    setTimeline(prev => layoutStoryboard(prev, scriptId, shots));
+  }, []);
+
+  const handleSendStoryboardToTimeline = useCallback(async (scriptId: number) => {
+    try {
+      const shots = await linkStoryboard.mutateAsync({ projectId, scriptId });
+      const count = shots.filter(shot => shot.assetId !== null || shot.dialogue?.trim()).length;
+      if (count === 0) {
+        toast.error("分镜还没有生成图片或填写对白");
+        return;
+      }
+      applyStoryboardShots(scriptId, shots);
+      setShowTimeline(true);
+      toast.success(`已将 ${count} 个镜头发送到时间轴`);
+    } catch (error) {
+      toast.error(`发送失败: ${error instanceof Error ? error.message : "未知错误"}`);
+    }
+  }, [projectId, linkStoryboard.mutateAsync, applyStoryboardShots]);
+
+  // 生成配音后重新同步，配音随分镜排到音频轨道
+  const handleVoiceoverGenerated = useCallback(async () => {
+    if (linkedScriptId === undefined) return;
+    applyStoryboardShots(linkedScriptId, await linkStoryboard.mutateAsync({ projectId, scriptId: linkedScriptId }));
+  }, [projectId, linkedScriptId, linkStoryboard.mutateAsync, applyStoryboardShots]);
+
+  // 与分镜面板共用同一查询缓存，面板保存或生成图片后这里随之更新
+  const { data: linkedShots } = trpc.storyboardShot.getByScriptId.useQuery(
+    { scriptId: linkedScriptId ?? 0 },
+    { enabled: linkedScriptId !== undefined && !readOnly }
+  );
+  useEffect(() => {
+    if (!linkedShots || linkedScriptId === undefined || readOnly) return;
+    let cancelled = false;
+    linkStoryboard.mutateAsync({ projectId, scriptId: linkedScriptId }).then(
+      shots => {
+        if (!cancelled) applyStoryboardShots(linkedScriptId, shots);
+      },
+      error => console.warn("[Canvas] 同步分镜到时间轴失败:", error)
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [linkedShots, linkedScriptId, readOnly, projectId]);
 
   // Handle project name edit
   const startEditingName = useCallback(() => {
@@ -259,6 +492,7 @@ function CanvasContent() {
         setShowTimeline(prev => !prev);
         return;
       }
+      if (readOnly) return;
 
       const position = screenToFlowPosition({
         x: window.innerWidth / 2,
@@ -274,16 +508,19 @@ function CanvasContent() {
 
       setNodes((nds) => [...nds, newNode]);
     },
-    [screenToFlowPosition, setNodes]
+    [screenToFlowPosition, setNodes, readOnly]
   );
 
   // 获取连接到指定节点的所有提示词
   const getConnectedPrompts = useCallback(
     (nodeId: string): string[] => {
       const prompts: string[] = [];
+      const targetType = nodes.find((n) => n.id === nodeId)?.type;
       
-      // 找到所有连接到此节点的边
-      const incomingEdges = edges.filter((edge) => edge.target === nodeId);
+      // 找到所有连接到此节点文本端口的边
+      const incomingEdges = edges.filter((edge) =>
+        edge.target === nodeId && (findPort(targetType, "input", edge.targetHandle)?.type ?? "text") === "text"
+      );
       
       for (const edge of incomingEdges) {
         const sourceNode = nodes.find((n) => n.id === edge.source);
@@ -304,9 +541,14 @@ function CanvasContent() {
   const getConnectedImages = useCallback(
     (nodeId: string): string[] => {
       const images: string[] = [];
+      const targetType = nodes.find((n) => n.id === nodeId)?.type;
       
-      // 找到所有连接到此节点的边
-      const incomingEdges = edges.filter((edge) => edge.target === nodeId);
+      // 找到所有连接到此节点图片类端口的边
+      const incomingEdges = edges.filter((edge) => {
+        if (edge.target !== nodeId) return false;
+        const portType = findPort(targetType, "input", edge.targetHandle)?.type;
+        return portType !== "text" && portType !== "video";
+      });
       
       for (const edge of incomingEdges) {
         const sourceNode = nodes.find((n) => n.id === edge.source);
@@ -822,6 +1064,7 @@ function CanvasContent() {
   // Canvas Context 值
   const canvasContextValue = useMemo(
     () => ({
+      projectId,
       nodes,
       edges,
       getConnectedPrompts,
@@ -837,7 +1080,81 @@ function CanvasContent() {
       addLoadingImageNodeWithRatio,
       updateImageNodeWithDescription,
     }),
-    [nodes, edges, getConnectedPrompts, getConnectedImages, addGeneratedImageNode, addGeneratedVideoNode, addLoadingImageNode, updateImageNode, setImageNodeError, addLoadingVideoNode, updateVideoNode, setVideoNodeError, addLoadingImageNodeWithRatio, updateImageNodeWithDescription]
+    [projectId, nodes, edges, getConnectedPrompts, getConnectedImages, addGeneratedImageNode, addGeneratedVideoNode, addLoadingImageNode, updateImageNode, setImageNodeError, addLoadingVideoNode, updateVideoNode, setVideoNodeError, addLoadingImageNodeWithRatio, updateImageNodeWithDescription]
+  );
+
+  // 运行工作流（全部 / 从某节点开始 / 选中的节点）
+  const runWorkflow = useCallback(
+    async (mode: WorkflowRunMode) => {
+      try {
+        const result = await runWorkflowGraph(mode);
+        if (!result) return;
+        const failed = Object.values(result.statuses).filter((status) => status === "error").length;
+        if (failed > 0) {
+          toast.error(`${failed} 个节点运行失败，悬停状态标记查看原因`);
+        } else {
+          toast.success("工作流运行完成");
+        }
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "运行失败");
+      }
+    },
+    [runWorkflowGraph]
+  );
+
+  const selectedNodeIds = useMemo(
+    () => nodes.filter((node) => node.selected).map((node) => node.id),
+    [nodes]
+  );
+
+  // 其他成员正在生成的节点不能拖动、删除或编辑
+  const lockedByOthers = useMemo(
+    () => Object.fromEntries(collab.locks.filter((lock) => lock.userId !== user?.id).map((lock) => [lock.nodeId, lock])),
+    [collab.locks, user?.id]
+  );
+  const collabLockContextValue = useMemo(() => ({ lockedByOthers, readOnly }), [lockedByOthers, readOnly]);
+  const displayNodes = useMemo(
+    () => nodes.map((node) => (lockedByOthers[node.id] ? { ...node, draggable: false, deletable: false } : node)),
+    [nodes, lockedByOthers]
+  );
+
+  const workflowRunContextValue = useMemo(
+    () => ({
+      nodeStates,
+      isRunning: isWorkflowRunning,
+      runFrom: (nodeId: string) => void runWorkflow({ type: "from", nodeId }),
+    }),
+    [nodeStates, isWorkflowRunning, runWorkflow]
+  );
+
+  const openPanel = useCallback((panel: 'script' | 'design' | 'storyboard' | null) => {
+    setActivePanel(panel);
+    if (panel) {
+      setMountedPanels(prev => new Set(prev).add(panel));
+    }
+  }, []);
+
+  // 从评审收件箱定位到评论对象：节点居中并选中，分镜 / 设计项打开对应面板
+  const locateCommentTarget = useCallback(
+    (thread: CommentThread) => {
+      if (thread.targetType === "node") {
+        const node = getNode(thread.targetId);
+        if (!node) {
+          toast.error("节点已被删除");
+          return;
+        }
+        setNodes((nds) => nds.map((n) => ({ ...n, selected: n.id === node.id })));
+        setCenter(
+          node.position.x + (node.measured?.width ?? 0) / 2,
+          node.position.y + (node.measured?.height ?? 0) / 2,
+          { zoom: 1, duration: 400 }
+        );
+      } else {
+        openPanel(thread.targetType === "storyboardShot" ? "storyboard" : "design");
+      }
+      setReviewInboxOpen(false);
+    },
+    [getNode, setNodes, setCenter, openPanel]
   );
 
   const onDragOver = useCallback((event: React.DragEvent) => {
@@ -922,6 +1239,9 @@ function CanvasContent() {
 
   return (
     <CanvasContext.Provider value={canvasContextValue}>
+    <WorkflowRunContext.Provider value={workflowRunContextValue}>
+    <CollabLockContext.Provider value={collabLockContextValue}>
+    <ReviewCommentsContext.Provider value={reviewCommentsContextValue}>
       <div className="h-screen flex flex-col bg-background">
         {/* Header */}
         <header className="h-14 border-b border-border/50 glass-panel flex items-center justify-between px-4 z-50">
@@ -952,69 +1272,169 @@ function CanvasContent() {
                 />
               ) : (
                 <span
-                  className="font-medium cursor-pointer hover:text-primary transition-colors"
-                  onClick={startEditingName}
-                  title="点击编辑项目名称"
+                  className={readOnly ? "font-medium" : "font-medium cursor-pointer hover:text-primary transition-colors"}
+                  onClick={readOnly ? undefined : startEditingName}
+                  title={readOnly ? undefined : "点击编辑项目名称"}
                 >
                   {project?.name || "未命名项目"}
                 </span>
               )}
-              {hasUnsavedChanges && (
-                <span className="text-xs text-muted-foreground">(未保存)</span>
+              {readOnly && project ? (
+                <span className="flex items-center gap-1 px-2 py-0.5 rounded text-xs bg-muted text-muted-foreground">
+                  <Eye className="w-3 h-3" />
+                  只读（{PROJECT_ROLE_LABELS[project.role]}）
+                </span>
+              ) : (
+                hasUnsavedChanges && !collab.connected && (
+                  <span className="text-xs text-muted-foreground">(未保存)</span>
+                )
               )}
             </div>
           </div>
 
           <div className="flex items-center gap-2">
+            <CollabUsers users={collab.users} connected={collab.connected} />
+            {!readOnly && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={history.undo}
+                  disabled={!history.canUndo}
+                  title="撤销 (Ctrl+Z)"
+                >
+                  <Undo2 className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={history.redo}
+                  disabled={!history.canRedo}
+                  title="重做 (Ctrl+Shift+Z)"
+                >
+                  <Redo2 className="w-4 h-4" />
+                </Button>
+                {isWorkflowRunning ? (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={cancelWorkflowRun}
+                    className="border-destructive/60 text-destructive hover:bg-destructive/20"
+                    title="已开始的生成会继续完成，后续节点不再运行"
+                  >
+                    <Square className="w-4 h-4 mr-2" />
+                    停止
+                  </Button>
+                ) : (
+                  <>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => runWorkflow({ type: "all" })}
+                      className="border-green-500/60 text-green-300 hover:bg-green-500/20 hover:border-green-400 hover:text-green-200"
+                      title="按连线顺序运行所有节点，未变化的节点使用缓存结果"
+                    >
+                      <Play className="w-4 h-4 mr-2" />
+                      运行全部
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => runWorkflow({ type: "selected", nodeIds: selectedNodeIds })}
+                      disabled={selectedNodeIds.length === 0}
+                      className="border-border/50 hover:neon-border-cyan"
+                    >
+                      <ListChecks className="w-4 h-4 mr-2" />
+                      运行选中
+                    </Button>
+                  </>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => addNode('imageEditor')}
+                  className="border-purple-500/60 text-purple-300 hover:bg-purple-500/20 hover:border-purple-400 hover:text-purple-200"
+                >
+                  <Wand2 className="w-4 h-4 mr-2" />
+                  图片编辑
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => fileInputRef.current?.click()}
+                  className="border-cyan-500/60 text-cyan-300 hover:bg-cyan-500/20 hover:border-cyan-400 hover:text-cyan-200"
+                >
+                  <ImagePlus className="w-4 h-4 mr-2" />
+                  加载图片
+                </Button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="image/*"
+                  className="hidden"
+                  onChange={handleFileUpload}
+                />
+              </>
+            )}
+            <PromptLibrary />
             <Button
               variant="outline"
               size="sm"
-              onClick={() => addNode('imageEditor')}
-              className="border-purple-500/60 text-purple-300 hover:bg-purple-500/20 hover:border-purple-400 hover:text-purple-200"
+              onClick={() => setAssetLibraryOpen(true)}
+              className="border-border/50 hover:neon-border-cyan"
             >
-              <Wand2 className="w-4 h-4 mr-2" />
-              图片编辑
+              <FolderOpen className="w-4 h-4 mr-2" />
+              资产库
             </Button>
             <Button
               variant="outline"
               size="sm"
-              onClick={() => fileInputRef.current?.click()}
-              className="border-cyan-500/60 text-cyan-300 hover:bg-cyan-500/20 hover:border-cyan-400 hover:text-cyan-200"
+              onClick={() => setRevisionsOpen(true)}
+              className="border-border/50 hover:neon-border-cyan"
             >
-              <ImagePlus className="w-4 h-4 mr-2" />
-              加载图片
+              <History className="w-4 h-4 mr-2" />
+              历史版本
             </Button>
-            <input
-              ref={fileInputRef}
-              type="file"
-              accept="image/*"
-              className="hidden"
-              onChange={handleFileUpload}
-            />
-            <PromptLibrary />
             <Button
               variant="outline"
               size="sm"
-              onClick={() => setAssetLibraryOpen(true)}
+              onClick={() => setReviewInboxOpen(true)}
               className="border-border/50 hover:neon-border-cyan"
             >
-              <FolderOpen className="w-4 h-4 mr-2" />
-              资产库
+              <MessageSquareText className="w-4 h-4 mr-2" />
+              评审
+              {comments.openCount > 0 && (
+                <span className="ml-1.5 px-1.5 rounded-full text-[10px] bg-amber-500/20 text-amber-300">
+                  {comments.openCount}
+                </span>
+              )}
             </Button>
             <Button
               variant="outline"
               size="sm"
-              onClick={handleSave}
-              disabled={isSaving}
+              onClick={() => setShareOpen(true)}
+              disabled={!project}
               className="border-border/50 hover:neon-border-cyan"
             >
-              {isSaving ? (
-                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-              ) : (
-                <Save className="w-4 h-4 mr-2" />
-              )}
-              保存
+              <Share2 className="w-4 h-4 mr-2" />
+              共享
             </Button>
+            {!readOnly && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleSave}
+                disabled={isSaving}
+                className="border-border/50 hover:neon-border-cyan"
+              >
+                {isSaving ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Save className="w-4 h-4 mr-2" />
+                )}
+                保存
+              </Button>
+            )}
           </div>
         </header>
 
@@ -1027,25 +1447,30 @@ function CanvasContent() {
             onAddNode={addNode}
             showTimeline={showTimeline}
             onToggleTimeline={() => setShowTimeline(!showTimeline)}
-            onOpenPanel={(panel) => {
-              setActivePanel(panel);
-              if (panel) {
-                setMountedPanels(prev => new Set(prev).add(panel));
-              }
-            }}
+            onOpenPanel={openPanel}
           />
 
           {/* Canvas */}
-          <div className="flex-1 relative" ref={reactFlowWrapper}>
+          <div
+            className="flex-1 relative"
+            ref={reactFlowWrapper}
+            onMouseMove={collab.updateCursor}
+            onMouseLeave={() => collab.updateCursor(null)}
+          >
             <ReactFlow
-              nodes={nodes}
-              edges={edges}
+              nodes={displayNodes}
+              edges={displayEdges}
               onNodesChange={onNodesChange}
               onEdgesChange={onEdgesChange}
               onConnect={onConnect}
+              isValidConnection={isValidConnection}
+              onConnectEnd={onConnectEnd}
               onDragOver={onDragOver}
-              onDrop={onDrop}
-              onDoubleClick={onDoubleClick}
+              onDrop={readOnly ? undefined : onDrop}
+              onDoubleClick={readOnly ? undefined : onDoubleClick}
+              nodesDraggable={!readOnly}
+              nodesConnectable={!readOnly}
+              deleteKeyCode={readOnly ? null : undefined}
               nodeTypes={nodeTypes}
               edgeTypes={edgeTypes}
               fitView
@@ -1055,7 +1480,7 @@ function CanvasContent() {
               defaultEdgeOptions={{
                 type: 'deletable',
                 animated: true,
-                style: { stroke: 'oklch(0.7 0.25 350)', strokeWidth: 2 },
+                style: { strokeWidth: 2 },
               }}
               // 多选框选功能配置
               selectionOnDrag={true}
@@ -1075,15 +1500,44 @@ function CanvasContent() {
                 nodeColor="oklch(0.7 0.25 350)"
                 maskColor="oklch(0.08 0.01 260 / 0.8)"
               />
-
-
-
+              {connectionHint && (
+                <Panel position="top-center" className="!mt-4">
+                  <div className="px-3 py-1.5 rounded-md bg-destructive/90 text-destructive-foreground text-xs shadow-lg">
+                    {connectionHint}
+                  </div>
+                </Panel>
+              )}
+              <CollabCursors users={collab.users} />
             </ReactFlow>
 
             {/* 时间轴编辑器 - 悬浮在画布底部 */}
             <div className="absolute bottom-0 left-0 right-0 z-20">
-              <Timeline show={showTimeline} />
+              <Timeline
+                show={showTimeline}
+                projectId={projectId}
+                value={timeline}
+                onChange={setTimeline}
+                readOnly={readOnly}
+                onExport={readOnly ? undefined : handleTimelineExport}
+                onVoiceover={readOnly || linkedScriptId === undefined ? undefined : () => setShowVoiceover(true)}
+              />
             </div>
+            <TimelineRenderDialog
+              projectId={projectId}
+              clips={renderClips ?? []}
+              subtitles={timeline.subtitles}
+              open={renderClips !== null}
+              onOpenChange={(open) => !open && setRenderClips(null)}
+            />
+            {linkedScriptId !== undefined && (
+              <VoiceoverDialog
+                projectId={projectId}
+                scriptId={linkedScriptId}
+                open={showVoiceover}
+                onOpenChange={setShowVoiceover}
+                onGenerated={handleVoiceoverGenerated}
+              />
+            )}
 
             {/* 基础创作面板 - 绝对定位在左侧，不遮挡右侧画布 */}
             {/* 使用CSS隐藏而不是卸载组件，以保留生成进度等状态 */}
@@ -1118,6 +1572,7 @@ function CanvasContent() {
                   canvasId={projectId}
                   onClose={() => setActivePanel(null)}
                   onSendToCanvas={addImageNodeFromAssetLibrary}
+                  onSendToTimeline={readOnly ? undefined : handleSendStoryboardToTimeline}
                 />
               </div>
             )}
@@ -1163,7 +1618,39 @@ function CanvasContent() {
           onClose={() => setAssetLibraryOpen(false)}
           onSendToCanvas={addImageNodeFromAssetLibrary}
         />
+
+        <RevisionHistoryDrawer
+          projectId={projectId}
+          open={revisionsOpen}
+          onOpenChange={setRevisionsOpen}
+          beforeRestore={saveBeforeRestore}
+          onRestored={() => {
+            loadedProjectId.current = null;
+            utils.project.get.invalidate({ id: projectId });
+          }}
+          canRestore={!readOnly}
+        />
+
+        <ReviewInbox
+          open={reviewInboxOpen}
+          onOpenChange={setReviewInboxOpen}
+          threads={comments.threads}
+          onLocate={locateCommentTarget}
+        />
+
+        {project && (
+          <ShareProjectDialog
+            projectId={projectId}
+            role={project.role}
+            currentUserId={user?.id}
+            open={shareOpen}
+            onOpenChange={setShareOpen}
+          />
+        )}
       </div>
+    </ReviewCommentsContext.Provider>
+    </CollabLockContext.Provider>
+    </WorkflowRunContext.Provider>
     </CanvasContext.Provider>
   );
 }
@@ -5,6 +5,7 @@ import { Input } from "@/components/ui/input";
 import { trpc } from "@/lib/trpc";
 import { toast } from "sonner";
 import { Loader2 } from "lucide-react";
+import { PASSWORD_MIN_LENGTH } from "@shared/const";
 
 export default function Login() {
   const [, setLocation] = useLocation();
@@ -109,10 +110,10 @@ export default function Login() {
                 type="password"
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
-                placeholder="输入密码"
+                placeholder={isRegister ? `至少 ${PASSWORD_MIN_LENGTH} 位` : "输入密码"}
                 className="bg-background/50"
                 required
-                minLength={4}
+                minLength={isRegister ? PASSWORD_MIN_LENGTH : undefined}
               />
             </div>
 
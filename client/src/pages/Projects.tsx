@@ -7,6 +7,11 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import {
@@ -17,8 +22,10 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import { ChangePasswordDialog } from "@/components/ChangePasswordDialog";
 import { trpc } from "@/lib/trpc";
 import { useLocation } from "wouter";
+import { hasProjectRole, PROJECT_ROLE_LABELS } from "@shared/projectRoles";
 import { 
   Plus, 
   Search, 
@@ -31,9 +38,16 @@ import {
   FolderOpen,
   Clock,
   ArrowLeft,
-  Clapperboard
+  Clapperboard,
+  KeyRound,
+  BarChart3,
+  ImageIcon,
+  Bot,
+  Users,
+  Download,
+  Upload
 } from "lucide-react";
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { toast } from "sonner";
 
 export default function Projects() {
@@ -45,6 +59,8 @@ export default function Projects() {
   const [renameDialogOpen, setRenameDialogOpen] = useState(false);
   const [projectToRename, setProjectToRename] = useState<{ id: number; name: string } | null>(null);
   const [newName, setNewName] = useState("");
+  const [changePasswordOpen, setChangePasswordOpen] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   const utils = trpc.useUtils();
   
@@ -90,6 +106,24 @@ export default function Projects() {
     },
   });
 
+  const { data: imageProviders } = trpc.ai.listImageProviders.useQuery(undefined, { enabled: isAuthenticated });
+  const { data: llmBackends } = trpc.ai.listLLMBackends.useQuery(undefined, { enabled: isAuthenticated });
+  const updatePreferences = trpc.auth.updatePreferences.useMutation({
+    onSuccess: (_data, variables) => {
+      if (variables.imageProvider !== undefined) {
+        utils.ai.listImageProviders.invalidate();
+        toast.success("默认图片服务已更新");
+      }
+      if (variables.llmBackend !== undefined) {
+        utils.ai.listLLMBackends.invalidate();
+        toast.success("默认文本模型已更新");
+      }
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
   const duplicateProject = trpc.project.duplicate.useMutation({
     onSuccess: () => {
       utils.project.list.invalidate();
@@ -100,6 +134,34 @@ export default function Projects() {
     },
   });
 
+  // 导出为 zip 项目包并下载
+  const exportProject = trpc.project.export.useMutation({
+    onSuccess: ({ fileName, data }) => {
+      const bytes = Uint8Array.from(atob(data), (char) => char.charCodeAt(0));
+      const url = URL.createObjectURL(new Blob([bytes], { type: "application/zip" }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+      toast.success("项目已导出");
+    },
+    onError: (error) => {
+      toast.error(`导出失败: ${error.message}`);
+    },
+  });
+
+  const importProject = trpc.project.import.useMutation({
+    onSuccess: (project) => {
+      utils.project.list.invalidate();
+      toast.success("项目已导入");
+      setLocation(`/canvas/${project.id}`);
+    },
+    onError: (error) => {
+      toast.error(`导入失败: ${error.message}`);
+    },
+  });
+
   // 加载中显示 loading
   if (authLoading) {
     return (
@@ -135,6 +197,19 @@ export default function Projects() {
     duplicateProject.mutate({ id });
   };
 
+  const handleImportFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = reader.result as string;
+      importProject.mutate({ data: dataUrl.slice(dataUrl.indexOf(",") + 1) });
+    };
+    reader.onerror = () => toast.error("读取文件失败");
+    reader.readAsDataURL(file);
+  };
+
   const openRenameDialog = (project: { id: number; name: string }) => {
     setProjectToRename(project);
     setNewName(project.name);
@@ -193,9 +268,69 @@ export default function Projects() {
               <Clapperboard className="w-4 h-4 mr-2" />
               AI 分镜师
             </Button>
-            <span className="text-muted-foreground text-sm">
-              欢迎, <span className="neon-text-cyan">{user?.name || '创作者'}</span>
-            </span>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button className="text-muted-foreground text-sm hover:text-foreground">
+                  欢迎, <span className="neon-text-cyan">{user?.name || '创作者'}</span>
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="glass-panel border-border/50">
+                <DropdownMenuItem onClick={() => setLocation('/usage')}>
+                  <BarChart3 className="w-4 h-4 mr-2" />
+                  用量统计
+                </DropdownMenuItem>
+                <DropdownMenuSub>
+                  <DropdownMenuSubTrigger>
+                    <ImageIcon className="w-4 h-4 mr-2" />
+                    默认图片服务
+                  </DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent className="glass-panel border-border/50">
+                    <DropdownMenuRadioGroup
+                      value={imageProviders?.userDefault ?? "system"}
+                      onValueChange={(value) =>
+                        updatePreferences.mutate({ imageProvider: value === "system" ? null : value })
+                      }
+                    >
+                      <DropdownMenuRadioItem value="system">跟随系统设置</DropdownMenuRadioItem>
+                      {imageProviders?.providers
+                        .filter((provider) => provider.available)
+                        .map((provider) => (
+                          <DropdownMenuRadioItem key={provider.id} value={provider.id}>
+                            {provider.name}
+                          </DropdownMenuRadioItem>
+                        ))}
+                    </DropdownMenuRadioGroup>
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+                <DropdownMenuSub>
+                  <DropdownMenuSubTrigger>
+                    <Bot className="w-4 h-4 mr-2" />
+                    默认文本模型
+                  </DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent className="glass-panel border-border/50">
+                    <DropdownMenuRadioGroup
+                      value={llmBackends?.userDefault ?? "system"}
+                      onValueChange={(value) =>
+                        updatePreferences.mutate({ llmBackend: value === "system" ? null : value })
+                      }
+                    >
+                      <DropdownMenuRadioItem value="system">跟随系统设置</DropdownMenuRadioItem>
+                      {llmBackends?.backends
+                        .filter((backend) => backend.available)
+                        .map((backend) => (
+                          <DropdownMenuRadioItem key={backend.id} value={backend.id}>
+                            {backend.name}
+                          </DropdownMenuRadioItem>
+                        ))}
+                    </DropdownMenuRadioGroup>
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+                <DropdownMenuItem onClick={() => setChangePasswordOpen(true)}>
+                  <KeyRound className="w-4 h-4 mr-2" />
+                  修改密码
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
           </div>
         </div>
       </header>
@@ -208,18 +343,41 @@ export default function Projects() {
             <h1 className="text-3xl font-bold neon-text-cyan">我的画布</h1>
             <p className="text-muted-foreground mt-1">管理你的创意项目</p>
           </div>
-          <Button 
-            onClick={handleCreateProject}
-            disabled={createProject.isPending}
-            className="bg-primary hover:bg-primary/80 text-primary-foreground neon-border-pink border"
-          >
-            {createProject.isPending ? (
-              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-            ) : (
-              <Plus className="w-4 h-4 mr-2" />
-            )}
-            新建项目
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              onClick={() => importInputRef.current?.click()}
+              disabled={importProject.isPending}
+              className="border-border/50 hover:neon-border-cyan"
+              title="导入从本站或其他部署导出的项目包（.zip）"
+            >
+              {importProject.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Upload className="w-4 h-4 mr-2" />
+              )}
+              导入项目
+            </Button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".zip,application/zip"
+              className="hidden"
+              onChange={handleImportFile}
+            />
+            <Button 
+              onClick={handleCreateProject}
+              disabled={createProject.isPending}
+              className="bg-primary hover:bg-primary/80 text-primary-foreground neon-border-pink border"
+            >
+              {createProject.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Plus className="w-4 h-4 mr-2" />
+              )}
+              新建项目
+            </Button>
+          </div>
         </div>
 
         {/* Search Bar */}
@@ -309,6 +467,12 @@ export default function Projects() {
                       <div className="flex items-center gap-1 mt-1 text-xs text-muted-foreground">
                         <Clock className="w-3 h-3" />
                         <span>编辑于 {formatDate(project.updatedAt)}</span>
+                        {project.role !== "owner" && (
+                          <span className="ml-1 flex items-center gap-1 px-1.5 rounded bg-muted">
+                            <Users className="w-3 h-3" />
+                            共享 · {PROJECT_ROLE_LABELS[project.role]}
+                          </span>
+                        )}
                       </div>
                     </div>
                     <DropdownMenu>
@@ -323,24 +487,35 @@ export default function Projects() {
                         </Button>
                       </DropdownMenuTrigger>
                       <DropdownMenuContent align="end" className="glass-panel border-border/50">
-                        <DropdownMenuItem onClick={() => openRenameDialog(project)}>
-                          <Pencil className="w-4 h-4 mr-2" />
-                          重命名
-                        </DropdownMenuItem>
+                        {hasProjectRole(project.role, "editor") && (
+                          <DropdownMenuItem onClick={() => openRenameDialog(project)}>
+                            <Pencil className="w-4 h-4 mr-2" />
+                            重命名
+                          </DropdownMenuItem>
+                        )}
                         <DropdownMenuItem onClick={() => handleDuplicateProject(project.id)}>
                           <Copy className="w-4 h-4 mr-2" />
                           复制
                         </DropdownMenuItem>
-                        <DropdownMenuItem 
-                          className="text-destructive focus:text-destructive"
-                          onClick={() => {
-                            setProjectToDelete(project.id);
-                            setDeleteDialogOpen(true);
-                          }}
+                        <DropdownMenuItem
+                          onClick={() => exportProject.mutate({ id: project.id })}
+                          disabled={exportProject.isPending}
                         >
-                          <Trash2 className="w-4 h-4 mr-2" />
-                          删除
+                          <Download className="w-4 h-4 mr-2" />
+                          导出
                         </DropdownMenuItem>
+                        {project.role === "owner" && (
+                          <DropdownMenuItem 
+                            className="text-destructive focus:text-destructive"
+                            onClick={() => {
+                              setProjectToDelete(project.id);
+                              setDeleteDialogOpen(true);
+                            }}
+                          >
+                            <Trash2 className="w-4 h-4 mr-2" />
+                            删除
+                          </DropdownMenuItem>
+                        )}
                       </DropdownMenuContent>
                     </DropdownMenu>
                   </div>
@@ -406,6 +581,8 @@ export default function Projects() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <ChangePasswordDialog open={changePasswordOpen} onOpenChange={setChangePasswordOpen} />
     </div>
   );
 }
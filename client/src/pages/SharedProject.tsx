@@ -0,0 +1,58 @@
+import { useParams, useLocation } from "wouter";
+import { AlertCircle, Eye, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { WorkflowPreview } from "@/components/canvas/WorkflowPreview";
+import { trpc } from "@/lib/trpc";
+
+/**
+ * 通过只读分享链接查看项目画布，无需登录
+ */
+export default function SharedProject() {
+  const params = useParams<{ token: string }>();
+  const [, setLocation] = useLocation();
+  const { data: project, isLoading, error } = trpc.projectSharing.getShared.useQuery(
+    { token: params.token ?? "" },
+    { enabled: !!params.token, retry: false }
+  );
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!project) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-background">
+        <AlertCircle className="w-12 h-12 text-destructive" />
+        <p className="text-muted-foreground">{error?.message ?? "分享链接无效或已过期"}</p>
+        <Button variant="outline" onClick={() => setLocation("/")}>
+          返回首页
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-screen flex flex-col bg-background">
+      <header className="h-14 border-b border-border/50 glass-panel flex items-center justify-between px-4">
+        <div className="flex items-center gap-2">
+          <img src="/logo.png" alt="FansAI Logo" className="w-8 h-8 object-contain" />
+          <span className="font-medium">{project.name}</span>
+          <span className="flex items-center gap-1 px-2 py-0.5 rounded text-xs bg-muted text-muted-foreground">
+            <Eye className="w-3 h-3" />
+            只读分享
+          </span>
+        </div>
+        <span className="text-xs text-muted-foreground">
+          更新于 {new Date(project.updatedAt).toLocaleString("zh-CN")}
+        </span>
+      </header>
+      <div className="flex-1 cyber-grid">
+        <WorkflowPreview workflowData={project.workflowData} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+import { useAuth } from "@/_core/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { trpc } from "@/lib/trpc";
+import { useLocation } from "wouter";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+
+const chartConfig = {
+  tokens: { label: "Token", color: "var(--chart-1)" },
+  images: { label: "图片", color: "var(--chart-2)" },
+} satisfies ChartConfig;
+
+const numberFormat = new Intl.NumberFormat("zh-CN");
+
+function UsageStat({
+  title,
+  value,
+  limit,
+  unit,
+}: {
+  title: string;
+  value: number;
+  limit: number | null;
+  unit: string;
+}) {
+  return (
+    <Card className="glass-panel border-border/50">
+      <CardHeader className="pb-2">
+        <CardDescription>{title}</CardDescription>
+        <CardTitle className="text-2xl neon-text-cyan">
+          {numberFormat.format(value)}
+          <span className="text-sm text-muted-foreground ml-1">{unit}</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {limit == null ? (
+          <p className="text-xs text-muted-foreground">不限额</p>
+        ) : (
+          <>
+            <Progress value={limit > 0 ? Math.min(100, (value / limit) * 100) : 100} className="h-2" />
+            <p className="text-xs text-muted-foreground mt-2">
+              上限 {numberFormat.format(limit)} {unit}
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Usage() {
+  const { loading: authLoading, isAuthenticated } = useAuth();
+  const [, setLocation] = useLocation();
+
+  const summary = trpc.usage.summary.useQuery(undefined, { enabled: isAuthenticated });
+  const daily = trpc.usage.daily.useQuery({ days: 30 }, { enabled: isAuthenticated });
+  const monthly = trpc.usage.monthly.useQuery({ months: 12 }, { enabled: isAuthenticated });
+  const breakdown = trpc.usage.breakdown.useQuery({ days: 30 }, { enabled: isAuthenticated });
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    window.location.href = "/login";
+    return null;
+  }
+
+  const dailyChartData = (daily.data ?? []).map(bucket => ({
+    period: bucket.period.slice(5),
+    tokens: bucket.inputTokens + bucket.outputTokens,
+    images: bucket.imageCount,
+  }));
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="sticky top-0 z-50 border-b border-border/50 glass-panel">
+        <div className="container flex h-16 items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => setLocation("/projects")}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div>
+            <h1 className="text-xl font-bold neon-text-pink">用量统计</h1>
+            <p className="text-xs text-muted-foreground">Gemini 文本与图片生成的调用记录</p>
+          </div>
+        </div>
+      </header>
+
+      <main className="container py-8 space-y-8">
+        {summary.isLoading ? (
+          <div className="flex items-center justify-center py-20">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : summary.data ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            <UsageStat
+              title="今日 Token"
+              value={summary.data.today.inputTokens + summary.data.today.outputTokens}
+              limit={summary.data.quota.dailyTokenLimit}
+              unit="tokens"
+            />
+            <UsageStat
+              title="本月 Token"
+              value={summary.data.month.inputTokens + summary.data.month.outputTokens}
+              limit={summary.data.quota.monthlyTokenLimit}
+              unit="tokens"
+            />
+            <UsageStat
+              title="今日图片"
+              value={summary.data.today.imageCount}
+              limit={summary.data.quota.dailyImageLimit}
+              unit="张"
+            />
+            <UsageStat
+              title="本月图片"
+              value={summary.data.month.imageCount}
+              limit={summary.data.quota.monthlyImageLimit}
+              unit="张"
+            />
+          </div>
+        ) : null}
+
+        {/* 近 30 天 */}
+        <Card className="glass-panel border-border/50">
+          <CardHeader>
+            <CardTitle>近 30 天</CardTitle>
+            <CardDescription>每日 Token 消耗与图片生成数量</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {dailyChartData.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-10 text-center">暂无用量记录</p>
+            ) : (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <ChartContainer config={chartConfig} className="h-64 w-full">
+                  <BarChart data={dailyChartData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="period" tickLine={false} axisLine={false} />
+                    <YAxis tickLine={false} axisLine={false} width={60} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="tokens" fill="var(--color-tokens)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+                <ChartContainer config={chartConfig} className="h-64 w-full">
+                  <BarChart data={dailyChartData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="period" tickLine={false} axisLine={false} />
+                    <YAxis tickLine={false} axisLine={false} allowDecimals={false} width={40} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="images" fill="var(--color-images)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* 按月汇总 */}
+          <Card className="glass-panel border-border/50">
+            <CardHeader>
+              <CardTitle>按月汇总</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>月份</TableHead>
+                    <TableHead className="text-right">调用次数</TableHead>
+                    <TableHead className="text-right">输入 Token</TableHead>
+                    <TableHead className="text-right">输出 Token</TableHead>
+                    <TableHead className="text-right">图片</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(monthly.data ?? []).map(bucket => (
+                    <TableRow key={bucket.period}>
+                      <TableCell>{bucket.period}</TableCell>
+                      <TableCell className="text-right">{numberFormat.format(bucket.calls)}</TableCell>
+                      <TableCell className="text-right">{numberFormat.format(bucket.inputTokens)}</TableCell>
+                      <TableCell className="text-right">{numberFormat.format(bucket.outputTokens)}</TableCell>
+                      <TableCell className="text-right">{numberFormat.format(bucket.imageCount)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {/* 按模型和功能 */}
+          <Card className="glass-panel border-border/50">
+            <CardHeader>
+              <CardTitle>近 30 天明细</CardTitle>
+              <CardDescription>按模型和发起功能汇总</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>功能</TableHead>
+                    <TableHead>模型</TableHead>
+                    <TableHead className="text-right">调用</TableHead>
+                    <TableHead className="text-right">Token</TableHead>
+                    <TableHead className="text-right">图片</TableHead>
+                    <TableHead className="text-right">平均耗时</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(breakdown.data ?? []).map(row => (
+                    <TableRow key={`${row.operation}-${row.model}-${row.procedure}`}>
+                      <TableCell className="max-w-40 truncate" title={row.procedure ?? undefined}>
+                        {row.procedure ?? "-"}
+                      </TableCell>
+                      <TableCell className="max-w-40 truncate">{row.model}</TableCell>
+                      <TableCell className="text-right">
+                        {numberFormat.format(row.calls)}
+                        {row.failures > 0 && (
+                          <span className="text-destructive ml-1">({row.failures} 失败)</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {numberFormat.format(row.inputTokens + row.outputTokens)}
+                      </TableCell>
+                      <TableCell className="text-right">{numberFormat.format(row.imageCount)}</TableCell>
+                      <TableCell className="text-right">{(row.avgLatencyMs / 1000).toFixed(1)}s</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,3 @@
+ALTER TABLE `generationTasks` ADD `jobType` varchar(128);--> statement-breakpoint
+ALTER TABLE `generationTasks` ADD `attempts` int DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `generationTasks` ADD `startedAt` timestamp;
\ No newline at end of file
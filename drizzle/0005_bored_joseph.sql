@@ -0,0 +1,14 @@
+CREATE TABLE `assistantSessions` (
+	`id` varchar(64) NOT NULL,
+	`userId` int,
+	`title` varchar(255) NOT NULL DEFAULT '新会话',
+	`step` varchar(32) NOT NULL DEFAULT 'init',
+	`messages` json,
+	`generatedCharacters` json,
+	`generationProgress` int NOT NULL DEFAULT 0,
+	`totalCharacters` int NOT NULL DEFAULT 0,
+	`state` json,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `assistantSessions_id` PRIMARY KEY(`id`)
+);
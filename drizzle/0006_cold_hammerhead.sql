@@ -0,0 +1 @@
+ALTER TABLE `users` MODIFY COLUMN `apiKey` text;
\ No newline at end of file
@@ -0,0 +1,29 @@
+CREATE TABLE `usageQuotas` (
+	`userId` int NOT NULL,
+	`dailyTokenLimit` int,
+	`monthlyTokenLimit` int,
+	`dailyImageLimit` int,
+	`monthlyImageLimit` int,
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `usageQuotas_userId` PRIMARY KEY(`userId`)
+);
+--> statement-breakpoint
+CREATE TABLE `usageRecords` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`projectId` int,
+	`procedure` varchar(128),
+	`operation` enum('llm','image') NOT NULL,
+	`model` varchar(128) NOT NULL,
+	`inputTokens` int NOT NULL DEFAULT 0,
+	`outputTokens` int NOT NULL DEFAULT 0,
+	`imageCount` int NOT NULL DEFAULT 0,
+	`imageSize` varchar(8),
+	`latencyMs` int NOT NULL DEFAULT 0,
+	`success` boolean NOT NULL DEFAULT true,
+	`errorMessage` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `usageRecords_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `usageRecords_user_created_idx` ON `usageRecords` (`userId`,`createdAt`);
\ No newline at end of file
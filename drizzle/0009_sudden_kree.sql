@@ -0,0 +1 @@
+ALTER TABLE `users` ADD `llmBackend` varchar(64);
\ No newline at end of file
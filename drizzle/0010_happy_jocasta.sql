@@ -0,0 +1,16 @@
+CREATE TABLE `workflowRuns` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`projectId` int NOT NULL,
+	`status` enum('pending','running','completed','failed') NOT NULL DEFAULT 'pending',
+	`mode` json,
+	`overrides` json,
+	`nodeStatuses` json,
+	`outputs` json,
+	`errorMessage` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`completedAt` timestamp,
+	CONSTRAINT `workflowRuns_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `workflowRuns_project_created_idx` ON `workflowRuns` (`projectId`,`createdAt`);
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE `projectRevisions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`projectId` int NOT NULL,
+	`userId` int NOT NULL,
+	`source` enum('manual','auto','restore') NOT NULL,
+	`workflowData` json,
+	`nodeCount` int NOT NULL DEFAULT 0,
+	`edgeCount` int NOT NULL DEFAULT 0,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `projectRevisions_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `projectRevisions_project_created_idx` ON `projectRevisions` (`projectId`,`createdAt`);
\ No newline at end of file
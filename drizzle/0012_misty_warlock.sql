@@ -0,0 +1,26 @@
+CREATE TABLE `projectMembers` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`projectId` int NOT NULL,
+	`userId` int NOT NULL,
+	`role` enum('editor','commenter','viewer') NOT NULL,
+	`invitedBy` int NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `projectMembers_id` PRIMARY KEY(`id`),
+	CONSTRAINT `projectMembers_project_user_idx` UNIQUE(`projectId`,`userId`)
+);
+--> statement-breakpoint
+CREATE TABLE `projectShareLinks` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`projectId` int NOT NULL,
+	`token` varchar(64) NOT NULL,
+	`createdBy` int NOT NULL,
+	`expiresAt` timestamp,
+	`revokedAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `projectShareLinks_id` PRIMARY KEY(`id`),
+	CONSTRAINT `projectShareLinks_token_unique` UNIQUE(`token`)
+);
+--> statement-breakpoint
+CREATE INDEX `projectMembers_user_idx` ON `projectMembers` (`userId`);--> statement-breakpoint
+CREATE INDEX `projectShareLinks_project_idx` ON `projectShareLinks` (`projectId`);
\ No newline at end of file
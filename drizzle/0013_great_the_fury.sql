@@ -0,0 +1,18 @@
+CREATE TABLE `projectComments` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`projectId` int NOT NULL,
+	`targetType` enum('node','storyboardShot','designItem') NOT NULL,
+	`targetId` varchar(128) NOT NULL,
+	`targetLabel` varchar(255),
+	`parentId` int,
+	`userId` int NOT NULL,
+	`content` text NOT NULL,
+	`resolvedAt` timestamp,
+	`resolvedBy` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `projectComments_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `projectComments_project_target_idx` ON `projectComments` (`projectId`,`targetType`,`targetId`);--> statement-breakpoint
+CREATE INDEX `projectComments_parent_idx` ON `projectComments` (`parentId`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `generationTasks` MODIFY COLUMN `taskType` enum('text2img','img2img','img2video','upscale','edit','render') NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `generationTasks` ADD `heartbeatAt` timestamp;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `usageRecords` MODIFY COLUMN `operation` enum('llm','image','tts') NOT NULL;
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { int, mysqlEnum, mysqlTable, text, timestamp, varchar, json, boolean } from "drizzle-orm/mysql-core";
+import { int, mysqlEnum, mysqlTable, text, timestamp, varchar, json, boolean, index, uniqueIndex } from "drizzle-orm/mysql-core";
 
 /**
  * Core user table backing auth flow.
@@ -8,7 +8,11 @@ export const users = mysqlTable("users", {
   openId: varchar("openId", { length: 64 }).notNull().unique(),
   username: varchar("username", { length: 64 }).unique(),  // 用户名登录
   password: varchar("password", { length: 255 }),  // 密码（加密存储）
-  apiKey: varchar("apiKey", { length: 255 }),  // 用户自己的 Gemini API Key
+  apiKey: text("apiKey"),  // 用户自己的 Gemini API Key（信封加密存储，见 server/_core/apiKeyCrypto.ts）
+  // 默认图片生成服务（见 server/_core/imageProviders.ts），为空时使用 IMAGE_PROVIDER
+  imageProvider: varchar("imageProvider", { length: 64 }),
+  // 默认文本模型后端（见 server/_core/llmBackends.ts），为空时使用 LLM_BACKEND
+  llmBackend: varchar("llmBackend", { length: 64 }),
   name: text("name"),
   email: varchar("email", { length: 320 }),
   loginMethod: varchar("loginMethod", { length: 64 }),
@@ -87,12 +91,18 @@ export const generationTasks = mysqlTable("generationTasks", {
   userId: int("userId").notNull(),
   projectId: int("projectId"),
   nodeId: varchar("nodeId", { length: 64 }),
-  taskType: mysqlEnum("taskType", ["text2img", "img2img", "img2video", "upscale", "edit"]).notNull(),
+  taskType: mysqlEnum("taskType", ["text2img", "img2img", "img2video", "upscale", "edit", "render", "tts"]).notNull(),
   status: mysqlEnum("status", ["pending", "processing", "completed", "failed"]).default("pending").notNull(),
+  // 队列任务：要执行的 tRPC 过程路径（如 ai.textToImage），为空表示同步任务记录
+  jobType: varchar("jobType", { length: 128 }),
+  attempts: int("attempts").default(0).notNull(),
   inputData: json("inputData"),
   outputData: json("outputData"),
   errorMessage: text("errorMessage"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
+  startedAt: timestamp("startedAt"),
+  // 执行中的任务由所在 worker 定期刷新，长时间未刷新说明 worker 已退出
+  heartbeatAt: timestamp("heartbeatAt"),
   completedAt: timestamp("completedAt"),
 });
 
@@ -289,6 +299,182 @@ export const storyboardShots = mysqlTable("storyboardShots", {
 export type StoryboardShot = typeof storyboardShots.$inferSelect;
 export type InsertStoryboardShot = typeof storyboardShots.$inferInsert;
 
+
+// ============================================================================
+// 智能助手会话
+// ============================================================================
+
+/**
+ * Assistant sessions table - persists character design assistant conversations
+ */
+export const assistantSessions = mysqlTable("assistantSessions", {
+  id: varchar("id", { length: 64 }).primaryKey(),
+  userId: int("userId"), // 未登录时创建的会话为空
+  title: varchar("title", { length: 255 }).notNull().default("新会话"),
+  step: varchar("step", { length: 32 }).notNull().default("init"),
+  messages: json("messages"),
+  generatedCharacters: json("generatedCharacters"),
+  generationProgress: int("generationProgress").default(0).notNull(),
+  totalCharacters: int("totalCharacters").default(0).notNull(),
+  // 其余会话上下文：剧本、分析结果、风格、参考图、待生成角色等
+  state: json("state"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type AssistantSession = typeof assistantSessions.$inferSelect;
+export type InsertAssistantSession = typeof assistantSessions.$inferInsert;
+
+
+// ============================================================================
+// 用量计量
+// ============================================================================
+
+/**
+ * Usage records table - one row per Gemini call (LLM or image generation)
+ */
+export const usageRecords = mysqlTable("usageRecords", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  projectId: int("projectId"),
+  // 发起调用的 tRPC 过程路径（如 ai.textToImage）
+  procedure: varchar("procedure", { length: 128 }),
+  operation: mysqlEnum("operation", ["llm", "image", "tts"]).notNull(),
+  model: varchar("model", { length: 128 }).notNull(),
+  inputTokens: int("inputTokens").default(0).notNull(),
+  outputTokens: int("outputTokens").default(0).notNull(),
+  imageCount: int("imageCount").default(0).notNull(),
+  imageSize: varchar("imageSize", { length: 8 }),  // 1K / 2K / 4K
+  latencyMs: int("latencyMs").default(0).notNull(),
+  success: boolean("success").default(true).notNull(),
+  errorMessage: text("errorMessage"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, table => ({
+  userCreatedIdx: index("usageRecords_user_created_idx").on(table.userId, table.createdAt),
+}));
+
+export type UsageRecord = typeof usageRecords.$inferSelect;
+export type InsertUsageRecord = typeof usageRecords.$inferInsert;
+
+/**
+ * Usage quotas table - optional per-user caps, null means unlimited
+ */
+export const usageQuotas = mysqlTable("usageQuotas", {
+  userId: int("userId").primaryKey(),
+  dailyTokenLimit: int("dailyTokenLimit"),
+  monthlyTokenLimit: int("monthlyTokenLimit"),
+  dailyImageLimit: int("dailyImageLimit"),
+  monthlyImageLimit: int("monthlyImageLimit"),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type UsageQuota = typeof usageQuotas.$inferSelect;
+export type InsertUsageQuota = typeof usageQuotas.$inferInsert;
+
+/**
+ * Workflow runs table - headless executions of a project's saved node graph
+ * (see server/workflowRunner.ts)
+ */
+export const workflowRuns = mysqlTable("workflowRuns", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  projectId: int("projectId").notNull(),
+  status: mysqlEnum("status", ["pending", "running", "completed", "failed"]).default("pending").notNull(),
+  mode: json("mode"),  // WorkflowRunMode（shared/workflow.ts）
+  overrides: json("overrides"),  // { [nodeId]: 覆盖的节点数据 }
+  nodeStatuses: json("nodeStatuses"),  // { [nodeId]: { status, error? } }
+  outputs: json("outputs"),  // { [nodeId]: { text?, image?, video? } }
+  errorMessage: text("errorMessage"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  completedAt: timestamp("completedAt"),
+}, table => ({
+  projectCreatedIdx: index("workflowRuns_project_created_idx").on(table.projectId, table.createdAt),
+}));
+
+export type WorkflowRun = typeof workflowRuns.$inferSelect;
+export type InsertWorkflowRun = typeof workflowRuns.$inferInsert;
+
+/**
+ * 项目版本历史 - 手动保存时记录，自动保存按时间间隔记录
+ */
+export const projectRevisions = mysqlTable("projectRevisions", {
+  id: int("id").autoincrement().primaryKey(),
+  projectId: int("projectId").notNull(),
+  userId: int("userId").notNull(),
+  source: mysqlEnum("source", ["manual", "auto", "restore"]).notNull(),  // restore：恢复旧版本前的画布
+  workflowData: json("workflowData"),
+  nodeCount: int("nodeCount").default(0).notNull(),
+  edgeCount: int("edgeCount").default(0).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, table => ({
+  projectCreatedIdx: index("projectRevisions_project_created_idx").on(table.projectId, table.createdAt),
+}));
+
+export type ProjectRevision = typeof projectRevisions.$inferSelect;
+export type InsertProjectRevision = typeof projectRevisions.$inferInsert;
+
+/**
+ * 项目成员 - 项目所有者（projects.userId）之外被邀请的成员及其角色（见 server/projectAccess.ts）
+ */
+export const projectMembers = mysqlTable("projectMembers", {
+  id: int("id").autoincrement().primaryKey(),
+  projectId: int("projectId").notNull(),
+  userId: int("userId").notNull(),
+  role: mysqlEnum("role", ["editor", "commenter", "viewer"]).notNull(),
+  invitedBy: int("invitedBy").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, table => ({
+  projectUserIdx: uniqueIndex("projectMembers_project_user_idx").on(table.projectId, table.userId),
+  userIdx: index("projectMembers_user_idx").on(table.userId),
+}));
+
+export type ProjectMember = typeof projectMembers.$inferSelect;
+export type InsertProjectMember = typeof projectMembers.$inferInsert;
+
+/**
+ * 项目只读分享链接 - 持有链接的人无需登录即可查看画布
+ */
+export const projectShareLinks = mysqlTable("projectShareLinks", {
+  id: int("id").autoincrement().primaryKey(),
+  projectId: int("projectId").notNull(),
+  token: varchar("token", { length: 64 }).notNull().unique(),
+  createdBy: int("createdBy").notNull(),
+  expiresAt: timestamp("expiresAt"),
+  revokedAt: timestamp("revokedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, table => ({
+  projectIdx: index("projectShareLinks_project_idx").on(table.projectId),
+}));
+
+export type ProjectShareLink = typeof projectShareLinks.$inferSelect;
+export type InsertProjectShareLink = typeof projectShareLinks.$inferInsert;
+
+/**
+ * 评审评论 - 挂在画布节点、分镜或设计项（角色 / 场景 / 道具）上的讨论串
+ * targetId 的格式见 shared/comments.ts；回复的 parentId 指向讨论串的第一条评论，解决状态记在第一条上
+ */
+export const projectComments = mysqlTable("projectComments", {
+  id: int("id").autoincrement().primaryKey(),
+  projectId: int("projectId").notNull(),
+  targetType: mysqlEnum("targetType", ["node", "storyboardShot", "designItem"]).notNull(),
+  targetId: varchar("targetId", { length: 128 }).notNull(),
+  targetLabel: varchar("targetLabel", { length: 255 }),  // 发表时对象的名称，供评审收件箱显示
+  parentId: int("parentId"),
+  userId: int("userId").notNull(),
+  content: text("content").notNull(),
+  resolvedAt: timestamp("resolvedAt"),
+  resolvedBy: int("resolvedBy"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, table => ({
+  projectTargetIdx: index("projectComments_project_target_idx").on(table.projectId, table.targetType, table.targetId),
+  parentIdx: index("projectComments_parent_idx").on(table.parentId),
+}));
+
+export type ProjectComment = typeof projectComments.$inferSelect;
+export type InsertProjectComment = typeof projectComments.$inferInsert;
+
 // 参考图片类型定义（用于JSON字段）
 export interface ReferenceImage {
   id: number;
@@ -0,0 +1,26 @@
+/**
+ * 用当前主密钥重新加密所有用户的 API Key
+ *
+ * 轮换步骤：
+ * 1. 把旧的 API_KEY_MASTER_KEY 追加到 API_KEY_PREVIOUS_MASTER_KEYS，设置新的 API_KEY_MASTER_KEY
+ * 2. 运行 pnpm keys:rotate（首次启用加密时也用它加密已有的明文记录）
+ * 3. 确认没有失败记录后，从 API_KEY_PREVIOUS_MASTER_KEYS 中移除旧主密钥
+ */
+
+import "dotenv/config";
+import { reencryptUserApiKeys } from "../server/db";
+
+async function main() {
+  const { total, updated, failed } = await reencryptUserApiKeys();
+  console.log(`[KeyRotation] ${total} keys checked, ${updated} re-encrypted, ${failed.length} failed`);
+  if (failed.length > 0) {
+    console.error(`[KeyRotation] Failed user ids: ${failed.join(", ")}`);
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error("[KeyRotation] Rotation failed:", error);
+  process.exit(1);
+});
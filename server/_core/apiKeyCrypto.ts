@@ -0,0 +1,90 @@
+// 用户 API Key 加密存储
+// 信封加密：每条记录随机生成数据密钥（DEK）加密 API Key，再用服务端主密钥加密 DEK。
+// 存储格式：enc$v1$<主密钥ID>$<加密后的 DEK>$<密文>，后两段为 base64(iv | tag | ciphertext)。
+// 轮换主密钥时把旧主密钥放入 API_KEY_PREVIOUS_MASTER_KEYS，再运行 pnpm keys:rotate。
+
+import crypto from "crypto";
+import { ENV } from "./env";
+
+const PREFIX = "enc$v1$";
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+type MasterKey = { id: string; key: Buffer };
+
+/**
+ * 64 位十六进制按原始字节使用，其他字符串经 SHA-256 派生
+ */
+function toMasterKey(secret: string): MasterKey {
+  const key = /^[0-9a-f]{64}$/i.test(secret)
+    ? Buffer.from(secret, "hex")
+    : crypto.createHash("sha256").update(secret).digest();
+  const id = crypto.createHash("sha256").update(key).digest("hex").slice(0, 8);
+  return { id, key };
+}
+
+function getCurrentMasterKey(): MasterKey {
+  // 未配置时（仅限开发环境，生产环境由 assertProductionEnv 拦截）从 JWT 密钥派生
+  return toMasterKey(ENV.apiKeyMasterKey || `api-key:${ENV.jwtSecret}`);
+}
+
+function findMasterKey(id: string): MasterKey | undefined {
+  const candidates = [getCurrentMasterKey(), ...ENV.apiKeyPreviousMasterKeys.map(toMasterKey)];
+  return candidates.find(candidate => candidate.id === id);
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64");
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+  const data = Buffer.from(sealed, "base64");
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, data.subarray(0, IV_LENGTH));
+  decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+}
+
+export function isEncryptedApiKey(stored: string): boolean {
+  return stored.startsWith(PREFIX);
+}
+
+export function encryptApiKey(apiKey: string): string {
+  const master = getCurrentMasterKey();
+  const dataKey = crypto.randomBytes(32);
+  return `${PREFIX}${master.id}$${seal(master.key, dataKey)}$${seal(dataKey, Buffer.from(apiKey, "utf8"))}`;
+}
+
+/**
+ * 解密存储的 API Key；加密前写入的明文记录原样返回
+ */
+export function decryptApiKey(stored: string): string {
+  if (!isEncryptedApiKey(stored)) return stored;
+
+  const [masterId, wrappedKey, payload] = stored.slice(PREFIX.length).split("$");
+  const master = findMasterKey(masterId);
+  if (!master || !wrappedKey || !payload) {
+    throw new Error(`API Key 无法解密：找不到主密钥 ${masterId}`);
+  }
+  const dataKey = open(master.key, wrappedKey);
+  return open(dataKey, payload).toString("utf8");
+}
+
+/**
+ * 明文记录或使用旧主密钥加密的记录需要重新加密
+ */
+export function needsApiKeyReencryption(stored: string): boolean {
+  if (!isEncryptedApiKey(stored)) return true;
+  const masterId = stored.slice(PREFIX.length).split("$")[0];
+  return masterId !== getCurrentMasterKey().id;
+}
+
+/**
+ * 返回给前端的脱敏形式，只保留末 4 位
+ */
+export function maskApiKey(apiKey: string | null | undefined): string | null {
+  if (!apiKey) return null;
+  return `••••${apiKey.slice(-4)}`;
+}
@@ -6,6 +6,8 @@ export type TrpcContext = {
   req: CreateExpressContextOptions["req"];
   res: CreateExpressContextOptions["res"];
   user: User | null;
+  // 由生成队列执行时对应的 generationTasks.id，过程内不再重复创建任务记录
+  queuedTaskId?: number;
 };
 
 export async function createContext(
@@ -1,13 +1,66 @@
+// 仅用于本地开发；生产环境必须显式配置 JWT_SECRET
+const DEV_JWT_SECRET = "fanshai-jwt-secret-2025";
+
 export const ENV = {
   appId: process.env.VITE_APP_ID ?? "",
   cookieSecret: process.env.JWT_SECRET ?? "",
+  jwtSecret: process.env.JWT_SECRET || DEV_JWT_SECRET,
+  // 用户 API Key 加密主密钥；轮换时旧主密钥以逗号分隔放入 API_KEY_PREVIOUS_MASTER_KEYS
+  apiKeyMasterKey: process.env.API_KEY_MASTER_KEY ?? "",
+  apiKeyPreviousMasterKeys: (process.env.API_KEY_PREVIOUS_MASTER_KEYS ?? "")
+    .split(",")
+    .map(key => key.trim())
+    .filter(Boolean),
   databaseUrl: process.env.DATABASE_URL ?? "",
   oAuthServerUrl: process.env.OAUTH_SERVER_URL ?? "",
   ownerOpenId: process.env.OWNER_OPEN_ID ?? "",
   isProduction: process.env.NODE_ENV === "production",
+  // 本地占位图、Mock 文本模型等离线实现只在测试和开发环境提供
+  allowOfflineProviders: process.env.NODE_ENV === "test" || process.env.NODE_ENV === "development",
   forgeApiUrl: process.env.BUILT_IN_FORGE_API_URL ?? "",
   forgeApiKey: process.env.BUILT_IN_FORGE_API_KEY ?? "",
   geminiApiKey: process.env.GEMINI_API_KEY ?? "",
   // 本地存储配置
   baseUrl: process.env.BASE_URL ?? "http://localhost:3000",
+  // 文本模型配置（默认 gemini，见 server/_core/llmBackends.ts）
+  llmBackend: process.env.LLM_BACKEND ?? "gemini",
+  openaiLlmBaseUrl: process.env.OPENAI_LLM_BASE_URL ?? "",
+  openaiLlmApiKey: process.env.OPENAI_LLM_API_KEY ?? "",
+  openaiLlmModel: process.env.OPENAI_LLM_MODEL ?? "gpt-4o-mini",
+  ollamaUrl: process.env.OLLAMA_URL ?? "",
+  ollamaModel: process.env.OLLAMA_MODEL ?? "qwen2.5",
+  // 图片生成配置（默认 nano-banana，见 server/_core/imageProviders.ts）
+  imageProvider: process.env.IMAGE_PROVIDER ?? "nano-banana",
+  openaiImageBaseUrl: process.env.OPENAI_IMAGE_BASE_URL ?? "https://api.openai.com/v1",
+  openaiImageApiKey: process.env.OPENAI_IMAGE_API_KEY ?? "",
+  openaiImageModel: process.env.OPENAI_IMAGE_MODEL ?? "gpt-image-1",
+  comfyuiUrl: process.env.COMFYUI_URL ?? "",
+  comfyuiCheckpoint: process.env.COMFYUI_CHECKPOINT ?? "sd_xl_base_1.0.safetensors",
+  comfyuiWorkflowPath: process.env.COMFYUI_WORKFLOW_PATH ?? "",
+  // 视频生成配置
+  videoProvider: process.env.VIDEO_PROVIDER ?? "kenburns",
+  ffmpegPath: process.env.FFMPEG_PATH ?? "ffmpeg",
+  // 语音合成配置（默认 openai，未配置 Key 时回退到本地合成，见 server/_core/ttsProviders.ts）
+  ttsProvider: process.env.TTS_PROVIDER ?? "openai",
+  openaiTtsBaseUrl: process.env.OPENAI_TTS_BASE_URL ?? "https://api.openai.com/v1",
+  openaiTtsApiKey: process.env.OPENAI_TTS_API_KEY ?? "",
+  openaiTtsModel: process.env.OPENAI_TTS_MODEL ?? "gpt-4o-mini-tts",
+  // 生成任务队列配置
+  generationWorkerEnabled: process.env.GENERATION_WORKER !== "off",
+  generationWorkerConcurrency: parseInt(process.env.GENERATION_WORKER_CONCURRENCY ?? "4", 10) || 4,
+  generationConcurrencyPerKey: parseInt(process.env.GENERATION_CONCURRENCY_PER_KEY ?? "2", 10) || 2,
 };
+
+/**
+ * 启动前检查：生产环境缺少 JWT_SECRET（或仍使用开发默认值）、API_KEY_MASTER_KEY 时拒绝启动
+ */
+export function assertProductionEnv(env: NodeJS.ProcessEnv = process.env): void {
+  if (env.NODE_ENV !== "production") return;
+  const secret = env.JWT_SECRET;
+  if (!secret || secret === DEV_JWT_SECRET) {
+    throw new Error("JWT_SECRET must be configured in production");
+  }
+  if (!env.API_KEY_MASTER_KEY) {
+    throw new Error("API_KEY_MASTER_KEY must be configured in production");
+  }
+}
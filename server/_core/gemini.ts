@@ -15,6 +15,9 @@
  */
 
 import { GoogleGenAI } from "@google/genai";
+import { meterCall, tokensFromUsageMetadata } from "../usageMeter";
+import { invokeLLM, type Message, type ResponseFormat } from "./llm";
+import { resolveLLMBackend } from "./llmBackends";
 
 // 缓存不同 API Key 的客户端
 const clientCache = new Map<string, GoogleGenAI>();
@@ -72,6 +75,8 @@ export type GeminiGenerateOptions = {
     responseSchema?: Record<string, unknown>;
   };
   apiKey?: string;  // 用户的 Gemini API Key
+  // 提供时以流式方式生成，每收到一段文本回调一次（delta 为新增部分，text 为累计文本）
+  onText?: (delta: string, text: string) => void;
 };
 
 export type GeminiGenerateResult = {
@@ -153,19 +158,48 @@ export async function geminiGenerateContent(
     config.generationConfig = options.generationConfig;
   }
 
-  const response = await client.models.generateContent({
-    model,
-    contents: contents as any,
-    config: config as any,
-  });
+  return meterCall(
+    { operation: "llm", model },
+    async () => {
+      if (options.onText) {
+        const stream = await client.models.generateContentStream({
+          model,
+          contents: contents as any,
+          config: config as any,
+        });
 
-  // Extract text from response
-  const text = response.text || "";
+        let text = "";
+        let last: unknown;
+        for await (const chunk of stream) {
+          const delta = chunk.text || "";
+          last = chunk;
+          if (!delta) continue;
+          text += delta;
+          options.onText(delta, text);
+        }
+
+        return {
+          text,
+          raw: last,
+        };
+      }
 
-  return {
-    text,
-    raw: response,
-  };
+      const response = await client.models.generateContent({
+        model,
+        contents: contents as any,
+        config: config as any,
+      });
+
+      // Extract text from response
+      const text = response.text || "";
+
+      return {
+        text,
+        raw: response,
+      };
+    },
+    result => tokensFromUsageMetadata(result.raw)
+  );
 }
 
 /**
@@ -261,11 +295,18 @@ export async function nanoBananaGenerateImage(
     }
   }
 
-  const response = await client.models.generateContent({
-    model,
-    contents: parts as any,
-    config: config as any,
-  });
+  const response = await meterCall(
+    { operation: "image", model, imageSize: options.imageSize ?? "1K" },
+    () => client.models.generateContent({
+      model,
+      contents: parts as any,
+      config: config as any,
+    }),
+    result => ({
+      ...tokensFromUsageMetadata(result),
+      imageCount: (result as any).candidates?.[0]?.content?.parts?.filter((part: any) => part.inlineData).length ?? 0,
+    })
+  );
 
   // Extract images and text from response
   const images: Array<{ base64: string; mimeType: string }> = [];
@@ -386,6 +427,30 @@ export async function geminiGenerateImages(
   return { images };
 }
 
+// ==================== API Key Validation ====================
+
+/**
+ * 用一次轻量请求（读取模型信息，不消耗 token）校验 API Key 是否可用
+ */
+export async function validateGeminiApiKey(apiKey: string): Promise<{ valid: boolean; error?: string }> {
+  // 不走 clientCache，避免缓存无效的 Key
+  const client = new GoogleGenAI({ apiKey });
+  try {
+    await client.models.get({
+      model: "gemini-2.0-flash",
+      config: { httpOptions: { timeout: 10000 } },
+    });
+    return { valid: true };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn("[Gemini] API Key validation failed:", message);
+    if (/API[_ ]?key|PERMISSION_DENIED|UNAUTHENTICATED|\b(400|401|403)\b/i.test(message)) {
+      return { valid: false, error: "API Key 无效或没有访问权限" };
+    }
+    return { valid: false, error: "无法连接 Gemini 服务，请稍后重试" };
+  }
+}
+
 // ==================== Compatibility Layer ====================
 
 /**
@@ -403,6 +468,7 @@ export async function invokeGeminiLLM(params: {
     };
   };
   apiKey?: string;  // 用户的 API Key（必须传递）
+  onText?: (delta: string, text: string) => void;  // 流式输出回调
 }): Promise<{
   choices: Array<{
     message: {
@@ -411,6 +477,29 @@ export async function invokeGeminiLLM(params: {
     };
   }>;
 }> {
+  // 用户选择了其他文本模型后端时走 invokeLLM
+  const backend = resolveLLMBackend();
+  if (backend.id !== "gemini") {
+    const result = await invokeLLM({
+      messages: params.messages as Message[],
+      responseFormat: params.response_format as ResponseFormat | undefined,
+      apiKey: params.apiKey,
+      backend: backend.id,
+      onText: params.onText,
+    });
+    const content = result.choices[0]?.message.content;
+    return {
+      choices: [
+        {
+          message: {
+            role: "assistant",
+            content: typeof content === "string" ? content : "",
+          },
+        },
+      ],
+    };
+  }
+
   const { contents, systemInstruction } = convertMessagesToGemini(params.messages);
 
   const generationConfig: Record<string, unknown> = {};
@@ -428,6 +517,7 @@ export async function invokeGeminiLLM(params: {
     systemInstruction,
     generationConfig: Object.keys(generationConfig).length > 0 ? generationConfig : undefined,
     apiKey: params.apiKey,  // 传递用户的 API Key
+    onText: params.onText,
   });
 
   return {
@@ -22,14 +22,22 @@
  *     aspectRatio: "16:9",
  *     imageSize: "4K"
  *   });
+ *
+ * Using another backend (see ./imageProviders):
+ *   const { url: imageUrl } = await generateImage({
+ *     prompt: "A serene landscape with mountains",
+ *     provider: "comfyui",
+ *   });
  */
-import { storagePut } from "server/storage";
-import { 
-  nanoBananaGenerateImage, 
-  NanoBananaModel, 
-  NanoBananaAspectRatio, 
-  NanoBananaImageSize 
-} from "./gemini";
+import { storagePut } from "../storage";
+import { publishGenerationEvent } from "../generationEvents";
+import type { NanoBananaModel } from "./gemini";
+import {
+  resolveImageDimensions,
+  resolveImageProvider,
+  type ImageAspectRatio,
+  type ImageSize,
+} from "./imageProviders";
 
 export type GenerateImageOptions = {
   prompt: string;
@@ -38,11 +46,15 @@ export type GenerateImageOptions = {
     b64Json?: string;
     mimeType?: string;
   }>;
+  negativePrompt?: string;
   // New options for Nano Banana
   model?: NanoBananaModel;
-  aspectRatio?: NanoBananaAspectRatio;
-  imageSize?: NanoBananaImageSize;
+  aspectRatio?: ImageAspectRatio;
+  imageSize?: ImageSize;
   useGoogleSearch?: boolean;
+  // 图片生成服务：节点指定的 provider 优先，其次是用户默认设置
+  provider?: string;
+  userProvider?: string | null;
   // 用户的 API Key（优先使用）
   apiKey?: string;
 };
@@ -53,6 +65,7 @@ export type GenerateImageResponse = {
   base64?: string; // Base64 encoded image data as fallback
   mimeType?: string; // MIME type of the image
   text?: string; // Optional text response from the model
+  provider: string; // 实际使用的图片生成服务
 };
 
 /**
@@ -100,21 +113,27 @@ export async function generateImage(
     }
   }
 
-  // Call Nano Banana API
-  console.log(`[ImageGeneration] Calling Nano Banana API with prompt: ${options.prompt.substring(0, 100)}...`);
-  const result = await nanoBananaGenerateImage({
+  const provider = resolveImageProvider(options.provider, options.userProvider);
+
+  console.log(`[ImageGeneration] Calling provider "${provider.id}" with prompt: ${options.prompt.substring(0, 100)}...`);
+  if (referenceImages.length > 0 && !provider.supportsReferences) {
+    throw new Error(`${provider.name} 不支持参考图`);
+  }
+  const result = await provider.generate({
     prompt: options.prompt,
+    negativePrompt: options.negativePrompt,
     model: options.model,
     referenceImages: referenceImages.length > 0 ? referenceImages : undefined,
     aspectRatio: options.aspectRatio,
     imageSize: options.imageSize,
+    ...resolveImageDimensions(options.aspectRatio ?? "1:1", options.imageSize ?? "1K"),
     useGoogleSearch: options.useGoogleSearch,
     apiKey: options.apiKey, // 使用用户的 API Key
   });
 
-  console.log(`[ImageGeneration] Nano Banana returned ${result.images?.length || 0} images`);
+  console.log(`[ImageGeneration] Provider "${provider.id}" returned ${result.images?.length || 0} images`);
   if (!result.images || result.images.length === 0) {
-    console.error(`[ImageGeneration] No images returned from Nano Banana`);
+    console.error(`[ImageGeneration] No images returned from provider "${provider.id}"`);
     throw new Error("Image generation failed: no images returned");
   }
 
@@ -131,6 +150,8 @@ export async function generateImage(
     generatedImage.mimeType
   );
   console.log(`[ImageGeneration] Image uploaded to S3 with key: ${key}, URL: ${url}`);
+  // 在队列任务或助手会话中调用时推送给订阅者
+  publishGenerationEvent({ type: "imageStored", url });
   
   // Return both URL and base64 as fallback (S3 URL may have 403 issues)
   return {
@@ -139,6 +160,7 @@ export async function generateImage(
     base64: generatedImage.base64,
     mimeType: generatedImage.mimeType,
     text: result.text,
+    provider: provider.id,
   };
 }
 
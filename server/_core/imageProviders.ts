@@ -0,0 +1,488 @@
+/**
+ * Pluggable image generation providers
+ *
+ * Every provider implements text-to-image and, where the backend supports it,
+ * editing with reference images. Providers are registered by id:
+ * - nano-banana: Gemini gemini-3-pro-image-preview (default, uses the user's Gemini API Key)
+ * - openai: any OpenAI-compatible /images endpoint (OPENAI_IMAGE_*)
+ * - comfyui: a ComfyUI / Stable Diffusion server (COMFYUI_*)
+ * - fake: deterministic local placeholder images for tests and offline development
+ *   (registered only when NODE_ENV is test or development)
+ *
+ * The provider is picked per node (the `provider` option), then per user
+ * (users.imageProvider), then IMAGE_PROVIDER, falling back to nano-banana.
+ */
+import crypto from "crypto";
+import fs from "fs";
+import zlib from "zlib";
+import { nanoid } from "nanoid";
+import { ENV } from "./env";
+import { meterCall } from "../usageMeter";
+import { crc32 } from "../zipArchive";
+import { nanoBananaGenerateImage } from "./gemini";
+
+// ==================== Types ====================
+
+export type ImageAspectRatio = "1:1" | "16:9" | "9:16" | "4:3" | "3:4" | "5:4";
+export type ImageSize = "1K" | "2K" | "4K";
+
+export type ImageData = {
+  base64: string;
+  mimeType: string;
+};
+
+export type ImageProviderInput = {
+  prompt: string;
+  negativePrompt?: string;
+  referenceImages?: ImageData[];
+  // 未指定时由提供方决定（Nano Banana 会沿用参考图比例），width/height 按 1:1、1K 计算
+  aspectRatio?: ImageAspectRatio;
+  imageSize?: ImageSize;
+  width: number;
+  height: number;
+  // Provider-specific model name (e.g. gemini-3-pro-image-preview, gpt-image-1)
+  model?: string;
+  useGoogleSearch?: boolean;
+  apiKey?: string;
+};
+
+export type ImageProviderResult = {
+  images: ImageData[];
+  text?: string;
+};
+
+export interface ImageProvider {
+  id: string;
+  name: string;
+  // 是否支持参考图编辑（图生图）
+  supportsReferences: boolean;
+  // 缺少必要配置时返回 false，解析时会跳过
+  isAvailable?(): boolean;
+  generate(input: ImageProviderInput): Promise<ImageProviderResult>;
+}
+
+// 1K 档位的像素尺寸（64 的倍数），2K/4K 按倍数放大
+const BASE_DIMENSIONS: Record<ImageAspectRatio, { width: number; height: number }> = {
+  "1:1": { width: 1024, height: 1024 },
+  "16:9": { width: 1344, height: 768 },
+  "9:16": { width: 768, height: 1344 },
+  "4:3": { width: 1152, height: 896 },
+  "3:4": { width: 896, height: 1152 },
+  "5:4": { width: 1280, height: 1024 },
+};
+
+const SIZE_SCALE: Record<ImageSize, number> = { "1K": 1, "2K": 2, "4K": 4 };
+
+export function resolveImageDimensions(aspectRatio: ImageAspectRatio, imageSize: ImageSize) {
+  const base = BASE_DIMENSIONS[aspectRatio];
+  const scale = SIZE_SCALE[imageSize];
+  return { width: base.width * scale, height: base.height * scale };
+}
+
+/**
+ * Map arbitrary width/height to the closest supported aspect ratio
+ */
+export function aspectRatioFromSize(width?: number, height?: number): ImageAspectRatio | undefined {
+  if (!width || !height) return undefined;
+  const ratio = width / height;
+  const candidates: Array<[ImageAspectRatio, number]> = [
+    ["1:1", 1],
+    ["16:9", 16 / 9],
+    ["9:16", 9 / 16],
+    ["4:3", 4 / 3],
+    ["3:4", 3 / 4],
+    ["5:4", 5 / 4],
+  ];
+  // 21:9 等不支持的宽幅比例归入最接近的 16:9
+  return candidates.reduce((best, current) =>
+    Math.abs(Math.log(current[1] / ratio)) < Math.abs(Math.log(best[1] / ratio)) ? current : best
+  )[0];
+}
+
+async function fetchAsImageData(url: string): Promise<ImageData> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`图片下载失败 (${response.status})`);
+  }
+  const buffer = Buffer.from(await response.arrayBuffer());
+  return { base64: buffer.toString("base64"), mimeType: response.headers.get("content-type") || "image/png" };
+}
+
+// ==================== Nano Banana ====================
+
+export const nanoBananaProvider: ImageProvider = {
+  id: "nano-banana",
+  name: "Nano Banana（Gemini）",
+  supportsReferences: true,
+  async generate(input) {
+    return nanoBananaGenerateImage({
+      prompt: input.negativePrompt ? `${input.prompt}\n\nAvoid: ${input.negativePrompt}` : input.prompt,
+      model: input.model === "gemini-3-pro-image-preview" ? input.model : undefined,
+      referenceImages: input.referenceImages?.length ? input.referenceImages : undefined,
+      aspectRatio: input.aspectRatio,
+      imageSize: input.imageSize,
+      useGoogleSearch: input.useGoogleSearch,
+      apiKey: input.apiKey,
+    });
+  },
+};
+
+// ==================== OpenAI-compatible ====================
+
+/**
+ * gpt-image / dall-e 只接受固定尺寸，其他兼容服务直接使用计算出的像素尺寸
+ */
+export function openAiImageSize(model: string, width: number, height: number): string {
+  const orientation = width === height ? "square" : width > height ? "landscape" : "portrait";
+  if (model.startsWith("gpt-image")) {
+    return { square: "1024x1024", landscape: "1536x1024", portrait: "1024x1536" }[orientation];
+  }
+  if (model.startsWith("dall-e")) {
+    return { square: "1024x1024", landscape: "1792x1024", portrait: "1024x1792" }[orientation];
+  }
+  return `${width}x${height}`;
+}
+
+export const openAiImageProvider: ImageProvider = {
+  id: "openai",
+  name: "OpenAI 兼容接口",
+  supportsReferences: true,
+  isAvailable: () => !!ENV.openaiImageApiKey,
+  async generate(input) {
+    const baseUrl = ENV.openaiImageBaseUrl.replace(/\/+$/, "");
+    const model = input.model && !input.model.startsWith("gemini") ? input.model : ENV.openaiImageModel;
+    const size = openAiImageSize(model, input.width, input.height);
+    const prompt = input.negativePrompt ? `${input.prompt}\n\nAvoid: ${input.negativePrompt}` : input.prompt;
+    const headers = { Authorization: `Bearer ${ENV.openaiImageApiKey}` };
+
+    return meterCall(
+      { operation: "image", model, imageSize: input.imageSize ?? "1K" },
+      async () => {
+        let response: Response;
+        if (input.referenceImages?.length) {
+          const form = new FormData();
+          form.append("model", model);
+          form.append("prompt", prompt);
+          form.append("size", size);
+          input.referenceImages.forEach((image, index) => {
+            const ext = image.mimeType.split("/")[1] || "png";
+            form.append("image[]", new Blob([Buffer.from(image.base64, "base64")], { type: image.mimeType }), `reference-${index}.${ext}`);
+          });
+          response = await fetch(`${baseUrl}/images/edits`, { method: "POST", headers, body: form });
+        } else {
+          response = await fetch(`${baseUrl}/images/generations`, {
+            method: "POST",
+            headers: { ...headers, "Content-Type": "application/json" },
+            body: JSON.stringify({
+              model,
+              prompt,
+              size,
+              n: 1,
+              // gpt-image 系列始终返回 b64_json，不接受该参数
+              ...(model.startsWith("dall-e") ? { response_format: "b64_json" } : {}),
+            }),
+          });
+        }
+
+        if (!response.ok) {
+          const detail = await response.text().catch(() => "");
+          throw new Error(`OpenAI 图片接口错误 (${response.status}): ${detail.slice(0, 300)}`);
+        }
+
+        const body = (await response.json()) as { data?: Array<{ b64_json?: string; url?: string; revised_prompt?: string }> };
+        const images = await Promise.all(
+          (body.data ?? []).map(item =>
+            item.b64_json ? { base64: item.b64_json, mimeType: "image/png" } : item.url ? fetchAsImageData(item.url) : null
+          )
+        );
+        return {
+          images: images.filter((image): image is ImageData => image !== null),
+          text: body.data?.[0]?.revised_prompt,
+        };
+      },
+      result => ({ imageCount: result.images.length })
+    );
+  },
+};
+
+// ==================== ComfyUI / Stable Diffusion ====================
+
+const COMFYUI_POLL_INTERVAL_MS = 1000;
+const COMFYUI_TIMEOUT_MS = 5 * 60 * 1000;
+
+type ComfyWorkflow = Record<string, { class_type: string; inputs: Record<string, unknown> }>;
+
+/**
+ * 内置 SD/SDXL 工作流；有参考图时加载首张参考图做图生图
+ */
+export function buildComfyWorkflow(options: {
+  prompt: string;
+  negativePrompt: string;
+  width: number;
+  height: number;
+  seed: number;
+  checkpoint: string;
+  referenceImage?: string;
+}): ComfyWorkflow {
+  const workflow: ComfyWorkflow = {
+    "4": { class_type: "CheckpointLoaderSimple", inputs: { ckpt_name: options.checkpoint } },
+    "5": { class_type: "EmptyLatentImage", inputs: { width: options.width, height: options.height, batch_size: 1 } },
+    "6": { class_type: "CLIPTextEncode", inputs: { text: options.prompt, clip: ["4", 1] } },
+    "7": { class_type: "CLIPTextEncode", inputs: { text: options.negativePrompt, clip: ["4", 1] } },
+    "3": {
+      class_type: "KSampler",
+      inputs: {
+        seed: options.seed,
+        steps: 25,
+        cfg: 7,
+        sampler_name: "euler",
+        scheduler: "normal",
+        denoise: 1,
+        model: ["4", 0],
+        positive: ["6", 0],
+        negative: ["7", 0],
+        latent_image: ["5", 0],
+      },
+    },
+    "8": { class_type: "VAEDecode", inputs: { samples: ["3", 0], vae: ["4", 2] } },
+    "9": { class_type: "SaveImage", inputs: { filename_prefix: "fansai", images: ["8", 0] } },
+  };
+
+  if (options.referenceImage) {
+    workflow["10"] = { class_type: "LoadImage", inputs: { image: options.referenceImage } };
+    workflow["11"] = {
+      class_type: "ImageScale",
+      inputs: { upscale_method: "lanczos", width: options.width, height: options.height, crop: "center", image: ["10", 0] },
+    };
+    workflow["12"] = { class_type: "VAEEncode", inputs: { pixels: ["11", 0], vae: ["4", 2] } };
+    workflow["3"].inputs.latent_image = ["12", 0];
+    workflow["3"].inputs.denoise = 0.6;
+    delete workflow["5"];
+  }
+
+  return workflow;
+}
+
+/**
+ * 自定义工作流（ComfyUI API 格式）中的 {{prompt}}、{{negative_prompt}}、{{width}}、{{height}}、{{seed}}、{{image}} 占位符替换
+ */
+export function fillComfyWorkflow(template: unknown, values: Record<string, string | number>): unknown {
+  if (typeof template === "string") {
+    const exact = template.match(/^\{\{(\w+)\}\}$/);
+    if (exact && exact[1] in values) return values[exact[1]];
+    return template.replace(/\{\{(\w+)\}\}/g, (match, key: string) => (key in values ? String(values[key]) : match));
+  }
+  if (Array.isArray(template)) {
+    return template.map(item => fillComfyWorkflow(item, values));
+  }
+  if (template && typeof template === "object") {
+    return Object.fromEntries(Object.entries(template).map(([key, value]) => [key, fillComfyWorkflow(value, values)]));
+  }
+  return template;
+}
+
+async function comfyRequest<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(`${ENV.comfyuiUrl.replace(/\/+$/, "")}${path}`, init);
+  if (!response.ok) {
+    const detail = await response.text().catch(() => "");
+    throw new Error(`ComfyUI 请求失败 (${response.status}): ${detail.slice(0, 300)}`);
+  }
+  return (await response.json()) as T;
+}
+
+async function runComfyWorkflow(input: ImageProviderInput): Promise<ImageProviderResult> {
+  // SD/SDXL 按 1K 档位出图，更高分辨率需在工作流中自行放大
+  const { width, height } = resolveImageDimensions(input.aspectRatio ?? "1:1", "1K");
+  const seed = crypto.randomInt(0, 2 ** 31);
+
+  let referenceImage: string | undefined;
+  if (input.referenceImages?.length) {
+    const image = input.referenceImages[0];
+    const form = new FormData();
+    const ext = image.mimeType.split("/")[1] || "png";
+    form.append("image", new Blob([Buffer.from(image.base64, "base64")], { type: image.mimeType }), `fansai-${nanoid(8)}.${ext}`);
+    form.append("overwrite", "true");
+    const uploaded = await comfyRequest<{ name: string; subfolder?: string }>("/upload/image", { method: "POST", body: form });
+    referenceImage = uploaded.subfolder ? `${uploaded.subfolder}/${uploaded.name}` : uploaded.name;
+  }
+
+  const values = {
+    prompt: input.prompt,
+    negative_prompt: input.negativePrompt ?? "",
+    width,
+    height,
+    seed,
+    image: referenceImage ?? "",
+  };
+  const workflow = ENV.comfyuiWorkflowPath
+    ? fillComfyWorkflow(JSON.parse(fs.readFileSync(ENV.comfyuiWorkflowPath, "utf8")), values)
+    : buildComfyWorkflow({
+        prompt: input.prompt,
+        negativePrompt: input.negativePrompt ?? "",
+        width,
+        height,
+        seed,
+        checkpoint: ENV.comfyuiCheckpoint,
+        referenceImage,
+      });
+
+  const { prompt_id: promptId } = await comfyRequest<{ prompt_id: string }>("/prompt", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ prompt: workflow, client_id: "fansai" }),
+  });
+
+  const deadline = Date.now() + COMFYUI_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, COMFYUI_POLL_INTERVAL_MS));
+    const history = await comfyRequest<Record<string, {
+      status?: { status_str?: string };
+      outputs?: Record<string, { images?: Array<{ filename: string; subfolder: string; type: string }> }>;
+    }>>(`/history/${promptId}`);
+    const entry = history[promptId];
+    if (!entry) continue;
+    if (entry.status?.status_str === "error") {
+      throw new Error("ComfyUI 工作流执行失败");
+    }
+
+    const outputs = Object.values(entry.outputs ?? {}).flatMap(output => output.images ?? []);
+    if (outputs.length === 0) continue;
+
+    const images = await Promise.all(
+      outputs.map(file =>
+        fetchAsImageData(
+          `${ENV.comfyuiUrl.replace(/\/+$/, "")}/view?${new URLSearchParams({
+            filename: file.filename,
+            subfolder: file.subfolder,
+            type: file.type,
+          })}`
+        )
+      )
+    );
+    return { images };
+  }
+
+  throw new Error("ComfyUI 生成超时");
+}
+
+export const comfyUiProvider: ImageProvider = {
+  id: "comfyui",
+  name: "ComfyUI / Stable Diffusion",
+  supportsReferences: true,
+  isAvailable: () => !!ENV.comfyuiUrl,
+  async generate(input) {
+    return meterCall(
+      // 自定义工作流中的模型不一定是 COMFYUI_CHECKPOINT
+      { operation: "image", model: ENV.comfyuiWorkflowPath ? "comfyui-workflow" : ENV.comfyuiCheckpoint, imageSize: "1K" },
+      () => runComfyWorkflow(input),
+      result => ({ imageCount: result.images.length })
+    );
+  },
+};
+
+// ==================== Fake (deterministic) ====================
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * Encode an RGB image as PNG (no external dependencies)
+ */
+export function encodePng(width: number, height: number, pixel: (x: number, y: number) => [number, number, number]): Buffer {
+  const raw = Buffer.alloc((width * 3 + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * (width * 3 + 1);
+    raw[row] = 0; // filter: none
+    for (let x = 0; x < width; x++) {
+      const [r, g, b] = pixel(x, y);
+      raw.set([r, g, b], row + 1 + x * 3);
+    }
+  }
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header.set([8, 2, 0, 0, 0], 8); // 8-bit RGB
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", zlib.deflateSync(raw)),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+/**
+ * 本地占位图：相同输入总是得到相同图片（按提示词和参考图取色的渐变），
+ * 尺寸为目标尺寸的 1/16，便于测试和离线开发
+ */
+export const fakeImageProvider: ImageProvider = {
+  id: "fake",
+  name: "本地占位图（测试）",
+  supportsReferences: true,
+  async generate(input) {
+    const digest = crypto
+      .createHash("sha256")
+      .update(JSON.stringify([input.prompt, input.negativePrompt ?? "", input.aspectRatio, input.imageSize]))
+      .update((input.referenceImages ?? []).map(image => image.base64).join("|"))
+      .digest();
+    const width = Math.max(1, Math.round(input.width / 16));
+    const height = Math.max(1, Math.round(input.height / 16));
+    const from = [digest[0], digest[1], digest[2]];
+    const to = [digest[3], digest[4], digest[5]];
+
+    const png = encodePng(width, height, (x, y) => {
+      const t = (x + y) / Math.max(1, width + height - 2);
+      return [0, 1, 2].map(i => Math.round(from[i] + (to[i] - from[i]) * t)) as [number, number, number];
+    });
+    return {
+      images: [{ base64: png.toString("base64"), mimeType: "image/png" }],
+      text: `fake:${digest.toString("hex").slice(0, 12)}`,
+    };
+  },
+};
+
+// ==================== Registry ====================
+
+const DEFAULT_PROVIDER_ID = nanoBananaProvider.id;
+
+// fake only outside production, so it cannot be listed, chosen or resolved there
+const providers = new Map<string, ImageProvider>(
+  [nanoBananaProvider, openAiImageProvider, comfyUiProvider, ...(ENV.allowOfflineProviders ? [fakeImageProvider] : [])].map(
+    provider => [provider.id, provider]
+  )
+);
+
+/**
+ * Register (or replace) an image provider
+ */
+export function registerImageProvider(provider: ImageProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function listImageProviders(): Array<{ id: string; name: string; supportsReferences: boolean; available: boolean }> {
+  return Array.from(providers.values()).map(p => ({
+    id: p.id,
+    name: p.name,
+    supportsReferences: p.supportsReferences,
+    available: p.isAvailable?.() ?? true,
+  }));
+}
+
+/**
+ * Resolve a provider from candidate ids in priority order (node, then user),
+ * then IMAGE_PROVIDER, then Nano Banana. Unknown or unconfigured ids are skipped.
+ */
+export function resolveImageProvider(...candidates: Array<string | null | undefined>): ImageProvider {
+  for (const id of [...candidates, ENV.imageProvider]) {
+    const provider = id ? providers.get(id) : undefined;
+    if (provider && (provider.isAvailable?.() ?? true)) {
+      return provider;
+    }
+  }
+  return providers.get(DEFAULT_PROVIDER_ID)!;
+}
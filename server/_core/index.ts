@@ -5,8 +5,12 @@ import net from "net";
 import path from "path";
 import { createExpressMiddleware } from "@trpc/server/adapters/express";
 import { registerOAuthRoutes } from "./oauth";
+import { registerWorkflowRoutes } from "./workflowApi";
 import { appRouter } from "../routers";
 import { createContext } from "./context";
+import { assertProductionEnv, ENV } from "./env";
+import { startGenerationWorker } from "../generationQueue";
+import { failInterruptedWorkflowRuns } from "../db";
 import { serveStatic, setupVite } from "./vite";
 
 function isPortAvailable(port: number): Promise<boolean> {
@@ -29,8 +33,12 @@ async function findAvailablePort(startPort: number = 3000): Promise<number> {
 }
 
 async function startServer() {
+  assertProductionEnv();
+
   const app = express();
   const server = createServer(app);
+  // 部署在本机 nginx 之后，req.ip 取 X-Forwarded-For 中的客户端地址（登录限流使用）
+  app.set("trust proxy", "loopback");
   // Configure body parser with larger size limit for file uploads
   app.use(express.json({ limit: "200mb" }));
   app.use(express.urlencoded({ limit: "200mb", extended: true }));
@@ -41,6 +49,8 @@ async function startServer() {
   
   // OAuth callback under /api/oauth/callback
   registerOAuthRoutes(app);
+  // 无头工作流运行 under /api/workflows, /api/workflow-runs
+  registerWorkflowRoutes(app);
   // tRPC API
   app.use(
     "/api/trpc",
@@ -66,6 +76,18 @@ async function startServer() {
   server.listen(port, () => {
     console.log(`Server running on http://localhost:${port}/`);
   });
+
+  if (ENV.generationWorkerEnabled) {
+    startGenerationWorker(appRouter).catch(error => {
+      console.error("[GenerationQueue] Failed to start worker:", error);
+    });
+    failInterruptedWorkflowRuns().catch(error => {
+      console.error("[WorkflowRunner] Failed to mark interrupted runs:", error);
+    });
+  }
 }
 
-startServer().catch(console.error);
+startServer().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
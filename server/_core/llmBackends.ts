@@ -0,0 +1,704 @@
+/**
+ * Pluggable text LLM backends for invokeLLM
+ *
+ * Every backend takes the OpenAI-style request built by invokeLLM (messages,
+ * tools, tool_choice, response_format) and returns an OpenAI-style result:
+ * - gemini: Google Gen AI SDK with the user's own API Key (default)
+ * - openai: any OpenAI-compatible /chat/completions endpoint (OpenAI, vLLM, llama.cpp server...)
+ * - ollama: Ollama native /api/chat (tools + `format` JSON schema)
+ * - mock: deterministic offline responses for tests and local development
+ *   (registered only when NODE_ENV is test or development)
+ *
+ * The backend is resolved from the explicit `backend` param, then the user's
+ * preference (set per request by the tRPC middleware), then LLM_BACKEND.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { GoogleGenAI } from "@google/genai";
+import { ENV } from "./env";
+import { meterCall, tokensFromUsageMetadata, type UsageMeasurement } from "../usageMeter";
+import type {
+  ImageContent,
+  InvokeResult,
+  Message,
+  ResponseFormat,
+  TextContent,
+  Tool,
+  ToolCall,
+  ToolChoice,
+} from "./llm";
+
+// ==================== Types ====================
+
+export type LLMRequest = {
+  messages: Message[];
+  tools?: Tool[];
+  toolChoice?: ToolChoice;
+  maxTokens?: number;
+  responseFormat?: ResponseFormat;
+  apiKey?: string;
+  // 流式输出回调；不支持流式的情况下在完成后回调一次
+  onText?: (delta: string, text: string) => void;
+};
+
+export interface LLMBackend {
+  id: string;
+  name: string;
+  isAvailable?(): boolean;
+  invoke(request: LLMRequest): Promise<InvokeResult>;
+}
+
+// ==================== Helper Functions ====================
+
+/**
+ * 清理文本中的特殊 Unicode 字符，防止 API 调用时出现编码错误
+ */
+const sanitizeText = (text: string): string => {
+  return text
+    .replace(/[\u2000-\u200B\u202F\u205F\u3000\u00A0]/g, ' ')
+    .replace(/[\uFEFF\u200C\u200D]/g, '')
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g, '');
+};
+
+/**
+ * 将 URL 图片转换为 base64
+ */
+async function fetchImageAsBase64(url: string): Promise<{ base64: string; mimeType: string } | null> {
+  try {
+    // 处理 data URL
+    if (url.startsWith('data:')) {
+      const matches = url.match(/^data:([^;]+);base64,(.+)$/);
+      if (matches) {
+        return { mimeType: matches[1], base64: matches[2] };
+      }
+      return null;
+    }
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      console.log(`[LLM] 跳过无法访问的图片 URL (${response.status}): ${url.substring(0, 50)}...`);
+      return null;
+    }
+    const buffer = await response.arrayBuffer();
+    const base64 = Buffer.from(buffer).toString("base64");
+    const contentType = response.headers.get("content-type") || "image/png";
+    return { base64, mimeType: contentType };
+  } catch (error) {
+    console.log(`[LLM] 获取图片失败: ${url.substring(0, 50)}...`, error);
+    return null;
+  }
+}
+
+function textOf(content: Message["content"]): string {
+  const parts = Array.isArray(content) ? content : [content];
+  return parts
+    .flatMap(part => (typeof part === "string" ? [part] : part.type === "text" ? [(part as TextContent).text] : []))
+    .join("\n");
+}
+
+function toolChoiceName(choice: ToolChoice | undefined): string | undefined {
+  if (!choice || typeof choice === "string") return undefined;
+  return "function" in choice ? choice.function.name : choice.name;
+}
+
+function buildResult(
+  model: string,
+  text: string,
+  toolCalls: ToolCall[],
+  usage?: { prompt_tokens: number; completion_tokens: number }
+): InvokeResult {
+  return {
+    id: `gen-${Date.now()}`,
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: "assistant",
+          content: text,
+          tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+        },
+        finish_reason: toolCalls.length > 0 ? "tool_calls" : "stop",
+      },
+    ],
+    usage: usage
+      ? { ...usage, total_tokens: usage.prompt_tokens + usage.completion_tokens }
+      : undefined,
+  };
+}
+
+// OpenAI 风格结果中的 token 用量（OpenAI 兼容接口、Ollama 计量用）
+function tokensFromInvokeResult(result: InvokeResult): UsageMeasurement {
+  return {
+    inputTokens: result.usage?.prompt_tokens ?? 0,
+    outputTokens: result.usage?.completion_tokens ?? 0,
+  };
+}
+
+function toolCallOf(index: number, name: string, args: unknown): ToolCall {
+  return {
+    id: `call-${Date.now()}-${index}`,
+    type: "function",
+    function: {
+      name,
+      arguments: typeof args === "string" ? args : JSON.stringify(args ?? {}),
+    },
+  };
+}
+
+// ==================== Gemini ====================
+
+const GEMINI_LLM_MODEL = "gemini-3-flash-preview";  // 使用 Gemini 3 Flash（快速模型）
+
+const geminiClientCache = new Map<string, GoogleGenAI>();
+
+function getGeminiClient(userApiKey?: string): GoogleGenAI {
+  if (!userApiKey) {
+    throw new Error("请先在设置中配置您的 Gemini API Key");
+  }
+
+  if (geminiClientCache.has(userApiKey)) {
+    return geminiClientCache.get(userApiKey)!;
+  }
+
+  const client = new GoogleGenAI({ apiKey: userApiKey });
+  geminiClientCache.set(userApiKey, client);
+  return client;
+}
+
+type GeminiPart = { text: string } | { inlineData: { mimeType: string; data: string } };
+
+/**
+ * 将 OpenAI 格式的消息转换为 Gemini 格式
+ */
+async function convertMessagesToGemini(messages: Message[]): Promise<{
+  contents: Array<{ role: "user" | "model"; parts: GeminiPart[] }>;
+  systemInstruction?: string;
+}> {
+  let systemInstruction: string | undefined;
+  const contents: Array<{ role: "user" | "model"; parts: GeminiPart[] }> = [];
+
+  for (const msg of messages) {
+    if (msg.role === "system") {
+      systemInstruction = (systemInstruction || "") + sanitizeText(textOf(msg.content)) + "\n";
+      continue;
+    }
+
+    const role: "user" | "model" = msg.role === "assistant" ? "model" : "user";
+    const parts: GeminiPart[] = [];
+
+    const contentArray = Array.isArray(msg.content) ? msg.content : [msg.content];
+
+    for (const part of contentArray) {
+      if (typeof part === "string") {
+        parts.push({ text: sanitizeText(part) });
+      } else if (part.type === "text") {
+        parts.push({ text: sanitizeText(part.text) });
+      } else if (part.type === "image_url" && part.image_url?.url) {
+        // 将图片 URL 转换为 base64
+        const imageData = await fetchImageAsBase64(part.image_url.url);
+        if (imageData) {
+          parts.push({
+            inlineData: {
+              mimeType: imageData.mimeType,
+              data: imageData.base64,
+            },
+          });
+        }
+      } else if (part.type === "file_url" && part.file_url?.url) {
+        // 处理文件 URL（音频、视频、PDF 等）
+        const fileData = await fetchImageAsBase64(part.file_url.url);
+        if (fileData) {
+          parts.push({
+            inlineData: {
+              mimeType: part.file_url.mime_type || fileData.mimeType,
+              data: fileData.base64,
+            },
+          });
+        }
+      }
+    }
+
+    if (parts.length > 0) {
+      contents.push({ role, parts });
+    }
+  }
+
+  return { contents, systemInstruction: systemInstruction?.trim() };
+}
+
+/**
+ * 将 JSON Schema 转换为 Gemini 的 responseSchema 格式
+ */
+export function convertJsonSchemaToGemini(schema: Record<string, unknown>): Record<string, unknown> {
+  const converted: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(schema)) {
+    // 移除 Gemini 不支持的字段
+    if (key === "$schema" || key === "additionalProperties") continue;
+
+    if (key === "properties" && value && typeof value === "object") {
+      converted.properties = Object.fromEntries(
+        Object.entries(value as Record<string, Record<string, unknown>>).map(([name, property]) => [
+          name,
+          convertJsonSchemaToGemini(property),
+        ])
+      );
+    } else if (key === "items" && value && typeof value === "object" && !Array.isArray(value)) {
+      converted.items = convertJsonSchemaToGemini(value as Record<string, unknown>);
+    } else {
+      converted[key] = value;
+    }
+  }
+
+  return converted;
+}
+
+export const geminiLLMBackend: LLMBackend = {
+  id: "gemini",
+  name: "Google Gemini",
+  async invoke({ messages, tools, toolChoice, maxTokens, responseFormat, apiKey, onText }) {
+    // 必须使用用户的 API Key
+    const client = getGeminiClient(apiKey);
+    const model = GEMINI_LLM_MODEL;
+
+    console.log(`[LLM] 使用 Google Gen AI SDK 调用 ${model}`);
+
+    const { contents, systemInstruction } = await convertMessagesToGemini(messages);
+
+    const config: Record<string, unknown> = {};
+
+    if (systemInstruction) {
+      config.systemInstruction = systemInstruction;
+    }
+    if (maxTokens) {
+      config.maxOutputTokens = maxTokens;
+    }
+
+    // 处理工具调用
+    if (tools && tools.length > 0) {
+      config.tools = [{
+        functionDeclarations: tools.map(tool => ({
+          name: tool.function.name,
+          description: tool.function.description,
+          parameters: tool.function.parameters
+            ? convertJsonSchemaToGemini(tool.function.parameters)
+            : undefined,
+        })),
+      }];
+
+      const forcedName = toolChoiceName(toolChoice);
+      if (toolChoice === "none") {
+        config.toolConfig = { functionCallingConfig: { mode: "NONE" } };
+      } else if (toolChoice === "auto") {
+        config.toolConfig = { functionCallingConfig: { mode: "AUTO" } };
+      } else if (toolChoice === "required" || forcedName) {
+        // 强制使用工具
+        config.toolConfig = {
+          functionCallingConfig: {
+            mode: "ANY",
+            ...(forcedName ? { allowedFunctionNames: [forcedName] } : {}),
+          },
+        };
+      }
+    }
+
+    // 处理响应格式
+    if (responseFormat?.type === "json_schema" && responseFormat.json_schema) {
+      config.responseMimeType = "application/json";
+      config.responseSchema = convertJsonSchemaToGemini(responseFormat.json_schema.schema);
+    } else if (responseFormat?.type === "json_object") {
+      config.responseMimeType = "application/json";
+    }
+
+    // 调用 API（计入用户用量）
+    const response = await meterCall<any>(
+      { operation: "llm", model },
+      async () => {
+        // 工具调用不走流式，保证 functionCall 完整返回
+        if (!onText || config.tools) {
+          return client.models.generateContent({ model, contents: contents as any, config: config as any });
+        }
+
+        const stream = await client.models.generateContentStream({
+          model,
+          contents: contents as any,
+          config: config as any,
+        });
+        let text = "";
+        let last: any;
+        for await (const chunk of stream) {
+          const delta = chunk.text || "";
+          last = chunk;
+          if (!delta) continue;
+          text += delta;
+          onText(delta, text);
+        }
+        return { ...last, text, streamed: true };
+      },
+      tokensFromUsageMetadata
+    );
+
+    // 提取文本内容和工具调用
+    let textContent = "";
+    const toolCalls: ToolCall[] = [];
+
+    if (response.streamed) {
+      textContent = response.text || "";
+    } else {
+      const candidates = response.candidates;
+      if (candidates && candidates[0]?.content?.parts) {
+        for (const part of candidates[0].content.parts) {
+          if (part.text) {
+            textContent += part.text;
+          } else if (part.functionCall) {
+            toolCalls.push(toolCallOf(toolCalls.length, part.functionCall.name, part.functionCall.args));
+          }
+        }
+      }
+
+      // 如果没有从 candidates 获取到内容，尝试直接获取 text
+      if (!textContent && !toolCalls.length) {
+        textContent = response.text || "";
+      }
+      if (onText && textContent) onText(textContent, textContent);
+    }
+
+    const usageMetadata = response.usageMetadata;
+    return buildResult(
+      model,
+      textContent,
+      toolCalls,
+      usageMetadata
+        ? {
+            prompt_tokens: usageMetadata.promptTokenCount || 0,
+            completion_tokens: usageMetadata.candidatesTokenCount || 0,
+          }
+        : undefined
+    );
+  },
+};
+
+// ==================== OpenAI-compatible ====================
+
+function openAiToolChoice(choice: ToolChoice | undefined): unknown {
+  if (!choice || typeof choice === "string") return choice;
+  return { type: "function", function: { name: toolChoiceName(choice) } };
+}
+
+/**
+ * 转换为 /chat/completions 的消息格式；该接口不支持 file_url，直接跳过
+ */
+function convertMessagesToOpenAi(messages: Message[]): Array<Record<string, unknown>> {
+  return messages.map(msg => {
+    const role = msg.role === "function" ? "tool" : msg.role;
+    const extra = {
+      ...(msg.name ? { name: msg.name } : {}),
+      ...(msg.tool_call_id ? { tool_call_id: msg.tool_call_id } : {}),
+    };
+
+    if (typeof msg.content === "string") {
+      return { role, content: sanitizeText(msg.content), ...extra };
+    }
+
+    const parts = (Array.isArray(msg.content) ? msg.content : [msg.content]).flatMap((part): Array<TextContent | ImageContent> => {
+      if (typeof part === "string") return [{ type: "text", text: sanitizeText(part) }];
+      if (part.type === "text") return [{ type: "text", text: sanitizeText(part.text) }];
+      if (part.type === "image_url") return [part];
+      console.log(`[LLM] OpenAI 兼容接口不支持文件输入，已跳过: ${part.file_url.url.substring(0, 50)}...`);
+      return [];
+    });
+
+    // system / tool 消息只接受纯文本
+    if (role === "system" || role === "tool" || parts.every(part => part.type === "text")) {
+      return { role, content: parts.map(part => (part as TextContent).text).join("\n"), ...extra };
+    }
+    return { role, content: parts, ...extra };
+  });
+}
+
+async function readOpenAiStream(
+  response: Response,
+  onText: (delta: string, text: string) => void
+): Promise<{ text: string; usage?: { prompt_tokens: number; completion_tokens: number } }> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let text = "";
+  let usage: { prompt_tokens: number; completion_tokens: number } | undefined;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      const data = line.trim().replace(/^data:\s*/, "");
+      if (!data || data === "[DONE]" || !line.trim().startsWith("data:")) continue;
+      const chunk = JSON.parse(data);
+      if (chunk.usage) usage = chunk.usage;
+      const delta: string = chunk.choices?.[0]?.delta?.content ?? "";
+      if (!delta) continue;
+      text += delta;
+      onText(delta, text);
+    }
+  }
+
+  return { text, usage };
+}
+
+export const openAiLLMBackend: LLMBackend = {
+  id: "openai",
+  name: "OpenAI 兼容接口",
+  isAvailable: () => !!(ENV.openaiLlmBaseUrl || ENV.openaiLlmApiKey),
+  async invoke({ messages, tools, toolChoice, maxTokens, responseFormat, onText }) {
+    const baseUrl = (ENV.openaiLlmBaseUrl || "https://api.openai.com/v1").replace(/\/$/, "");
+    const model = ENV.openaiLlmModel;
+    // 工具调用不走流式，保证 tool_calls 完整返回
+    const stream = !!onText && !(tools && tools.length > 0);
+
+    console.log(`[LLM] 使用 OpenAI 兼容接口调用 ${model}`);
+
+    return meterCall({ operation: "llm", model }, async () => {
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(ENV.openaiLlmApiKey ? { Authorization: `Bearer ${ENV.openaiLlmApiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          messages: convertMessagesToOpenAi(messages),
+          ...(tools && tools.length > 0 ? { tools, tool_choice: openAiToolChoice(toolChoice) } : {}),
+          ...(maxTokens ? { max_tokens: maxTokens } : {}),
+          ...(responseFormat ? { response_format: responseFormat } : {}),
+          ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+        }),
+      });
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => "");
+        throw new Error(`OpenAI 兼容接口调用失败 (${response.status}): ${detail.substring(0, 200)}`);
+      }
+
+      if (stream) {
+        const { text, usage } = await readOpenAiStream(response, onText!);
+        return buildResult(model, text, [], usage);
+      }
+
+      const data = await response.json();
+      const message = data.choices?.[0]?.message ?? {};
+      const toolCalls: ToolCall[] = (message.tool_calls ?? []).map((call: any, index: number) =>
+        toolCallOf(index, call.function?.name, call.function?.arguments)
+      );
+      const text: string = message.content ?? "";
+      if (onText && text) onText(text, text);
+
+      return buildResult(data.model || model, text, toolCalls, data.usage);
+    }, tokensFromInvokeResult);
+  },
+};
+
+// ==================== Ollama ====================
+
+/**
+ * 转换为 Ollama /api/chat 的消息格式（图片以 base64 放入 images 字段）
+ */
+async function convertMessagesToOllama(messages: Message[]): Promise<Array<Record<string, unknown>>> {
+  const converted: Array<Record<string, unknown>> = [];
+
+  for (const msg of messages) {
+    const parts = Array.isArray(msg.content) ? msg.content : [msg.content];
+    const images: string[] = [];
+
+    for (const part of parts) {
+      if (typeof part !== "string" && part.type === "image_url" && part.image_url?.url) {
+        const imageData = await fetchImageAsBase64(part.image_url.url);
+        if (imageData) images.push(imageData.base64);
+      }
+    }
+
+    converted.push({
+      role: msg.role === "function" ? "tool" : msg.role,
+      content: sanitizeText(textOf(msg.content)),
+      ...(images.length > 0 ? { images } : {}),
+    });
+  }
+
+  return converted;
+}
+
+export const ollamaLLMBackend: LLMBackend = {
+  id: "ollama",
+  name: "Ollama（本地模型）",
+  isAvailable: () => !!ENV.ollamaUrl,
+  async invoke({ messages, tools, toolChoice, maxTokens, responseFormat, onText }) {
+    const model = ENV.ollamaModel;
+    console.log(`[LLM] 使用 Ollama 调用 ${model}`);
+
+    // Ollama 没有 tool_choice：none 时不传工具，指定名称时只传该工具
+    const forcedName = toolChoiceName(toolChoice);
+    const activeTools = toolChoice === "none"
+      ? []
+      : (tools ?? []).filter(tool => !forcedName || tool.function.name === forcedName);
+
+    let format: unknown;
+    if (responseFormat?.type === "json_schema" && responseFormat.json_schema) {
+      format = responseFormat.json_schema.schema;
+    } else if (responseFormat?.type === "json_object") {
+      format = "json";
+    }
+
+    return meterCall({ operation: "llm", model }, async () => {
+      const response = await fetch(`${ENV.ollamaUrl.replace(/\/$/, "")}/api/chat`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          model,
+          messages: await convertMessagesToOllama(messages),
+          stream: false,
+          ...(activeTools.length > 0 ? { tools: activeTools } : {}),
+          ...(format ? { format } : {}),
+          ...(maxTokens ? { options: { num_predict: maxTokens } } : {}),
+        }),
+      });
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => "");
+        throw new Error(`Ollama 调用失败 (${response.status}): ${detail.substring(0, 200)}`);
+      }
+
+      const data = await response.json();
+      const toolCalls: ToolCall[] = (data.message?.tool_calls ?? []).map((call: any, index: number) =>
+        toolCallOf(index, call.function?.name, call.function?.arguments)
+      );
+      const text: string = data.message?.content ?? "";
+      if (onText && text) onText(text, text);
+
+      return buildResult(model, text, toolCalls, {
+        prompt_tokens: data.prompt_eval_count ?? 0,
+        completion_tokens: data.eval_count ?? 0,
+      });
+    }, tokensFromInvokeResult);
+  },
+};
+
+// ==================== Mock ====================
+
+/**
+ * 按 JSON Schema 生成确定性的示例值（枚举取第一项，数组生成一个元素）
+ */
+export function sampleFromJsonSchema(schema: Record<string, unknown> | undefined, key = "value"): unknown {
+  if (!schema) return {};
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+  if ("const" in schema) return schema.const;
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case "object": {
+      const properties = (schema.properties ?? {}) as Record<string, Record<string, unknown>>;
+      return Object.fromEntries(
+        Object.entries(properties).map(([name, property]) => [name, sampleFromJsonSchema(property, name)])
+      );
+    }
+    case "array":
+      return [sampleFromJsonSchema(schema.items as Record<string, unknown> | undefined, key)];
+    case "integer":
+    case "number":
+      return typeof schema.minimum === "number" ? schema.minimum : 0;
+    case "boolean":
+      return false;
+    case "null":
+      return null;
+    default:
+      return `mock ${key}`;
+  }
+}
+
+/**
+ * 不访问网络：有工具时调用（指定的或第一个）工具，要求 JSON 时按 schema 生成示例，
+ * 否则回显最后一条用户消息
+ */
+export const mockLLMBackend: LLMBackend = {
+  id: "mock",
+  name: "Mock（离线测试）",
+  async invoke({ messages, tools, toolChoice, responseFormat, onText }) {
+    const model = "mock-llm";
+    const lastMessage = messages[messages.length - 1];
+
+    const forcedName = toolChoiceName(toolChoice);
+    const tool = toolChoice === "none" || lastMessage?.role === "tool"
+      ? undefined
+      : tools?.find(candidate => !forcedName || candidate.function.name === forcedName);
+    if (tool) {
+      return buildResult(model, "", [
+        toolCallOf(0, tool.function.name, sampleFromJsonSchema(tool.function.parameters ?? { type: "object" })),
+      ]);
+    }
+
+    let text: string;
+    if (responseFormat?.type === "json_schema" && responseFormat.json_schema) {
+      text = JSON.stringify(sampleFromJsonSchema(responseFormat.json_schema.schema));
+    } else if (responseFormat?.type === "json_object") {
+      text = "{}";
+    } else {
+      const lastUser = [...messages].reverse().find(msg => msg.role === "user");
+      text = `[mock] ${lastUser ? textOf(lastUser.content) : ""}`;
+    }
+    if (onText) onText(text, text);
+
+    return buildResult(model, text, []);
+  },
+};
+
+// ==================== Registry ====================
+
+const DEFAULT_BACKEND_ID = geminiLLMBackend.id;
+
+// mock only outside production, so it cannot be listed, chosen or resolved there
+const backends = new Map<string, LLMBackend>(
+  [geminiLLMBackend, openAiLLMBackend, ollamaLLMBackend, ...(ENV.allowOfflineProviders ? [mockLLMBackend] : [])].map(
+    backend => [backend.id, backend]
+  )
+);
+
+/**
+ * Register (or replace) an LLM backend
+ */
+export function registerLLMBackend(backend: LLMBackend): void {
+  backends.set(backend.id, backend);
+}
+
+export function listLLMBackends(): Array<{ id: string; name: string; available: boolean }> {
+  return Array.from(backends.values()).map(b => ({
+    id: b.id,
+    name: b.name,
+    available: b.isAvailable?.() ?? true,
+  }));
+}
+
+// 当前请求用户的偏好（由 tRPC 中间件设置，见 server/_core/trpc.ts）
+const preferenceStorage = new AsyncLocalStorage<{ backend?: string | null }>();
+
+export function runWithLLMPreference<T>(backend: string | null | undefined, fn: () => T): T {
+  return preferenceStorage.run({ backend }, fn);
+}
+
+/**
+ * Resolve a backend from candidate ids in priority order (explicit, then the
+ * current user's preference), then LLM_BACKEND, then Gemini. Unknown or
+ * unconfigured ids are skipped.
+ */
+export function resolveLLMBackend(...candidates: Array<string | null | undefined>): LLMBackend {
+  const preferred = preferenceStorage.getStore()?.backend;
+  for (const id of [...candidates, preferred, ENV.llmBackend]) {
+    const backend = id ? backends.get(id) : undefined;
+    if (backend && (backend.isAvailable?.() ?? true)) {
+      return backend;
+    }
+  }
+  return backends.get(DEFAULT_BACKEND_ID)!;
+}
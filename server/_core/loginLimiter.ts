@@ -0,0 +1,77 @@
+// 登录限流
+// 按键（用户名或 IP）统计失败次数，超过阈值后锁定一段时间。
+// 状态保存在进程内存中，重启后清空。
+
+export type LoginLimiterOptions = {
+  maxAttempts: number;
+  windowMs: number;
+  lockoutMs: number;
+  now?: () => number;
+};
+
+type AttemptRecord = {
+  failures: number;
+  firstFailureAt: number;
+  lockedUntil: number;
+};
+
+const MAX_TRACKED_KEYS = 10000;
+
+export function createLoginLimiter(options: LoginLimiterOptions) {
+  const now = options.now ?? Date.now;
+  const records = new Map<string, AttemptRecord>();
+
+  const getActive = (key: string): AttemptRecord | undefined => {
+    const record = records.get(key);
+    if (!record) return undefined;
+    const current = now();
+    // 锁定已过期或统计窗口已过，重新计数
+    if (record.lockedUntil ? record.lockedUntil <= current : current - record.firstFailureAt > options.windowMs) {
+      records.delete(key);
+      return undefined;
+    }
+    return record;
+  };
+
+  return {
+    /**
+     * 返回剩余锁定毫秒数，0 表示允许尝试
+     */
+    retryAfterMs(key: string): number {
+      const record = getActive(key);
+      return record?.lockedUntil ? record.lockedUntil - now() : 0;
+    },
+
+    recordFailure(key: string): void {
+      const current = now();
+      // 防止大量随机用户名撑满内存
+      if (records.size >= MAX_TRACKED_KEYS) {
+        for (const tracked of Array.from(records.keys())) getActive(tracked);
+      }
+      const record = getActive(key) ?? { failures: 0, firstFailureAt: current, lockedUntil: 0 };
+      record.failures += 1;
+      if (record.failures >= options.maxAttempts) {
+        record.lockedUntil = current + options.lockoutMs;
+      }
+      records.set(key, record);
+    },
+
+    reset(key: string): void {
+      records.delete(key);
+    },
+  };
+}
+
+// 同一账号 15 分钟内失败 5 次，锁定 15 分钟
+export const accountLoginLimiter = createLoginLimiter({
+  maxAttempts: 5,
+  windowMs: 15 * 60 * 1000,
+  lockoutMs: 15 * 60 * 1000,
+});
+
+// 同一 IP 可能对应多个用户（如公司出口），阈值放宽
+export const ipLoginLimiter = createLoginLimiter({
+  maxAttempts: 20,
+  windowMs: 15 * 60 * 1000,
+  lockoutMs: 15 * 60 * 1000,
+});
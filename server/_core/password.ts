@@ -0,0 +1,68 @@
+// 密码哈希
+// 使用加盐的 scrypt；兼容旧版无盐 SHA-256 哈希，登录成功后由调用方重新哈希。
+
+import crypto from "crypto";
+import { promisify } from "util";
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+// 旧版：sha256(password) 的 64 位十六进制
+const LEGACY_SHA256_PATTERN = /^[0-9a-f]{64}$/i;
+
+/**
+ * 存储格式：scrypt$N$r$p$salt$hash（salt、hash 为 base64）
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const { N, r, p } = SCRYPT_PARAMS;
+  const hash = await scrypt(password, salt, KEY_LENGTH, { N, r, p, maxmem: 64 * 1024 * 1024 });
+  return ["scrypt", N, r, p, salt.toString("base64"), hash.toString("base64")].join("$");
+}
+
+/**
+ * 校验密码；needsRehash 表示存储的哈希是旧格式或参数已过时
+ */
+export async function verifyPassword(
+  password: string,
+  stored: string
+): Promise<{ valid: boolean; needsRehash: boolean }> {
+  if (LEGACY_SHA256_PATTERN.test(stored)) {
+    const legacy = crypto.createHash("sha256").update(password).digest();
+    const valid = crypto.timingSafeEqual(legacy, Buffer.from(stored, "hex"));
+    return { valid, needsRehash: valid };
+  }
+
+  const parts = stored.split("$");
+  if (parts.length !== 6 || parts[0] !== "scrypt") {
+    return { valid: false, needsRehash: false };
+  }
+
+  const [, nRaw, rRaw, pRaw, saltRaw, hashRaw] = parts;
+  const N = Number(nRaw);
+  const r = Number(rRaw);
+  const p = Number(pRaw);
+  const expected = Buffer.from(hashRaw, "base64");
+  if (!N || !r || !p || expected.length === 0) {
+    return { valid: false, needsRehash: false };
+  }
+
+  const actual = await scrypt(password, Buffer.from(saltRaw, "base64"), expected.length, {
+    N,
+    r,
+    p,
+    maxmem: 64 * 1024 * 1024,
+  });
+  const valid = crypto.timingSafeEqual(actual, expected);
+  const outdated =
+    N !== SCRYPT_PARAMS.N || r !== SCRYPT_PARAMS.r || p !== SCRYPT_PARAMS.p || expected.length !== KEY_LENGTH;
+  return { valid, needsRehash: valid && outdated };
+}
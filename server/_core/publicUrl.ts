@@ -0,0 +1,142 @@
+// 服务端按用户提供的地址下载文件前的检查：只允许解析到公网地址的 http(s) URL，
+// 防止借服务器访问内网、本机或云厂商元数据服务
+
+import dns from "dns";
+import net from "net";
+import { Agent } from "undici";
+
+function ipv4ToNumber(address: string): number {
+  return address.split(".").reduce((value, part) => value * 256 + Number(part), 0);
+}
+
+// [网段起始, 前缀长度]
+const PRIVATE_IPV4_RANGES: Array<[string, number]> = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3], // 组播及保留地址
+];
+
+/**
+ * 是否为内网、本机、链路本地等不应由服务端访问的地址
+ */
+export function isPrivateAddress(address: string): boolean {
+  if (net.isIPv4(address)) {
+    const value = ipv4ToNumber(address);
+    return PRIVATE_IPV4_RANGES.some(([start, prefix]) => {
+      const size = 2 ** (32 - prefix);
+      return Math.floor(value / size) === Math.floor(ipv4ToNumber(start) / size);
+    });
+  }
+  if (net.isIPv6(address)) {
+    const normalized = address.toLowerCase();
+    // IPv4 映射地址，URL 中会写成 ::ffff:7f00:1 的形式
+    const mapped = normalized.match(/^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/);
+    if (mapped) {
+      if (mapped[1]) return isPrivateAddress(mapped[1]);
+      const high = parseInt(mapped[2], 16);
+      const low = parseInt(mapped[3], 16);
+      return isPrivateAddress([high >> 8, high & 0xff, low >> 8, low & 0xff].join("."));
+    }
+    return (
+      normalized.startsWith("::") || // 未指定地址、本机地址及 IPv4 兼容地址
+      /^f[cd]/.test(normalized) || // fc00::/7 唯一本地地址
+      /^fe[89ab]/.test(normalized) || // fe80::/10 链路本地地址
+      /^ff/.test(normalized) // 组播
+    );
+  }
+  return true;
+}
+
+// 检查 URL 是 http(s) 且主机名解析到的所有地址都是公网地址，返回这些地址
+async function resolvePublicAddresses(url: string): Promise<string[]> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error("无效的地址");
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new Error("只支持 http(s) 地址");
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, "");
+  const addresses = net.isIP(hostname)
+    ? [hostname]
+    : (await dns.promises.lookup(hostname, { all: true })).map(entry => entry.address);
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new Error("不允许访问内网地址");
+  }
+  return addresses;
+}
+
+/**
+ * 检查 URL 是 http(s) 且主机名解析到的所有地址都是公网地址，否则抛出错误
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  await resolvePublicAddresses(url);
+}
+
+// 连接时不再解析主机名，直接使用检查过的地址，避免检查后 DNS 改指到内网（DNS rebinding）
+function pinnedAgent(address: string): Agent {
+  const family = net.isIPv6(address) ? 6 : 4;
+  const lookup: net.LookupFunction = (_hostname, options, callback) => {
+    if (options.all) callback(null, [{ address, family }]);
+    else callback(null, address, family);
+  };
+  return new Agent({ connect: { lookup } });
+}
+
+const MAX_REDIRECTS = 5;
+
+/**
+ * 下载公网地址的内容；每一跳都连接到检查过的地址，重定向逐跳检查，不会被引到内网地址
+ */
+export async function fetchPublicUrl(url: string): Promise<Response> {
+  let current = url;
+  for (let redirects = 0; ; redirects++) {
+    const [address] = await resolvePublicAddresses(current);
+    const response = await fetch(current, { redirect: "manual", dispatcher: pinnedAgent(address) } as RequestInit);
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+    if (redirects >= MAX_REDIRECTS) {
+      throw new Error("重定向次数过多");
+    }
+    current = new URL(location, current).toString();
+  }
+}
+
+/**
+ * 读取响应内容，超过 maxBytes 时中止下载并抛出错误
+ */
+export async function readResponseBody(response: Response, maxBytes: number): Promise<Buffer> {
+  const declared = Number(response.headers.get("content-length"));
+  if (declared > maxBytes) {
+    await response.body?.cancel();
+    throw new Error(`文件过大（超过 ${Math.floor(maxBytes / 1024 / 1024)}MB）`);
+  }
+  if (!response.body) return Buffer.alloc(0);
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new Error(`文件过大（超过 ${Math.floor(maxBytes / 1024 / 1024)}MB）`);
+    }
+    chunks.push(Buffer.from(value));
+  }
+  return Buffer.concat(chunks);
+}
@@ -258,7 +258,9 @@ class SDKServer {
 
   async authenticateRequest(req: Request): Promise<User> {
     const cookies = this.parseCookies(req.headers.cookie);
-    const sessionCookie = cookies.get(COOKIE_NAME);
+    // 脚本调用 REST 接口时可用 Authorization: Bearer <token> 代替 cookie
+    const bearer = req.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+    const sessionCookie = cookies.get(COOKIE_NAME) ?? bearer;
 
     if (!sessionCookie) {
       throw ForbiddenError("Invalid session cookie");
@@ -266,8 +268,7 @@ class SDKServer {
 
     // 首先尝试简单 JWT 认证（用户名/密码登录）
     try {
-      const JWT_SECRET = process.env.JWT_SECRET || "fanshai-jwt-secret-2025";
-      const decoded = jwt.verify(sessionCookie, JWT_SECRET) as { userId: number; username: string };
+      const decoded = jwt.verify(sessionCookie, ENV.jwtSecret) as { userId: number; username: string };
       
       if (decoded.userId) {
         const user = await db.getUserById(decoded.userId);
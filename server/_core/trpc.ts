@@ -2,13 +2,50 @@ import { NOT_ADMIN_ERR_MSG, UNAUTHED_ERR_MSG } from '@shared/const';
 import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
 import type { TrpcContext } from "./context";
+import { runWithUsageContext } from "../usageMeter";
+import { runWithLLMPreference } from "./llmBackends";
 
 const t = initTRPC.context<TrpcContext>().create({
   transformer: superjson,
+  // subscription 走 SSE，定期发送 ping 防止代理断开空闲连接
+  sse: {
+    ping: {
+      enabled: true,
+      intervalMs: 15_000,
+    },
+    client: {
+      reconnectAfterInactivityMs: 20_000,
+    },
+  },
 });
 
 export const router = t.router;
-export const publicProcedure = t.procedure;
+
+// 记录调用归属，供用量台账使用（见 server/usageMeter.ts）
+const withUsageContext = t.middleware(async opts => {
+  const { ctx, path, next } = opts;
+  if (!ctx.user) return next();
+
+  const input = await opts.getRawInput().catch(() => undefined);
+  const projectId = (input as { projectId?: unknown } | undefined)?.projectId;
+
+  return runWithUsageContext(
+    {
+      userId: ctx.user.id,
+      procedure: path,
+      projectId: typeof projectId === "number" ? projectId : undefined,
+    },
+    () => next()
+  );
+});
+
+// 按用户偏好选择文本模型后端（见 server/_core/llmBackends.ts）
+const withLLMPreference = t.middleware(async ({ ctx, next }) => {
+  if (!ctx.user?.llmBackend) return next();
+  return runWithLLMPreference(ctx.user.llmBackend, () => next());
+});
+
+export const publicProcedure = t.procedure.use(withUsageContext).use(withLLMPreference);
 
 const requireUser = t.middleware(async opts => {
   const { ctx, next } = opts;
@@ -25,9 +62,9 @@ const requireUser = t.middleware(async opts => {
   });
 });
 
-export const protectedProcedure = t.procedure.use(requireUser);
+export const protectedProcedure = publicProcedure.use(requireUser);
 
-export const adminProcedure = t.procedure.use(
+export const adminProcedure = publicProcedure.use(
   t.middleware(async opts => {
     const { ctx, next } = opts;
 
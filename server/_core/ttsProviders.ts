@@ -0,0 +1,285 @@
+/**
+ * Pluggable text-to-speech providers
+ *
+ * Every provider synthesizes one line of speech with one of its voices and
+ * returns PCM audio (16-bit WAV). Providers are registered by id:
+ * - openai: any OpenAI-compatible /audio/speech endpoint (OPENAI_TTS_*)
+ * - local: deterministic offline placeholder speech for tests and offline development
+ *
+ * Voices carry gender, age and personality traits so characters can be
+ * matched to a voice automatically (see server/voiceover.ts).
+ * The provider is picked from the candidates, then TTS_PROVIDER, falling back to local.
+ */
+import { ENV } from "./env";
+import { meterCall } from "../usageMeter";
+
+// ==================== Types ====================
+
+export type TtsVoiceGender = "male" | "female" | "neutral";
+export type TtsVoiceAge = "child" | "young" | "adult" | "senior";
+
+export type TtsVoice = {
+  id: string;
+  name: string;
+  gender: TtsVoiceGender;
+  age: TtsVoiceAge;
+  // 适合的性格 / 气质关键词，与角色设定的性格描述匹配
+  traits: string[];
+};
+
+export type TtsInput = {
+  text: string;
+  voice: string;
+  // 语速倍数，1 为正常
+  speed?: number;
+};
+
+// 16-bit PCM；同一提供方返回的格式相同，可以直接拼接
+export type WavAudio = {
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+  data: Buffer;
+};
+
+export interface TtsProvider {
+  id: string;
+  name: string;
+  voices: TtsVoice[];
+  // 旁白和没有标明说话人的对白使用的声音
+  narratorVoice: string;
+  // 缺少必要配置时返回 false，解析时会跳过
+  isAvailable?(): boolean;
+  synthesize(input: TtsInput): Promise<WavAudio>;
+}
+
+// ==================== WAV ====================
+
+/**
+ * Encode PCM audio as a RIFF/WAVE file
+ */
+export function encodeWav(audio: WavAudio): Buffer {
+  const header = Buffer.alloc(44);
+  const blockAlign = (audio.channels * audio.bitsPerSample) / 8;
+  header.write("RIFF", 0, "ascii");
+  header.writeUInt32LE(36 + audio.data.length, 4);
+  header.write("WAVE", 8, "ascii");
+  header.write("fmt ", 12, "ascii");
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(audio.channels, 22);
+  header.writeUInt32LE(audio.sampleRate, 24);
+  header.writeUInt32LE(audio.sampleRate * blockAlign, 28);
+  header.writeUInt16LE(blockAlign, 32);
+  header.writeUInt16LE(audio.bitsPerSample, 34);
+  header.write("data", 36, "ascii");
+  header.writeUInt32LE(audio.data.length, 40);
+  return Buffer.concat([header, audio.data]);
+}
+
+/**
+ * Read the PCM data of a WAV file. Streamed responses may leave the chunk
+ * sizes unset (0xFFFFFFFF), in which case the data runs to the end of the file.
+ */
+export function decodeWav(buffer: Buffer): WavAudio {
+  if (buffer.length < 12 || buffer.toString("ascii", 0, 4) !== "RIFF" || buffer.toString("ascii", 8, 12) !== "WAVE") {
+    throw new Error("不是有效的 WAV 音频");
+  }
+  let format: Omit<WavAudio, "data"> | undefined;
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const id = buffer.toString("ascii", offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+    if (id === "fmt ") {
+      if (buffer.readUInt16LE(body) !== 1 || buffer.readUInt16LE(body + 14) !== 16) {
+        throw new Error("只支持 16 位 PCM 的 WAV 音频");
+      }
+      format = {
+        channels: buffer.readUInt16LE(body + 2),
+        sampleRate: buffer.readUInt32LE(body + 4),
+        bitsPerSample: 16,
+      };
+    } else if (id === "data") {
+      if (!format) break;
+      const end = Math.min(buffer.length, body + size);
+      const blockAlign = format.channels * 2;
+      return { ...format, data: buffer.subarray(body, end - ((end - body) % blockAlign)) };
+    }
+    offset = body + size + (size % 2);
+  }
+  throw new Error("不是有效的 WAV 音频");
+}
+
+export function wavDuration(audio: WavAudio): number {
+  return audio.data.length / (audio.sampleRate * audio.channels * (audio.bitsPerSample / 8));
+}
+
+/**
+ * Join clips of the same format, with silence between them
+ */
+export function concatWav(parts: WavAudio[], gapSeconds = 0): WavAudio {
+  if (parts.length === 0) throw new Error("没有可拼接的音频");
+  const [first] = parts;
+  if (parts.some(part => part.sampleRate !== first.sampleRate || part.channels !== first.channels || part.bitsPerSample !== first.bitsPerSample)) {
+    throw new Error("音频格式不一致，无法拼接");
+  }
+  const blockAlign = (first.channels * first.bitsPerSample) / 8;
+  const gap = Buffer.alloc(Math.round(gapSeconds * first.sampleRate) * blockAlign);
+  const chunks = parts.flatMap((part, index) => (index === 0 ? [part.data] : [gap, part.data]));
+  return { ...first, data: Buffer.concat(chunks) };
+}
+
+// ==================== OpenAI-compatible ====================
+
+export const openAiTtsProvider: TtsProvider = {
+  id: "openai",
+  name: "OpenAI 兼容接口",
+  voices: [
+    { id: "alloy", name: "Alloy（中性）", gender: "neutral", age: "adult", traits: ["平和", "中性", "理性"] },
+    { id: "ash", name: "Ash（沉稳男声）", gender: "male", age: "adult", traits: ["沉稳", "冷静", "可靠"] },
+    { id: "ballad", name: "Ballad（温柔男声）", gender: "male", age: "young", traits: ["温柔", "忧郁", "文雅"] },
+    { id: "coral", name: "Coral（明快女声）", gender: "female", age: "young", traits: ["开朗", "热情", "爽朗"] },
+    { id: "echo", name: "Echo（阳光男声）", gender: "male", age: "young", traits: ["阳光", "活泼", "热血", "冲动"] },
+    { id: "fable", name: "Fable（讲述）", gender: "neutral", age: "adult", traits: ["叙述", "平和", "睿智"] },
+    { id: "nova", name: "Nova（少女音）", gender: "female", age: "young", traits: ["活泼", "可爱", "天真"] },
+    { id: "onyx", name: "Onyx（低沉男声）", gender: "male", age: "senior", traits: ["威严", "严肃", "低沉", "霸气"] },
+    { id: "sage", name: "Sage（知性女声）", gender: "female", age: "adult", traits: ["知性", "冷静", "聪明"] },
+    { id: "shimmer", name: "Shimmer（柔和女声）", gender: "female", age: "adult", traits: ["温柔", "优雅", "善良"] },
+  ],
+  narratorVoice: "fable",
+  isAvailable: () => !!ENV.openaiTtsApiKey,
+  async synthesize(input) {
+    // 按次数和耗时计入用量，不产生 token / 图片数
+    return meterCall(
+      { operation: "tts", model: ENV.openaiTtsModel },
+      async () => {
+        const response = await fetch(`${ENV.openaiTtsBaseUrl.replace(/\/+$/, "")}/audio/speech`, {
+          method: "POST",
+          headers: { Authorization: `Bearer ${ENV.openaiTtsApiKey}`, "Content-Type": "application/json" },
+          body: JSON.stringify({
+            model: ENV.openaiTtsModel,
+            input: input.text,
+            voice: input.voice,
+            response_format: "wav",
+            speed: input.speed ?? 1,
+          }),
+        });
+        if (!response.ok) {
+          const detail = await response.text().catch(() => "");
+          throw new Error(`OpenAI 语音接口错误 (${response.status}): ${detail.slice(0, 300)}`);
+        }
+        return decodeWav(Buffer.from(await response.arrayBuffer()));
+      },
+      () => ({})
+    );
+  },
+};
+
+// ==================== Local (deterministic) ====================
+
+const LOCAL_SAMPLE_RATE = 24000;
+const LOCAL_SYLLABLE_SECONDS = 0.2;
+
+// 各声音的基频（Hz）
+const LOCAL_PITCHES: Record<string, number> = {
+  narrator: 150,
+  "male-young": 130,
+  "male-adult": 110,
+  "male-senior": 95,
+  "female-young": 260,
+  "female-adult": 220,
+  "female-senior": 190,
+  child: 300,
+};
+
+/**
+ * 本地占位语音：每个字合成一个音节（按声音的基频和字符编码取音高），标点处停顿，
+ * 相同输入总是得到相同音频，时长与文字长度成正比，便于测试和离线开发
+ */
+export const localTtsProvider: TtsProvider = {
+  id: "local",
+  name: "本地合成（测试）",
+  voices: [
+    { id: "narrator", name: "旁白", gender: "neutral", age: "adult", traits: ["叙述", "平和", "沉稳"] },
+    { id: "male-young", name: "青年男声", gender: "male", age: "young", traits: ["阳光", "活泼", "热血", "开朗", "冲动"] },
+    { id: "male-adult", name: "成熟男声", gender: "male", age: "adult", traits: ["沉稳", "冷静", "严肃", "可靠"] },
+    { id: "male-senior", name: "老年男声", gender: "male", age: "senior", traits: ["慈祥", "睿智", "威严"] },
+    { id: "female-young", name: "少女音", gender: "female", age: "young", traits: ["活泼", "可爱", "天真", "开朗"] },
+    { id: "female-adult", name: "成熟女声", gender: "female", age: "adult", traits: ["温柔", "知性", "冷静", "优雅"] },
+    { id: "female-senior", name: "老年女声", gender: "female", age: "senior", traits: ["慈祥", "和蔼"] },
+    { id: "child", name: "童声", gender: "neutral", age: "child", traits: ["天真", "可爱", "调皮"] },
+  ],
+  narratorVoice: "narrator",
+  async synthesize(input) {
+    const pitch = LOCAL_PITCHES[input.voice] ?? LOCAL_PITCHES.narrator;
+    const speed = input.speed && input.speed > 0 ? input.speed : 1;
+    const samples: number[] = [];
+    const silence = (seconds: number) => {
+      for (let i = Math.round((seconds / speed) * LOCAL_SAMPLE_RATE); i > 0; i--) samples.push(0);
+    };
+
+    for (const char of input.text.trim()) {
+      if (/[。！？!?.…]/.test(char)) {
+        silence(0.3);
+      } else if (/[，、；：,;:—“”"'‘’（）()]/.test(char)) {
+        silence(0.15);
+      } else if (/\s/.test(char)) {
+        silence(0.08);
+      } else {
+        const frequency = pitch * 2 ** ((((char.codePointAt(0) ?? 0) % 9) - 4) / 24);
+        const length = Math.round((LOCAL_SYLLABLE_SECONDS / speed) * LOCAL_SAMPLE_RATE);
+        for (let i = 0; i < length; i++) {
+          const t = i / LOCAL_SAMPLE_RATE;
+          const envelope = Math.min(1, i / (length * 0.15), (length - i) / (length * 0.25));
+          const wave =
+            Math.sin(2 * Math.PI * frequency * t) +
+            0.35 * Math.sin(4 * Math.PI * frequency * t) +
+            0.15 * Math.sin(6 * Math.PI * frequency * t);
+          samples.push(Math.round(wave * envelope * 0.2 * 32767));
+        }
+      }
+    }
+
+    const data = Buffer.alloc(samples.length * 2);
+    samples.forEach((sample, index) => data.writeInt16LE(Math.max(-32768, Math.min(32767, sample)), index * 2));
+    return { sampleRate: LOCAL_SAMPLE_RATE, channels: 1, bitsPerSample: 16, data };
+  },
+};
+
+// ==================== Registry ====================
+
+const DEFAULT_PROVIDER_ID = localTtsProvider.id;
+
+const providers = new Map<string, TtsProvider>(
+  [openAiTtsProvider, localTtsProvider].map(provider => [provider.id, provider])
+);
+
+/**
+ * Register (or replace) a text-to-speech provider
+ */
+export function registerTtsProvider(provider: TtsProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function listTtsProviders(): Array<{ id: string; name: string; available: boolean }> {
+  return Array.from(providers.values()).map(p => ({
+    id: p.id,
+    name: p.name,
+    available: p.isAvailable?.() ?? true,
+  }));
+}
+
+/**
+ * Resolve a provider from candidate ids in priority order, then TTS_PROVIDER,
+ * then the local engine. Unknown or unconfigured ids are skipped.
+ */
+export function resolveTtsProvider(...candidates: Array<string | null | undefined>): TtsProvider {
+  for (const id of [...candidates, ENV.ttsProvider]) {
+    const provider = id ? providers.get(id) : undefined;
+    if (provider && (provider.isAvailable?.() ?? true)) {
+      return provider;
+    }
+  }
+  return providers.get(DEFAULT_PROVIDER_ID)!;
+}
@@ -0,0 +1,291 @@
+/**
+ * Image-to-video generation helper with pluggable providers
+ *
+ * Example usage:
+ *   const { url: videoUrl } = await generateVideo({
+ *     prompt: "镜头缓慢推进，人物微微转头",
+ *     imageUrl: "https://example.com/first-frame.png",
+ *     duration: 5,
+ *     aspectRatio: "16:9",
+ *   });
+ *
+ * Providers are registered by id. The `model` option picks a provider when one
+ * is registered under that id (e.g. "hailuo"), otherwise VIDEO_PROVIDER is
+ * used, falling back to the local Ken-Burns stub which needs only ffmpeg.
+ */
+import { spawn } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { nanoid } from "nanoid";
+import { sniffMediaType } from "../mediaTypes";
+import { localUploadPath, storagePut } from "../storage";
+import { ENV } from "./env";
+import { fetchPublicUrl, readResponseBody } from "./publicUrl";
+
+// ==================== Types ====================
+
+export type VideoAspectRatio = "1:1" | "16:9" | "9:16" | "4:3" | "3:4" | "21:9";
+
+export type VideoProviderInput = {
+  prompt: string;
+  image: {
+    base64: string;
+    mimeType: string;
+  };
+  duration: number; // 秒
+  width: number;
+  height: number;
+  apiKey?: string;
+};
+
+export type VideoProviderResult = {
+  data: Buffer;
+  mimeType: string;
+};
+
+export interface VideoProvider {
+  id: string;
+  name: string;
+  generate(input: VideoProviderInput): Promise<VideoProviderResult>;
+}
+
+export type GenerateVideoOptions = {
+  prompt: string;
+  imageUrl: string; // http(s) URL 或 data: URL
+  model?: string;
+  duration?: number;
+  aspectRatio?: VideoAspectRatio;
+  width?: number;
+  height?: number;
+  // 用户的 API Key（由需要密钥的提供方使用）
+  apiKey?: string;
+};
+
+export type GenerateVideoResponse = {
+  url: string;
+  fileKey: string;
+  mimeType: string;
+  size: number;
+  provider: string;
+  width: number;
+  height: number;
+  duration: number;
+};
+
+// 与 ImageToVideoNode 的比例选项保持一致
+export const VIDEO_DIMENSIONS: Record<VideoAspectRatio, { width: number; height: number }> = {
+  "1:1": { width: 1024, height: 1024 },
+  "16:9": { width: 1280, height: 720 },
+  "9:16": { width: 720, height: 1280 },
+  "4:3": { width: 1024, height: 768 },
+  "3:4": { width: 768, height: 1024 },
+  "21:9": { width: 1280, height: 540 },
+};
+
+const DEFAULT_PROVIDER_ID = "kenburns";
+const MAX_DURATION_SECONDS = 30;
+// 输出边长范围；Ken Burns 会先放大到 4 倍，过大的尺寸会让 ffmpeg 分配巨大的帧
+export const MIN_VIDEO_DIMENSION = 64;
+export const MAX_VIDEO_DIMENSION = 4096;
+
+// ==================== Helpers ====================
+
+/**
+ * Run ffmpeg with the given arguments, rejecting with stderr on failure.
+ * onTime receives the output position (seconds) parsed from ffmpeg's status lines
+ */
+export function runFfmpeg(args: string[], onTime?: (seconds: number) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn(ENV.ffmpegPath, args, { stdio: ["ignore", "ignore", "pipe"] });
+    let stderr = "";
+    proc.stderr.on("data", chunk => {
+      const text = chunk.toString();
+      if (onTime) {
+        const matches = Array.from(text.matchAll(/time=(\d+):(\d+):(\d+(?:\.\d+)?)/g)) as RegExpMatchArray[];
+        const last = matches[matches.length - 1];
+        if (last) onTime(Number(last[1]) * 3600 + Number(last[2]) * 60 + Number(last[3]));
+      }
+      stderr += text;
+      // 只保留尾部日志，避免长视频占用过多内存
+      if (stderr.length > 8000) stderr = stderr.slice(-8000);
+    });
+    proc.on("error", error => {
+      reject(new Error(`无法启动 ffmpeg (${ENV.ffmpegPath}): ${error.message}`));
+    });
+    proc.on("close", code => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`ffmpeg 退出码 ${code}: ${stderr.split("\n").slice(-5).join("\n")}`));
+      }
+    });
+  });
+}
+
+// 首帧图片的下载上限
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+
+/**
+ * Fetch image from URL (or decode data URL) and convert to base64.
+ * Remote images must resolve to a public host (see ./publicUrl).
+ */
+async function loadImageAsBase64(url: string): Promise<{ base64: string; mimeType: string }> {
+  if (url.startsWith("data:")) {
+    const match = url.match(/^data:([^;]+);base64,(.+)$/);
+    if (!match) {
+      throw new Error("无效的图片数据 URL");
+    }
+    return { mimeType: match[1], base64: match[2] };
+  }
+
+  // 本服务器的上传文件直接读取
+  const localPath = localUploadPath(url);
+  if (localPath) {
+    const buffer = await fs.promises.readFile(localPath);
+    return { base64: buffer.toString("base64"), mimeType: sniffMediaType(buffer)?.mimeType || "image/png" };
+  }
+
+  if (!url.startsWith("http://") && !url.startsWith("https://")) {
+    throw new Error("不支持的图片地址，请使用 http(s) 或 data: URL");
+  }
+
+  const response = await fetchPublicUrl(url);
+  if (!response.ok) {
+    throw new Error(`首帧图片获取失败 (${response.status})`);
+  }
+  const buffer = await readResponseBody(response, MAX_IMAGE_BYTES);
+  return {
+    base64: buffer.toString("base64"),
+    mimeType: response.headers.get("content-type") || "image/png",
+  };
+}
+
+/**
+ * Build the ffmpeg filter graph for a Ken-Burns pan/zoom over a still image.
+ * The image is upscaled first so zoompan has enough pixels to avoid jitter.
+ */
+export function buildKenBurnsFilter(options: {
+  width: number;
+  height: number;
+  duration: number;
+  fps?: number;
+  maxZoom?: number;
+}): string {
+  const fps = options.fps ?? 25;
+  const maxZoom = options.maxZoom ?? 1.3;
+  const frames = Math.max(1, Math.round(options.duration * fps));
+  const step = ((maxZoom - 1) / frames).toFixed(6);
+  const { width, height } = options;
+
+  return [
+    `scale=${width * 4}:${height * 4}:force_original_aspect_ratio=increase`,
+    `crop=${width * 4}:${height * 4}`,
+    // 缓慢放大，同时从左上向中心平移
+    `zoompan=z='min(zoom+${step},${maxZoom})':x='(iw-iw/zoom)*on/${frames}/2':y='(ih-ih/zoom)*on/${frames}/2':d=${frames}:s=${width}x${height}:fps=${fps}`,
+    "format=yuv420p",
+  ].join(",");
+}
+
+// ==================== Providers ====================
+
+/**
+ * Local stub provider: renders a Ken-Burns clip from the still image with ffmpeg.
+ * Used for offline testing and as the default when no remote provider is configured.
+ */
+export const kenBurnsProvider: VideoProvider = {
+  id: DEFAULT_PROVIDER_ID,
+  name: "Ken Burns（本地）",
+  async generate(input) {
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "kenburns-"));
+    const ext = input.image.mimeType.includes("jpeg") || input.image.mimeType.includes("jpg") ? ".jpg" : ".png";
+    const inputPath = path.join(workDir, `frame${ext}`);
+    const outputPath = path.join(workDir, "clip.mp4");
+
+    try {
+      fs.writeFileSync(inputPath, Buffer.from(input.image.base64, "base64"));
+      await runFfmpeg([
+        "-y",
+        "-loop", "1",
+        "-i", inputPath,
+        "-vf", buildKenBurnsFilter(input),
+        "-t", String(input.duration),
+        "-c:v", "libx264",
+        "-preset", "veryfast",
+        "-movflags", "+faststart",
+        outputPath,
+      ]);
+      return { data: fs.readFileSync(outputPath), mimeType: "video/mp4" };
+    } finally {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    }
+  },
+};
+
+const providers = new Map<string, VideoProvider>([[kenBurnsProvider.id, kenBurnsProvider]]);
+
+/**
+ * Register (or replace) a video provider
+ */
+export function registerVideoProvider(provider: VideoProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function listVideoProviders(): Array<{ id: string; name: string }> {
+  return Array.from(providers.values()).map(p => ({ id: p.id, name: p.name }));
+}
+
+/**
+ * Resolve a provider: the requested model if registered, then VIDEO_PROVIDER, then the local stub
+ */
+export function resolveVideoProvider(model?: string): VideoProvider {
+  if (model && providers.has(model)) {
+    return providers.get(model)!;
+  }
+  if (ENV.videoProvider && providers.has(ENV.videoProvider)) {
+    return providers.get(ENV.videoProvider)!;
+  }
+  return kenBurnsProvider;
+}
+
+// ==================== Main Function ====================
+
+export async function generateVideo(
+  options: GenerateVideoOptions
+): Promise<GenerateVideoResponse> {
+  const provider = resolveVideoProvider(options.model);
+  const ratioSize = VIDEO_DIMENSIONS[options.aspectRatio || "16:9"];
+  // ffmpeg/H.264 要求偶数尺寸
+  const clampDimension = (value: number) =>
+    Math.round(Math.min(Math.max(value, MIN_VIDEO_DIMENSION), MAX_VIDEO_DIMENSION) / 2) * 2;
+  const width = clampDimension(options.width || ratioSize.width);
+  const height = clampDimension(options.height || ratioSize.height);
+  const duration = Math.min(Math.max(options.duration || 5, 1), MAX_DURATION_SECONDS);
+
+  const image = await loadImageAsBase64(options.imageUrl);
+
+  console.log(`[VideoGeneration] Calling provider "${provider.id}" (${width}x${height}, ${duration}s)`);
+  const result = await provider.generate({
+    prompt: options.prompt,
+    image,
+    duration,
+    width,
+    height,
+    apiKey: options.apiKey,
+  });
+
+  const fileKey = `generated/video-${Date.now()}-${nanoid(8)}.mp4`;
+  const { key, url } = await storagePut(fileKey, result.data, result.mimeType);
+  console.log(`[VideoGeneration] Video saved with key: ${key}, URL: ${url}`);
+
+  return {
+    url,
+    fileKey: key,
+    mimeType: result.mimeType,
+    size: result.data.length,
+    provider: provider.id,
+    width,
+    height,
+    duration,
+  };
+}
@@ -0,0 +1,64 @@
+import type { Express, Request, Response } from "express";
+import { ZodError } from "zod";
+import { getWorkflowRun } from "../db";
+import { requireProjectAccess } from "../projectAccess";
+import { startWorkflowRun, workflowRunInputSchema } from "../workflowRunner";
+import { sdk } from "./sdk";
+
+async function authenticate(req: Request, res: Response) {
+  try {
+    return await sdk.authenticateRequest(req);
+  } catch {
+    res.status(401).json({ error: "Unauthorized" });
+    return null;
+  }
+}
+
+/**
+ * 无头工作流 REST 接口，与 workflow.run / workflow.getRun 等价
+ *   POST /api/workflows/:projectId/runs  body: { mode?, overrides?, force? }
+ *   GET  /api/workflow-runs/:id
+ */
+export function registerWorkflowRoutes(app: Express) {
+  app.post("/api/workflows/:projectId/runs", async (req: Request, res: Response) => {
+    const user = await authenticate(req, res);
+    if (!user) return;
+
+    const parsed = workflowRunInputSchema.safeParse({ ...req.body, projectId: Number(req.params.projectId) });
+    if (!parsed.success) {
+      res.status(400).json({ error: parsed.error.issues });
+      return;
+    }
+
+    try {
+      const run = await startWorkflowRun(user, parsed.data);
+      res.status(202).json({ runId: run.id, status: run.status });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: error.issues });
+        return;
+      }
+      const message = error instanceof Error ? error.message : "运行失败";
+      res.status(message === "Project not found" ? 404 : 400).json({ error: message });
+    }
+  });
+
+  app.get("/api/workflow-runs/:id", async (req: Request, res: Response) => {
+    const user = await authenticate(req, res);
+    if (!user) return;
+
+    try {
+      const run = await getWorkflowRun(Number(req.params.id));
+      // 项目成员可以查看他人发起的运行
+      const canView = run && (run.userId === user.id || (await requireProjectAccess(run.projectId, user.id).then(() => true, () => false)));
+      if (!run || !canView) {
+        res.status(404).json({ error: "运行记录不存在" });
+        return;
+      }
+      res.json(run);
+    } catch (error) {
+      console.error("[WorkflowApi] Failed to load run", error);
+      res.status(500).json({ error: "查询运行记录失败" });
+    }
+  });
+}
@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { ENV } from "./_core/env";
+import {
+  decryptApiKey,
+  encryptApiKey,
+  isEncryptedApiKey,
+  maskApiKey,
+  needsApiKeyReencryption,
+} from "./_core/apiKeyCrypto";
+import { authRouter } from "./authRouter";
+import type { TrpcContext } from "./_core/context";
+
+const API_KEY = "AIzaSyExampleKey1234abcd";
+const OLD_MASTER = "a".repeat(64);
+const NEW_MASTER = "b".repeat(64);
+
+describe("apiKeyCrypto", () => {
+  const original = { master: ENV.apiKeyMasterKey, previous: ENV.apiKeyPreviousMasterKeys };
+
+  afterEach(() => {
+    ENV.apiKeyMasterKey = original.master;
+    ENV.apiKeyPreviousMasterKeys = original.previous;
+  });
+
+  it("should round-trip with a fresh ciphertext each time", () => {
+    ENV.apiKeyMasterKey = OLD_MASTER;
+    const first = encryptApiKey(API_KEY);
+    const second = encryptApiKey(API_KEY);
+
+    expect(isEncryptedApiKey(first)).toBe(true);
+    expect(first).not.toContain(API_KEY);
+    expect(first).not.toBe(second);
+    expect(decryptApiKey(first)).toBe(API_KEY);
+  });
+
+  it("should pass through legacy plaintext values", () => {
+    expect(decryptApiKey(API_KEY)).toBe(API_KEY);
+    expect(needsApiKeyReencryption(API_KEY)).toBe(true);
+  });
+
+  it("should decrypt with a previous master key and flag it for re-encryption", () => {
+    ENV.apiKeyMasterKey = OLD_MASTER;
+    const stored = encryptApiKey(API_KEY);
+
+    ENV.apiKeyMasterKey = NEW_MASTER;
+    expect(() => decryptApiKey(stored)).toThrow(/主密钥/);
+
+    ENV.apiKeyPreviousMasterKeys = [OLD_MASTER];
+    expect(decryptApiKey(stored)).toBe(API_KEY);
+    expect(needsApiKeyReencryption(stored)).toBe(true);
+    expect(needsApiKeyReencryption(encryptApiKey(API_KEY))).toBe(false);
+  });
+
+  it("should mask all but the last 4 characters", () => {
+    expect(maskApiKey(API_KEY)).toBe("••••abcd");
+    expect(maskApiKey(null)).toBeNull();
+  });
+});
+
+describe("auth.me", () => {
+  it("should never return the full API key", async () => {
+    const ctx = {
+      user: { id: 1, username: "u", name: "u", apiKey: API_KEY },
+      req: { protocol: "https", headers: {} },
+      res: {},
+    } as unknown as TrpcContext;
+
+    const me = await authRouter.createCaller(ctx).me();
+
+    expect(me).toMatchObject({ apiKey: "••••abcd", hasApiKey: true });
+    expect(JSON.stringify(me)).not.toContain(API_KEY);
+  });
+});
@@ -11,19 +11,31 @@ import {
 } from "./db";
 import { storagePut } from "./storage";
 import { nanoid } from "nanoid";
+import { requireProjectAccess } from "./projectAccess";
+import type { ProjectRole } from "../shared/projectRoles";
 
 // Updated category enum: subject(主体库), scene(场景库), prop(道具库), action(动作库), style(风格库)
 const categoryEnum = z.enum(["subject", "scene", "prop", "action", "style"]);
 
+// 资产库属于个人。在项目中使用时（传入 projectId）按项目角色使用项目所有者的资产库：
+// 查看者可以浏览，编辑者可以引用（计入使用次数）；增删改只限资产所有者本人
+async function libraryOwnerId(userId: number, projectId: number | undefined, required: ProjectRole): Promise<number> {
+  if (projectId === undefined) return userId;
+  const { project } = await requireProjectAccess(projectId, userId, required);
+  return project.userId;
+}
+
 export const assetLibraryRouter = router({
   // List assets by category with optional search
   list: protectedProcedure
     .input(z.object({
       category: categoryEnum.optional(),
       search: z.string().optional(),
+      projectId: z.number().optional(),
     }))
     .query(async ({ ctx, input }) => {
-      const assets = await getUserAssetLibrary(ctx.user.id, input.category);
+      const ownerId = await libraryOwnerId(ctx.user.id, input.projectId, "viewer");
+      const assets = await getUserAssetLibrary(ownerId, input.category);
       
       // If search query provided, filter by name and tags
       if (input.search && input.search.trim()) {
@@ -44,10 +56,10 @@ export const assetLibraryRouter = router({
 
   // Get single asset
   get: protectedProcedure
-    .input(z.object({ id: z.number() }))
+    .input(z.object({ id: z.number(), projectId: z.number().optional() }))
     .query(async ({ ctx, input }) => {
       const item = await getAssetLibraryItemById(input.id);
-      if (!item || item.userId !== ctx.user.id) {
+      if (!item || item.userId !== await libraryOwnerId(ctx.user.id, input.projectId, "viewer")) {
         throw new Error("Asset not found");
       }
       return item;
@@ -152,10 +164,10 @@ export const assetLibraryRouter = router({
 
   // Increment usage count
   incrementUsage: protectedProcedure
-    .input(z.object({ id: z.number() }))
+    .input(z.object({ id: z.number(), projectId: z.number().optional() }))
     .mutation(async ({ ctx, input }) => {
       const item = await getAssetLibraryItemById(input.id);
-      if (!item || item.userId !== ctx.user.id) {
+      if (!item || item.userId !== await libraryOwnerId(ctx.user.id, input.projectId, "editor")) {
         throw new Error("Asset not found");
       }
       
@@ -176,8 +188,11 @@ export const assetLibraryRouter = router({
     }),
 
   // Get category counts
-  getCounts: protectedProcedure.query(async ({ ctx }) => {
-    const all = await getUserAssetLibrary(ctx.user.id);
+  getCounts: protectedProcedure
+    .input(z.object({ projectId: z.number().optional() }).optional())
+    .query(async ({ ctx, input }) => {
+    const ownerId = await libraryOwnerId(ctx.user.id, input?.projectId, "viewer");
+    const all = await getUserAssetLibrary(ownerId);
     
     const counts: Record<string, number> = {
       subject: 0,
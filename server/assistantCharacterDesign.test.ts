@@ -39,9 +39,49 @@ vi.mock('./_core/imageGeneration', () => ({
   })
 }));
 
-function createTestContext(): TrpcContext {
+// 风格参考图数据不在仓库中，用空表代替
+vi.mock('../client/src/data/styleImages', () => ({
+  STYLE_IMAGES: {},
+}));
+
+// 会话存储改为内存 Map，避免依赖数据库
+vi.mock('./db', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./db')>();
+  const rows = new Map<string, any>();
+  return {
+    ...actual,
+    createAssistantSession: vi.fn(async (data: any) => {
+      const row = { ...data, createdAt: new Date(), updatedAt: new Date() };
+      rows.set(data.id, row);
+      return row;
+    }),
+    getAssistantSession: vi.fn(async (id: string) => rows.get(id)),
+    getUserAssistantSessions: vi.fn(async (userId: number) =>
+      Array.from(rows.values()).filter(row => row.userId === userId)
+    ),
+    updateAssistantSession: vi.fn(async (id: string, data: any) => {
+      const row = rows.get(id);
+      if (row) rows.set(id, { ...row, ...data, updatedAt: new Date() });
+    }),
+    deleteAssistantSession: vi.fn(async (id: string) => {
+      rows.delete(id);
+    }),
+  };
+});
+
+function createTestUser(id: number, apiKey: string | null = `key-${id}`): NonNullable<TrpcContext['user']> {
   return {
-    user: null,
+    id,
+    openId: `user-${id}`,
+    name: `user-${id}`,
+    role: 'user',
+    apiKey,
+  } as NonNullable<TrpcContext['user']>;
+}
+
+function createTestContext(user: TrpcContext['user'] = createTestUser(1)): TrpcContext {
+  return {
+    user,
     req: {
       protocol: "https",
       headers: {},
@@ -119,7 +159,7 @@ describe('智能小助手 - 角色设计 API', () => {
   });
 
   describe('endSession', () => {
-    it('应该成功结束会话', async () => {
+    it('应该成功结束会话并保留历史', async () => {
       const session = await caller.assistantCharacterDesign.startSession();
       
       const result = await caller.assistantCharacterDesign.endSession({
@@ -128,10 +168,43 @@ describe('智能小助手 - 角色设计 API', () => {
       
       expect(result.success).toBe(true);
       
-      // 验证会话已被删除
+      // 会话保留，可重新打开
       const checkSession = await caller.assistantCharacterDesign.getSession({
         sessionId: session.sessionId
       });
+      expect(checkSession?.messages).toHaveLength(1);
+    });
+  });
+
+  describe('历史会话', () => {
+    const userCaller = (id: number) => appRouter.createCaller(createTestContext(createTestUser(id)));
+
+    it('listSessions 只返回当前用户的会话', async () => {
+      const alice = userCaller(101);
+      const bob = userCaller(102);
+      const mine = await alice.assistantCharacterDesign.startSession();
+      await bob.assistantCharacterDesign.startSession();
+
+      const result = await alice.assistantCharacterDesign.listSessions();
+
+      expect(result.map(s => s.sessionId)).toEqual([mine.sessionId]);
+      expect(result[0].title).toBe('新会话');
+      expect(result[0].messageCount).toBe(1);
+    });
+
+    it('deleteSession 不能删除他人的会话', async () => {
+      const alice = userCaller(103);
+      const bob = userCaller(104);
+      const session = await alice.assistantCharacterDesign.startSession();
+
+      await expect(bob.assistantCharacterDesign.deleteSession({
+        sessionId: session.sessionId
+      })).rejects.toThrow('会话不存在');
+
+      await alice.assistantCharacterDesign.deleteSession({ sessionId: session.sessionId });
+      const checkSession = await alice.assistantCharacterDesign.getSession({
+        sessionId: session.sessionId
+      });
       expect(checkSession).toBeNull();
     });
   });
@@ -258,4 +331,59 @@ describe('智能小助手 - 角色设计 API', () => {
       expect(result).toBeNull();
     });
   });
+
+  describe('权限校验', () => {
+    const alice = () => appRouter.createCaller(createTestContext(createTestUser(201, 'alice-key')));
+    const bob = () => appRouter.createCaller(createTestContext(createTestUser(202, 'bob-key')));
+
+    it('未登录时应该拒绝访问', async () => {
+      const anonymous = appRouter.createCaller(createTestContext(null));
+
+      await expect(anonymous.assistantCharacterDesign.startSession()).rejects.toThrow();
+      await expect(anonymous.assistantCharacterDesign.getPresetStyles()).rejects.toThrow();
+    });
+
+    it('不能读取或驱动其他用户的会话', async () => {
+      const session = await alice().assistantCharacterDesign.startSession();
+      const sessionId = session.sessionId;
+
+      expect(await bob().assistantCharacterDesign.getSession({ sessionId })).toBeNull();
+      expect(await bob().assistantCharacterDesign.getGenerationProgress({ sessionId })).toBeNull();
+      await expect(bob().assistantCharacterDesign.chat({ sessionId, message: '劫持会话' }))
+        .rejects.toThrow('会话不存在或已过期');
+      await expect(bob().assistantCharacterDesign.searchImages({ sessionId, keywords: ['test'] }))
+        .rejects.toThrow('会话不存在或已过期');
+      await expect(bob().assistantCharacterDesign.generateCharacter({
+        sessionId,
+        characterInfo: { name: '测试', role: '主角' },
+        style: '测试风格',
+      })).rejects.toThrow('会话不存在或已过期');
+      await expect(bob().assistantCharacterDesign.endSession({ sessionId }))
+        .rejects.toThrow('会话不存在');
+
+      // 原会话未被改动
+      const own = await alice().assistantCharacterDesign.getSession({ sessionId });
+      expect(own?.messages).toHaveLength(1);
+    });
+
+    it('应该使用当前用户自己的 API Key', async () => {
+      const { generateImage } = await import('./_core/imageGeneration');
+      const { invokeGeminiLLM } = await import('./_core/gemini');
+      const caller = alice();
+      const session = await caller.assistantCharacterDesign.startSession();
+
+      await caller.assistantCharacterDesign.generateCharacter({
+        sessionId: session.sessionId,
+        characterInfo: { name: '张三', role: '主角' },
+        style: '日系动漫风格',
+      });
+      await caller.assistantCharacterDesign.chat({
+        sessionId: session.sessionId,
+        message: '这是一个关于年轻程序员创业的故事。',
+      });
+
+      expect(vi.mocked(generateImage)).toHaveBeenLastCalledWith(expect.objectContaining({ apiKey: 'alice-key' }));
+      expect(vi.mocked(invokeGeminiLLM)).toHaveBeenLastCalledWith(expect.objectContaining({ apiKey: 'alice-key' }));
+    });
+  });
 });
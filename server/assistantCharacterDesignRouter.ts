@@ -1,7 +1,16 @@
-import { publicProcedure, protectedProcedure, router } from "./_core/trpc";
+import { protectedProcedure, router } from "./_core/trpc";
 import { z } from "zod";
 import { invokeGeminiLLM } from "./_core/gemini";
 import { generateImage } from "./_core/imageGeneration";
+import { publishGenerationEvent, streamGenerationEvents } from "./generationEvents";
+import {
+  createAssistantSession,
+  getAssistantSession,
+  getUserAssistantSessions,
+  updateAssistantSession,
+  deleteAssistantSession,
+} from "./db";
+import type { AssistantSession } from "../drizzle/schema";
 import { nanoid } from "nanoid";
 
 // ============================================
@@ -266,6 +275,7 @@ interface AssistantMessage {
 // 会话状态
 interface AgentSession {
   id: string;
+  userId: number | null;
   createdAt: number;
   updatedAt: number;
   step: SessionStep;
@@ -312,49 +322,95 @@ interface AgentSession {
   messages: AssistantMessage[];
 }
 
-// 内存存储会话
-const sessions = new Map<string, AgentSession>();
-
-// 清理过期会话（1小时过期）
-function cleanupExpiredSessions() {
-  const now = Date.now();
-  const expireTime = 60 * 60 * 1000; // 1小时
-  const keysToDelete: string[] = [];
-  sessions.forEach((session, id) => {
-    if (now - session.updatedAt > expireTime) {
-      keysToDelete.push(id);
-    }
-  });
-  keysToDelete.forEach(id => sessions.delete(id));
+// 会话持久化在 assistantSessions 表中，服务重启或多实例部署都不会丢失对话
+
+// 数据库记录 -> 会话对象
+function toAgentSession(row: AssistantSession): AgentSession {
+  const state = (row.state ?? {}) as Partial<AgentSession>;
+  return {
+    ...state,
+    id: row.id,
+    userId: row.userId,
+    createdAt: row.createdAt.getTime(),
+    updatedAt: row.updatedAt.getTime(),
+    step: row.step as SessionStep,
+    messages: (row.messages ?? []) as AssistantMessage[],
+    generatedCharacters: (row.generatedCharacters ?? undefined) as AgentSession["generatedCharacters"],
+    generationProgress: row.generationProgress,
+    totalCharacters: row.totalCharacters,
+  };
+}
+
+// 会话标题：取剧本第一行，便于在历史列表中识别
+function getSessionTitle(session: AgentSession): string {
+  const firstLine = session.script?.split("\n").find(line => line.trim())?.trim();
+  if (!firstLine) return "新会话";
+  return firstLine.length > 30 ? `${firstLine.slice(0, 30)}…` : firstLine;
 }
 
-// 每10分钟清理一次
-setInterval(cleanupExpiredSessions, 10 * 60 * 1000);
+// 会话对象 -> 数据库字段
+function toSessionRecord(session: AgentSession) {
+  const {
+    id,
+    userId,
+    createdAt,
+    updatedAt,
+    step,
+    messages,
+    generatedCharacters,
+    generationProgress,
+    totalCharacters,
+    ...state
+  } = session;
+  return {
+    userId,
+    title: getSessionTitle(session),
+    step,
+    messages,
+    generatedCharacters: generatedCharacters ?? null,
+    generationProgress: generationProgress ?? 0,
+    totalCharacters: totalCharacters ?? 0,
+    state,
+  };
+}
 
 // 创建新会话
-function createSession(): AgentSession {
+async function createSession(userId: number, messages: AssistantMessage[]): Promise<AgentSession> {
   const session: AgentSession = {
     id: nanoid(),
+    userId,
     createdAt: Date.now(),
     updatedAt: Date.now(),
     step: "init",
-    messages: [],
+    messages,
   };
-  sessions.set(session.id, session);
+  await createAssistantSession({ id: session.id, ...toSessionRecord(session) });
   return session;
 }
 
 // 获取会话
-function getSession(sessionId: string): AgentSession | undefined {
-  const session = sessions.get(sessionId);
-  if (session) {
-    session.updatedAt = Date.now();
+async function getSession(sessionId: string): Promise<AgentSession | undefined> {
+  const row = await getAssistantSession(sessionId);
+  return row ? toAgentSession(row) : undefined;
+}
+
+// 获取当前用户的会话；不存在或属于其他用户时都返回 undefined，不暴露会话是否存在
+async function getOwnedSession(sessionId: string, userId: number): Promise<AgentSession | undefined> {
+  const session = await getSession(sessionId);
+  if (!session || session.userId !== userId) {
+    return undefined;
   }
   return session;
 }
 
+// 保存会话
+async function saveSession(session: AgentSession): Promise<void> {
+  session.updatedAt = Date.now();
+  await updateAssistantSession(session.id, toSessionRecord(session));
+}
+
 // 分析剧本
-export async function analyzeScript(script: string): Promise<{
+export async function analyzeScript(script: string, apiKey?: string): Promise<{
   summary: string;
   characters: Array<{
     name: string;
@@ -400,6 +456,7 @@ export async function analyzeScript(script: string): Promise<{
       { role: "system", content: systemPrompt },
       { role: "user", content: script }
     ],
+    apiKey,
   });
 
   const content = response.choices[0]?.message?.content || "";
@@ -727,10 +784,8 @@ export async function generateCharacterImage(
 
 export const assistantCharacterDesignRouter = router({
   // 开始新会话
-  startSession: publicProcedure
-    .mutation(async () => {
-      const session = createSession();
-      
+  startSession: protectedProcedure
+    .mutation(async ({ ctx }) => {
       // 添加欢迎消息
       const welcomeMessage: AssistantMessage = {
         role: "assistant",
@@ -738,7 +793,7 @@ export const assistantCharacterDesignRouter = router({
         content: "你好！我是角色设计助手。请输入你的剧本内容，我会帮你分析剧情并设计角色形象。\n\n你可以直接粘贴剧本文本，或者描述你想要创作的故事。",
         timestamp: Date.now(),
       };
-      session.messages.push(welcomeMessage);
+      const session = await createSession(ctx.user.id, [welcomeMessage]);
 
       return {
         sessionId: session.id,
@@ -748,7 +803,7 @@ export const assistantCharacterDesignRouter = router({
     }),
 
   // 发送消息/继续对话
-  chat: publicProcedure
+  chat: protectedProcedure
     .input(z.object({
       sessionId: z.string(),
       message: z.string(),
@@ -757,11 +812,14 @@ export const assistantCharacterDesignRouter = router({
         url: z.string(),
       })).optional(),
     }))
-    .mutation(async ({ input }) => {
-      const session = getSession(input.sessionId);
+    .mutation(async ({ ctx, input }) => {
+      const session = await getOwnedSession(input.sessionId, ctx.user.id);
       if (!session) {
         throw new Error("会话不存在或已过期，请重新开始");
       }
+      const wasGenerating = session.step === "generating";
+      // 所有生成都使用当前用户自己的 API Key
+      const apiKey = ctx.user.apiKey ?? undefined;
 
       // 添加用户消息
       const userMessage: AssistantMessage = {
@@ -781,7 +839,7 @@ export const assistantCharacterDesignRouter = router({
           session.script = input.message;
           
           // 分析剧本
-          const analysis = await analyzeScript(input.message);
+          const analysis = await analyzeScript(input.message, apiKey);
           session.scriptAnalysis = analysis;
           session.step = "script_analyzed";
 
@@ -972,11 +1030,15 @@ export const assistantCharacterDesignRouter = router({
             responseMessages.push(generatingMessage);
 
             // 异步生成角色图片（不等待完成）
+            const eventScope = { userId: ctx.user.id, sessionId: session.id };
+            publishGenerationEvent({ type: "queued", jobType: "assistantCharacterDesign.generateCharacters" }, eventScope);
             (async () => {
               const generatedCharacters: Array<{ name: string; url: string; description: string }> = [];
+              const total = charactersToGenerate.length;
               
               for (let i = 0; i < charactersToGenerate.length; i++) {
                 const character = charactersToGenerate[i];
+                publishGenerationEvent({ type: "started", label: character.name, current: i, total }, eventScope);
                 try {
                   console.log(`[异步] 开始生成角色: ${character.name} (${i + 1}/${charactersToGenerate.length})`);
                   // 构建完整的风格信息
@@ -990,7 +1052,8 @@ export const assistantCharacterDesignRouter = router({
                   const result = await generateCharacterImage(
                     character,
                     styleInfo,
-                    session.selectedReferences
+                    session.selectedReferences,
+                    apiKey
                   );
                   console.log(`[异步] 角色 ${character.name} 生成结果:`, result.url ? '成功' : '失败');
                   
@@ -1000,6 +1063,10 @@ export const assistantCharacterDesignRouter = router({
                       url: result.url,
                       description: result.description,
                     });
+                    publishGenerationEvent(
+                      { type: "imageStored", url: result.url, label: character.name, current: i + 1, total },
+                      eventScope
+                    );
                   } else {
                     generatedCharacters.push({
                       name: character.name,
@@ -1009,6 +1076,10 @@ export const assistantCharacterDesignRouter = router({
                   }
                 } catch (error) {
                   console.error(`[异步] 生成角色 ${character.name} 失败:`, error);
+                  publishGenerationEvent(
+                    { type: "failed", error: `${character.name}：${error instanceof Error ? error.message : "未知错误"}` },
+                    eventScope
+                  );
                   generatedCharacters.push({
                     name: character.name,
                     url: '',
@@ -1016,13 +1087,20 @@ export const assistantCharacterDesignRouter = router({
                   });
                 }
                 
-                // 更新进度
+                // 更新进度（只写进度字段，避免覆盖生成期间追加的对话消息）
                 session.generatedCharacters = [...generatedCharacters];
                 session.generationProgress = i + 1;
+                await updateAssistantSession(session.id, {
+                  generatedCharacters: session.generatedCharacters,
+                  generationProgress: session.generationProgress,
+                }).catch(error => console.error(`[异步] 保存生成进度失败:`, error));
               }
 
               // 所有角色生成完成
               session.step = "completed";
+              await updateAssistantSession(session.id, { step: session.step })
+                .catch(error => console.error(`[异步] 保存会话状态失败:`, error));
+              publishGenerationEvent({ type: "completed" }, eventScope);
               console.log(`[异步] 所有角色生成完成，共 ${generatedCharacters.length} 个`);
             })();
 
@@ -1077,6 +1155,12 @@ export const assistantCharacterDesignRouter = router({
 
       // 添加响应消息到会话
       session.messages.push(...responseMessages);
+      if (wasGenerating) {
+        // 后台生成仍在写入进度和状态，这里只追加消息
+        await updateAssistantSession(session.id, { messages: session.messages });
+      } else {
+        await saveSession(session);
+      }
 
       return {
         sessionId: session.id,
@@ -1086,18 +1170,19 @@ export const assistantCharacterDesignRouter = router({
       };
     }),
 
-  // 获取会话状态
-  getSession: publicProcedure
+  // 获取会话状态（也用于重新打开历史会话）
+  getSession: protectedProcedure
     .input(z.object({
       sessionId: z.string(),
     }))
-    .query(({ input }) => {
-      const session = getSession(input.sessionId);
+    .query(async ({ ctx, input }) => {
+      const session = await getOwnedSession(input.sessionId, ctx.user.id);
       if (!session) {
         return null;
       }
       return {
         sessionId: session.id,
+        title: getSessionTitle(session),
         step: session.step,
         messages: session.messages,
         scriptAnalysis: session.scriptAnalysis,
@@ -1106,24 +1191,59 @@ export const assistantCharacterDesignRouter = router({
       };
     }),
 
-  // 结束会话
-  endSession: publicProcedure
+  // 历史会话列表（当前用户，最近更新的在前）
+  listSessions: protectedProcedure
+    .input(z.object({
+      limit: z.number().min(1).max(100).optional(),
+    }).optional())
+    .query(async ({ ctx, input }) => {
+      const rows = await getUserAssistantSessions(ctx.user.id, input?.limit);
+      return rows.map(row => ({
+        sessionId: row.id,
+        title: row.title,
+        step: row.step as SessionStep,
+        messageCount: Array.isArray(row.messages) ? row.messages.length : 0,
+        characterCount: Array.isArray(row.generatedCharacters) ? row.generatedCharacters.length : 0,
+        createdAt: row.createdAt,
+        updatedAt: row.updatedAt,
+      }));
+    }),
+
+  // 结束会话（关闭面板时调用，会话保留在历史中以便重新打开）
+  endSession: protectedProcedure
     .input(z.object({
       sessionId: z.string(),
     }))
-    .mutation(({ input }) => {
-      sessions.delete(input.sessionId);
+    .mutation(async ({ ctx, input }) => {
+      const session = await getOwnedSession(input.sessionId, ctx.user.id);
+      if (!session) {
+        throw new Error("会话不存在");
+      }
+      return { success: true };
+    }),
+
+  // 删除历史会话
+  deleteSession: protectedProcedure
+    .input(z.object({
+      sessionId: z.string(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const session = await getOwnedSession(input.sessionId, ctx.user.id);
+      if (!session) {
+        throw new Error("会话不存在");
+      }
+      await deleteAssistantSession(input.sessionId);
       return { success: true };
     }),
 
   // 单独的图片搜索 API（可以在对话中随时调用）
-  searchImages: publicProcedure
+  searchImages: protectedProcedure
     .input(z.object({
       sessionId: z.string(),
       keywords: z.array(z.string()),
     }))
-    .mutation(async ({ input }) => {
-      const session = getSession(input.sessionId);
+    .mutation(async ({ ctx, input }) => {
+      const session = await getOwnedSession(input.sessionId, ctx.user.id);
       if (!session) {
         throw new Error("会话不存在或已过期");
       }
@@ -1135,10 +1255,11 @@ export const assistantCharacterDesignRouter = router({
         setting: "",
         suggestedStyle: "动漫风格",
       };
-      const results = await generateStyleReferenceImages(input.keywords, scriptAnalysis);
+      const results = await generateStyleReferenceImages(input.keywords, scriptAnalysis, ctx.user.apiKey ?? undefined);
       
       // 更新会话
       session.searchResults = results;
+      await saveSession(session);
 
       return {
         searchResults: results,
@@ -1146,7 +1267,7 @@ export const assistantCharacterDesignRouter = router({
     }),
 
   // 单独的角色生成 API
-  generateCharacter: publicProcedure
+  generateCharacter: protectedProcedure
     .input(z.object({
       sessionId: z.string(),
       characterInfo: z.object({
@@ -1159,8 +1280,8 @@ export const assistantCharacterDesignRouter = router({
       style: z.string(),
       referenceImages: z.array(z.string()).optional(),
     }))
-    .mutation(async ({ input }) => {
-      const session = getSession(input.sessionId);
+    .mutation(async ({ ctx, input }) => {
+      const session = await getOwnedSession(input.sessionId, ctx.user.id);
       if (!session) {
         throw new Error("会话不存在或已过期");
       }
@@ -1168,7 +1289,8 @@ export const assistantCharacterDesignRouter = router({
       const result = await generateCharacterImage(
         input.characterInfo,
         input.style,
-        input.referenceImages
+        input.referenceImages,
+        ctx.user.apiKey ?? undefined
       );
 
       return {
@@ -1179,7 +1301,7 @@ export const assistantCharacterDesignRouter = router({
     }),
 
   // 获取预设风格列表
-  getPresetStyles: publicProcedure
+  getPresetStyles: protectedProcedure
     .query(() => {
       return {
         styles: PRESET_STYLES,
@@ -1188,7 +1310,7 @@ export const assistantCharacterDesignRouter = router({
     }),
 
   // 根据风格 ID 获取风格详情
-  getStyleById: publicProcedure
+  getStyleById: protectedProcedure
     .input(z.object({
       styleId: z.string(),
     }))
@@ -1197,13 +1319,26 @@ export const assistantCharacterDesignRouter = router({
       return style || null;
     }),
 
-  // 获取生成进度（用于前端轮询）
-  getGenerationProgress: publicProcedure
+  // 订阅生成进度（SSE），事件到达后前端再调用 getGenerationProgress 获取完整状态
+  onProgress: protectedProcedure
     .input(z.object({
       sessionId: z.string(),
     }))
-    .query(({ input }) => {
-      const session = getSession(input.sessionId);
+    .subscription(async function* ({ ctx, input, signal }) {
+      const session = await getOwnedSession(input.sessionId, ctx.user.id);
+      if (!session) {
+        throw new Error("会话不存在或已过期");
+      }
+      yield* streamGenerationEvents({ userId: ctx.user.id, sessionId: input.sessionId }, signal);
+    }),
+
+  // 获取生成进度
+  getGenerationProgress: protectedProcedure
+    .input(z.object({
+      sessionId: z.string(),
+    }))
+    .query(async ({ ctx, input }) => {
+      const session = await getOwnedSession(input.sessionId, ctx.user.id);
       if (!session) {
         return null;
       }
@@ -1239,6 +1374,7 @@ export const assistantCharacterDesignRouter = router({
             timestamp: Date.now(),
           };
           session.messages.push(resultMessage);
+          await updateAssistantSession(session.id, { messages: session.messages });
         }
       }
 
@@ -2,6 +2,7 @@ import { z } from "zod";
 import { protectedProcedure, router } from "./_core/trpc";
 import { invokeGeminiLLM } from "./_core/gemini";
 import { generateImage } from "./_core/imageGeneration";
+import { publishGenerationEvent, runWithGenerationScope, streamGenerationEvents } from "./generationEvents";
 import { getDb } from "./db";
 import { scripts, designs } from "../drizzle/schema";
 import { eq } from "drizzle-orm";
@@ -178,14 +179,15 @@ async function handleCharacterDesign(
   userId: number,
   message: string,
   intent: any,
-  context: Record<string, any>
+  context: Record<string, any>,
+  apiKey?: string
 ): Promise<ChatResponse> {
   // 如果有剧本内容，直接分析
   if (context.script?.content || message.length > 100) {
     const scriptContent = context.script?.content || message;
     
     try {
-      const analysis = await analyzeScript(scriptContent);
+      const analysis = await analyzeScript(scriptContent, apiKey);
       
       return {
         type: 'action_required',
@@ -343,6 +345,8 @@ async function handleGeneralChat(
       ...history.slice(-6).map(h => ({ role: h.role as 'user' | 'assistant', content: h.content })),
       { role: 'user', content: message },
     ],
+    // 逐段推送给订阅了该会话的前端
+    onText: (delta, text) => publishGenerationEvent({ type: 'partialText', delta, text }),
   });
   
   const content = response.choices[0]?.message?.content;
@@ -542,54 +546,57 @@ export const assistantCreativeRouter = router({
       })).optional(),
       context: z.record(z.string(), z.any()).optional(),
     }))
-    .mutation(async ({ ctx, input }) => {
-      const { message, attachments, history = [], context = {} } = input;
+    .mutation(async ({ ctx, input }) =>
+      // 本次对话中发布的进度事件归属到该会话
+      runWithGenerationScope({ userId: ctx.user.id, sessionId: input.sessionId }, async () => {
+        const { message, attachments, history = [], context = {} } = input;
       
-      // 第一步：意图识别
-      const intentResult = await recognizeIntent(message, history, context);
+        // 第一步：意图识别
+        const intentResult = await recognizeIntent(message, history, context);
       
-      // 第二步：根据意图执行相应操作
-      let response: ChatResponse;
+        // 第二步：根据意图执行相应操作
+        let response: ChatResponse;
       
-      switch (intentResult.intent) {
-        case INTENT_TYPES.CHARACTER_DESIGN:
-          response = await handleCharacterDesign(ctx.user.id, message, intentResult, context);
-          break;
-        case INTENT_TYPES.SCENE_DESIGN:
-          response = await handleSceneDesign(ctx.user.id, message, intentResult, context);
-          break;
-        case INTENT_TYPES.PROP_DESIGN:
-          response = await handlePropDesign(ctx.user.id, message, intentResult, context);
-          break;
-        case INTENT_TYPES.SCRIPT_ADAPT:
-          response = await handleScriptAdapt(ctx.user.id, message, intentResult, context);
-          break;
-        case INTENT_TYPES.STORYBOARD:
-          response = await handleStoryboard(ctx.user.id, message, intentResult, context);
-          break;
-        case INTENT_TYPES.IMAGE_GENERATE:
-          response = await handleImageGenerate(ctx.user.id, message, intentResult, attachments);
-          break;
-        case INTENT_TYPES.IMAGE_ANALYZE:
-          response = await handleImageAnalyze(message, attachments);
-          break;
-        case INTENT_TYPES.CLARIFICATION:
-          response = {
-            type: 'text',
-            content: intentResult.clarification_question || '请提供更多信息，我可以更好地帮助你。',
-            suggestions: generateSuggestions(context),
-          };
-          break;
-        default:
-          response = await handleGeneralChat(message, history, context);
-      }
+        switch (intentResult.intent) {
+          case INTENT_TYPES.CHARACTER_DESIGN:
+            response = await handleCharacterDesign(ctx.user.id, message, intentResult, context, ctx.user.apiKey ?? undefined);
+            break;
+          case INTENT_TYPES.SCENE_DESIGN:
+            response = await handleSceneDesign(ctx.user.id, message, intentResult, context);
+            break;
+          case INTENT_TYPES.PROP_DESIGN:
+            response = await handlePropDesign(ctx.user.id, message, intentResult, context);
+            break;
+          case INTENT_TYPES.SCRIPT_ADAPT:
+            response = await handleScriptAdapt(ctx.user.id, message, intentResult, context);
+            break;
+          case INTENT_TYPES.STORYBOARD:
+            response = await handleStoryboard(ctx.user.id, message, intentResult, context);
+            break;
+          case INTENT_TYPES.IMAGE_GENERATE:
+            response = await handleImageGenerate(ctx.user.id, message, intentResult, attachments);
+            break;
+          case INTENT_TYPES.IMAGE_ANALYZE:
+            response = await handleImageAnalyze(message, attachments);
+            break;
+          case INTENT_TYPES.CLARIFICATION:
+            response = {
+              type: 'text',
+              content: intentResult.clarification_question || '请提供更多信息，我可以更好地帮助你。',
+              suggestions: generateSuggestions(context),
+            };
+            break;
+          default:
+            response = await handleGeneralChat(message, history, context);
+        }
       
-      return {
-        ...response,
-        intent: intentResult.intent,
-        confidence: intentResult.confidence,
-      };
-    }),
+        return {
+          ...response,
+          intent: intentResult.intent,
+          confidence: intentResult.confidence,
+        };
+      })
+    ),
 
   // 执行特定动作（用于用户点击按钮触发）
   executeAction: protectedProcedure
@@ -642,6 +649,15 @@ export const assistantCreativeRouter = router({
       }
     }),
 
+  // 订阅会话进度（SSE）：流式回复文本、图片保存等
+  onProgress: protectedProcedure
+    .input(z.object({
+      sessionId: z.string(),
+    }))
+    .subscription(async function* ({ ctx, input, signal }) {
+      yield* streamGenerationEvents({ userId: ctx.user.id, sessionId: input.sessionId }, signal);
+    }),
+
   // 获取生成进度
   getProgress: protectedProcedure
     .input(z.object({
@@ -0,0 +1,128 @@
+import crypto from "crypto";
+import { describe, expect, it, vi, beforeEach } from "vitest";
+import type { TrpcContext } from "./_core/context";
+
+const fakeDb = {
+  rows: [] as any[],
+  updates: [] as any[],
+  select: () => ({ from: () => ({ where: async () => fakeDb.rows }) }),
+  update: () => ({
+    set: (values: any) => ({
+      where: async () => {
+        fakeDb.updates.push(values);
+      },
+    }),
+  }),
+  execute: vi.fn(async () => [{}]),
+};
+
+vi.mock("./db", () => ({
+  getDb: vi.fn(async () => fakeDb),
+}));
+
+import { hashPassword, verifyPassword } from "./_core/password";
+import { createLoginLimiter } from "./_core/loginLimiter";
+import { assertProductionEnv } from "./_core/env";
+import { authRouter } from "./authRouter";
+
+const legacyHash = (password: string) => crypto.createHash("sha256").update(password).digest("hex");
+
+function createContext(ip: string): TrpcContext {
+  return {
+    user: null,
+    req: { protocol: "https", headers: {}, ip } as TrpcContext["req"],
+    res: { cookie: vi.fn(), clearCookie: vi.fn() } as unknown as TrpcContext["res"],
+  };
+}
+
+describe("password hashing", () => {
+  it("should produce salted scrypt hashes that verify", async () => {
+    const first = await hashPassword("correct horse");
+    const second = await hashPassword("correct horse");
+
+    expect(first).toMatch(/^scrypt\$/);
+    expect(first).not.toBe(second);
+    expect(await verifyPassword("correct horse", first)).toEqual({ valid: true, needsRehash: false });
+    expect((await verifyPassword("wrong", first)).valid).toBe(false);
+  });
+
+  it("should accept legacy SHA-256 hashes and flag them for rehash", async () => {
+    expect(await verifyPassword("old-pass", legacyHash("old-pass"))).toEqual({ valid: true, needsRehash: true });
+    expect(await verifyPassword("nope", legacyHash("old-pass"))).toEqual({ valid: false, needsRehash: false });
+  });
+
+  it("should reject malformed hashes", async () => {
+    expect((await verifyPassword("x", "plaintext")).valid).toBe(false);
+  });
+});
+
+describe("createLoginLimiter", () => {
+  it("should lock a key after too many failures and unlock after the lockout", () => {
+    let now = 0;
+    const limiter = createLoginLimiter({ maxAttempts: 3, windowMs: 1000, lockoutMs: 5000, now: () => now });
+
+    limiter.recordFailure("alice");
+    limiter.recordFailure("alice");
+    expect(limiter.retryAfterMs("alice")).toBe(0);
+
+    limiter.recordFailure("alice");
+    expect(limiter.retryAfterMs("alice")).toBe(5000);
+    expect(limiter.retryAfterMs("bob")).toBe(0);
+
+    now = 5000;
+    expect(limiter.retryAfterMs("alice")).toBe(0);
+  });
+
+  it("should forget failures outside the window or after reset", () => {
+    let now = 0;
+    const limiter = createLoginLimiter({ maxAttempts: 2, windowMs: 1000, lockoutMs: 5000, now: () => now });
+
+    limiter.recordFailure("alice");
+    now = 2000;
+    limiter.recordFailure("alice");
+    expect(limiter.retryAfterMs("alice")).toBe(0);
+
+    limiter.reset("alice");
+    limiter.recordFailure("alice");
+    expect(limiter.retryAfterMs("alice")).toBe(0);
+  });
+});
+
+describe("assertProductionEnv", () => {
+  it("should refuse production without configured secrets", () => {
+    expect(() => assertProductionEnv({ NODE_ENV: "production" })).toThrow(/JWT_SECRET/);
+    expect(() => assertProductionEnv({ NODE_ENV: "production", JWT_SECRET: "s3cret-value" })).toThrow(/API_KEY_MASTER_KEY/);
+    expect(() =>
+      assertProductionEnv({ NODE_ENV: "production", JWT_SECRET: "s3cret-value", API_KEY_MASTER_KEY: "m" })
+    ).not.toThrow();
+    expect(() => assertProductionEnv({ NODE_ENV: "development" })).not.toThrow();
+  });
+});
+
+describe("auth.login", () => {
+  beforeEach(() => {
+    fakeDb.rows = [];
+    fakeDb.updates = [];
+  });
+
+  it("should upgrade legacy SHA-256 passwords on successful login", async () => {
+    fakeDb.rows = [{ id: 7, username: "legacy", name: "legacy", password: legacyHash("old-pass") }];
+    const caller = authRouter.createCaller(createContext("10.0.0.1"));
+
+    const result = await caller.login({ username: "legacy", password: "old-pass" });
+
+    expect(result.success).toBe(true);
+    expect(fakeDb.updates).toHaveLength(1);
+    expect(fakeDb.updates[0].password).toMatch(/^scrypt\$/);
+  });
+
+  it("should lock the account after repeated failures", async () => {
+    fakeDb.rows = [{ id: 8, username: "target", name: "target", password: await hashPassword("right-pass") }];
+    const caller = authRouter.createCaller(createContext("10.0.0.2"));
+
+    for (let i = 0; i < 5; i++) {
+      await expect(caller.login({ username: "target", password: "wrong" })).rejects.toThrow("用户名或密码错误");
+    }
+    await expect(caller.login({ username: "target", password: "right-pass" })).rejects.toThrow("登录失败次数过多");
+  });
+});
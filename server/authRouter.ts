@@ -1,31 +1,30 @@
 import { z } from "zod";
-import { publicProcedure, router } from "./_core/trpc";
-import { getDb } from "./db";
+import { protectedProcedure, publicProcedure, router } from "./_core/trpc";
+import { getDb, updateUserApiKey } from "./db";
 import { users } from "../drizzle/schema";
 import { eq, sql } from "drizzle-orm";
 import { nanoid } from "nanoid";
-import { COOKIE_NAME } from "@shared/const";
+import { COOKIE_NAME, PASSWORD_MIN_LENGTH } from "@shared/const";
 import { getSessionCookieOptions } from "./_core/cookies";
+import { ENV } from "./_core/env";
+import { hashPassword, verifyPassword } from "./_core/password";
+import { accountLoginLimiter, ipLoginLimiter } from "./_core/loginLimiter";
+import { encryptApiKey, maskApiKey } from "./_core/apiKeyCrypto";
+import { validateGeminiApiKey } from "./_core/gemini";
+import { listImageProviders } from "./_core/imageProviders";
+import { listLLMBackends } from "./_core/llmBackends";
 import jwt from "jsonwebtoken";
-import crypto from "crypto";
 
-// 简单的密码加密
-function hashPassword(password: string): string {
-  return crypto.createHash("sha256").update(password).digest("hex");
+function formatRetryAfter(ms: number): string {
+  return `${Math.ceil(ms / 60000)} 分钟`;
 }
 
-function verifyPassword(password: string, hash: string): boolean {
-  return hashPassword(password) === hash;
-}
-
-const JWT_SECRET = process.env.JWT_SECRET || "fanshai-jwt-secret-2025";
-
 export const authRouter = router({
   // 注册：用户名 + 密码 + API Key
   register: publicProcedure
     .input(z.object({
       username: z.string().min(2).max(20),
-      password: z.string().min(4).max(50),
+      password: z.string().min(PASSWORD_MIN_LENGTH).max(128),
       apiKey: z.string().min(10),  // Gemini API Key 必填
     }))
     .mutation(async ({ ctx, input }) => {
@@ -38,19 +37,24 @@ export const authRouter = router({
         throw new Error("用户名已存在");
       }
 
+      const validation = await validateGeminiApiKey(input.apiKey);
+      if (!validation.valid) {
+        throw new Error(validation.error);
+      }
+
       // 创建用户
-      const hashedPassword = hashPassword(input.password);
+      const hashedPassword = await hashPassword(input.password);
       const openId = `local_${nanoid(16)}`;
       
       const result = await db.execute(
         sql`INSERT INTO users (openId, username, password, apiKey, name, loginMethod)
-          VALUES (${openId}, ${input.username}, ${hashedPassword}, ${input.apiKey}, ${input.username}, 'password')`
+          VALUES (${openId}, ${input.username}, ${hashedPassword}, ${encryptApiKey(input.apiKey)}, ${input.username}, 'password')`
       );
 
       const userId = (result[0] as any).insertId;
 
       // 生成 JWT token
-      const token = jwt.sign({ userId, username: input.username }, JWT_SECRET, { expiresIn: "30d" });
+      const token = jwt.sign({ userId, username: input.username }, ENV.jwtSecret, { expiresIn: "30d" });
       
       // 设置 cookie
       const cookieOptions = getSessionCookieOptions(ctx.req);
@@ -69,19 +73,42 @@ export const authRouter = router({
       const db = await getDb();
       if (!db) throw new Error("数据库不可用");
 
+      const accountKey = input.username.toLowerCase();
+      const ipKey = ctx.req.ip ?? "unknown";
+      const retryAfter = Math.max(
+        accountLoginLimiter.retryAfterMs(accountKey),
+        ipLoginLimiter.retryAfterMs(ipKey)
+      );
+      if (retryAfter > 0) {
+        throw new Error(`登录失败次数过多，请 ${formatRetryAfter(retryAfter)}后再试`);
+      }
+
       // 查找用户
       const [user] = await db.select().from(users).where(eq(users.username, input.username));
-      if (!user || !user.password || !verifyPassword(input.password, user.password)) {
+      const result = user?.password
+        ? await verifyPassword(input.password, user.password)
+        : { valid: false, needsRehash: false };
+      if (!user || !result.valid) {
+        accountLoginLimiter.recordFailure(accountKey);
+        ipLoginLimiter.recordFailure(ipKey);
         throw new Error("用户名或密码错误");
       }
 
+      accountLoginLimiter.reset(accountKey);
+
+      // 旧版 SHA-256 哈希登录成功后升级为 scrypt
+      if (result.needsRehash) {
+        const rehashed = await hashPassword(input.password);
+        await db.update(users).set({ password: rehashed }).where(eq(users.id, user.id));
+      }
+
       // 更新最后登录时间
       await db.execute(
         sql`UPDATE users SET lastSignedIn = NOW() WHERE id = ${user.id}`
       );
 
       // 生成 JWT token
-      const token = jwt.sign({ userId: user.id, username: user.username }, JWT_SECRET, { expiresIn: "30d" });
+      const token = jwt.sign({ userId: user.id, username: user.username }, ENV.jwtSecret, { expiresIn: "30d" });
       
       // 设置 cookie
       const cookieOptions = getSessionCookieOptions(ctx.req);
@@ -90,29 +117,98 @@ export const authRouter = router({
       return { success: true, user: { id: user.id, username: user.username, name: user.name } };
     }),
 
-  // 获取当前用户（包含 API Key）
+  // 获取当前用户（API Key 只返回末 4 位）
   me: publicProcedure.query(async ({ ctx }) => {
     if (!ctx.user) return null;
     return {
       id: ctx.user.id,
       username: ctx.user.username,
       name: ctx.user.name,
-      apiKey: ctx.user.apiKey,  // 返回用户的 API Key
+      apiKey: maskApiKey(ctx.user.apiKey),
+      hasApiKey: !!ctx.user.apiKey,
+      imageProvider: ctx.user.imageProvider ?? null,
+      llmBackend: ctx.user.llmBackend ?? null,
     };
   }),
 
-  // 更新 API Key
-  updateApiKey: publicProcedure
+  // 更新个人偏好（默认图片生成服务、文本模型后端；null 表示跟随系统设置，未传的字段不变）
+  updatePreferences: protectedProcedure
+    .input(z.object({
+      imageProvider: z.string().nullable().optional(),
+      llmBackend: z.string().nullable().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      if (input.imageProvider && !listImageProviders().some(p => p.id === input.imageProvider)) {
+        throw new Error("不支持的图片生成服务");
+      }
+      if (input.llmBackend && !listLLMBackends().some(b => b.id === input.llmBackend)) {
+        throw new Error("不支持的文本模型后端");
+      }
+
+      const updates: Partial<Pick<typeof users.$inferInsert, "imageProvider" | "llmBackend">> = {};
+      if (input.imageProvider !== undefined) updates.imageProvider = input.imageProvider;
+      if (input.llmBackend !== undefined) updates.llmBackend = input.llmBackend;
+      if (Object.keys(updates).length === 0) return { success: true };
+
+      const db = await getDb();
+      if (!db) throw new Error("数据库不可用");
+
+      await db.update(users).set(updates).where(eq(users.id, ctx.user.id));
+
+      return { success: true };
+    }),
+
+  // 校验 API Key 是否可用（不保存）
+  validateApiKey: protectedProcedure
+    .input(z.object({ apiKey: z.string().min(10) }))
+    .mutation(async ({ input }) => {
+      return await validateGeminiApiKey(input.apiKey);
+    }),
+
+  // 更新 API Key（校验通过后加密保存）
+  updateApiKey: protectedProcedure
     .input(z.object({ apiKey: z.string().min(10) }))
     .mutation(async ({ ctx, input }) => {
-      if (!ctx.user) throw new Error("请先登录");
-      
+      const validation = await validateGeminiApiKey(input.apiKey);
+      if (!validation.valid) {
+        throw new Error(validation.error);
+      }
+
+      await updateUserApiKey(ctx.user.id, input.apiKey);
+
+      return { success: true, apiKey: maskApiKey(input.apiKey) };
+    }),
+
+  // 修改密码
+  changePassword: protectedProcedure
+    .input(z.object({
+      currentPassword: z.string(),
+      newPassword: z.string().min(PASSWORD_MIN_LENGTH).max(128),
+    }))
+    .mutation(async ({ ctx, input }) => {
       const db = await getDb();
       if (!db) throw new Error("数据库不可用");
 
-      await db.execute(
-        sql`UPDATE users SET apiKey = ${input.apiKey} WHERE id = ${ctx.user.id}`
-      );
+      const [user] = await db.select().from(users).where(eq(users.id, ctx.user.id));
+      if (!user?.password) {
+        throw new Error("当前账号未设置密码");
+      }
+
+      const accountKey = (user.username ?? String(user.id)).toLowerCase();
+      const retryAfter = accountLoginLimiter.retryAfterMs(accountKey);
+      if (retryAfter > 0) {
+        throw new Error(`密码错误次数过多，请 ${formatRetryAfter(retryAfter)}后再试`);
+      }
+
+      const { valid } = await verifyPassword(input.currentPassword, user.password);
+      if (!valid) {
+        accountLoginLimiter.recordFailure(accountKey);
+        throw new Error("当前密码错误");
+      }
+      accountLoginLimiter.reset(accountKey);
+
+      const hashedPassword = await hashPassword(input.newPassword);
+      await db.update(users).set({ password: hashedPassword }).where(eq(users.id, user.id));
 
       return { success: true };
     }),
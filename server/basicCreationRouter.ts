@@ -8,6 +8,7 @@ import { z } from "zod";
 import { router, protectedProcedure } from "./_core/trpc";
 import { invokeLLM } from "./_core/llm";
 import { getDb } from "./db";
+import { requireDesignAccess, requireProjectAccess, requireScriptAccess } from "./projectAccess";
 import { scripts, designs } from "../drizzle/schema";
 import { eq, and, desc, sql } from "drizzle-orm";
 import type {
@@ -2071,6 +2072,7 @@ export const basicCreationRouter = router({
       storyType: z.string().default("都市情感"),
     }))
     .mutation(async ({ ctx, input }) => {
+      await requireProjectAccess(input.canvasId, ctx.user.id, "editor");
       const result = await generateScript({
         originalContent: input.originalContent,
         episodeCount: input.episodeCount,
@@ -2271,17 +2273,7 @@ ${sceneDescriptions}
     }))
     .mutation(async ({ ctx, input }) => {
       // 获取当前剧本
-      const [currentScript] = await (await getDb())!.select()
-        .from(scripts)
-        .where(and(
-          eq(scripts.id, input.scriptId),
-          eq(scripts.userId, ctx.user.id)
-        ))
-        .limit(1);
-      
-      if (!currentScript) {
-        throw new Error('剧本不存在');
-      }
+      const currentScript = await requireScriptAccess(input.scriptId, ctx.user.id, "editor");
 
       // 构建GeneratedScript对象
       const scriptData: GeneratedScript = {
@@ -2342,17 +2334,7 @@ ${sceneDescriptions}
       format: z.enum(['markdown', 'json', 'txt']).default('markdown'),
     }))
     .query(async ({ ctx, input }) => {
-      const [script] = await (await getDb())!.select()
-        .from(scripts)
-        .where(and(
-          eq(scripts.id, input.scriptId),
-          eq(scripts.userId, ctx.user.id)
-        ))
-        .limit(1);
-      
-      if (!script) {
-        throw new Error('剧本不存在');
-      }
+      const script = await requireScriptAccess(input.scriptId, ctx.user.id, "viewer");
 
       const scriptData: GeneratedScript = {
         metadata: {
@@ -2389,12 +2371,11 @@ ${sceneDescriptions}
   getScriptsByCanvas: protectedProcedure
     .input(z.object({ canvasId: z.number() }))
     .query(async ({ ctx, input }) => {
+      // 画布上所有成员创建的剧本
+      await requireProjectAccess(input.canvasId, ctx.user.id);
       const result = await (await getDb())!.select()
         .from(scripts)
-        .where(and(
-          eq(scripts.userId, ctx.user.id),
-          eq(scripts.canvasId, input.canvasId)
-        ))
+        .where(eq(scripts.canvasId, input.canvasId))
         .orderBy(desc(scripts.updatedAt));
       
       return result;
@@ -2404,15 +2385,7 @@ ${sceneDescriptions}
   getScript: protectedProcedure
     .input(z.object({ id: z.number() }))
     .query(async ({ ctx, input }) => {
-      const [result] = await (await getDb())!.select()
-        .from(scripts)
-        .where(and(
-          eq(scripts.id, input.id),
-          eq(scripts.userId, ctx.user.id)
-        ))
-        .limit(1);
-      
-      return result || null;
+      return requireScriptAccess(input.id, ctx.user.id).catch(() => null);
     }),
 
   // 更新剧本
@@ -2426,12 +2399,10 @@ ${sceneDescriptions}
     }))
     .mutation(async ({ ctx, input }) => {
       const { id, ...updates } = input;
+      await requireScriptAccess(id, ctx.user.id, "editor");
       await (await getDb())!.update(scripts)
         .set(updates)
-        .where(and(
-          eq(scripts.id, id),
-          eq(scripts.userId, ctx.user.id)
-        ));
+        .where(eq(scripts.id, id));
       return { success: true };
     }),
 
@@ -2439,11 +2410,9 @@ ${sceneDescriptions}
   deleteScript: protectedProcedure
     .input(z.object({ id: z.number() }))
     .mutation(async ({ ctx, input }) => {
+      await requireScriptAccess(input.id, ctx.user.id, "editor");
       await (await getDb())!.delete(scripts)
-        .where(and(
-          eq(scripts.id, input.id),
-          eq(scripts.userId, ctx.user.id)
-        ));
+        .where(eq(scripts.id, input.id));
       return { success: true };
     }),
 
@@ -2458,6 +2427,7 @@ ${sceneDescriptions}
       visualStyle: z.string().optional(),
     }))
     .mutation(async ({ ctx, input }) => {
+      await requireProjectAccess(input.canvasId, ctx.user.id, "editor");
       const result = await generateDesign({
         adaptedStory: input.adaptedStory,
         storyType: input.storyType,
@@ -2487,12 +2457,10 @@ ${sceneDescriptions}
   getDesignsByCanvas: protectedProcedure
     .input(z.object({ canvasId: z.number() }))
     .query(async ({ ctx, input }) => {
+      await requireProjectAccess(input.canvasId, ctx.user.id);
       const result = await (await getDb())!.select()
         .from(designs)
-        .where(and(
-          eq(designs.userId, ctx.user.id),
-          eq(designs.canvasId, input.canvasId)
-        ))
+        .where(eq(designs.canvasId, input.canvasId))
         .orderBy(desc(designs.updatedAt));
       
       return result;
@@ -2501,15 +2469,7 @@ ${sceneDescriptions}
   getDesign: protectedProcedure
     .input(z.object({ id: z.number() }))
     .query(async ({ ctx, input }) => {
-      const [result] = await (await getDb())!.select()
-        .from(designs)
-        .where(and(
-          eq(designs.id, input.id),
-          eq(designs.userId, ctx.user.id)
-        ))
-        .limit(1);
-      
-      return result || null;
+      return requireDesignAccess(input.id, ctx.user.id).catch(() => null);
     }),
 
   updateDesign: protectedProcedure
@@ -2537,23 +2497,19 @@ ${sceneDescriptions}
     }))
     .mutation(async ({ ctx, input }) => {
       const { id, ...updates } = input;
+      await requireDesignAccess(id, ctx.user.id, "editor");
       await (await getDb())!.update(designs)
         .set(updates)
-        .where(and(
-          eq(designs.id, id),
-          eq(designs.userId, ctx.user.id)
-        ));
+        .where(eq(designs.id, id));
       return { success: true };
     }),
 
   deleteDesign: protectedProcedure
     .input(z.object({ id: z.number() }))
     .mutation(async ({ ctx, input }) => {
+      await requireDesignAccess(input.id, ctx.user.id, "editor");
       await (await getDb())!.delete(designs)
-        .where(and(
-          eq(designs.id, input.id),
-          eq(designs.userId, ctx.user.id)
-        ));
+        .where(eq(designs.id, input.id));
       return { success: true };
     }),
 
@@ -2575,17 +2531,7 @@ ${sceneDescriptions}
     }))
     .mutation(async ({ ctx, input }) => {
       // 获取设计数据
-      const [design] = await (await getDb())!.select()
-        .from(designs)
-        .where(and(
-          eq(designs.id, input.designId),
-          eq(designs.userId, ctx.user.id)
-        ))
-        .limit(1);
-      
-      if (!design) {
-        throw new Error('设计数据不存在');
-      }
+      const design = await requireDesignAccess(input.designId, ctx.user.id, "editor");
 
       const characters = design.characters as any[] || [];
       const character = characters.find((c: any) => c.id === input.characterId);
@@ -2671,17 +2617,7 @@ ${sceneDescriptions}
       colorMood: z.string().optional(),
     }))
     .mutation(async ({ ctx, input }) => {
-      const [design] = await (await getDb())!.select()
-        .from(designs)
-        .where(and(
-          eq(designs.id, input.designId),
-          eq(designs.userId, ctx.user.id)
-        ))
-        .limit(1);
-      
-      if (!design) {
-        throw new Error('设计数据不存在');
-      }
+      const design = await requireDesignAccess(input.designId, ctx.user.id, "editor");
 
       const scenes = design.scenes as any[] || [];
       const scene = scenes.find((s: any) => s.id === input.sceneId);
@@ -2766,17 +2702,7 @@ ${sceneDescriptions}
       colorMood: z.string().optional(),
     }))
     .mutation(async ({ ctx, input }) => {
-      const [design] = await (await getDb())!.select()
-        .from(designs)
-        .where(and(
-          eq(designs.id, input.designId),
-          eq(designs.userId, ctx.user.id)
-        ))
-        .limit(1);
-      
-      if (!design) {
-        throw new Error('设计数据不存在');
-      }
+      const design = await requireDesignAccess(input.designId, ctx.user.id, "editor");
 
       const props = design.props as any[] || [];
       const prop = props.find((p: any) => p.id === input.propId);
@@ -2854,17 +2780,7 @@ ${sceneDescriptions}
       styleDescription: z.string().optional(),
     }))
     .mutation(async ({ ctx, input }) => {
-      const [design] = await (await getDb())!.select()
-        .from(designs)
-        .where(and(
-          eq(designs.id, input.designId),
-          eq(designs.userId, ctx.user.id)
-        ))
-        .limit(1);
-      
-      if (!design) {
-        throw new Error('设计数据不存在');
-      }
+      const design = await requireDesignAccess(input.designId, ctx.user.id, "editor");
 
       const { generateImagePro } = await import('./_core/imageGeneration');
       const results: { type: string; id: string; success: boolean; imageUrl?: string; error?: string }[] = [];
@@ -2957,15 +2873,10 @@ ${sceneDescriptions}
     }))
     .mutation(async ({ ctx, input }) => {
       // 获取剧本数据
-      const [script] = await (await getDb())!.select()
-        .from(scripts)
-        .where(and(
-          eq(scripts.id, input.scriptId),
-          eq(scripts.userId, ctx.user.id)
-        ))
-        .limit(1);
+      await requireProjectAccess(input.canvasId, ctx.user.id, "editor");
+      const script = await requireScriptAccess(input.scriptId, ctx.user.id, "editor");
       
-      if (!script || !script.adaptedStory) {
+      if (!script.adaptedStory) {
         throw new Error('剧本数据不存在或未生成改编故事');
       }
 
@@ -2981,8 +2892,7 @@ ${sceneDescriptions}
         .from(designs)
         .where(and(
           eq(designs.canvasId, input.canvasId),
-          eq(designs.scriptId, input.scriptId),
-          eq(designs.userId, ctx.user.id)
+          eq(designs.scriptId, input.scriptId)
         ))
         .limit(1);
 
@@ -3041,6 +2951,9 @@ ${sceneDescriptions}
   getDesignByScript: protectedProcedure
     .input(z.object({ scriptId: z.number() }))
     .query(async ({ ctx, input }) => {
+      const script = await requireScriptAccess(input.scriptId, ctx.user.id).catch(() => null);
+      if (!script) return null;
+
       // 先只查询 id，避免大数据排序导致内存溢出
       const db = await getDb();
       if (!db) return null;
@@ -3049,7 +2962,7 @@ ${sceneDescriptions}
         .from(designs)
         .where(and(
           eq(designs.scriptId, input.scriptId),
-          eq(designs.userId, ctx.user.id)
+          eq(designs.canvasId, script.canvasId)
         ))
         .orderBy(desc(designs.updatedAt))
         .limit(1);
@@ -3069,17 +2982,7 @@ ${sceneDescriptions}
   evaluateDesignQuality: protectedProcedure
     .input(z.object({ designId: z.number() }))
     .query(async ({ ctx, input }) => {
-      const [design] = await (await getDb())!.select()
-        .from(designs)
-        .where(and(
-          eq(designs.id, input.designId),
-          eq(designs.userId, ctx.user.id)
-        ))
-        .limit(1);
-      
-      if (!design) {
-        throw new Error('设计数据不存在');
-      }
+      const design = await requireDesignAccess(input.designId, ctx.user.id, "viewer");
 
       const characters = design.characters as any[] || [];
       const scenes = design.scenes as any[] || [];
@@ -3138,17 +3041,7 @@ ${sceneDescriptions}
       const { storagePut } = await import('./storage');
       
       // 获取设计数据
-      const [design] = await (await getDb())!.select()
-        .from(designs)
-        .where(and(
-          eq(designs.id, input.designId),
-          eq(designs.userId, ctx.user.id)
-        ))
-        .limit(1);
-      
-      if (!design) {
-        throw new Error('设计数据不存在');
-      }
+      const design = await requireDesignAccess(input.designId, ctx.user.id, "editor");
 
       // 解析 base64 数据
       const base64Match = input.imageData.match(/^data:image\/\w+;base64,(.+)$/);
@@ -3211,17 +3104,7 @@ ${sceneDescriptions}
     }))
     .mutation(async ({ ctx, input }) => {
       // 获取设计数据
-      const [design] = await (await getDb())!.select()
-        .from(designs)
-        .where(and(
-          eq(designs.id, input.designId),
-          eq(designs.userId, ctx.user.id)
-        ))
-        .limit(1);
-      
-      if (!design) {
-        throw new Error('设计数据不存在');
-      }
+      const design = await requireDesignAccess(input.designId, ctx.user.id, "editor");
 
       // 根据类型更新对应的数组
       if (input.itemType === 'character') {
@@ -3269,17 +3152,7 @@ ${sceneDescriptions}
     }))
     .mutation(async ({ ctx, input }) => {
       // 获取剧本数据
-      const [script] = await (await getDb())!.select()
-        .from(scripts)
-        .where(and(
-          eq(scripts.id, input.scriptId),
-          eq(scripts.userId, ctx.user.id)
-        ))
-        .limit(1);
-      
-      if (!script) {
-        throw new Error('剧本不存在');
-      }
+      const script = await requireScriptAccess(input.scriptId, ctx.user.id, "editor");
 
       const episodes = (script.episodes as Episode[]) || [];
       if (episodes.length === 0) {
@@ -0,0 +1,279 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("./db", () => ({
+  getProjectById: vi.fn(),
+  updateProject: vi.fn(),
+}));
+vi.mock("./projectRevisions", () => ({
+  recordProjectRevision: vi.fn(),
+}));
+
+import {
+  applyCollabOps,
+  collabDocFromGraph,
+  createCollabClock,
+  diffCollabGraph,
+  invertCollabChanges,
+  isSafeCollabKey,
+  materializeCollabDoc,
+  mergeCollabSteps,
+  stampChanges,
+  type CollabDoc,
+  type CollabGraph,
+  type CollabOp,
+} from "../shared/collab";
+import { getProjectById } from "./db";
+import { publishGenerationEvent } from "./generationEvents";
+import { joinCollabRoom, pushCollabOps, updateCollabPresence, type CollabEvent } from "./collaboration";
+
+const graph = (): CollabGraph => ({
+  nodes: [
+    { id: "p", type: "prompt", position: { x: 0, y: 0 }, data: { prompt: "城市夜景" } },
+    { id: "t", type: "textToImage", position: { x: 300, y: 0 }, data: { model: "a" } },
+  ],
+  edges: [{ id: "e", source: "p", target: "t" }],
+});
+
+function replica(clientId: string, base: CollabDoc) {
+  const doc: CollabDoc = JSON.parse(JSON.stringify(base));
+  const clock = createCollabClock(clientId, 1000);
+  return {
+    doc,
+    edit(update: (graph: CollabGraph) => void): CollabOp[] {
+      const before = materializeCollabDoc(doc);
+      const after: CollabGraph = JSON.parse(JSON.stringify(before));
+      update(after);
+      return applyCollabOps(doc, stampChanges(diffCollabGraph(before, after), clock));
+    },
+  };
+}
+
+describe("collab", () => {
+  let base: CollabDoc;
+
+  beforeEach(() => {
+    base = collabDocFromGraph(graph(), createCollabClock("server"));
+  });
+
+  describe("merge", () => {
+    it("should keep concurrent edits of different fields", () => {
+      const a = replica("a", base);
+      const b = replica("b", base);
+      const opsA = a.edit(g => { g.nodes[0].data!.prompt = "雨夜"; });
+      const opsB = b.edit(g => { g.nodes[0].position = { x: 40, y: 80 }; });
+
+      applyCollabOps(a.doc, opsB);
+      applyCollabOps(b.doc, opsA);
+
+      const merged = materializeCollabDoc(a.doc);
+      expect(merged).toEqual(materializeCollabDoc(b.doc));
+      expect(merged.nodes[0]).toMatchObject({ position: { x: 40, y: 80 }, data: { prompt: "雨夜" } });
+    });
+
+    it("should resolve the same field identically regardless of arrival order", () => {
+      const a = replica("a", base);
+      const b = replica("b", base);
+      const opsA = a.edit(g => { g.nodes[1].data!.model = "from-a"; });
+      const opsB = b.edit(g => { g.nodes[1].data!.model = "from-b"; });
+
+      applyCollabOps(a.doc, opsB);
+      applyCollabOps(b.doc, opsA);
+
+      expect(materializeCollabDoc(a.doc)).toEqual(materializeCollabDoc(b.doc));
+      // 计数相同时按客户端 id 决胜
+      expect(materializeCollabDoc(a.doc).nodes[1].data).toEqual({ model: "from-b" });
+    });
+
+    it("should not lose edits made to a node another replica deleted", () => {
+      const a = replica("a", base);
+      const b = replica("b", base);
+      const opsA = a.edit(g => {
+        g.nodes = g.nodes.filter(n => n.id !== "t");
+        g.edges = [];
+      });
+      const opsB = b.edit(g => { g.nodes[1].data!.model = "b"; });
+
+      applyCollabOps(a.doc, opsB);
+      applyCollabOps(b.doc, opsA);
+      expect(materializeCollabDoc(a.doc).nodes.map(n => n.id)).toEqual(["p"]);
+
+      // 撤销删除后节点带着另一方的修改恢复
+      const undo = stampChanges([{ kind: "node", id: "t", field: "deleted", value: false }], createCollabClock("a", 2000));
+      applyCollabOps(a.doc, undo);
+      applyCollabOps(b.doc, undo);
+      expect(materializeCollabDoc(a.doc)).toEqual(materializeCollabDoc(b.doc));
+      expect(materializeCollabDoc(b.doc).nodes[1].data).toEqual({ model: "b" });
+    });
+
+    it("should merge timeline clips field by field", () => {
+      const clip = { id: "c1", track: "video", assetId: 3, type: "image", name: "开场", startTime: 0, duration: 5, trimStart: 0, trimEnd: 5 };
+      base = collabDocFromGraph({ ...graph(), timeline: { clips: [clip] } }, createCollabClock("server"));
+      const a = replica("a", base);
+      const b = replica("b", base);
+      const opsA = a.edit(g => { g.timeline!.clips[0].startTime = 4; });
+      const opsB = b.edit(g => {
+        g.timeline!.clips[0].trimEnd = 3;
+        g.timeline!.clips.push({ ...clip, id: "c2", assetId: 4, startTime: 5 });
+      });
+
+      applyCollabOps(a.doc, opsB);
+      applyCollabOps(b.doc, opsA);
+
+      const merged = materializeCollabDoc(a.doc);
+      expect(merged).toEqual(materializeCollabDoc(b.doc));
+      expect(merged.timeline!.clips).toEqual([
+        { ...clip, startTime: 4, trimEnd: 3 },
+        { ...clip, id: "c2", assetId: 4, startTime: 5 },
+      ]);
+    });
+
+    it("should merge timeline subtitles separately from clips", () => {
+      const subtitle = { id: "s1", startTime: 0, duration: 3, text: "你好" };
+      base = collabDocFromGraph({ ...graph(), timeline: { clips: [], subtitles: [subtitle] } }, createCollabClock("server"));
+      const a = replica("a", base);
+      const b = replica("b", base);
+      const opsA = a.edit(g => { g.timeline!.subtitles![0].text = "你好呀"; });
+      const opsB = b.edit(g => { g.timeline!.subtitles![0].startTime = 2; });
+
+      applyCollabOps(a.doc, opsB);
+      applyCollabOps(b.doc, opsA);
+
+      expect(materializeCollabDoc(a.doc)).toEqual(materializeCollabDoc(b.doc));
+      expect(materializeCollabDoc(a.doc).timeline).toEqual({ clips: [], subtitles: [{ ...subtitle, text: "你好呀", startTime: 2 }] });
+    });
+
+    it("should ignore ops whose id or field would reach Object.prototype", () => {
+      const stamp = { c: 9999, id: "a" };
+      const ops: CollabOp[] = [
+        { kind: "node", id: "__proto__", field: "polluted", value: true, stamp },
+        { kind: "node", id: "p", field: "__proto__", value: { polluted: true }, stamp },
+        { kind: "node", id: "p", field: "data.constructor", value: "x", stamp },
+        { kind: "edge", id: "prototype", field: "deleted", value: false, stamp },
+      ];
+
+      expect(applyCollabOps(base, ops)).toEqual([]);
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+      expect(materializeCollabDoc(base)).toEqual(materializeCollabDoc(collabDocFromGraph(graph(), createCollabClock("server"))));
+      expect(isSafeCollabKey("data.prompt")).toBe(true);
+      expect(isSafeCollabKey("data.__proto__")).toBe(false);
+    });
+  });
+
+  describe("undo", () => {
+    // 与 useCollaboration 相同：本地修改的字段连同修改前的值一起记录
+    function localEdit(doc: CollabDoc, clock: ReturnType<typeof createCollabClock>, update: (graph: CollabGraph) => void) {
+      const before = materializeCollabDoc(doc);
+      const after: CollabGraph = JSON.parse(JSON.stringify(before));
+      update(after);
+      const changes = diffCollabGraph(before, after);
+      return { ops: applyCollabOps(doc, stampChanges(changes, clock)), step: { changes, inverse: invertCollabChanges(before, changes) } };
+    }
+
+    it("should revert only the local edit and keep a teammate's edit made before the undo", () => {
+      const a = replica("a", base);
+      const b = replica("b", base);
+      const clockA = createCollabClock("a", 1000);
+      const local = localEdit(a.doc, clockA, g => {
+        g.nodes[0].data!.prompt = "雨夜";
+        g.nodes.push({ id: "n", type: "prompt", position: { x: 0, y: 200 }, data: {} });
+      });
+      applyCollabOps(b.doc, local.ops);
+
+      // 撤销前同事修改了同一节点的另一个字段和另一个节点
+      const remote = b.edit(g => {
+        g.nodes[0].position = { x: 40, y: 80 };
+        g.nodes[1].data!.model = "b";
+      });
+      applyCollabOps(a.doc, remote);
+      remote.forEach(op => clockA.observe(op.stamp));
+
+      const undo = applyCollabOps(a.doc, stampChanges(local.step.inverse, clockA));
+      applyCollabOps(b.doc, undo);
+
+      const merged = materializeCollabDoc(a.doc);
+      expect(merged).toEqual(materializeCollabDoc(b.doc));
+      expect(merged.nodes.map(node => node.id)).toEqual(["p", "t"]);
+      expect(merged.nodes[0]).toMatchObject({ position: { x: 40, y: 80 }, data: { prompt: "城市夜景" } });
+      expect(merged.nodes[1].data).toEqual({ model: "b" });
+    });
+
+    it("should merge consecutive steps so undo restores the values before the first one", () => {
+      const a = replica("a", base);
+      const clock = createCollabClock("a", 1000);
+      const first = localEdit(a.doc, clock, g => { g.nodes[0].position = { x: 10, y: 0 }; });
+      const second = localEdit(a.doc, clock, g => {
+        g.nodes[0].position = { x: 20, y: 0 };
+        delete g.nodes[1].data!.model;
+      });
+      const step = mergeCollabSteps(first.step, second.step);
+
+      expect(step.changes).toEqual([
+        { kind: "node", id: "p", field: "position", value: { x: 20, y: 0 } },
+        { kind: "node", id: "t", field: "data.model", removed: true },
+      ]);
+      applyCollabOps(a.doc, stampChanges(step.inverse, clock));
+      expect(materializeCollabDoc(a.doc)).toEqual(materializeCollabDoc(base));
+    });
+  });
+
+  describe("pushCollabOps", () => {
+    beforeEach(() => {
+      vi.mocked(getProjectById).mockResolvedValue({ id: 7, userId: 1, workflowData: graph() } as any);
+    });
+
+    async function join(user: { id: number; name: string }, clientId: string) {
+      const controller = new AbortController();
+      const stream = joinCollabRoom(7, { ...user, username: null } as any, clientId, controller.signal);
+      const first = await stream.next();
+      return { stream, controller, snapshot: first.value as CollabEvent };
+    }
+
+    it("should reject edits to nodes another user is generating", async () => {
+      const owner = await join({ id: 1, name: "甲" }, "c1");
+      const other = await join({ id: 2, name: "乙" }, "c2");
+      expect(owner.snapshot.type).toBe("snapshot");
+
+      publishGenerationEvent({ type: "started" } as any, { userId: 1, taskId: 9, projectId: 7, nodeId: "t" });
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      const clock = createCollabClock("c2", 50);
+      const locked = stampChanges([{ kind: "node", id: "t", field: "data.model", value: "b" }], clock);
+      const free = stampChanges([{ kind: "node", id: "p", field: "data.prompt", value: "雪景" }], clock);
+
+      await expect(pushCollabOps(7, { id: 2 }, "c2", [...locked, ...free])).resolves.toEqual({ applied: 1, rejected: 1 });
+      // 加锁的人自己可以修改（其时钟已收到服务端回发的纠正）
+      const ownerClock = createCollabClock("c1", 60);
+      await expect(pushCollabOps(7, { id: 1 }, "c1", stampChanges([{ kind: "node", id: "t", field: "data.model", value: "c" }], ownerClock)))
+        .resolves.toEqual({ applied: 1, rejected: 0 });
+
+      owner.controller.abort();
+      other.controller.abort();
+      await Promise.all([owner.stream.return(undefined), other.stream.return(undefined)]);
+    });
+
+    it("should reject stamps far ahead of the room clock or under another client's id", async () => {
+      const member = await join({ id: 2, name: "乙" }, "c2");
+      const change = { kind: "node" as const, id: "p", field: "data.prompt", value: "雪景" };
+
+      await expect(pushCollabOps(7, { id: 2 }, "c2", stampChanges([change], createCollabClock("c2", 1e9))))
+        .rejects.toThrow("修改的时间戳无效");
+      await expect(pushCollabOps(7, { id: 2 }, "c2", stampChanges([change], createCollabClock("c1", 50))))
+        .rejects.toThrow("修改的时间戳无效");
+      await expect(pushCollabOps(7, { id: 2 }, "c2", stampChanges([change], createCollabClock("c2", 50))))
+        .resolves.toEqual({ applied: 1, rejected: 0 });
+
+      member.controller.abort();
+      await member.stream.return(undefined);
+    });
+
+    it("should only let users move the cursor of their own connection", async () => {
+      const owner = await join({ id: 1, name: "甲" }, "c1");
+
+      await expect(updateCollabPresence(7, { id: 2 }, "c1", { x: 1, y: 2 })).rejects.toThrow("无权更新该连接的光标");
+      await expect(updateCollabPresence(7, { id: 1 }, "c1", { x: 1, y: 2 })).resolves.toBeUndefined();
+
+      owner.controller.abort();
+      await owner.stream.return(undefined);
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { z } from "zod";
+import { protectedProcedure, router } from "./_core/trpc";
+import { COLLAB_ENTITY_KINDS, isSafeCollabKey } from "../shared/collab";
+import { requireProjectAccess } from "./projectAccess";
+import {
+  joinCollabRoom,
+  pushCollabOps,
+  saveCollabRoom,
+  updateCollabPresence,
+} from "./collaboration";
+
+// ============================================
+// 画布实时协同（见 collaboration.ts）
+// ============================================
+
+const collabKeySchema = z.string().refine(isSafeCollabKey, "无效的键名");
+
+const collabOpSchema = z.object({
+  kind: z.enum(COLLAB_ENTITY_KINDS),
+  id: collabKeySchema,
+  field: collabKeySchema,
+  value: z.unknown().optional(),
+  removed: z.boolean().optional(),
+  stamp: z.object({ c: z.number().int().nonnegative(), id: z.string() }),
+});
+
+export const collabRouter = router({
+  // 加入协同（SSE）：快照、其他成员的修改、光标和节点锁（节点生成期间由服务端自动加锁）
+  // 查看者也可以加入以实时看到修改，提交修改需要编辑权限
+  join: protectedProcedure
+    .input(z.object({ projectId: z.number(), clientId: z.string().min(1).max(64) }))
+    .subscription(async function* ({ ctx, input, signal }) {
+      await requireProjectAccess(input.projectId, ctx.user.id);
+      yield* joinCollabRoom(input.projectId, ctx.user, input.clientId, signal);
+    }),
+
+  push: protectedProcedure
+    .input(z.object({
+      projectId: z.number(),
+      clientId: z.string().min(1).max(64),
+      ops: z.array(collabOpSchema).max(5000),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await requireProjectAccess(input.projectId, ctx.user.id, "editor");
+      return pushCollabOps(input.projectId, ctx.user, input.clientId, input.ops);
+    }),
+
+  presence: protectedProcedure
+    .input(z.object({
+      projectId: z.number(),
+      clientId: z.string().min(1).max(64),
+      cursor: z.object({ x: z.number(), y: z.number() }).nullable(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      // 只更新当前用户已加入房间的连接，加入时已校验权限
+      await updateCollabPresence(input.projectId, ctx.user, input.clientId, input.cursor);
+      return { success: true };
+    }),
+
+  // 手动保存：立即写回合并后的画布并记录版本
+  save: protectedProcedure
+    .input(z.object({ projectId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await requireProjectAccess(input.projectId, ctx.user.id, "editor");
+      return { saved: await saveCollabRoom(input.projectId, ctx.user) };
+    }),
+});
@@ -0,0 +1,298 @@
+// 画布实时协同
+// 每个正在被编辑的项目在内存中有一个房间，保存合并后的协同文档（shared/collab.ts）、
+// 在线成员的光标和节点锁。客户端通过 collab.join（SSE）接收快照和后续事件，
+// 通过 collab.push 提交变化的字段；房间定期把合并结果写回 projects.workflowData。
+// 节点开始生成时自动加锁（监听生成进度事件），其他人对该节点数据的修改会被拒绝并回发纠正。
+
+import { EventEmitter, on } from "events";
+import type { User } from "../drizzle/schema";
+import {
+  applyCollabOps,
+  collabDocFromGraph,
+  createCollabClock,
+  diffCollabGraph,
+  materializeCollabDoc,
+  readCollabField,
+  stampChanges,
+  type CollabChange,
+  type CollabClock,
+  type CollabDoc,
+  type CollabGraph,
+  type CollabOp,
+} from "../shared/collab";
+import { getProjectById, updateProject } from "./db";
+import { subscribeGenerationEvents } from "./generationEvents";
+import { recordProjectRevision } from "./projectRevisions";
+
+const SERVER_CLIENT_ID = "server";
+const PERSIST_DELAY_MS = 2000;
+// 生成任务异常中断时锁自动过期
+const LOCK_TTL_MS = 10 * 60 * 1000;
+// 提交的时间戳最多领先房间时钟的量（除本次提交的修改数外），防止一次写入就让字段永远胜出
+const MAX_STAMP_AHEAD = 1000;
+const PRESENCE_COLORS = ["#f472b6", "#22d3ee", "#a3e635", "#fbbf24", "#a78bfa", "#fb7185", "#34d399", "#60a5fa"];
+
+export interface CollabPresence {
+  clientId: string;
+  userId: number;
+  name: string;
+  color: string;
+  cursor: { x: number; y: number } | null;
+}
+
+export interface CollabNodeLock {
+  nodeId: string;
+  userId: number;
+  name: string;
+  expiresAt: number;
+}
+
+export type CollabEvent =
+  | { type: "snapshot"; doc: CollabDoc; presence: CollabPresence[]; locks: CollabNodeLock[] }
+  | { type: "ops"; ops: CollabOp[]; clientId: string }
+  | { type: "presence"; presence: CollabPresence }
+  | { type: "leave"; clientId: string }
+  | { type: "locks"; locks: CollabNodeLock[] };
+
+interface CollabRoom {
+  projectId: number;
+  doc: CollabDoc;
+  clock: CollabClock;
+  presence: Map<string, CollabPresence>;
+  locks: Map<string, CollabNodeLock>;
+  emitter: EventEmitter;
+  subscribers: number;
+  lastEditorId: number;
+  persistTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const rooms = new Map<number, Promise<CollabRoom>>();
+
+function displayName(user: Pick<User, "id" | "name" | "username">): string {
+  return user.name || user.username || `用户${user.id}`;
+}
+
+function colorFor(clientId: string): string {
+  let hash = 0;
+  for (let i = 0; i < clientId.length; i++) hash = (hash * 31 + clientId.charCodeAt(i)) >>> 0;
+  return PRESENCE_COLORS[hash % PRESENCE_COLORS.length];
+}
+
+function broadcast(room: CollabRoom, event: CollabEvent) {
+  room.emitter.emit("event", event);
+}
+
+function activeLocks(room: CollabRoom): CollabNodeLock[] {
+  const now = Date.now();
+  for (const [nodeId, lock] of Array.from(room.locks)) {
+    if (lock.expiresAt <= now) room.locks.delete(nodeId);
+  }
+  return Array.from(room.locks.values());
+}
+
+async function loadRoom(projectId: number): Promise<CollabRoom> {
+  const project = await getProjectById(projectId);
+  if (!project) throw new Error("Project not found");
+
+  const clock = createCollabClock(SERVER_CLIENT_ID);
+  const room: CollabRoom = {
+    projectId,
+    doc: collabDocFromGraph(project.workflowData as Partial<CollabGraph> | null, clock),
+    clock,
+    presence: new Map(),
+    locks: new Map(),
+    emitter: new EventEmitter(),
+    subscribers: 0,
+    lastEditorId: project.userId,
+    persistTimer: null,
+  };
+  room.emitter.setMaxListeners(0);
+  return room;
+}
+
+function getRoom(projectId: number): Promise<CollabRoom> {
+  let room = rooms.get(projectId);
+  if (!room) {
+    room = loadRoom(projectId);
+    rooms.set(projectId, room);
+    room.catch(() => rooms.delete(projectId));
+  }
+  return room;
+}
+
+// 提交修改、加锁都需要先通过 join 建立房间
+async function joinedRoom(projectId: number): Promise<CollabRoom> {
+  const room = rooms.get(projectId);
+  if (!room) throw new Error("协同连接已断开，请刷新页面");
+  return room;
+}
+
+async function persistRoom(room: CollabRoom, source: "auto" | "manual" = "auto") {
+  if (room.persistTimer) {
+    clearTimeout(room.persistTimer);
+    room.persistTimer = null;
+  }
+  const project = await updateProject(room.projectId, { workflowData: materializeCollabDoc(room.doc) });
+  await recordProjectRevision(project, room.lastEditorId, source);
+}
+
+function schedulePersist(room: CollabRoom) {
+  if (room.persistTimer) return;
+  room.persistTimer = setTimeout(() => {
+    room.persistTimer = null;
+    persistRoom(room).catch(error => console.error(`[Collab] Failed to persist project ${room.projectId}:`, error));
+  }, PERSIST_DELAY_MS);
+}
+
+/**
+ * 加入房间：先推送当前快照，之后推送其他成员的修改、光标和锁变化，连接关闭时离开
+ */
+export async function* joinCollabRoom(
+  projectId: number,
+  user: Pick<User, "id" | "name" | "username">,
+  clientId: string,
+  signal?: AbortSignal
+): AsyncGenerator<CollabEvent> {
+  const roomPromise = getRoom(projectId);
+  const room = await roomPromise;
+  room.subscribers += 1;
+  const presence: CollabPresence = { clientId, userId: user.id, name: displayName(user), color: colorFor(clientId), cursor: null };
+  room.presence.set(clientId, presence);
+  broadcast(room, { type: "presence", presence });
+
+  // 先开始监听再发送快照，避免漏掉快照发出期间的修改
+  const events = on(room.emitter, "event", { signal });
+  try {
+    yield { type: "snapshot", doc: room.doc, presence: Array.from(room.presence.values()), locks: activeLocks(room) };
+    for await (const [event] of events) {
+      yield event as CollabEvent;
+    }
+  } catch (error) {
+    if (!signal?.aborted) throw error;
+  } finally {
+    room.presence.delete(clientId);
+    room.subscribers -= 1;
+    broadcast(room, { type: "leave", clientId });
+    if (room.subscribers === 0) {
+      // 最后一个人离开：写回后释放房间（写回期间有人重新加入则继续使用）
+      await persistRoom(room).catch(error => console.error(`[Collab] Failed to persist project ${projectId}:`, error));
+      if (room.subscribers === 0 && rooms.get(projectId) === roomPromise) {
+        rooms.delete(projectId);
+      }
+    }
+  }
+}
+
+function touchesLockedNode(room: CollabRoom, op: CollabOp, userId: number): boolean {
+  if (op.kind !== "node" || !(op.field === "deleted" || op.field.startsWith("data."))) return false;
+  const lock = room.locks.get(op.id);
+  return !!lock && lock.expiresAt > Date.now() && lock.userId !== userId;
+}
+
+/**
+ * 提交本地修改的字段。被他人锁定节点上的修改不生效，并回发当前值纠正提交者
+ */
+export async function pushCollabOps(
+  projectId: number,
+  user: Pick<User, "id">,
+  clientId: string,
+  ops: CollabOp[]
+): Promise<{ applied: number; rejected: number }> {
+  const room = await joinedRoom(projectId);
+  const maxCounter = room.clock.counter + ops.length + MAX_STAMP_AHEAD;
+  if (ops.some(op => op.stamp.id !== clientId || op.stamp.c > maxCounter)) {
+    throw new Error("修改的时间戳无效");
+  }
+  const accepted: CollabOp[] = [];
+  const corrections: CollabChange[] = [];
+
+  for (const op of ops) {
+    room.clock.observe(op.stamp);
+    if (touchesLockedNode(room, op, user.id)) {
+      corrections.push(readCollabField(room.doc, op.kind, op.id, op.field));
+    } else {
+      accepted.push(op);
+    }
+  }
+
+  const applied = applyCollabOps(room.doc, accepted);
+  if (applied.length > 0) {
+    room.lastEditorId = user.id;
+    broadcast(room, { type: "ops", ops: applied, clientId });
+    schedulePersist(room);
+  }
+  if (corrections.length > 0) {
+    const ops = applyCollabOps(room.doc, stampChanges(corrections, room.clock));
+    broadcast(room, { type: "ops", ops, clientId: SERVER_CLIENT_ID });
+  }
+  return { applied: applied.length, rejected: corrections.length };
+}
+
+/**
+ * 更新光标位置，只能更新自己加入房间的连接
+ */
+export async function updateCollabPresence(
+  projectId: number,
+  user: Pick<User, "id">,
+  clientId: string,
+  cursor: { x: number; y: number } | null
+): Promise<void> {
+  const room = await rooms.get(projectId);
+  const presence = room?.presence.get(clientId);
+  if (!room || !presence) return;
+  if (presence.userId !== user.id) {
+    throw new Error("无权更新该连接的光标");
+  }
+  presence.cursor = cursor;
+  broadcast(room, { type: "presence", presence });
+}
+
+/**
+ * 立即写回合并后的画布并记录一个手动保存版本
+ */
+export async function saveCollabRoom(projectId: number, user: Pick<User, "id">): Promise<boolean> {
+  const room = await rooms.get(projectId);
+  if (!room) return false;
+  room.lastEditorId = user.id;
+  await persistRoom(room, "manual");
+  return true;
+}
+
+/**
+ * 项目画布在房间之外被整体替换（如恢复历史版本）时，把差异作为服务端修改合并进房间
+ */
+export async function applyWorkflowToCollabRoom(projectId: number, workflowData: unknown): Promise<void> {
+  const room = await rooms.get(projectId);
+  if (!room) return;
+  const target = (workflowData ?? {}) as Partial<CollabGraph>;
+  const changes = diffCollabGraph(materializeCollabDoc(room.doc), {
+    nodes: target.nodes ?? [],
+    edges: target.edges ?? [],
+    timeline: { clips: target.timeline?.clips ?? [], subtitles: target.timeline?.subtitles ?? [] },
+  });
+  const ops = applyCollabOps(room.doc, stampChanges(changes, room.clock));
+  if (ops.length > 0) broadcast(room, { type: "ops", ops, clientId: SERVER_CLIENT_ID });
+}
+
+// 节点生成期间自动加锁：生成任务（含队列任务）的进度事件带有 projectId / nodeId
+subscribeGenerationEvents({}, message => {
+  const { projectId, nodeId, userId } = message.scope;
+  if (!projectId || !nodeId || userId === undefined) return;
+  const roomPromise = rooms.get(projectId);
+  if (!roomPromise) return;
+
+  void roomPromise.then(room => {
+    if (message.type === "queued" || message.type === "started") {
+      const existing = room.locks.get(nodeId);
+      if (existing && existing.userId !== userId) return;
+      const name = Array.from(room.presence.values()).find(p => p.userId === userId)?.name ?? `用户${userId}`;
+      room.locks.set(nodeId, { nodeId, userId, name, expiresAt: Date.now() + LOCK_TTL_MS });
+    } else if (message.type === "completed" || message.type === "failed") {
+      if (room.locks.get(nodeId)?.userId !== userId) return;
+      room.locks.delete(nodeId);
+    } else {
+      return;
+    }
+    broadcast(room, { type: "locks", locks: activeLocks(room) });
+  }).catch(() => undefined);
+});
@@ -1,4 +1,4 @@
-import { eq, desc, and } from "drizzle-orm";
+import { eq, desc, asc, and, or, gte, lt, inArray, isNotNull, isNull, sql } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/mysql2";
 import { 
   InsertUser, 
@@ -19,6 +19,7 @@ import {
   CustomStyle
 } from "../drizzle/schema";
 import { ENV } from './_core/env';
+import { decryptApiKey, encryptApiKey, needsApiKeyReencryption } from './_core/apiKeyCrypto';
 
 let _db: ReturnType<typeof drizzle> | null = null;
 
@@ -102,7 +103,7 @@ export async function getUserByOpenId(openId: string) {
   }
 
   const result = await db.select().from(users).where(eq(users.openId, openId)).limit(1);
-  return result.length > 0 ? result[0] : undefined;
+  return result.length > 0 ? withDecryptedApiKey(result[0]) : undefined;
 }
 
 export async function getUserById(id: number) {
@@ -113,7 +114,55 @@ export async function getUserById(id: number) {
   }
 
   const result = await db.select().from(users).where(eq(users.id, id)).limit(1);
-  return result.length > 0 ? result[0] : undefined;
+  return result.length > 0 ? withDecryptedApiKey(result[0]) : undefined;
+}
+
+/**
+ * 数据库中的 apiKey 是密文，读出用户时统一解密；解密失败视为未配置
+ */
+function withDecryptedApiKey<T extends { id: number; apiKey: string | null }>(user: T): T {
+  if (!user.apiKey) return user;
+  try {
+    return { ...user, apiKey: decryptApiKey(user.apiKey) };
+  } catch (error) {
+    console.error(`[Database] Failed to decrypt apiKey for user ${user.id}:`, error);
+    return { ...user, apiKey: null };
+  }
+}
+
+export async function updateUserApiKey(userId: number, apiKey: string | null): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(users)
+    .set({ apiKey: apiKey ? encryptApiKey(apiKey) : null })
+    .where(eq(users.id, userId));
+}
+
+/**
+ * 用当前主密钥重新加密所有用户的 apiKey（包括尚未加密的明文记录）
+ */
+export async function reencryptUserApiKeys(): Promise<{ total: number; updated: number; failed: number[] }> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const rows = await db.select({ id: users.id, apiKey: users.apiKey }).from(users).where(isNotNull(users.apiKey));
+  let updated = 0;
+  const failed: number[] = [];
+
+  for (const row of rows) {
+    if (!row.apiKey || !needsApiKeyReencryption(row.apiKey)) continue;
+    try {
+      const apiKey = encryptApiKey(decryptApiKey(row.apiKey));
+      await db.update(users).set({ apiKey }).where(eq(users.id, row.id));
+      updated++;
+    } catch (error) {
+      console.error(`[Database] Failed to re-encrypt apiKey for user ${row.id}:`, error);
+      failed.push(row.id);
+    }
+  }
+
+  return { total: rows.length, updated, failed };
 }
 
 // Project operations
@@ -313,6 +362,97 @@ export async function getGenerationTask(id: number): Promise<GenerationTask | un
   return task;
 }
 
+export async function getProjectGenerationTasks(
+  projectId: number,
+  options: { status?: GenerationTask['status']; limit?: number } = {}
+): Promise<GenerationTask[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const conditions = [eq(generationTasks.projectId, projectId)];
+  if (options.status) {
+    conditions.push(eq(generationTasks.status, options.status));
+  }
+
+  return db.select()
+    .from(generationTasks)
+    .where(and(...conditions))
+    .orderBy(desc(generationTasks.createdAt))
+    .limit(options.limit ?? 50);
+}
+
+// 队列中等待执行的任务（按创建时间先进先出）
+export async function getPendingGenerationJobs(limit: number): Promise<GenerationTask[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db.select()
+    .from(generationTasks)
+    .where(and(eq(generationTasks.status, 'pending'), isNotNull(generationTasks.jobType)))
+    .orderBy(asc(generationTasks.createdAt))
+    .limit(limit);
+}
+
+// 原子地领取任务：只有仍处于 pending 的任务才会被置为 processing
+export async function claimGenerationJob(id: number): Promise<boolean> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.update(generationTasks)
+    .set({
+      status: 'processing',
+      startedAt: new Date(),
+      heartbeatAt: new Date(),
+      attempts: sql`${generationTasks.attempts} + 1`,
+    })
+    .where(and(eq(generationTasks.id, id), eq(generationTasks.status, 'pending')));
+  return result[0].affectedRows === 1;
+}
+
+// 取消尚未开始的任务，已在执行中的任务不受影响
+export async function cancelPendingGenerationJob(id: number): Promise<boolean> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.update(generationTasks)
+    .set({ status: 'failed', errorMessage: '已取消', completedAt: new Date() })
+    .where(and(eq(generationTasks.id, id), eq(generationTasks.status, 'pending')));
+  return result[0].affectedRows === 1;
+}
+
+// 刷新本实例正在执行的任务的心跳
+export async function touchGenerationJobs(ids: number[]): Promise<void> {
+  if (ids.length === 0) return;
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(generationTasks)
+    .set({ heartbeatAt: new Date() })
+    .where(and(inArray(generationTasks.id, ids), eq(generationTasks.status, 'processing')));
+}
+
+// 恢复 worker 退出后中断的队列任务（心跳早于 staleBefore），超过重试上限的直接标记失败；
+// 其他实例仍在执行的任务心跳是新的，不受影响
+export async function recoverInterruptedGenerationJobs(maxAttempts: number, staleBefore: Date): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const interrupted = and(
+    eq(generationTasks.status, 'processing'),
+    isNotNull(generationTasks.jobType),
+    or(isNull(generationTasks.heartbeatAt), lt(generationTasks.heartbeatAt, staleBefore))
+  );
+
+  await db.update(generationTasks)
+    .set({ status: 'failed', errorMessage: '任务多次中断，已停止重试', completedAt: new Date() })
+    .where(and(interrupted, gte(generationTasks.attempts, maxAttempts)));
+
+  const result = await db.update(generationTasks)
+    .set({ status: 'pending', startedAt: null })
+    .where(interrupted);
+  return result[0].affectedRows;
+}
+
 // Workflow template operations
 export async function getWorkflowTemplates(): Promise<WorkflowTemplate[]> {
   const db = await getDb();
@@ -665,3 +805,477 @@ export async function deletePrompt(id: number): Promise<void> {
 
   await db.delete(prompts).where(eq(prompts.id, id));
 }
+
+// ==================== Assistant Session Operations ====================
+import {
+  assistantSessions,
+  AssistantSession,
+  InsertAssistantSession
+} from "../drizzle/schema";
+
+export async function createAssistantSession(data: Omit<InsertAssistantSession, 'createdAt' | 'updatedAt'>): Promise<AssistantSession> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.insert(assistantSessions).values(data);
+  const [session] = await db.select().from(assistantSessions).where(eq(assistantSessions.id, data.id));
+  return session;
+}
+
+export async function getAssistantSession(id: string): Promise<AssistantSession | undefined> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [session] = await db.select().from(assistantSessions).where(eq(assistantSessions.id, id)).limit(1);
+  return session;
+}
+
+export async function getUserAssistantSessions(userId: number, limit = 50): Promise<AssistantSession[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db.select().from(assistantSessions)
+    .where(eq(assistantSessions.userId, userId))
+    .orderBy(desc(assistantSessions.updatedAt))
+    .limit(limit);
+}
+
+export async function updateAssistantSession(id: string, data: Partial<Omit<InsertAssistantSession, 'id' | 'createdAt'>>): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(assistantSessions).set(data).where(eq(assistantSessions.id, id));
+}
+
+export async function deleteAssistantSession(id: string): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(assistantSessions).where(eq(assistantSessions.id, id));
+}
+
+// ==================== Usage Operations ====================
+import { usageRecords, InsertUsageRecord, usageQuotas, UsageQuota, InsertUsageQuota } from "../drizzle/schema";
+
+export type UsageTotals = {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  imageCount: number;
+};
+
+export type UsageBucket = UsageTotals & { period: string };
+
+const usageTotalsColumns = {
+  calls: sql<number>`COUNT(*)`.mapWith(Number),
+  inputTokens: sql<number>`COALESCE(SUM(${usageRecords.inputTokens}), 0)`.mapWith(Number),
+  outputTokens: sql<number>`COALESCE(SUM(${usageRecords.outputTokens}), 0)`.mapWith(Number),
+  imageCount: sql<number>`COALESCE(SUM(${usageRecords.imageCount}), 0)`.mapWith(Number),
+};
+
+export async function createUsageRecord(data: Omit<InsertUsageRecord, 'id' | 'createdAt'>): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.insert(usageRecords).values(data);
+}
+
+export async function getUsageTotals(userId: number, since: Date): Promise<UsageTotals> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [totals] = await db.select(usageTotalsColumns).from(usageRecords)
+    .where(and(eq(usageRecords.userId, userId), gte(usageRecords.createdAt, since)));
+  return totals ?? { calls: 0, inputTokens: 0, outputTokens: 0, imageCount: 0 };
+}
+
+/**
+ * 按天（%Y-%m-%d）或按月（%Y-%m）汇总用量
+ */
+export async function getUsageBuckets(userId: number, since: Date, granularity: 'day' | 'month'): Promise<UsageBucket[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const period = granularity === 'day'
+    ? sql<string>`DATE_FORMAT(${usageRecords.createdAt}, '%Y-%m-%d')`
+    : sql<string>`DATE_FORMAT(${usageRecords.createdAt}, '%Y-%m')`;
+
+  return db.select({ period, ...usageTotalsColumns }).from(usageRecords)
+    .where(and(eq(usageRecords.userId, userId), gte(usageRecords.createdAt, since)))
+    .groupBy(period)
+    .orderBy(period);
+}
+
+/**
+ * 按模型和发起过程汇总用量
+ */
+export async function getUsageBreakdown(userId: number, since: Date) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db.select({
+    operation: usageRecords.operation,
+    model: usageRecords.model,
+    procedure: usageRecords.procedure,
+    ...usageTotalsColumns,
+    avgLatencyMs: sql<number>`COALESCE(AVG(${usageRecords.latencyMs}), 0)`.mapWith(Number),
+    failures: sql<number>`COALESCE(SUM(CASE WHEN ${usageRecords.success} THEN 0 ELSE 1 END), 0)`.mapWith(Number),
+  }).from(usageRecords)
+    .where(and(eq(usageRecords.userId, userId), gte(usageRecords.createdAt, since)))
+    .groupBy(usageRecords.operation, usageRecords.model, usageRecords.procedure)
+    .orderBy(desc(sql`COUNT(*)`));
+}
+
+export async function getUsageQuota(userId: number): Promise<UsageQuota | undefined> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [quota] = await db.select().from(usageQuotas).where(eq(usageQuotas.userId, userId)).limit(1);
+  return quota;
+}
+
+export async function upsertUsageQuota(data: Omit<InsertUsageQuota, 'updatedAt'>): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { userId, ...limits } = data;
+  await db.insert(usageQuotas).values(data).onDuplicateKeyUpdate({ set: limits });
+}
+
+// ==================== Workflow Run Operations ====================
+
+import { workflowRuns, InsertWorkflowRun, WorkflowRun } from "../drizzle/schema";
+
+export async function createWorkflowRun(data: Omit<InsertWorkflowRun, 'id' | 'createdAt' | 'completedAt'>): Promise<WorkflowRun> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(workflowRuns).values(data);
+  const [run] = await db.select().from(workflowRuns).where(eq(workflowRuns.id, result[0].insertId));
+  return run;
+}
+
+export async function updateWorkflowRun(id: number, data: Partial<InsertWorkflowRun>): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const updateData: Record<string, unknown> = { ...data };
+  if (data.status === 'completed' || data.status === 'failed') {
+    updateData.completedAt = new Date();
+  }
+  await db.update(workflowRuns).set(updateData).where(eq(workflowRuns.id, id));
+}
+
+export async function getWorkflowRun(id: number): Promise<WorkflowRun | undefined> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [run] = await db.select().from(workflowRuns).where(eq(workflowRuns.id, id));
+  return run;
+}
+
+export async function getProjectWorkflowRuns(projectId: number, limit = 20): Promise<WorkflowRun[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db.select()
+    .from(workflowRuns)
+    .where(eq(workflowRuns.projectId, projectId))
+    .orderBy(desc(workflowRuns.createdAt))
+    .limit(limit);
+}
+
+// 服务重启后，上次未结束的运行不会再继续
+export async function failInterruptedWorkflowRuns(): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.update(workflowRuns)
+    .set({ status: 'failed', errorMessage: "服务重启，运行已中断", completedAt: new Date() })
+    .where(sql`${workflowRuns.status} IN ('pending', 'running')`);
+  return result[0].affectedRows;
+}
+
+// ==================== Project Revision Operations ====================
+
+import { projectRevisions, InsertProjectRevision, ProjectRevision } from "../drizzle/schema";
+
+export type ProjectRevisionSummary = Omit<ProjectRevision, "workflowData">;
+
+export async function createProjectRevision(data: InsertProjectRevision): Promise<ProjectRevision> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(projectRevisions).values(data);
+  const [revision] = await db.select().from(projectRevisions).where(eq(projectRevisions.id, result[0].insertId));
+  return revision;
+}
+
+export async function getProjectRevision(id: number): Promise<ProjectRevision | undefined> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [revision] = await db.select().from(projectRevisions).where(eq(projectRevisions.id, id));
+  return revision;
+}
+
+export async function getLatestProjectRevision(projectId: number): Promise<ProjectRevision | undefined> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [revision] = await db.select()
+    .from(projectRevisions)
+    .where(eq(projectRevisions.projectId, projectId))
+    .orderBy(desc(projectRevisions.createdAt), desc(projectRevisions.id))
+    .limit(1);
+  return revision;
+}
+
+// 列表不返回 workflowData，预览时再按 id 读取
+export async function getProjectRevisions(projectId: number, limit = 50): Promise<ProjectRevisionSummary[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db.select({
+    id: projectRevisions.id,
+    projectId: projectRevisions.projectId,
+    userId: projectRevisions.userId,
+    source: projectRevisions.source,
+    nodeCount: projectRevisions.nodeCount,
+    edgeCount: projectRevisions.edgeCount,
+    createdAt: projectRevisions.createdAt,
+  })
+    .from(projectRevisions)
+    .where(eq(projectRevisions.projectId, projectId))
+    .orderBy(desc(projectRevisions.createdAt), desc(projectRevisions.id))
+    .limit(limit);
+}
+
+// 只保留最近 keep 个自动保存版本，手动保存和恢复前的版本不清理
+export async function pruneAutoProjectRevisions(projectId: number, keep: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const stale = await db.select({ id: projectRevisions.id })
+    .from(projectRevisions)
+    .where(and(eq(projectRevisions.projectId, projectId), eq(projectRevisions.source, 'auto')))
+    .orderBy(desc(projectRevisions.createdAt), desc(projectRevisions.id))
+    .limit(1000)
+    .offset(keep);
+  if (stale.length === 0) return;
+  await db.delete(projectRevisions).where(inArray(projectRevisions.id, stale.map(row => row.id)));
+}
+
+// ==================== Project Member Operations ====================
+import { projectMembers, InsertProjectMember, ProjectMember, projectShareLinks, ProjectShareLink, scripts, Script, designs, Design } from "../drizzle/schema";
+
+export type ProjectMemberWithUser = ProjectMember & { username: string | null; name: string | null };
+export type SharedProject = Project & { role: ProjectMember["role"] };
+
+export async function getUserByUsername(username: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [user] = await db.select({ id: users.id, username: users.username, name: users.name })
+    .from(users)
+    .where(eq(users.username, username))
+    .limit(1);
+  return user;
+}
+
+export async function getProjectMember(projectId: number, userId: number): Promise<ProjectMember | undefined> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [member] = await db.select()
+    .from(projectMembers)
+    .where(and(eq(projectMembers.projectId, projectId), eq(projectMembers.userId, userId)))
+    .limit(1);
+  return member;
+}
+
+export async function getProjectMembers(projectId: number): Promise<ProjectMemberWithUser[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const rows = await db.select({ member: projectMembers, username: users.username, name: users.name })
+    .from(projectMembers)
+    .innerJoin(users, eq(users.id, projectMembers.userId))
+    .where(eq(projectMembers.projectId, projectId))
+    .orderBy(asc(projectMembers.createdAt));
+  return rows.map(row => ({ ...row.member, username: row.username, name: row.name }));
+}
+
+// 已是成员时更新角色
+export async function upsertProjectMember(data: Omit<InsertProjectMember, 'id' | 'createdAt' | 'updatedAt'>): Promise<ProjectMember> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.insert(projectMembers).values(data).onDuplicateKeyUpdate({ set: { role: data.role } });
+  const member = await getProjectMember(data.projectId, data.userId);
+  return member!;
+}
+
+export async function removeProjectMember(projectId: number, userId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(projectMembers)
+    .where(and(eq(projectMembers.projectId, projectId), eq(projectMembers.userId, userId)));
+}
+
+// 他人邀请当前用户加入的项目
+export async function getSharedProjects(userId: number): Promise<SharedProject[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const rows = await db.select({ project: projects, role: projectMembers.role })
+    .from(projectMembers)
+    .innerJoin(projects, eq(projects.id, projectMembers.projectId))
+    .where(and(eq(projectMembers.userId, userId), eq(projects.status, 'active')))
+    .orderBy(desc(projects.updatedAt));
+  return rows.map(row => ({ ...row.project, role: row.role }));
+}
+
+export async function createProjectShareLink(data: { projectId: number; token: string; createdBy: number; expiresAt?: Date | null }): Promise<ProjectShareLink> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(projectShareLinks).values(data);
+  const [link] = await db.select().from(projectShareLinks).where(eq(projectShareLinks.id, result[0].insertId));
+  return link;
+}
+
+export async function getProjectShareLinks(projectId: number): Promise<ProjectShareLink[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db.select()
+    .from(projectShareLinks)
+    .where(and(eq(projectShareLinks.projectId, projectId), isNull(projectShareLinks.revokedAt)))
+    .orderBy(desc(projectShareLinks.createdAt));
+}
+
+export async function getProjectShareLinkByToken(token: string): Promise<ProjectShareLink | undefined> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [link] = await db.select().from(projectShareLinks).where(eq(projectShareLinks.token, token)).limit(1);
+  return link;
+}
+
+export async function revokeProjectShareLink(id: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(projectShareLinks).set({ revokedAt: new Date() }).where(eq(projectShareLinks.id, id));
+}
+
+// 剧本 / 设计按 canvasId（项目 id）判断访问权限
+export async function getScriptById(id: number): Promise<Script | undefined> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [script] = await db.select().from(scripts).where(eq(scripts.id, id)).limit(1);
+  return script;
+}
+
+export async function getDesignById(id: number): Promise<Design | undefined> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [design] = await db.select().from(designs).where(eq(designs.id, id)).limit(1);
+  return design;
+}
+
+export async function updateDesignCharacters(id: number, characters: unknown[]): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(designs).set({ characters }).where(eq(designs.id, id));
+}
+
+// ==================== Project Comment Operations ====================
+import { projectComments, InsertProjectComment, ProjectComment } from "../drizzle/schema";
+
+export type ProjectCommentWithUser = ProjectComment & { username: string | null; name: string | null };
+
+export async function createProjectComment(data: Omit<InsertProjectComment, 'id' | 'createdAt' | 'updatedAt'>): Promise<ProjectComment> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(projectComments).values(data);
+  const [comment] = await db.select().from(projectComments).where(eq(projectComments.id, result[0].insertId));
+  return comment;
+}
+
+export async function getProjectCommentById(id: number): Promise<ProjectComment | undefined> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [comment] = await db.select().from(projectComments).where(eq(projectComments.id, id)).limit(1);
+  return comment;
+}
+
+export async function getProjectComments(projectId: number): Promise<ProjectCommentWithUser[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const rows = await db.select({ comment: projectComments, username: users.username, name: users.name })
+    .from(projectComments)
+    .leftJoin(users, eq(users.id, projectComments.userId))
+    .where(eq(projectComments.projectId, projectId))
+    .orderBy(asc(projectComments.createdAt), asc(projectComments.id));
+  return rows.map(row => ({ ...row.comment, username: row.username, name: row.name }));
+}
+
+export async function updateProjectComment(id: number, data: Partial<Pick<InsertProjectComment, 'content' | 'resolvedAt' | 'resolvedBy'>>): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(projectComments).set(data).where(eq(projectComments.id, id));
+}
+
+// 删除讨论串的第一条评论时一并删除其回复
+export async function deleteProjectComment(id: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(projectComments).where(eq(projectComments.parentId, id));
+  await db.delete(projectComments).where(eq(projectComments.id, id));
+}
+
+// ==================== Project Bundle Operations ====================
+import { InsertScript, InsertDesign } from "../drizzle/schema";
+
+export async function getScriptsByCanvasId(canvasId: number): Promise<Script[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db.select().from(scripts).where(eq(scripts.canvasId, canvasId)).orderBy(asc(scripts.id));
+}
+
+export async function getDesignsByCanvasId(canvasId: number): Promise<Design[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db.select().from(designs).where(eq(designs.canvasId, canvasId)).orderBy(asc(designs.id));
+}
+
+export async function createScript(data: Omit<InsertScript, 'id' | 'createdAt' | 'updatedAt'>): Promise<Script> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(scripts).values(data);
+  const [script] = await db.select().from(scripts).where(eq(scripts.id, result[0].insertId));
+  return script;
+}
+
+export async function createDesign(data: Omit<InsertDesign, 'id' | 'createdAt' | 'updatedAt'>): Promise<Design> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(designs).values(data);
+  const [design] = await db.select().from(designs).where(eq(designs.id, result[0].insertId));
+  return design;
+}
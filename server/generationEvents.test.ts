@@ -0,0 +1,81 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  matchesGenerationScope,
+  publishGenerationEvent,
+  runWithGenerationScope,
+  streamGenerationEvents,
+  subscribeGenerationEvents,
+  type GenerationEventMessage,
+} from "./generationEvents";
+
+describe("generationEvents", () => {
+  describe("matchesGenerationScope", () => {
+    it("should require every given filter field to match", () => {
+      const scope = { userId: 1, taskId: 5, projectId: 2 };
+
+      expect(matchesGenerationScope(scope, { userId: 1 })).toBe(true);
+      expect(matchesGenerationScope(scope, { userId: 1, taskId: 5 })).toBe(true);
+      expect(matchesGenerationScope(scope, { userId: 2 })).toBe(false);
+      expect(matchesGenerationScope(scope, { userId: 1, nodeId: "n1" })).toBe(false);
+    });
+  });
+
+  describe("publishGenerationEvent", () => {
+    it("should only deliver events to matching subscribers", () => {
+      const mine = vi.fn();
+      const others = vi.fn();
+      const unsubscribeMine = subscribeGenerationEvents({ userId: 1 }, mine);
+      const unsubscribeOthers = subscribeGenerationEvents({ userId: 2 }, others);
+
+      publishGenerationEvent({ type: "queued", jobType: "ai.textToImage" }, { userId: 1, taskId: 9 });
+
+      expect(mine).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "queued", scope: { userId: 1, taskId: 9 } })
+      );
+      expect(others).not.toHaveBeenCalled();
+
+      unsubscribeMine();
+      unsubscribeOthers();
+    });
+
+    it("should use the ambient scope inside runWithGenerationScope", async () => {
+      const listener = vi.fn();
+      const unsubscribe = subscribeGenerationEvents({ sessionId: "s1" }, listener);
+
+      // 没有归属的事件直接丢弃
+      publishGenerationEvent({ type: "imageStored", url: "http://x/a.png" });
+      await runWithGenerationScope({ userId: 1, sessionId: "s1" }, async () => {
+        await Promise.resolve();
+        publishGenerationEvent({ type: "imageStored", url: "http://x/b.png" });
+      });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0]).toMatchObject({ url: "http://x/b.png", scope: { userId: 1, sessionId: "s1" } });
+
+      unsubscribe();
+    });
+  });
+
+  describe("streamGenerationEvents", () => {
+    it("should yield matching events and end when aborted", async () => {
+      const controller = new AbortController();
+      const received: GenerationEventMessage[] = [];
+
+      const consumer = (async () => {
+        for await (const message of streamGenerationEvents({ taskId: 3 }, controller.signal)) {
+          received.push(message);
+          if (message.type === "completed") controller.abort();
+        }
+      })();
+
+      // 等待迭代器注册监听
+      await new Promise(resolve => setTimeout(resolve, 0));
+      publishGenerationEvent({ type: "started" }, { userId: 1, taskId: 4 });
+      publishGenerationEvent({ type: "started" }, { userId: 1, taskId: 3 });
+      publishGenerationEvent({ type: "completed" }, { userId: 1, taskId: 3 });
+
+      await consumer;
+      expect(received.map(message => message.type)).toEqual(["started", "completed"]);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+// 生成进度事件
+// 队列 worker、图片生成和助手在执行过程中发布类型化的进度事件，
+// 客户端通过 tRPC subscription（SSE）订阅，替代轮询。
+
+import { AsyncLocalStorage } from "async_hooks";
+import { EventEmitter, on } from "events";
+
+export type GenerationEvent =
+  | { type: "queued"; jobType: string }
+  | { type: "started"; label?: string; current?: number; total?: number }
+  // 单个长任务（如时间轴合成）的完成百分比
+  | { type: "progress"; percent: number; label?: string }
+  | { type: "partialText"; text: string; delta: string }
+  | { type: "imageStored"; url: string; label?: string; current?: number; total?: number }
+  | { type: "completed"; output?: unknown }
+  | { type: "failed"; error: string };
+
+/**
+ * 事件归属：订阅时按这些字段过滤
+ */
+export type GenerationEventScope = {
+  userId?: number;
+  taskId?: number;
+  projectId?: number;
+  nodeId?: string;
+  sessionId?: string;
+};
+
+export type GenerationEventMessage = GenerationEvent & {
+  scope: GenerationEventScope;
+  timestamp: number;
+};
+
+const emitter = new EventEmitter();
+// 每个 SSE 连接一个监听器
+emitter.setMaxListeners(0);
+
+const scopeStorage = new AsyncLocalStorage<GenerationEventScope>();
+
+/**
+ * 在指定归属下执行，期间深层调用（如 generateImage）发布的事件会自动带上该归属
+ */
+export function runWithGenerationScope<T>(scope: GenerationEventScope, fn: () => T): T {
+  const parent = scopeStorage.getStore();
+  return scopeStorage.run({ ...parent, ...scope }, fn);
+}
+
+export function getGenerationScope(): GenerationEventScope | undefined {
+  return scopeStorage.getStore();
+}
+
+/**
+ * 发布进度事件；未指定归属且不在 runWithGenerationScope 内时忽略
+ */
+export function publishGenerationEvent(event: GenerationEvent, scope?: GenerationEventScope): void {
+  const resolved = scope ?? scopeStorage.getStore();
+  if (!resolved) return;
+  const message: GenerationEventMessage = { ...event, scope: resolved, timestamp: Date.now() };
+  emitter.emit("event", message);
+}
+
+/**
+ * 过滤条件中给出的每个字段都必须与事件归属一致
+ */
+export function matchesGenerationScope(scope: GenerationEventScope, filter: GenerationEventScope): boolean {
+  return (Object.keys(filter) as Array<keyof GenerationEventScope>).every(
+    key => filter[key] === undefined || scope[key] === filter[key]
+  );
+}
+
+/**
+ * 订阅进度事件，返回取消订阅函数
+ */
+export function subscribeGenerationEvents(
+  filter: GenerationEventScope,
+  listener: (message: GenerationEventMessage) => void
+): () => void {
+  const handler = (message: GenerationEventMessage) => {
+    if (matchesGenerationScope(message.scope, filter)) {
+      listener(message);
+    }
+  };
+  emitter.on("event", handler);
+  return () => {
+    emitter.off("event", handler);
+  };
+}
+
+/**
+ * 供 subscription 过程使用的异步迭代器，连接关闭（signal 中止）时结束
+ */
+export async function* streamGenerationEvents(
+  filter: GenerationEventScope,
+  signal?: AbortSignal
+): AsyncGenerator<GenerationEventMessage> {
+  try {
+    for await (const [message] of on(emitter, "event", { signal })) {
+      if (matchesGenerationScope((message as GenerationEventMessage).scope, filter)) {
+        yield message as GenerationEventMessage;
+      }
+    }
+  } catch (error) {
+    if (signal?.aborted) return;
+    throw error;
+  }
+}
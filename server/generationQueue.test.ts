@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("./storage", () => ({
+  storagePut: vi.fn(async (key: string) => ({
+    key: `uploads/${key}`,
+    url: `http://localhost:3000/uploads/${key}`,
+  })),
+}));
+
+// 风格参考图数据不在仓库中，用空表代替
+vi.mock("../client/src/data/styleImages", () => ({
+  STYLE_IMAGES: {},
+}));
+
+vi.mock("./db", () => ({
+  claimGenerationJob: vi.fn(),
+  createGenerationTask: vi.fn(),
+  getGenerationTask: vi.fn(),
+  getPendingGenerationJobs: vi.fn(),
+  getUserById: vi.fn(),
+  recoverInterruptedGenerationJobs: vi.fn(),
+  touchGenerationJobs: vi.fn(),
+  updateGenerationTask: vi.fn(),
+}));
+
+import { storagePut } from "./storage";
+import {
+  createGenerationTask,
+  getGenerationTask,
+  getPendingGenerationJobs,
+  recoverInterruptedGenerationJobs,
+  updateGenerationTask,
+} from "./db";
+import type { TrpcContext } from "./_core/context";
+import { appRouter } from "./routers";
+import {
+  concurrencyKeyFor,
+  enqueueGenerationJob,
+  persistInlineData,
+  selectRunnableJobs,
+  startGenerationWorker,
+  stopGenerationWorker,
+} from "./generationQueue";
+
+const LARGE_DATA_URL = `data:image/png;base64,${"A".repeat(20000)}`;
+
+describe("generationQueue", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("concurrencyKeyFor", () => {
+    it("should group users sharing an API key", () => {
+      expect(concurrencyKeyFor({ id: 1, apiKey: "k1" })).toBe(concurrencyKeyFor({ id: 2, apiKey: "k1" }));
+      expect(concurrencyKeyFor({ id: 1, apiKey: null })).not.toBe(concurrencyKeyFor({ id: 2, apiKey: null }));
+    });
+  });
+
+  describe("selectRunnableJobs", () => {
+    it("should respect the per-key limit and skip to other keys", () => {
+      const pending = [
+        { id: 1, concurrencyKey: "a" },
+        { id: 2, concurrencyKey: "a" },
+        { id: 3, concurrencyKey: "a" },
+        { id: 4, concurrencyKey: "b" },
+      ];
+
+      const selected = selectRunnableJobs(pending, new Map([["a", 1]]), { global: 10, perKey: 2, running: 1 });
+
+      expect(selected.map(job => job.id)).toEqual([1, 4]);
+    });
+
+    it("should stop at the global limit", () => {
+      const pending = [
+        { id: 1, concurrencyKey: "a" },
+        { id: 2, concurrencyKey: "b" },
+        { id: 3, concurrencyKey: "c" },
+      ];
+
+      const selected = selectRunnableJobs(pending, new Map(), { global: 3, perKey: 2, running: 1 });
+
+      expect(selected.map(job => job.id)).toEqual([1, 2]);
+    });
+  });
+
+  describe("persistInlineData", () => {
+    it("should replace large data URLs with stored file URLs", async () => {
+      const result = (await persistInlineData(
+        { success: true, imageUrl: LARGE_DATA_URL, images: [LARGE_DATA_URL, "http://x/y.png"] },
+        "generated/task-7"
+      )) as any;
+
+      expect(storagePut).toHaveBeenCalledTimes(2);
+      expect(result.success).toBe(true);
+      expect(result.imageUrl).toMatch(/^http:\/\/localhost:3000\/uploads\/generated\/task-7-.+\.png$/);
+      expect(result.images[1]).toBe("http://x/y.png");
+    });
+
+    it("should keep small data URLs inline", async () => {
+      const small = "data:image/png;base64,AAAA";
+      expect(await persistInlineData(small, "generated/task-1")).toBe(small);
+      expect(storagePut).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("enqueueGenerationJob", () => {
+    it("should create a pending task with the job type and mapped task type", async () => {
+      vi.mocked(createGenerationTask).mockResolvedValue({ id: 42 } as any);
+
+      const task = await enqueueGenerationJob({
+        userId: 1,
+        jobType: "storyboardShot.generateStoryboardImage",
+        input: { shotId: 3 },
+        projectId: 5,
+      });
+
+      expect(task.id).toBe(42);
+      expect(createGenerationTask).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 1,
+          projectId: 5,
+          taskType: "text2img",
+          jobType: "storyboardShot.generateStoryboardImage",
+          inputData: { shotId: 3 },
+        })
+      );
+    });
+  });
+
+  describe("startGenerationWorker", () => {
+    it("should only re-queue tasks whose heartbeat has gone stale", async () => {
+      vi.mocked(recoverInterruptedGenerationJobs).mockResolvedValue(0);
+      vi.mocked(getPendingGenerationJobs).mockResolvedValue([]);
+      const before = Date.now();
+
+      await startGenerationWorker({ createCaller: vi.fn() } as any);
+      stopGenerationWorker();
+
+      const [maxAttempts, staleBefore] = vi.mocked(recoverInterruptedGenerationJobs).mock.calls[0];
+      expect(maxAttempts).toBe(3);
+      expect(staleBefore.getTime()).toBeGreaterThanOrEqual(before - 60000);
+      expect(staleBefore.getTime()).toBeLessThanOrEqual(Date.now() - 60000);
+    });
+  });
+
+  describe("generation.update", () => {
+    const callerFor = (userId: number) =>
+      appRouter.createCaller({ user: { id: userId }, req: { headers: {} }, res: {} } as unknown as TrpcContext);
+
+    it("should only let owners finish their own legacy tasks", async () => {
+      vi.mocked(getGenerationTask).mockResolvedValue({ id: 5, userId: 1, jobType: null } as any);
+
+      await expect(callerFor(2).generation.update({ id: 5, status: "failed" })).rejects.toThrow("Task not found");
+      await expect(callerFor(1).generation.update({ id: 5, status: "pending" } as any)).rejects.toThrow();
+      await callerFor(1).generation.update({ id: 5, status: "completed" });
+      expect(updateGenerationTask).toHaveBeenCalledTimes(1);
+      expect(updateGenerationTask).toHaveBeenCalledWith(5, { status: "completed" });
+    });
+
+    it("should not let clients change queued tasks", async () => {
+      vi.mocked(getGenerationTask).mockResolvedValue({ id: 6, userId: 1, jobType: "ai.textToImage" } as any);
+
+      await expect(callerFor(1).generation.update({ id: 6, status: "completed" })).rejects.toThrow("队列任务的状态不能手动修改");
+      expect(updateGenerationTask).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,345 @@
+// 持久化生成任务队列
+// 任务保存在 generationTasks 表中（pending → processing → completed/failed），
+// 由服务端 worker 通过 createCaller 调用对应的 tRPC 过程执行，
+// 因此浏览器断开或代理超时都不会丢失结果，服务重启后未完成的任务会自动恢复。
+
+import crypto from "crypto";
+import type { inferRouterInputs } from "@trpc/server";
+import type { TrpcContext } from "./_core/context";
+import type { AppRouter } from "./routers";
+import type { GenerationTask, User } from "../drizzle/schema";
+import { ENV } from "./_core/env";
+import {
+  claimGenerationJob,
+  createGenerationTask,
+  getPendingGenerationJobs,
+  getUserById,
+  recoverInterruptedGenerationJobs,
+  touchGenerationJobs,
+  updateGenerationTask,
+} from "./db";
+import { storagePut } from "./storage";
+import { publishGenerationEvent, runWithGenerationScope, type GenerationEventScope } from "./generationEvents";
+import { nanoid } from "nanoid";
+
+/**
+ * 允许进入队列的过程及其任务类型
+ */
+export const QUEUEABLE_JOBS = {
+  "ai.textToImage": "text2img",
+  "ai.imageToImage": "img2img",
+  "ai.imageToVideo": "img2video",
+  "ai.advancedRedraw": "edit",
+  "storyboardShot.generateStoryboardImage": "text2img",
+  "basicCreation.generateDesignCharacterImage": "text2img",
+  "basicCreation.generateDesignSceneImage": "text2img",
+  "basicCreation.generateDesignPropImage": "text2img",
+  "basicCreation.batchGenerateDesignImages": "text2img",
+  "storyboardWorkbench.generateNineGridStoryboard": "img2img",
+  "storyboardWorkbench.generateMultiAngleGrid": "img2img",
+  "storyboardWorkbench.generateActionSequenceGrid": "img2img",
+  "storyboardWorkbench.generateDynamicNineGrid": "img2img",
+  "storyboardWorkbench.generateShotReverseShot": "img2img",
+  "storyboardWorkbench.upscaleImage": "upscale",
+  "timeline.render": "render",
+  "voiceover.generate": "tts",
+} as const satisfies Record<string, GenerationTask["taskType"]>;
+
+export type QueueableJobType = keyof typeof QUEUEABLE_JOBS;
+
+export const QUEUEABLE_JOB_TYPES = Object.keys(QUEUEABLE_JOBS) as [QueueableJobType, ...QueueableJobType[]];
+
+const POLL_INTERVAL_MS = 2000;
+const MAX_ATTEMPTS = 3;
+// 执行中任务的心跳间隔；超过 STALE_AFTER_MS 没有心跳的任务视为 worker 已退出，重新排队
+const HEARTBEAT_INTERVAL_MS = 15000;
+const STALE_AFTER_MS = 60000;
+// 输出中超过该长度的 data: URL 会转存为文件，避免把大段 base64 写入数据库
+const INLINE_DATA_LIMIT = 10000;
+
+type JobRouter = Pick<AppRouter, "createCaller">;
+type JobCaller = ReturnType<JobRouter["createCaller"]>;
+type JobInputs = inferRouterInputs<AppRouter>;
+
+/**
+ * 任务类型对应的 tRPC 过程；入队时保存的输入由过程自身的 zod schema 校验
+ */
+const JOB_RUNNERS: { [K in QueueableJobType]: (caller: JobCaller, input: unknown) => Promise<unknown> } = {
+  "ai.textToImage": (caller, input) => caller.ai.textToImage(input as JobInputs["ai"]["textToImage"]),
+  "ai.imageToImage": (caller, input) => caller.ai.imageToImage(input as JobInputs["ai"]["imageToImage"]),
+  "ai.imageToVideo": (caller, input) => caller.ai.imageToVideo(input as JobInputs["ai"]["imageToVideo"]),
+  "ai.advancedRedraw": (caller, input) => caller.ai.advancedRedraw(input as JobInputs["ai"]["advancedRedraw"]),
+  "storyboardShot.generateStoryboardImage": (caller, input) =>
+    caller.storyboardShot.generateStoryboardImage(input as JobInputs["storyboardShot"]["generateStoryboardImage"]),
+  "basicCreation.generateDesignCharacterImage": (caller, input) =>
+    caller.basicCreation.generateDesignCharacterImage(input as JobInputs["basicCreation"]["generateDesignCharacterImage"]),
+  "basicCreation.generateDesignSceneImage": (caller, input) =>
+    caller.basicCreation.generateDesignSceneImage(input as JobInputs["basicCreation"]["generateDesignSceneImage"]),
+  "basicCreation.generateDesignPropImage": (caller, input) =>
+    caller.basicCreation.generateDesignPropImage(input as JobInputs["basicCreation"]["generateDesignPropImage"]),
+  "basicCreation.batchGenerateDesignImages": (caller, input) =>
+    caller.basicCreation.batchGenerateDesignImages(input as JobInputs["basicCreation"]["batchGenerateDesignImages"]),
+  "storyboardWorkbench.generateNineGridStoryboard": (caller, input) =>
+    caller.storyboardWorkbench.generateNineGridStoryboard(input as JobInputs["storyboardWorkbench"]["generateNineGridStoryboard"]),
+  "storyboardWorkbench.generateMultiAngleGrid": (caller, input) =>
+    caller.storyboardWorkbench.generateMultiAngleGrid(input as JobInputs["storyboardWorkbench"]["generateMultiAngleGrid"]),
+  "storyboardWorkbench.generateActionSequenceGrid": (caller, input) =>
+    caller.storyboardWorkbench.generateActionSequenceGrid(input as JobInputs["storyboardWorkbench"]["generateActionSequenceGrid"]),
+  "storyboardWorkbench.generateDynamicNineGrid": (caller, input) =>
+    caller.storyboardWorkbench.generateDynamicNineGrid(input as JobInputs["storyboardWorkbench"]["generateDynamicNineGrid"]),
+  "storyboardWorkbench.generateShotReverseShot": (caller, input) =>
+    caller.storyboardWorkbench.generateShotReverseShot(input as JobInputs["storyboardWorkbench"]["generateShotReverseShot"]),
+  "storyboardWorkbench.upscaleImage": (caller, input) =>
+    caller.storyboardWorkbench.upscaleImage(input as JobInputs["storyboardWorkbench"]["upscaleImage"]),
+  "timeline.render": (caller, input) => caller.timeline.render(input as JobInputs["timeline"]["render"]),
+  "voiceover.generate": (caller, input) => caller.voiceover.generate(input as JobInputs["voiceover"]["generate"]),
+};
+
+function isQueueableJobType(jobType: string | null): jobType is QueueableJobType {
+  return jobType !== null && Object.prototype.hasOwnProperty.call(QUEUEABLE_JOBS, jobType);
+}
+
+// worker 状态
+let jobRouter: JobRouter | null = null;
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+let ticking = false;
+const runningJobs = new Map<number, string>(); // taskId -> 并发分组 key
+const activeByKey = new Map<string, number>();
+
+function scopeOf(task: Pick<GenerationTask, "id" | "userId" | "projectId" | "nodeId">): GenerationEventScope {
+  return {
+    userId: task.userId,
+    taskId: task.id,
+    projectId: task.projectId ?? undefined,
+    nodeId: task.nodeId ?? undefined,
+  };
+}
+
+/**
+ * 同一个 API Key 共享并发额度；没有 Key 的用户按用户分组。
+ * 分组键会写入任务表，只保存 Key 的哈希
+ */
+export function concurrencyKeyFor(user: Pick<User, "id" | "apiKey">): string {
+  if (!user.apiKey) return `user:${user.id}`;
+  return `key:${crypto.createHash("sha256").update(user.apiKey).digest("hex").slice(0, 16)}`;
+}
+
+/**
+ * 从等待队列中挑选本轮可以启动的任务，遵守全局和每个 Key 的并发上限
+ */
+export function selectRunnableJobs<T extends { id: number; concurrencyKey: string }>(
+  pending: T[],
+  active: ReadonlyMap<string, number>,
+  limits: { global: number; perKey: number; running: number }
+): T[] {
+  const selected: T[] = [];
+  const counts = new Map(active);
+  let running = limits.running;
+
+  for (const job of pending) {
+    if (running >= limits.global) break;
+    const current = counts.get(job.concurrencyKey) ?? 0;
+    if (current >= limits.perKey) continue;
+    counts.set(job.concurrencyKey, current + 1);
+    running++;
+    selected.push(job);
+  }
+
+  return selected;
+}
+
+/**
+ * 将大段 data: URL 转存到本地存储并替换为文件 URL（用于任务的输入和输出）
+ */
+export async function persistInlineData(value: unknown, keyPrefix: string): Promise<unknown> {
+  if (typeof value === "string") {
+    const match = value.length > INLINE_DATA_LIMIT ? value.match(/^data:([^;]+);base64,(.+)$/) : null;
+    if (!match) return value;
+    const ext = match[1].split("/")[1]?.replace("jpeg", "jpg") || "bin";
+    const { url } = await storagePut(
+      `${keyPrefix}-${nanoid(8)}.${ext}`,
+      Buffer.from(match[2], "base64"),
+      match[1]
+    );
+    return url;
+  }
+  if (Array.isArray(value)) {
+    return Promise.all(value.map(item => persistInlineData(item, keyPrefix)));
+  }
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    const entries = await Promise.all(
+      Object.entries(value).map(async ([key, item]) => [key, await persistInlineData(item, keyPrefix)] as const)
+    );
+    return Object.fromEntries(entries);
+  }
+  return value;
+}
+
+function releaseSlot(taskId: number) {
+  const key = runningJobs.get(taskId);
+  if (key === undefined) return;
+  runningJobs.delete(taskId);
+  const count = (activeByKey.get(key) ?? 1) - 1;
+  if (count <= 0) {
+    activeByKey.delete(key);
+  } else {
+    activeByKey.set(key, count);
+  }
+}
+
+async function runJob(task: GenerationTask, user: User) {
+  if (!jobRouter) return;
+  const scope = scopeOf(task);
+
+  try {
+    publishGenerationEvent({ type: "started" }, scope);
+    const ctx: TrpcContext = {
+      user,
+      // 队列任务没有 HTTP 请求，过程中不应读写 cookie
+      req: { headers: {}, protocol: "http" } as TrpcContext["req"],
+      res: {} as TrpcContext["res"],
+      queuedTaskId: task.id,
+    };
+    if (!isQueueableJobType(task.jobType)) {
+      throw new Error(`未知的任务类型: ${task.jobType}`);
+    }
+    const caller = jobRouter.createCaller(ctx);
+    const runner = JOB_RUNNERS[task.jobType];
+
+    // 过程内部（如 generateImage）发布的事件归属到该任务
+    const output = await runWithGenerationScope(scope, () => runner(caller, task.inputData ?? undefined));
+    const outputData = await persistInlineData(output, `generated/task-${task.id}`);
+    await updateGenerationTask(task.id, {
+      status: "completed",
+      outputData,
+      errorMessage: null,
+    });
+    publishGenerationEvent({ type: "completed", output: outputData }, scope);
+    console.log(`[GenerationQueue] Task ${task.id} (${task.jobType}) completed`);
+  } catch (error) {
+    console.error(`[GenerationQueue] Task ${task.id} (${task.jobType}) failed:`, error);
+    const errorMessage = error instanceof Error ? error.message : "Generation failed";
+    publishGenerationEvent({ type: "failed", error: errorMessage }, scope);
+    await updateGenerationTask(task.id, {
+      status: "failed",
+      errorMessage,
+    }).catch(err => console.error("[GenerationQueue] Failed to record task failure:", err));
+  } finally {
+    releaseSlot(task.id);
+    // 有空位后立即尝试下一批
+    void tick();
+  }
+}
+
+async function tick() {
+  if (!jobRouter || ticking) return;
+  ticking = true;
+
+  try {
+    const limits = {
+      global: ENV.generationWorkerConcurrency,
+      perKey: ENV.generationConcurrencyPerKey,
+      running: runningJobs.size,
+    };
+    if (limits.running >= limits.global) return;
+
+    const pending = await getPendingGenerationJobs(50);
+    if (pending.length === 0) return;
+
+    const users = new Map<number, User | undefined>();
+    const candidates: Array<GenerationTask & { concurrencyKey: string; user: User }> = [];
+    for (const task of pending) {
+      if (!users.has(task.userId)) {
+        users.set(task.userId, await getUserById(task.userId));
+      }
+      const user = users.get(task.userId);
+      if (!user) {
+        await updateGenerationTask(task.id, { status: "failed", errorMessage: "用户不存在" });
+        continue;
+      }
+      candidates.push({ ...task, user, concurrencyKey: concurrencyKeyFor(user) });
+    }
+
+    for (const job of selectRunnableJobs(candidates, activeByKey, limits)) {
+      // 多实例部署时可能被其他 worker 抢先领取
+      if (!(await claimGenerationJob(job.id))) continue;
+
+      runningJobs.set(job.id, job.concurrencyKey);
+      activeByKey.set(job.concurrencyKey, (activeByKey.get(job.concurrencyKey) ?? 0) + 1);
+      const { concurrencyKey, user, ...task } = job;
+      void runJob({ ...task, status: "processing", attempts: task.attempts + 1 }, user);
+    }
+  } catch (error) {
+    console.error("[GenerationQueue] Tick failed:", error);
+  } finally {
+    ticking = false;
+  }
+}
+
+/**
+ * 将一次生成加入队列，立即返回任务记录
+ */
+export async function enqueueGenerationJob(data: {
+  userId: number;
+  jobType: QueueableJobType;
+  input: unknown;
+  projectId?: number;
+  nodeId?: string;
+}): Promise<GenerationTask> {
+  const task = await createGenerationTask({
+    userId: data.userId,
+    projectId: data.projectId,
+    nodeId: data.nodeId,
+    taskType: QUEUEABLE_JOBS[data.jobType],
+    jobType: data.jobType,
+    inputData: (await persistInlineData(data.input, "assets/queue-input")) ?? null,
+  });
+  publishGenerationEvent({ type: "queued", jobType: data.jobType }, scopeOf(task));
+  void tick();
+  return task;
+}
+
+/**
+ * 刷新本实例执行中任务的心跳，并把心跳过期（所在 worker 已退出）的任务重新排队
+ */
+async function heartbeat() {
+  try {
+    await touchGenerationJobs(Array.from(runningJobs.keys()));
+    const recovered = await recoverInterruptedGenerationJobs(MAX_ATTEMPTS, new Date(Date.now() - STALE_AFTER_MS));
+    if (recovered > 0) {
+      console.log(`[GenerationQueue] Re-queued ${recovered} interrupted task(s)`);
+    }
+  } catch (error) {
+    console.warn("[GenerationQueue] Failed to recover interrupted tasks:", error);
+  }
+}
+
+/**
+ * 启动队列 worker：恢复中断的任务并开始轮询。
+ * 重启前本实例执行中的任务在心跳过期后才会恢复，避免与其他实例重复执行
+ */
+export async function startGenerationWorker(router: JobRouter): Promise<void> {
+  if (pollTimer) return;
+  jobRouter = router;
+
+  await heartbeat();
+  heartbeatTimer = setInterval(() => void heartbeat(), HEARTBEAT_INTERVAL_MS);
+  pollTimer = setInterval(() => void tick(), POLL_INTERVAL_MS);
+  console.log(
+    `[GenerationQueue] Worker started (concurrency ${ENV.generationWorkerConcurrency}, per key ${ENV.generationConcurrencyPerKey})`
+  );
+  void tick();
+}
+
+export function stopGenerationWorker(): void {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+  if (heartbeatTimer) {
+    clearInterval(heartbeatTimer);
+    heartbeatTimer = null;
+  }
+  jobRouter = null;
+}
@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("./storage", () => ({
+  storagePut: vi.fn(async (key: string) => ({
+    key: `uploads/${key}`,
+    url: `http://localhost:3000/uploads/${key}`,
+  })),
+}));
+
+import { storagePut } from "./storage";
+import { ENV } from "./_core/env";
+import { generateImage } from "./_core/imageGeneration";
+import {
+  aspectRatioFromSize,
+  buildComfyWorkflow,
+  fakeImageProvider,
+  fillComfyWorkflow,
+  openAiImageSize,
+  registerImageProvider,
+  resolveImageDimensions,
+  resolveImageProvider,
+} from "./_core/imageProviders";
+
+const PNG_SIGNATURE = "89504e470d0a1a0a";
+
+describe("imageGeneration", () => {
+  const originalProvider = ENV.imageProvider;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    ENV.imageProvider = originalProvider;
+  });
+
+  describe("resolveImageProvider", () => {
+    it("should prefer the node provider, then the user default, then IMAGE_PROVIDER", () => {
+      ENV.imageProvider = "fake";
+
+      expect(resolveImageProvider("nano-banana", "fake").id).toBe("nano-banana");
+      expect(resolveImageProvider(undefined, "nano-banana").id).toBe("nano-banana");
+      expect(resolveImageProvider("stability", null).id).toBe("fake");
+    });
+
+    it("should skip providers that are not configured", () => {
+      ENV.imageProvider = "nano-banana";
+      registerImageProvider({ ...fakeImageProvider, id: "offline", isAvailable: () => false });
+
+      expect(resolveImageProvider("offline").id).toBe("nano-banana");
+    });
+    it("should not offer the fake provider outside test and development", async () => {
+      vi.stubEnv("NODE_ENV", "production");
+      vi.resetModules();
+      try {
+        const providers = await import("./_core/imageProviders");
+        expect(providers.listImageProviders().map(p => p.id)).not.toContain("fake");
+        expect(providers.resolveImageProvider("fake").id).toBe("nano-banana");
+      } finally {
+        vi.unstubAllEnvs();
+      }
+    });
+  });
+
+  describe("fakeImageProvider", () => {
+    it("should return the same PNG for the same input", async () => {
+      const input = { prompt: "a red fox", aspectRatio: "16:9" as const, ...resolveImageDimensions("16:9", "1K") };
+
+      const first = await fakeImageProvider.generate(input);
+      const second = await fakeImageProvider.generate(input);
+      const other = await fakeImageProvider.generate({ ...input, prompt: "a blue fox" });
+
+      expect(Buffer.from(first.images[0].base64, "base64").subarray(0, 8).toString("hex")).toBe(PNG_SIGNATURE);
+      expect(first.images[0].base64).toBe(second.images[0].base64);
+      expect(other.images[0].base64).not.toBe(first.images[0].base64);
+    });
+  });
+
+  describe("generateImage", () => {
+    it("should generate with the selected provider and store the image", async () => {
+      const result = await generateImage({
+        prompt: "a lighthouse at dusk",
+        aspectRatio: "9:16",
+        provider: "fake",
+      });
+
+      expect(result.provider).toBe("fake");
+      expect(result.mimeType).toBe("image/png");
+      expect(result.url).toMatch(/^http:\/\/localhost:3000\/uploads\/generated\//);
+      expect(storagePut).toHaveBeenCalledTimes(1);
+    });
+
+    it("should pass reference images to providers that support editing", async () => {
+      const generate = vi.fn(fakeImageProvider.generate);
+      registerImageProvider({ ...fakeImageProvider, id: "spy", generate });
+
+      await generateImage({
+        prompt: "make it snowy",
+        originalImages: [{ b64Json: "AAAA", mimeType: "image/png" }],
+        provider: "spy",
+      });
+
+      expect(generate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          referenceImages: [{ base64: "AAAA", mimeType: "image/png" }],
+          width: 1024,
+          height: 1024,
+        })
+      );
+    });
+  });
+
+  describe("size helpers", () => {
+    it("should map sizes to the nearest supported aspect ratio", () => {
+      expect(aspectRatioFromSize(1344, 768)).toBe("16:9");
+      expect(aspectRatioFromSize(1536, 640)).toBe("16:9");
+      expect(aspectRatioFromSize(896, 1152)).toBe("3:4");
+      expect(aspectRatioFromSize()).toBeUndefined();
+    });
+
+    it("should scale dimensions by image size", () => {
+      expect(resolveImageDimensions("16:9", "2K")).toEqual({ width: 2688, height: 1536 });
+    });
+
+    it("should use fixed OpenAI sizes for gpt-image and dall-e models", () => {
+      expect(openAiImageSize("gpt-image-1", 1344, 768)).toBe("1536x1024");
+      expect(openAiImageSize("dall-e-3", 768, 1344)).toBe("1024x1792");
+      expect(openAiImageSize("flux-schnell", 768, 1344)).toBe("768x1344");
+    });
+  });
+
+  describe("ComfyUI workflows", () => {
+    it("should switch the built-in workflow to img2img when a reference is uploaded", () => {
+      const options = { prompt: "p", negativePrompt: "", width: 1024, height: 1024, seed: 1, checkpoint: "sdxl.safetensors" };
+
+      expect(buildComfyWorkflow(options)["3"].inputs.latent_image).toEqual(["5", 0]);
+
+      const img2img = buildComfyWorkflow({ ...options, referenceImage: "ref.png" });
+      expect(img2img["3"].inputs.latent_image).toEqual(["12", 0]);
+      expect(img2img["10"].inputs.image).toBe("ref.png");
+      expect(img2img["5"]).toBeUndefined();
+    });
+
+    it("should fill placeholders in custom workflows keeping number types", () => {
+      const filled = fillComfyWorkflow(
+        { "1": { inputs: { text: "{{prompt}}, masterpiece", width: "{{width}}", seed: "{{seed}}" } } },
+        { prompt: "a cat", width: 768, seed: 42 }
+      );
+
+      expect(filled).toEqual({ "1": { inputs: { text: "a cat, masterpiece", width: 768, seed: 42 } } });
+    });
+  });
+});
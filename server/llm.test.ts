@@ -0,0 +1,207 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { invokeLLM, type Tool } from "./_core/llm";
+import {
+  convertJsonSchemaToGemini,
+  resolveLLMBackend,
+  runWithLLMPreference,
+  sampleFromJsonSchema,
+} from "./_core/llmBackends";
+import { ENV } from "./_core/env";
+
+const shotTool: Tool = {
+  type: "function",
+  function: {
+    name: "create_shot",
+    parameters: {
+      type: "object",
+      properties: {
+        title: { type: "string" },
+        duration: { type: "number", minimum: 2 },
+        camera: { type: "string", enum: ["wide", "close"] },
+      },
+    },
+  },
+};
+
+const shotSchema = {
+  name: "shots",
+  schema: {
+    type: "object",
+    properties: {
+      shots: { type: "array", items: { type: "object", properties: { index: { type: "integer" } } } },
+    },
+    additionalProperties: false,
+  },
+};
+
+function jsonResponse(body: unknown) {
+  return new Response(JSON.stringify(body), { status: 200, headers: { "Content-Type": "application/json" } });
+}
+
+describe("llm backends", () => {
+  const originalEnv = { ...ENV };
+
+  afterEach(() => {
+    Object.assign(ENV, originalEnv);
+    vi.unstubAllGlobals();
+  });
+
+  describe("resolveLLMBackend", () => {
+    it("should prefer the explicit backend, then the user preference, then LLM_BACKEND", () => {
+      ENV.llmBackend = "gemini";
+      ENV.ollamaUrl = "http://127.0.0.1:11434";
+
+      expect(resolveLLMBackend().id).toBe("gemini");
+      runWithLLMPreference("mock", () => {
+        expect(resolveLLMBackend().id).toBe("mock");
+        expect(resolveLLMBackend("ollama").id).toBe("ollama");
+      });
+    });
+
+    it("should skip unknown and unconfigured backends", () => {
+      ENV.llmBackend = "mock";
+      ENV.ollamaUrl = "";
+
+      expect(resolveLLMBackend("ollama").id).toBe("mock");
+      expect(resolveLLMBackend("nope").id).toBe("mock");
+    });
+
+    it("should not offer the mock backend outside test and development", async () => {
+      vi.stubEnv("NODE_ENV", "production");
+      vi.resetModules();
+      try {
+        const backends = await import("./_core/llmBackends");
+        expect(backends.listLLMBackends().map(b => b.id)).not.toContain("mock");
+        expect(backends.resolveLLMBackend("mock").id).toBe("gemini");
+      } finally {
+        vi.unstubAllEnvs();
+      }
+    });
+  });
+
+  describe("mock backend", () => {
+    it("should call the requested tool with schema-shaped arguments", async () => {
+      const result = await invokeLLM({
+        backend: "mock",
+        messages: [{ role: "user", content: "拆分镜头" }],
+        tools: [shotTool],
+        tool_choice: { type: "function", function: { name: "create_shot" } },
+      });
+
+      const [call] = result.choices[0].message.tool_calls!;
+      expect(result.choices[0].finish_reason).toBe("tool_calls");
+      expect(call.function.name).toBe("create_shot");
+      expect(JSON.parse(call.function.arguments)).toEqual({ title: "mock title", duration: 2, camera: "wide" });
+    });
+
+    it("should return JSON matching response_format", async () => {
+      const onText = vi.fn();
+      const result = await invokeLLM({
+        backend: "mock",
+        messages: [{ role: "user", content: "hi" }],
+        response_format: { type: "json_schema", json_schema: shotSchema },
+        onText,
+      });
+
+      const content = result.choices[0].message.content as string;
+      expect(JSON.parse(content)).toEqual({ shots: [{ index: 0 }] });
+      expect(onText).toHaveBeenCalledWith(content, content);
+    });
+
+    it("should echo the last user message as plain text", async () => {
+      const result = await invokeLLM({
+        backend: "mock",
+        messages: [
+          { role: "system", content: "你是编剧" },
+          { role: "user", content: [{ type: "text", text: "写一句台词" }] },
+        ],
+      });
+
+      expect(result.choices[0].message.content).toBe("[mock] 写一句台词");
+    });
+  });
+
+  describe("openai backend", () => {
+    it("should pass tools, tool_choice and response_format through to /chat/completions", async () => {
+      ENV.openaiLlmBaseUrl = "http://llm.local/v1/";
+      ENV.openaiLlmApiKey = "sk-test";
+      ENV.openaiLlmModel = "local-model";
+      const fetchMock = vi.fn(async () =>
+        jsonResponse({
+          model: "local-model",
+          choices: [{
+            message: {
+              role: "assistant",
+              content: null,
+              tool_calls: [{ id: "1", type: "function", function: { name: "create_shot", arguments: "{\"title\":\"a\"}" } }],
+            },
+          }],
+          usage: { prompt_tokens: 3, completion_tokens: 4 },
+        })
+      );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const result = await invokeLLM({
+        backend: "openai",
+        messages: [{ role: "user", content: "拆分镜头" }],
+        tools: [shotTool],
+        toolChoice: { name: "create_shot" },
+        response_format: { type: "json_schema", json_schema: shotSchema },
+      });
+
+      const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+      const body = JSON.parse(init.body as string);
+      expect(url).toBe("http://llm.local/v1/chat/completions");
+      expect((init.headers as Record<string, string>).Authorization).toBe("Bearer sk-test");
+      expect(body.tool_choice).toEqual({ type: "function", function: { name: "create_shot" } });
+      expect(body.response_format.json_schema.name).toBe("shots");
+      expect(result.choices[0].message.tool_calls![0].function).toEqual({ name: "create_shot", arguments: "{\"title\":\"a\"}" });
+      expect(result.usage).toEqual({ prompt_tokens: 3, completion_tokens: 4, total_tokens: 7 });
+    });
+  });
+
+  describe("ollama backend", () => {
+    it("should send the JSON schema as format and stringify tool arguments", async () => {
+      ENV.ollamaUrl = "http://127.0.0.1:11434";
+      ENV.ollamaModel = "qwen2.5";
+      const fetchMock = vi.fn(async () =>
+        jsonResponse({
+          message: { role: "assistant", content: "", tool_calls: [{ function: { name: "create_shot", arguments: { title: "b" } } }] },
+          prompt_eval_count: 5,
+          eval_count: 6,
+        })
+      );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const result = await invokeLLM({
+        backend: "ollama",
+        messages: [{ role: "user", content: [{ type: "image_url", image_url: { url: "data:image/png;base64,AAAA" } }, "看图"] }],
+        tools: [shotTool],
+        response_format: { type: "json_schema", json_schema: shotSchema },
+      });
+
+      const body = JSON.parse((fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1].body as string);
+      expect(body.format).toEqual(shotSchema.schema);
+      expect(body.messages[0]).toEqual({ role: "user", content: "看图", images: ["AAAA"] });
+      expect(result.choices[0].message.tool_calls![0].function.arguments).toBe("{\"title\":\"b\"}");
+      expect(result.usage?.total_tokens).toBe(11);
+    });
+  });
+
+  describe("schema helpers", () => {
+    it("should strip unsupported keys recursively for Gemini", () => {
+      expect(convertJsonSchemaToGemini(shotSchema.schema)).toEqual({
+        type: "object",
+        properties: {
+          shots: { type: "array", items: { type: "object", properties: { index: { type: "integer" } } } },
+        },
+      });
+    });
+
+    it("should sample enums, consts and nested arrays", () => {
+      expect(sampleFromJsonSchema({ type: "string", enum: ["a", "b"] })).toBe("a");
+      expect(sampleFromJsonSchema({ const: 3 })).toBe(3);
+      expect(sampleFromJsonSchema({ type: "array", items: { type: "boolean" } })).toEqual([false]);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+// 允许存入 uploads/ 的媒体类型
+// 文件扩展名决定静态服务返回的 Content-Type，因此只使用这里列出的扩展名，
+// 不沿用客户端或项目包中给出的文件名，避免存入 .html / .svg 等可执行内容。
+
+export const MEDIA_MIME_EXTENSIONS: Record<string, string> = {
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "video/mp4": ".mp4",
+  "video/webm": ".webm",
+  "video/quicktime": ".mov",
+  "audio/mpeg": ".mp3",
+  "audio/wav": ".wav",
+  "audio/x-wav": ".wav",
+  "audio/ogg": ".ogg",
+  "audio/aac": ".aac",
+  "audio/mp4": ".m4a",
+  "audio/x-m4a": ".m4a",
+};
+
+/**
+ * MIME 类型对应的扩展名，不是允许的类型时返回 null
+ */
+export function extensionForMimeType(mimeType: string): string | null {
+  return Object.prototype.hasOwnProperty.call(MEDIA_MIME_EXTENSIONS, mimeType) ? MEDIA_MIME_EXTENSIONS[mimeType] : null;
+}
+
+export interface MediaType {
+  mimeType: string;
+  extension: string;
+}
+
+function mediaType(mimeType: string): MediaType {
+  return { mimeType, extension: MEDIA_MIME_EXTENSIONS[mimeType] };
+}
+
+function startsWith(buffer: Buffer, bytes: number[], offset = 0): boolean {
+  return buffer.length >= offset + bytes.length && bytes.every((byte, i) => buffer[offset + i] === byte);
+}
+
+function ascii(buffer: Buffer, start: number, end: number): string {
+  return buffer.length >= end ? buffer.toString("latin1", start, end) : "";
+}
+
+/**
+ * 按文件头识别媒体类型，不是允许的图片 / 视频 / 音频时返回 null
+ */
+export function sniffMediaType(buffer: Buffer): MediaType | null {
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return mediaType("image/png");
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) return mediaType("image/jpeg");
+  if (ascii(buffer, 0, 6) === "GIF87a" || ascii(buffer, 0, 6) === "GIF89a") return mediaType("image/gif");
+  if (ascii(buffer, 0, 4) === "RIFF") {
+    if (ascii(buffer, 8, 12) === "WEBP") return mediaType("image/webp");
+    if (ascii(buffer, 8, 12) === "WAVE") return mediaType("audio/wav");
+    return null;
+  }
+  // ISO BMFF：按主品牌区分 mov / m4a / mp4
+  if (ascii(buffer, 4, 8) === "ftyp") {
+    const brand = ascii(buffer, 8, 12);
+    if (brand === "qt  ") return mediaType("video/quicktime");
+    if (brand === "M4A ") return mediaType("audio/mp4");
+    return mediaType("video/mp4");
+  }
+  if (startsWith(buffer, [0x1a, 0x45, 0xdf, 0xa3])) return mediaType("video/webm");
+  if (ascii(buffer, 0, 4) === "OggS") return mediaType("audio/ogg");
+  if (ascii(buffer, 0, 3) === "ID3") return mediaType("audio/mpeg");
+  if (buffer.length >= 2 && buffer[0] === 0xff) {
+    // ADTS（AAC）的 layer 位为 00，MPEG 音频帧不为 00
+    if ((buffer[1] & 0xf6) === 0xf0) return mediaType("audio/aac");
+    if ((buffer[1] & 0xe0) === 0xe0 && (buffer[1] & 0x06) !== 0) return mediaType("audio/mpeg");
+  }
+  return null;
+}
+
+/**
+ * 识别出的媒体属于图片、视频还是音频
+ */
+export function mediaKindOf(media: MediaType): "image" | "video" | "audio" {
+  return media.mimeType.split("/")[0] as "image" | "video" | "audio";
+}
+
+/**
+ * 识别出的媒体能否作为该类素材：音频素材也接受视频容器（只取其中的声音）
+ */
+export function mediaMatchesKind(media: MediaType, kind: "image" | "video" | "audio"): boolean {
+  const category = mediaKindOf(media);
+  return category === kind || (kind === "audio" && category === "video");
+}
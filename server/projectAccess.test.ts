@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("./db", () => ({
+  getProjectById: vi.fn(),
+  getProjectMember: vi.fn(),
+  getScriptById: vi.fn(),
+  getDesignById: vi.fn(),
+  getStoryboardShotById: vi.fn(),
+}));
+
+import { getProjectById, getProjectMember, getScriptById, getStoryboardShotById } from "./db";
+import { requireProjectAccess, requireScriptAccess, requireStoryboardShotAccess } from "./projectAccess";
+
+describe("projectAccess", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getProjectById).mockImplementation(async (id: number) =>
+      id === 7 ? ({ id: 7, userId: 1, status: "active" } as any) : undefined
+    );
+    vi.mocked(getProjectMember).mockImplementation(async (projectId: number, userId: number) => {
+      if (projectId !== 7) return undefined;
+      const roles: Record<number, string> = { 2: "editor", 3: "commenter", 4: "viewer" };
+      return roles[userId] ? ({ projectId, userId, role: roles[userId] } as any) : undefined;
+    });
+  });
+
+  describe("requireProjectAccess", () => {
+    it("should grant the owner every role", async () => {
+      await expect(requireProjectAccess(7, 1, "owner")).resolves.toMatchObject({ role: "owner" });
+      expect(getProjectMember).not.toHaveBeenCalled();
+    });
+
+    it("should allow members up to their role", async () => {
+      await expect(requireProjectAccess(7, 2, "editor")).resolves.toMatchObject({ role: "editor" });
+      await expect(requireProjectAccess(7, 3, "commenter")).resolves.toMatchObject({ role: "commenter" });
+      await expect(requireProjectAccess(7, 4)).resolves.toMatchObject({ role: "viewer" });
+    });
+
+    it("should reject members below the required role", async () => {
+      await expect(requireProjectAccess(7, 4, "editor")).rejects.toThrow("权限不足：需要编辑者及以上角色");
+      await expect(requireProjectAccess(7, 2, "owner")).rejects.toThrow("权限不足：需要所有者及以上角色");
+    });
+
+    it("should not reveal projects the user has no access to", async () => {
+      await expect(requireProjectAccess(7, 99)).rejects.toThrow("Project not found");
+      await expect(requireProjectAccess(8, 1)).rejects.toThrow("Project not found");
+    });
+  });
+
+  describe("requireScriptAccess", () => {
+    it("should resolve scripts through their canvas project", async () => {
+      vi.mocked(getScriptById).mockResolvedValue({ id: 5, userId: 1, canvasId: 7 } as any);
+
+      await expect(requireScriptAccess(5, 2, "editor")).resolves.toMatchObject({ id: 5 });
+      await expect(requireScriptAccess(5, 4, "editor")).rejects.toThrow("权限不足");
+      await expect(requireScriptAccess(5, 99)).rejects.toThrow("剧本不存在");
+    });
+
+    it("should only allow the creator when the project no longer exists", async () => {
+      vi.mocked(getScriptById).mockResolvedValue({ id: 6, userId: 2, canvasId: 8 } as any);
+
+      await expect(requireScriptAccess(6, 2, "editor")).resolves.toMatchObject({ id: 6 });
+      await expect(requireScriptAccess(6, 1)).rejects.toThrow("剧本不存在");
+    });
+
+    it("should check storyboard shots against their script", async () => {
+      vi.mocked(getStoryboardShotById).mockResolvedValue({ id: 11, scriptId: 5 } as any);
+      vi.mocked(getScriptById).mockResolvedValue({ id: 5, userId: 1, canvasId: 7 } as any);
+
+      await expect(requireStoryboardShotAccess(11, 3)).resolves.toMatchObject({ id: 11 });
+      await expect(requireStoryboardShotAccess(11, 3, "editor")).rejects.toThrow("权限不足");
+    });
+  });
+});
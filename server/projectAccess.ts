@@ -0,0 +1,77 @@
+// 项目访问控制
+// 所有按项目访问数据的过程（项目、画布协同、剧本 / 设计、分镜、生成任务……）都通过这里判断当前用户的角色，
+// 角色含义见 shared/projectRoles.ts。没有任何角色时与项目不存在返回相同的错误，不暴露项目是否存在。
+
+import type { Design, Project, Script, StoryboardShot } from "../drizzle/schema";
+import { hasProjectRole, PROJECT_ROLE_LABELS, type ProjectRole } from "../shared/projectRoles";
+import { getDesignById, getProjectById, getProjectMember, getScriptById, getStoryboardShotById } from "./db";
+
+export async function getProjectRole(project: Pick<Project, "id" | "userId">, userId: number): Promise<ProjectRole | null> {
+  if (project.userId === userId) return "owner";
+  const member = await getProjectMember(project.id, userId);
+  return member?.role ?? null;
+}
+
+function assertRole(role: ProjectRole, required: ProjectRole) {
+  if (!hasProjectRole(role, required)) {
+    throw new Error(`权限不足：需要${PROJECT_ROLE_LABELS[required]}及以上角色`);
+  }
+}
+
+/**
+ * 校验当前用户在项目中至少具有 required 角色，返回项目和角色
+ */
+export async function requireProjectAccess(
+  projectId: number,
+  userId: number,
+  required: ProjectRole = "viewer"
+): Promise<{ project: Project; role: ProjectRole }> {
+  const project = await getProjectById(projectId);
+  const role = project ? await getProjectRole(project, userId) : null;
+  if (!project || !role) {
+    throw new Error("Project not found");
+  }
+  assertRole(role, required);
+  return { project, role };
+}
+
+// 剧本 / 设计的 canvasId 即项目 id；项目已不存在的旧数据只有创建者可以访问
+async function roleForCanvasItem(item: { userId: number; canvasId: number }, userId: number): Promise<ProjectRole | null> {
+  const project = await getProjectById(item.canvasId);
+  if (!project) return item.userId === userId ? "owner" : null;
+  return getProjectRole(project, userId);
+}
+
+export async function requireScriptAccess(scriptId: number, userId: number, required: ProjectRole = "viewer"): Promise<Script> {
+  const script = await getScriptById(scriptId);
+  const role = script ? await roleForCanvasItem(script, userId) : null;
+  if (!script || !role) {
+    throw new Error("剧本不存在");
+  }
+  assertRole(role, required);
+  return script;
+}
+
+export async function requireDesignAccess(designId: number, userId: number, required: ProjectRole = "viewer"): Promise<Design> {
+  const design = await getDesignById(designId);
+  const role = design ? await roleForCanvasItem(design, userId) : null;
+  if (!design || !role) {
+    throw new Error("设计数据不存在");
+  }
+  assertRole(role, required);
+  return design;
+}
+
+// 分镜按所属剧本判断
+export async function requireStoryboardShotAccess(
+  shotId: number,
+  userId: number,
+  required: ProjectRole = "viewer"
+): Promise<StoryboardShot> {
+  const shot = await getStoryboardShotById(shotId);
+  if (!shot) {
+    throw new Error("分镜不存在");
+  }
+  await requireScriptAccess(shot.scriptId, userId, required);
+  return shot;
+}
@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("./db", () => ({
+  createAsset: vi.fn(),
+  createDesign: vi.fn(),
+  createProject: vi.fn(),
+  createScript: vi.fn(),
+  createStoryboardShots: vi.fn(),
+  getDesignsByCanvasId: vi.fn(),
+  getProjectAssets: vi.fn(),
+  getScriptsByCanvasId: vi.fn(),
+  getStoryboardShotsByScriptId: vi.fn(),
+  updateProject: vi.fn(),
+}));
+vi.mock("./storage", () => ({
+  storagePut: vi.fn(),
+}));
+
+import { createAsset, createDesign, createProject, createScript, createStoryboardShots, updateProject } from "./db";
+import { storagePut } from "./storage";
+import {
+  collectUploadPaths,
+  importProjectBundle,
+  PROJECT_BUNDLE_FORMAT,
+  remapUploadUrls,
+  type ProjectBundleData,
+} from "./projectBundle";
+import { createZip, readZip, type ZipEntry } from "./zipArchive";
+
+function bundle(data: ProjectBundleData, overrides: Record<string, unknown> = {}, extraEntries: ZipEntry[] = []) {
+  const manifest = {
+    format: PROJECT_BUNDLE_FORMAT,
+    schemaVersion: 1,
+    exportedAt: "2026-01-01T00:00:00.000Z",
+    project: { name: "短剧", description: null, thumbnail: "http://old.host/uploads/generated/thumb.png" },
+    counts: { scripts: 1, designs: 1, storyboardShots: 1, files: 1 },
+    files: [{ path: "files/1-thumb.png", source: "generated/thumb.png" }],
+    missingFiles: [],
+    ...overrides,
+  };
+  return createZip([
+    { name: "manifest.json", data: Buffer.from(JSON.stringify(manifest)) },
+    { name: "project.json", data: Buffer.from(JSON.stringify(data)) },
+    { name: "files/1-thumb.png", data: Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]) },
+    ...extraEntries,
+  ]);
+}
+
+describe("projectBundle", () => {
+  describe("zipArchive", () => {
+    it("should round-trip stored and deflated entries", () => {
+      const text = Buffer.from("分镜".repeat(200));
+      const binary = Buffer.from([0, 1, 2, 3, 255]);
+      const files = readZip(createZip([
+        { name: "文本.txt", data: text },
+        { name: "files/a.bin", data: binary },
+      ]));
+
+      expect(files.get("文本.txt")).toEqual(text);
+      expect(files.get("files/a.bin")).toEqual(binary);
+    });
+
+    it("should reject corrupted archives", () => {
+      const zip = createZip([{ name: "a.txt", data: Buffer.from("hello") }]);
+      zip[30 + "a.txt".length] ^= 0xff;
+      expect(() => readZip(zip)).toThrow("已损坏");
+      expect(() => readZip(Buffer.from("not a zip"))).toThrow("无效的压缩包");
+    });
+  });
+
+  describe("upload urls", () => {
+    it("should collect and remap every form of upload reference", () => {
+      const value = {
+        image: "http://localhost:3000/uploads/generated/a.png",
+        nested: [{ key: "uploads/assets/b.jpg", path: "/uploads/generated/a.png" }],
+        other: "https://example.com/c.png",
+      };
+      expect(collectUploadPaths(value).sort()).toEqual(["assets/b.jpg", "generated/a.png"]);
+
+      const remapped = remapUploadUrls(value, new Map([
+        ["generated/a.png", { key: "uploads/assets/new-a.png", url: "https://new.host/uploads/assets/new-a.png" }],
+      ]));
+      expect(remapped).toEqual({
+        image: "https://new.host/uploads/assets/new-a.png",
+        nested: [{ key: "uploads/assets/b.jpg", path: "/uploads/assets/new-a.png" }],
+        other: "https://example.com/c.png",
+      });
+    });
+  });
+
+  describe("importProjectBundle", () => {
+    beforeEach(() => {
+      vi.clearAllMocks();
+      vi.mocked(storagePut).mockResolvedValue({ key: "uploads/assets/imported-x.png", url: "https://new.host/uploads/assets/imported-x.png" });
+      vi.mocked(createProject).mockImplementation(async data => ({ id: 50, ...data }) as any);
+      vi.mocked(createScript).mockImplementation(async data => ({ id: 60, ...data }) as any);
+      vi.mocked(createDesign).mockImplementation(async data => ({ id: 70, ...data }) as any);
+      vi.mocked(createStoryboardShots).mockResolvedValue([]);
+      vi.mocked(createAsset).mockImplementation(async data => ({ id: 80, ...data }) as any);
+      vi.mocked(updateProject).mockImplementation(async (id, data) => ({ id, ...data }) as any);
+    });
+
+    it("should remap ids and file references onto the new project", async () => {
+      const data = {
+        workflowData: { nodes: [{ id: "n", data: { image: "/uploads/generated/thumb.png" } }], edges: [] },
+        scripts: [{ id: 5, title: "第一集" }],
+        designs: [{ id: 6, scriptId: 5, characters: [{ id: "c1", imageUrl: "http://old.host/uploads/generated/thumb.png" }] }],
+        storyboardShots: [
+          { scriptId: 5, shotNumber: 1, title: "开场" },
+          { scriptId: 99, shotNumber: 1, title: "孤立分镜" },
+        ],
+      } as unknown as ProjectBundleData;
+
+      const project = await importProjectBundle(3, bundle(data));
+
+      expect(project.id).toBe(50);
+      expect(createProject).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 3,
+        thumbnail: "https://new.host/uploads/assets/imported-x.png",
+        workflowData: { nodes: [{ id: "n", data: { image: "/uploads/assets/imported-x.png" } }], edges: [] },
+      }));
+      expect(createScript).toHaveBeenCalledWith({ title: "第一集", userId: 3, canvasId: 50 });
+      expect(createDesign).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 3,
+        canvasId: 50,
+        scriptId: 60,
+        characters: [{ id: "c1", imageUrl: "https://new.host/uploads/assets/imported-x.png" }],
+      }));
+      expect(createStoryboardShots).toHaveBeenCalledTimes(1);
+      expect(createStoryboardShots).toHaveBeenCalledWith([{ scriptId: 60, shotNumber: 1, title: "开场", userId: 3 }]);
+    });
+
+    it("should register timeline assets on the new project, point clips at them and unlink storyboard shots", async () => {
+      const clip = { track: "video", type: "image", name: "开场", startTime: 0, duration: 5, trimStart: 0, trimEnd: 5 };
+      const data = {
+        workflowData: {
+          nodes: [],
+          edges: [],
+          timeline: {
+            clips: [{ ...clip, id: "c1", assetId: 9, scriptId: 4, shotId: 8 }, { ...clip, id: "c2", assetId: 10 }],
+            subtitles: [{ id: "s1", startTime: 0, duration: 5, text: "你好", scriptId: 4, shotId: 8 }],
+          },
+        },
+        scripts: [],
+        designs: [],
+        storyboardShots: [],
+        assets: [
+          { id: 9, type: "video", url: "/uploads/generated/thumb.png", fileKey: "x", filename: "开场.png", mimeType: "text/html", size: 1, metadata: null },
+          // 文件不在包内的素材不登记
+          { id: 10, type: "image", url: "http://169.254.169.254/latest/meta-data", fileKey: "x", filename: null, mimeType: "image/png", size: null, metadata: null },
+        ],
+      } as unknown as ProjectBundleData;
+
+      await importProjectBundle(3, bundle(data));
+
+      expect(createAsset).toHaveBeenCalledTimes(1);
+      expect(createAsset).toHaveBeenCalledWith({
+        userId: 3,
+        projectId: 50,
+        type: "image",
+        url: "https://new.host/uploads/assets/imported-x.png",
+        fileKey: "uploads/assets/imported-x.png",
+        filename: "开场.png",
+        mimeType: "image/png",
+        size: 8,
+        metadata: null,
+      });
+      // 没有登记素材 10，对应的片段丢弃
+      expect(updateProject).toHaveBeenCalledWith(50, {
+        workflowData: {
+          nodes: [],
+          edges: [],
+          timeline: {
+            clips: [{ ...clip, id: "c1", assetId: 80 }],
+            subtitles: [{ id: "s1", startTime: 0, duration: 5, text: "你好" }],
+          },
+        },
+      });
+    });
+
+    it("should store files under the extension of their content and skip anything that isn't media", async () => {
+      const data = { workflowData: null, scripts: [], designs: [], storyboardShots: [] };
+      const files = [
+        { path: "files/1-thumb.png", source: "generated/thumb.html" },
+        { path: "files/2-page.png", source: "generated/page.png" },
+      ];
+      await importProjectBundle(3, bundle(data, { files }, [{ name: "files/2-page.png", data: Buffer.from("<script>alert(1)</script>") }]));
+
+      expect(storagePut).toHaveBeenCalledTimes(1);
+      expect(storagePut).toHaveBeenCalledWith(expect.stringMatching(/^assets\/imported-[\w-]+\.png$/), expect.any(Buffer), "image/png");
+    });
+
+    it("should reject bundles from a newer schema version", async () => {
+      const data = { workflowData: null, scripts: [], designs: [], storyboardShots: [] };
+      await expect(importProjectBundle(3, bundle(data, { schemaVersion: 2 }))).rejects.toThrow("不支持的项目包版本");
+      expect(createProject).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,305 @@
+// 项目导出 / 导入
+// 项目包是一个 zip：
+//   manifest.json  格式标识、版本、项目信息和文件清单
+//   project.json   画布 workflowData，该画布的剧本、设计和分镜，以及时间轴引用的素材
+//   files/         上述数据中引用到的 uploads/ 文件
+// 导入时重新分配剧本 / 设计 / 分镜 / 素材的 id，文件存入本服务器后把数据中的地址替换为新地址。
+
+import fs from "fs";
+import path from "path";
+import { nanoid } from "nanoid";
+import type { Asset, Design, Project, Script, StoryboardShot } from "../drizzle/schema";
+import { normalizeTimeline } from "../shared/timeline";
+import {
+  createAsset,
+  createDesign,
+  createProject,
+  createScript,
+  createStoryboardShots,
+  getDesignsByCanvasId,
+  getProjectAssets,
+  getScriptsByCanvasId,
+  getStoryboardShotsByScriptId,
+  updateProject,
+} from "./db";
+import { mediaKindOf, sniffMediaType, type MediaType } from "./mediaTypes";
+import { storagePut } from "./storage";
+import { createZip, readZip } from "./zipArchive";
+
+export const PROJECT_BUNDLE_FORMAT = "fansai-project";
+export const PROJECT_BUNDLE_SCHEMA_VERSION = 1;
+// 项目包以 base64 随 tRPC 请求上传，受 express.json 的 200mb 限制
+export const MAX_PROJECT_BUNDLE_BASE64_LENGTH = 190 * 1024 * 1024;
+
+const UPLOAD_DIR = path.resolve(process.cwd(), "uploads");
+// 本服务器或其他部署的上传文件地址：完整 URL、/uploads/... 或存储 key uploads/...
+const UPLOAD_URL_PATTERN = /(?:https?:\/\/[^\s"'<>\/]+)?\/?uploads\/((?:generated|assets)\/[^\s"'<>?#\\]+)/g;
+
+type Omitted = "id" | "userId" | "canvasId" | "createdAt" | "updatedAt";
+type BundleScript = Omit<Script, Omitted> & { id: number };
+type BundleDesign = Omit<Design, Omitted> & { id: number };
+type BundleShot = Omit<StoryboardShot, "id" | "userId" | "createdAt" | "updatedAt">;
+type BundleAsset = Pick<Asset, "id" | "type" | "url" | "fileKey" | "filename" | "mimeType" | "size" | "metadata">;
+
+export interface ProjectBundleManifest {
+  format: typeof PROJECT_BUNDLE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  project: { name: string; description: string | null; thumbnail: string | null };
+  counts: { scripts: number; designs: number; storyboardShots: number; files: number };
+  // 包内文件与其在 uploads/ 下的原路径
+  files: { path: string; source: string }[];
+  // 被引用但导出时已不存在的文件，导入后保留原地址
+  missingFiles: string[];
+}
+
+export interface ProjectBundleData {
+  workflowData: unknown;
+  scripts: BundleScript[];
+  designs: BundleDesign[];
+  storyboardShots: BundleShot[];
+  // 时间轴片段引用的素材（旧版本导出的包没有）
+  assets?: BundleAsset[];
+}
+
+// workflowData 中时间轴片段引用的素材 id
+function timelineAssetIds(workflowData: unknown): Set<number> {
+  const timeline = normalizeTimeline((workflowData as { timeline?: unknown } | null)?.timeline);
+  return new Set(timeline.clips.map(clip => clip.assetId));
+}
+
+// 对 JSON 值中的每个字符串做替换
+function mapStrings<T>(value: T, map: (text: string) => string): T {
+  if (typeof value === "string") return map(value) as T;
+  if (Array.isArray(value)) return value.map(item => mapStrings(item, map)) as T;
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, map)])) as T;
+  }
+  return value;
+}
+
+/**
+ * 收集数据中引用的 uploads/ 文件（相对 uploads/ 的路径）
+ */
+export function collectUploadPaths(value: unknown): string[] {
+  const paths = new Set<string>();
+  mapStrings(value, text => {
+    for (const match of Array.from(text.matchAll(UPLOAD_URL_PATTERN))) paths.add(match[1]);
+    return text;
+  });
+  return Array.from(paths);
+}
+
+/**
+ * 按 uploads/ 相对路径替换数据中的文件地址，保持原来的写法（完整 URL、/uploads/... 或 uploads/...）
+ */
+export function remapUploadUrls<T>(value: T, replacements: Map<string, { key: string; url: string }>): T {
+  return mapStrings(value, text =>
+    text.replace(UPLOAD_URL_PATTERN, (match, relPath: string) => {
+      const target = replacements.get(relPath);
+      if (!target) return match;
+      if (/^https?:\/\//.test(match)) return target.url;
+      return match.startsWith("/") ? `/${target.key}` : target.key;
+    })
+  );
+}
+
+// 地址对应的 uploads/ 相对路径，不是上传文件地址时返回 null
+function uploadPathOf(url: unknown): string | null {
+  if (typeof url !== "string") return null;
+  const match = Array.from(url.matchAll(UPLOAD_URL_PATTERN))[0];
+  return match ? match[1] : null;
+}
+
+async function readUpload(relPath: string): Promise<Buffer | null> {
+  const filePath = path.resolve(UPLOAD_DIR, relPath);
+  if (!filePath.startsWith(UPLOAD_DIR + path.sep)) return null;
+  try {
+    return await fs.promises.readFile(filePath);
+  } catch {
+    return null;
+  }
+}
+
+function omitRecordFields<T extends { userId: number; createdAt: Date; updatedAt: Date }>(record: T) {
+  const { userId: _userId, createdAt: _createdAt, updatedAt: _updatedAt, ...rest } = record;
+  return rest;
+}
+
+/**
+ * 导出项目为 zip
+ */
+export async function exportProjectBundle(project: Project): Promise<{ fileName: string; data: Buffer }> {
+  const scripts = await getScriptsByCanvasId(project.id);
+  const designs = await getDesignsByCanvasId(project.id);
+  const shots = (await Promise.all(scripts.map(script => getStoryboardShotsByScriptId(script.id)))).flat();
+  const assetIds = timelineAssetIds(project.workflowData);
+  const assets = assetIds.size > 0
+    ? (await getProjectAssets(project.id)).filter(asset => assetIds.has(asset.id))
+    : [];
+
+  const data: ProjectBundleData = {
+    workflowData: project.workflowData,
+    scripts: scripts.map(script => {
+      const { canvasId: _canvasId, ...rest } = omitRecordFields(script);
+      return rest;
+    }),
+    designs: designs.map(design => {
+      const { canvasId: _canvasId, ...rest } = omitRecordFields(design);
+      return rest;
+    }),
+    storyboardShots: shots.map(shot => {
+      const { id: _id, ...rest } = omitRecordFields(shot);
+      return rest;
+    }),
+    assets: assets.map(({ id, type, url, fileKey, filename, mimeType, size, metadata }) => ({
+      id, type, url, fileKey, filename, mimeType, size, metadata,
+    })),
+  };
+
+  const entries: { name: string; data: Buffer }[] = [];
+  const files: ProjectBundleManifest["files"] = [];
+  const missingFiles: string[] = [];
+  for (const relPath of collectUploadPaths([data, project.thumbnail])) {
+    const content = await readUpload(relPath);
+    if (!content) {
+      missingFiles.push(relPath);
+      continue;
+    }
+    const bundlePath = `files/${files.length + 1}-${path.basename(relPath)}`;
+    entries.push({ name: bundlePath, data: content });
+    files.push({ path: bundlePath, source: relPath });
+  }
+
+  const manifest: ProjectBundleManifest = {
+    format: PROJECT_BUNDLE_FORMAT,
+    schemaVersion: PROJECT_BUNDLE_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: { name: project.name, description: project.description, thumbnail: project.thumbnail },
+    counts: { scripts: scripts.length, designs: designs.length, storyboardShots: shots.length, files: files.length },
+    files,
+    missingFiles,
+  };
+
+  entries.unshift(
+    { name: "manifest.json", data: Buffer.from(JSON.stringify(manifest, null, 2)) },
+    { name: "project.json", data: Buffer.from(JSON.stringify(data)) }
+  );
+  const safeName = project.name.replace(/[\\/:*?"<>|]/g, "_").trim() || "project";
+  return { fileName: `${safeName}.zip`, data: createZip(entries) };
+}
+
+function readJson<T>(files: Map<string, Buffer>, name: string): T {
+  const content = files.get(name);
+  if (!content) {
+    throw new Error(`项目包缺少 ${name}`);
+  }
+  try {
+    return JSON.parse(content.toString("utf8")) as T;
+  } catch {
+    throw new Error(`项目包中的 ${name} 格式错误`);
+  }
+}
+
+/**
+ * 从 zip 导入为当前用户的新项目
+ */
+export async function importProjectBundle(userId: number, bundle: Buffer): Promise<Project> {
+  const files = readZip(bundle);
+  const manifest = readJson<ProjectBundleManifest>(files, "manifest.json");
+  if (manifest.format !== PROJECT_BUNDLE_FORMAT) {
+    throw new Error("不是有效的项目包");
+  }
+  if (!Number.isInteger(manifest.schemaVersion) || manifest.schemaVersion > PROJECT_BUNDLE_SCHEMA_VERSION) {
+    throw new Error(`不支持的项目包版本: ${manifest.schemaVersion}`);
+  }
+  const data = readJson<ProjectBundleData>(files, "project.json");
+
+  // 先存文件，再替换数据中的地址。扩展名按文件内容确定，不是图片 / 视频 / 音频的文件跳过
+  const replacements = new Map<string, { key: string; url: string; media: MediaType; size: number }>();
+  for (const file of manifest.files ?? []) {
+    const content = files.get(file.path);
+    if (!content) continue;
+    const media = sniffMediaType(content);
+    if (!media) continue;
+    const stored = await storagePut(`assets/imported-${nanoid(12)}${media.extension}`, content, media.mimeType);
+    replacements.set(file.source, { ...stored, media, size: content.length });
+  }
+  const remapped = remapUploadUrls({ data, thumbnail: manifest.project.thumbnail }, replacements);
+
+  const project = await createProject({
+    userId,
+    name: manifest.project.name || "导入的项目",
+    description: manifest.project.description,
+    thumbnail: remapped.thumbnail,
+    workflowData: remapped.data.workflowData,
+  });
+
+  const scriptIds = new Map<number, number>();
+  for (const { id, ...script } of remapped.data.scripts ?? []) {
+    const created = await createScript({ ...script, userId, canvasId: project.id });
+    scriptIds.set(id, created.id);
+  }
+  for (const { id: _id, scriptId, ...design } of remapped.data.designs ?? []) {
+    await createDesign({
+      ...design,
+      userId,
+      canvasId: project.id,
+      scriptId: scriptId === null ? null : scriptIds.get(scriptId) ?? null,
+    });
+  }
+  // 分镜按剧本分组批量写入，所属剧本不在包内的跳过
+  const shotsByScript = new Map<number, BundleShot[]>();
+  for (const shot of remapped.data.storyboardShots ?? []) {
+    const scriptId = scriptIds.get(shot.scriptId);
+    if (scriptId === undefined) continue;
+    shotsByScript.set(scriptId, [...(shotsByScript.get(scriptId) ?? []), { ...shot, scriptId }]);
+  }
+  for (const shots of Array.from(shotsByScript.values())) {
+    await createStoryboardShots(shots.map(shot => ({ ...shot, userId })));
+  }
+
+  // 只登记文件在包内且已存入的素材，类型、地址和大小取自存入的文件，不采用包内记录；
+  // 之后把时间轴片段改为引用新的素材 id（没有登记的素材对应的片段丢弃）
+  const importedAssets = new Map<number, Asset>();
+  for (const asset of data.assets ?? []) {
+    const relPath = uploadPathOf(asset.url);
+    const stored = relPath === null ? undefined : replacements.get(relPath);
+    if (!stored) continue;
+    const created = await createAsset({
+      userId,
+      projectId: project.id,
+      type: mediaKindOf(stored.media),
+      url: stored.url,
+      fileKey: stored.key,
+      filename: typeof asset.filename === "string" ? asset.filename.slice(0, 255) : null,
+      mimeType: stored.media.mimeType,
+      size: stored.size,
+      metadata: asset.metadata,
+    });
+    importedAssets.set(asset.id, created);
+  }
+  const workflowData = remapped.data.workflowData as { timeline?: unknown } | null;
+  if (!workflowData?.timeline) return project;
+  const timeline = normalizeTimeline(workflowData.timeline);
+  return updateProject(project.id, {
+    workflowData: {
+      ...workflowData,
+      timeline: {
+        clips: timeline.clips
+          .filter(clip => importedAssets.has(clip.assetId))
+          .map(clip => {
+            const asset = importedAssets.get(clip.assetId)!;
+            return unlinkStoryboard({ ...clip, assetId: asset.id, type: asset.type });
+          }),
+        subtitles: timeline.subtitles.map(unlinkStoryboard),
+      },
+    },
+  });
+}
+
+// 分镜不随包保留 id，导入后时间轴上的片段和字幕保留，但不再与分镜关联同步
+function unlinkStoryboard<T extends { scriptId?: number; shotId?: number }>(item: T): Omit<T, "scriptId" | "shotId"> {
+  const { scriptId: _scriptId, shotId: _shotId, ...rest } = item;
+  return rest;
+}
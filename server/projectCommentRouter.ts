@@ -0,0 +1,109 @@
+import { z } from "zod";
+import { protectedProcedure, router } from "./_core/trpc";
+import {
+  createProjectComment,
+  deleteProjectComment,
+  getProjectCommentById,
+  getProjectComments,
+  updateProjectComment,
+} from "./db";
+import { requireProjectAccess } from "./projectAccess";
+import { assertCommentTarget, buildCommentThreads } from "./projectComments";
+import { COMMENT_TARGET_TYPES } from "../shared/comments";
+
+// ============================================
+// 评审评论（查看者可以浏览，评论者及以上可以发表、回复和解决）
+// ============================================
+
+const contentSchema = z.string().trim().min(1, "评论内容不能为空").max(5000);
+
+async function requireComment(id: number) {
+  const comment = await getProjectCommentById(id);
+  if (!comment) {
+    throw new Error("评论不存在");
+  }
+  return comment;
+}
+
+export const projectCommentRouter = router({
+  // 项目的全部讨论串，画布徽标、分镜 / 设计面板和评审收件箱共用
+  list: protectedProcedure
+    .input(z.object({ projectId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await requireProjectAccess(input.projectId, ctx.user.id);
+      return buildCommentThreads(await getProjectComments(input.projectId));
+    }),
+
+  // 开启新的讨论串
+  create: protectedProcedure
+    .input(z.object({
+      projectId: z.number(),
+      targetType: z.enum(COMMENT_TARGET_TYPES),
+      targetId: z.string().min(1).max(128),
+      targetLabel: z.string().max(255).optional(),
+      content: contentSchema,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await requireProjectAccess(input.projectId, ctx.user.id, "commenter");
+      await assertCommentTarget(input.projectId, input.targetType, input.targetId);
+      return createProjectComment({ ...input, userId: ctx.user.id });
+    }),
+
+  // 回复讨论串；回复某条回复时同样挂在讨论串下
+  reply: protectedProcedure
+    .input(z.object({ commentId: z.number(), content: contentSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const comment = await requireComment(input.commentId);
+      const root = comment.parentId === null ? comment : await requireComment(comment.parentId);
+      await requireProjectAccess(root.projectId, ctx.user.id, "commenter");
+      return createProjectComment({
+        projectId: root.projectId,
+        targetType: root.targetType,
+        targetId: root.targetId,
+        targetLabel: root.targetLabel,
+        parentId: root.id,
+        userId: ctx.user.id,
+        content: input.content,
+      });
+    }),
+
+  // 只能修改自己的评论
+  update: protectedProcedure
+    .input(z.object({ id: z.number(), content: contentSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const comment = await requireComment(input.id);
+      await requireProjectAccess(comment.projectId, ctx.user.id, "commenter");
+      if (comment.userId !== ctx.user.id) {
+        throw new Error("只能修改自己的评论");
+      }
+      await updateProjectComment(comment.id, { content: input.content });
+      return { success: true };
+    }),
+
+  // 作者或项目所有者可以删除
+  delete: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const comment = await requireComment(input.id);
+      const { role } = await requireProjectAccess(comment.projectId, ctx.user.id);
+      if (comment.userId !== ctx.user.id && role !== "owner") {
+        throw new Error("只能删除自己的评论");
+      }
+      await deleteProjectComment(comment.id);
+      return { success: true };
+    }),
+
+  setResolved: protectedProcedure
+    .input(z.object({ id: z.number(), resolved: z.boolean() }))
+    .mutation(async ({ ctx, input }) => {
+      const comment = await requireComment(input.id);
+      if (comment.parentId !== null) {
+        throw new Error("只能解决整个讨论串");
+      }
+      await requireProjectAccess(comment.projectId, ctx.user.id, "commenter");
+      await updateProjectComment(comment.id, input.resolved
+        ? { resolvedAt: new Date(), resolvedBy: ctx.user.id }
+        : { resolvedAt: null, resolvedBy: null });
+      return { success: true };
+    }),
+});
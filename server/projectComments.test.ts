@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("./db", () => ({
+  getDesignById: vi.fn(),
+  getScriptById: vi.fn(),
+  getStoryboardShotById: vi.fn(),
+}));
+
+import { designItemTargetId } from "../shared/comments";
+import { getDesignById, getScriptById, getStoryboardShotById, type ProjectCommentWithUser } from "./db";
+import { assertCommentTarget, buildCommentThreads } from "./projectComments";
+
+function comment(id: number, parentId: number | null, minute: number): ProjectCommentWithUser {
+  return {
+    id,
+    projectId: 7,
+    targetType: "node",
+    targetId: "n1",
+    targetLabel: null,
+    parentId,
+    userId: 1,
+    content: `评论 ${id}`,
+    resolvedAt: null,
+    resolvedBy: null,
+    createdAt: new Date(2026, 0, 1, 0, minute),
+    updatedAt: new Date(2026, 0, 1, 0, minute),
+    username: "director",
+    name: "导演",
+  };
+}
+
+describe("projectComments", () => {
+  describe("buildCommentThreads", () => {
+    it("should group replies under their thread and sort by latest activity", () => {
+      const threads = buildCommentThreads([
+        comment(1, null, 0),
+        comment(2, null, 5),
+        comment(3, 1, 10),
+        comment(4, 1, 8),
+      ]);
+
+      expect(threads.map(thread => thread.id)).toEqual([1, 2]);
+      expect(threads[0].replies.map(reply => reply.id)).toEqual([4, 3]);
+      expect(threads[0].lastActivityAt).toEqual(new Date(2026, 0, 1, 0, 10));
+      expect(threads[1].replies).toEqual([]);
+    });
+
+    it("should drop replies whose thread was deleted", () => {
+      expect(buildCommentThreads([comment(5, 99, 0)])).toEqual([]);
+    });
+  });
+
+  describe("assertCommentTarget", () => {
+    beforeEach(() => {
+      vi.clearAllMocks();
+    });
+
+    it("should accept storyboard shots whose script belongs to the project", async () => {
+      vi.mocked(getStoryboardShotById).mockResolvedValue({ id: 11, scriptId: 5 } as any);
+      vi.mocked(getScriptById).mockResolvedValue({ id: 5, canvasId: 7 } as any);
+
+      await expect(assertCommentTarget(7, "storyboardShot", "11")).resolves.toBeUndefined();
+      await expect(assertCommentTarget(8, "storyboardShot", "11")).rejects.toThrow("评论对象不存在");
+      await expect(assertCommentTarget(7, "storyboardShot", "abc")).rejects.toThrow("评论对象不存在");
+    });
+
+    it("should require design items to exist in the project's design", async () => {
+      vi.mocked(getDesignById).mockResolvedValue({
+        id: 3,
+        canvasId: 7,
+        characters: [{ id: "char-1", characterName: "林夏" }],
+        scenes: [],
+        props: null,
+      } as any);
+
+      await expect(assertCommentTarget(7, "designItem", designItemTargetId(3, "characters", "char-1"))).resolves.toBeUndefined();
+      await expect(assertCommentTarget(7, "designItem", designItemTargetId(3, "scenes", "char-1"))).rejects.toThrow("评论对象不存在");
+      await expect(assertCommentTarget(7, "designItem", "3:unknown:char-1")).rejects.toThrow("评论对象不存在");
+      expect(getDesignById).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,66 @@
+// 评审评论
+// 评论挂在画布节点、分镜或设计项上，第一条评论开启一个讨论串，其余为回复；解决 / 重新打开作用于整个讨论串。
+// 分镜和设计项必须属于评论所在的项目（按剧本 / 设计的 canvasId 判断），节点只校验 id 非空。
+
+import { parseDesignItemTargetId, type CommentTargetType } from "../shared/comments";
+import { getDesignById, getScriptById, getStoryboardShotById, type ProjectCommentWithUser } from "./db";
+
+export interface CommentThread extends ProjectCommentWithUser {
+  replies: ProjectCommentWithUser[];
+  // 最后一条回复（或第一条评论）的时间，收件箱按此排序
+  lastActivityAt: Date;
+}
+
+/**
+ * 把项目的全部评论整理为讨论串，最近有动态的在前
+ */
+export function buildCommentThreads(comments: ProjectCommentWithUser[]): CommentThread[] {
+  const threads = new Map<number, CommentThread>();
+  for (const comment of comments) {
+    if (comment.parentId === null) {
+      threads.set(comment.id, { ...comment, replies: [], lastActivityAt: comment.createdAt });
+    }
+  }
+  for (const comment of comments) {
+    const thread = comment.parentId === null ? undefined : threads.get(comment.parentId);
+    if (!thread) continue;
+    thread.replies.push(comment);
+    if (comment.createdAt > thread.lastActivityAt) thread.lastActivityAt = comment.createdAt;
+  }
+  for (const thread of Array.from(threads.values())) {
+    thread.replies.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id);
+  }
+  return Array.from(threads.values()).sort(
+    (a, b) => b.lastActivityAt.getTime() - a.lastActivityAt.getTime() || b.id - a.id
+  );
+}
+
+/**
+ * 校验评论对象属于该项目
+ */
+export async function assertCommentTarget(projectId: number, targetType: CommentTargetType, targetId: string): Promise<void> {
+  const valid = await isProjectTarget(projectId, targetType, targetId);
+  if (!valid) {
+    throw new Error("评论对象不存在");
+  }
+}
+
+async function isProjectTarget(projectId: number, targetType: CommentTargetType, targetId: string): Promise<boolean> {
+  switch (targetType) {
+    case "node":
+      return targetId.trim().length > 0;
+    case "storyboardShot": {
+      if (!/^\d+$/.test(targetId)) return false;
+      const shot = await getStoryboardShotById(Number(targetId));
+      const script = shot ? await getScriptById(shot.scriptId) : undefined;
+      return script?.canvasId === projectId;
+    }
+    case "designItem": {
+      const parsed = parseDesignItemTargetId(targetId);
+      const design = parsed ? await getDesignById(parsed.designId) : undefined;
+      if (!parsed || design?.canvasId !== projectId) return false;
+      const items = design[parsed.kind];
+      return Array.isArray(items) && items.some(item => (item as { id?: unknown })?.id === parsed.itemId);
+    }
+  }
+}
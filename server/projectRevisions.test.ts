@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("./db", () => ({
+  createProjectRevision: vi.fn(),
+  getLatestProjectRevision: vi.fn(),
+  pruneAutoProjectRevisions: vi.fn(),
+  updateProject: vi.fn(),
+}));
+
+import { createProjectRevision, getLatestProjectRevision, pruneAutoProjectRevisions, updateProject } from "./db";
+import { AUTO_REVISION_INTERVAL_MS, MAX_AUTO_REVISIONS, recordProjectRevision, restoreProjectRevision } from "./projectRevisions";
+
+const graph = (prompt: string) => ({
+  nodes: [{ id: "p", type: "prompt", data: { prompt } }, { id: "t", type: "textToImage", data: {} }],
+  edges: [{ id: "e", source: "p", target: "t" }],
+});
+
+const now = new Date("2026-03-01T12:00:00Z");
+
+function latest(workflowData: unknown, minutesAgo: number) {
+  return { id: 1, projectId: 7, source: "auto", workflowData, createdAt: new Date(now.getTime() - minutesAgo * 60_000) } as any;
+}
+
+describe("projectRevisions", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(createProjectRevision).mockImplementation(async data => ({ id: 2, ...data }) as any);
+  });
+
+  describe("recordProjectRevision", () => {
+    it("should record manual saves with graph counts", async () => {
+      vi.mocked(getLatestProjectRevision).mockResolvedValue(latest(graph("a"), 1));
+
+      await recordProjectRevision({ id: 7, workflowData: graph("b") }, 1, "manual", now);
+
+      expect(createProjectRevision).toHaveBeenCalledWith({
+        projectId: 7,
+        userId: 1,
+        source: "manual",
+        workflowData: graph("b"),
+        nodeCount: 2,
+        edgeCount: 1,
+      });
+      expect(pruneAutoProjectRevisions).not.toHaveBeenCalled();
+    });
+
+    it("should skip unchanged graphs", async () => {
+      vi.mocked(getLatestProjectRevision).mockResolvedValue(latest(graph("a"), 60));
+
+      expect(await recordProjectRevision({ id: 7, workflowData: graph("a") }, 1, "manual", now)).toBeNull();
+      expect(createProjectRevision).not.toHaveBeenCalled();
+    });
+
+    it("should record auto-saves only after the interval and prune old ones", async () => {
+      const recentMinutes = AUTO_REVISION_INTERVAL_MS / 60_000 - 1;
+      vi.mocked(getLatestProjectRevision).mockResolvedValue(latest(graph("a"), recentMinutes));
+      expect(await recordProjectRevision({ id: 7, workflowData: graph("b") }, 1, "auto", now)).toBeNull();
+
+      vi.mocked(getLatestProjectRevision).mockResolvedValue(latest(graph("a"), recentMinutes + 2));
+      expect(await recordProjectRevision({ id: 7, workflowData: graph("b") }, 1, "auto", now)).not.toBeNull();
+      expect(pruneAutoProjectRevisions).toHaveBeenCalledWith(7, MAX_AUTO_REVISIONS);
+    });
+  });
+
+  describe("restoreProjectRevision", () => {
+    it("should keep the current graph as a revision before restoring", async () => {
+      vi.mocked(getLatestProjectRevision).mockResolvedValue(latest(graph("old"), 1));
+      const target = { ...latest(graph("old"), 30), id: 5 };
+
+      await restoreProjectRevision({ id: 7, workflowData: graph("current") }, target, 1);
+
+      expect(createProjectRevision).toHaveBeenCalledWith(expect.objectContaining({ source: "restore", workflowData: graph("current") }));
+      expect(updateProject).toHaveBeenCalledWith(7, { workflowData: graph("old") });
+    });
+
+    it("should reject revisions of other projects", async () => {
+      await expect(
+        restoreProjectRevision({ id: 8, workflowData: graph("a") }, latest(graph("b"), 1), 1)
+      ).rejects.toThrow("版本不属于该项目");
+      expect(updateProject).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,72 @@
+// 项目版本历史
+// project.update 会原地覆盖 workflowData，这里在保存时另存快照：
+// 手动保存总是记录；自动保存每隔一段时间记录一次，并只保留最近若干个。
+// 画布与上一个版本相同时不重复记录。
+
+import type { Project, ProjectRevision } from "../drizzle/schema";
+import {
+  createProjectRevision,
+  getLatestProjectRevision,
+  pruneAutoProjectRevisions,
+  updateProject,
+} from "./db";
+
+export const AUTO_REVISION_INTERVAL_MS = 10 * 60 * 1000;
+export const MAX_AUTO_REVISIONS = 50;
+
+export type RevisionSource = ProjectRevision["source"];
+
+function countGraph(workflowData: unknown): { nodeCount: number; edgeCount: number } {
+  const data = (workflowData ?? {}) as { nodes?: unknown[]; edges?: unknown[] };
+  return {
+    nodeCount: Array.isArray(data.nodes) ? data.nodes.length : 0,
+    edgeCount: Array.isArray(data.edges) ? data.edges.length : 0,
+  };
+}
+
+/**
+ * 为项目当前的 workflowData 记录一个版本，未记录（无变化或未到间隔）时返回 null
+ */
+export async function recordProjectRevision(
+  project: Pick<Project, "id" | "workflowData">,
+  userId: number,
+  source: RevisionSource,
+  now: Date = new Date()
+): Promise<ProjectRevision | null> {
+  if (!project.workflowData) return null;
+
+  const latest = await getLatestProjectRevision(project.id);
+  if (latest && JSON.stringify(latest.workflowData) === JSON.stringify(project.workflowData)) {
+    return null;
+  }
+  if (source === "auto" && latest && now.getTime() - latest.createdAt.getTime() < AUTO_REVISION_INTERVAL_MS) {
+    return null;
+  }
+
+  const revision = await createProjectRevision({
+    projectId: project.id,
+    userId,
+    source,
+    workflowData: project.workflowData,
+    ...countGraph(project.workflowData),
+  });
+  if (source === "auto") {
+    await pruneAutoProjectRevisions(project.id, MAX_AUTO_REVISIONS);
+  }
+  return revision;
+}
+
+/**
+ * 恢复到指定版本；恢复前的画布先记为一个版本，恢复操作本身也可以撤回
+ */
+export async function restoreProjectRevision(
+  project: Pick<Project, "id" | "workflowData">,
+  revision: ProjectRevision,
+  userId: number
+): Promise<Project> {
+  if (revision.projectId !== project.id) {
+    throw new Error("版本不属于该项目");
+  }
+  await recordProjectRevision(project, userId, "restore");
+  return updateProject(project.id, { workflowData: revision.workflowData });
+}
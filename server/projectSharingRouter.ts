@@ -0,0 +1,128 @@
+import { z } from "zod";
+import { nanoid } from "nanoid";
+import { protectedProcedure, publicProcedure, router } from "./_core/trpc";
+import {
+  createProjectShareLink,
+  getProjectMembers,
+  getProjectShareLinkByToken,
+  getProjectShareLinks,
+  getProjectById,
+  getUserById,
+  getUserByUsername,
+  removeProjectMember,
+  revokeProjectShareLink,
+  upsertProjectMember,
+} from "./db";
+import { requireProjectAccess } from "./projectAccess";
+import { MEMBER_ROLES } from "../shared/projectRoles";
+
+// ============================================
+// 项目成员与只读分享链接（角色见 shared/projectRoles.ts）
+// ============================================
+
+const memberRoleSchema = z.enum(MEMBER_ROLES);
+
+export const projectSharingRouter = router({
+  // 成员列表（所有者在最前）
+  listMembers: protectedProcedure
+    .input(z.object({ projectId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const { project } = await requireProjectAccess(input.projectId, ctx.user.id);
+      const [owner, members] = await Promise.all([getUserById(project.userId), getProjectMembers(project.id)]);
+      return {
+        owner: { userId: project.userId, username: owner?.username ?? null, name: owner?.name ?? null, role: "owner" as const },
+        members: members.map(member => ({
+          userId: member.userId,
+          username: member.username,
+          name: member.name,
+          role: member.role,
+        })),
+      };
+    }),
+
+  // 按用户名邀请；已是成员时更新角色
+  invite: protectedProcedure
+    .input(z.object({ projectId: z.number(), username: z.string().trim().min(1), role: memberRoleSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const { project } = await requireProjectAccess(input.projectId, ctx.user.id, "owner");
+      const invitee = await getUserByUsername(input.username);
+      if (!invitee) {
+        throw new Error(`用户 ${input.username} 不存在`);
+      }
+      if (invitee.id === project.userId) {
+        throw new Error("不能邀请项目所有者");
+      }
+      return upsertProjectMember({ projectId: project.id, userId: invitee.id, role: input.role, invitedBy: ctx.user.id });
+    }),
+
+  updateRole: protectedProcedure
+    .input(z.object({ projectId: z.number(), userId: z.number(), role: memberRoleSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const { project } = await requireProjectAccess(input.projectId, ctx.user.id, "owner");
+      const members = await getProjectMembers(project.id);
+      if (!members.some(member => member.userId === input.userId)) {
+        throw new Error("成员不存在");
+      }
+      return upsertProjectMember({ projectId: project.id, userId: input.userId, role: input.role, invitedBy: ctx.user.id });
+    }),
+
+  // 所有者移除成员，成员也可以自己退出
+  removeMember: protectedProcedure
+    .input(z.object({ projectId: z.number(), userId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const leaving = input.userId === ctx.user.id;
+      await requireProjectAccess(input.projectId, ctx.user.id, leaving ? "viewer" : "owner");
+      await removeProjectMember(input.projectId, input.userId);
+      return { success: true };
+    }),
+
+  listShareLinks: protectedProcedure
+    .input(z.object({ projectId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await requireProjectAccess(input.projectId, ctx.user.id, "owner");
+      return getProjectShareLinks(input.projectId);
+    }),
+
+  createShareLink: protectedProcedure
+    .input(z.object({ projectId: z.number(), expiresInDays: z.number().int().min(1).max(365).optional() }))
+    .mutation(async ({ ctx, input }) => {
+      await requireProjectAccess(input.projectId, ctx.user.id, "owner");
+      return createProjectShareLink({
+        projectId: input.projectId,
+        token: nanoid(32),
+        createdBy: ctx.user.id,
+        expiresAt: input.expiresInDays ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000) : null,
+      });
+    }),
+
+  revokeShareLink: protectedProcedure
+    .input(z.object({ projectId: z.number(), linkId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await requireProjectAccess(input.projectId, ctx.user.id, "owner");
+      const links = await getProjectShareLinks(input.projectId);
+      if (!links.some(link => link.id === input.linkId)) {
+        throw new Error("分享链接不存在");
+      }
+      await revokeProjectShareLink(input.linkId);
+      return { success: true };
+    }),
+
+  // 通过分享链接查看项目（无需登录，只读）
+  getShared: publicProcedure
+    .input(z.object({ token: z.string().min(1).max(64) }))
+    .query(async ({ input }) => {
+      const link = await getProjectShareLinkByToken(input.token);
+      const expired = !!link?.expiresAt && link.expiresAt.getTime() <= Date.now();
+      const project = link && !link.revokedAt && !expired ? await getProjectById(link.projectId) : undefined;
+      if (!project || project.status !== "active") {
+        throw new Error("分享链接无效或已过期");
+      }
+      return {
+        id: project.id,
+        name: project.name,
+        description: project.description,
+        workflowData: project.workflowData,
+        updatedAt: project.updatedAt,
+      };
+    }),
+});
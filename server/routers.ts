@@ -10,6 +10,18 @@ import { basicCreationRouter } from "./basicCreationRouter";
 import { assistantCharacterDesignRouter } from "./assistantCharacterDesignRouter";
 import { assistantCreativeRouter } from "./assistantCreativeRouter";
 import { authRouter } from "./authRouter";
+import { usageRouter } from "./usageRouter";
+import { workflowRouter } from "./workflowRouter";
+import { recordProjectRevision, restoreProjectRevision } from "./projectRevisions";
+import { collabRouter } from "./collabRouter";
+import { applyWorkflowToCollabRoom } from "./collaboration";
+import { projectSharingRouter } from "./projectSharingRouter";
+import { projectCommentRouter } from "./projectCommentRouter";
+import { timelineRouter } from "./timelineRouter";
+import { voiceoverRouter } from "./voiceoverRouter";
+import { exportProjectBundle, importProjectBundle, MAX_PROJECT_BUNDLE_BASE64_LENGTH } from "./projectBundle";
+import { getProjectRole, requireProjectAccess } from "./projectAccess";
+import type { ProjectRole } from "../shared/projectRoles";
 import { 
   createProject, 
   getUserProjects, 
@@ -21,6 +33,9 @@ import {
   getProjectAssets,
   createGenerationTask,
   updateGenerationTask,
+  getGenerationTask,
+  getProjectGenerationTasks,
+  cancelPendingGenerationJob,
   getWorkflowTemplates,
   createCustomStyle,
   getUserCustomStyles,
@@ -34,9 +49,17 @@ import {
   getUserPrompts,
   createPrompt,
   updatePrompt,
-  deletePrompt
+  deletePrompt,
+  getProjectRevisions,
+  getProjectRevision,
+  getSharedProjects,
 } from "./db";
 import { generateImage } from "./_core/imageGeneration";
+import { aspectRatioFromSize, listImageProviders } from "./_core/imageProviders";
+import { listLLMBackends } from "./_core/llmBackends";
+import { generateVideo, MAX_VIDEO_DIMENSION, MIN_VIDEO_DIMENSION } from "./_core/videoGeneration";
+import { enqueueGenerationJob, QUEUEABLE_JOB_TYPES } from "./generationQueue";
+import { streamGenerationEvents } from "./generationEvents";
 import { invokeGeminiLLM } from "./_core/gemini";
 import { storagePut } from "./storage";
 import { nanoid } from "nanoid";
@@ -51,22 +74,31 @@ export const appRouter = router({
   assistantCreative: assistantCreativeRouter,
   
   auth: authRouter,
+  usage: usageRouter,
+  workflow: workflowRouter,
+  collab: collabRouter,
+  projectSharing: projectSharingRouter,
+  comment: projectCommentRouter,
+  timeline: timelineRouter,
+  voiceover: voiceoverRouter,
 
   // Project management
   project: router({
     list: protectedProcedure.query(async ({ ctx }) => {
-      // 只返回当前用户的项目
-      return getUserProjects(ctx.user.id);
+      // 当前用户的项目在前，之后是他人邀请加入的项目
+      const [owned, shared] = await Promise.all([getUserProjects(ctx.user.id), getSharedProjects(ctx.user.id)]);
+      return [...owned.map(project => ({ ...project, role: "owner" as ProjectRole })), ...shared];
     }),
 
     get: protectedProcedure
       .input(z.object({ id: z.number() }))
       .query(async ({ ctx, input }) => {
         const project = await getProjectById(input.id);
-        if (!project || project.userId !== ctx.user.id) {
+        const role = project ? await getProjectRole(project, ctx.user.id) : null;
+        if (!project || !role) {
           throw new Error("项目不存在");
         }
-        return project;
+        return { ...project, role };
       }),
 
     create: protectedProcedure
@@ -86,10 +118,7 @@ export const appRouter = router({
     rename: protectedProcedure
       .input(z.object({ id: z.number(), name: z.string() }))
       .mutation(async ({ ctx, input }) => {
-        const project = await getProjectById(input.id);
-        if (!project || project.userId !== ctx.user.id) {
-          throw new Error("Project not found");
-        }
+        await requireProjectAccess(input.id, ctx.user.id, "editor");
         return updateProject(input.id, { name: input.name });
       }),
 
@@ -100,35 +129,82 @@ export const appRouter = router({
         description: z.string().optional(),
         thumbnail: z.string().optional(),
         workflowData: z.any().optional(),
+        // 保存来源，用于记录版本历史（见 projectRevisions.ts）
+        saveKind: z.enum(["manual", "auto"]).optional(),
       }))
       .mutation(async ({ ctx, input }) => {
-        const project = await getProjectById(input.id);
-        if (!project || project.userId !== ctx.user.id) {
-          throw new Error("Project not found");
+        await requireProjectAccess(input.id, ctx.user.id, "editor");
+        const { id, saveKind, ...data } = input;
+        const updated = await updateProject(id, data);
+        if (saveKind && data.workflowData !== undefined) {
+          await recordProjectRevision(updated, ctx.user.id, saveKind).catch(error =>
+            console.error(`[Project] Failed to record revision for project ${id}:`, error)
+          );
         }
-        const { id, ...data } = input;
-        return updateProject(id, data);
+        return updated;
+      }),
+
+    listRevisions: protectedProcedure
+      .input(z.object({ projectId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        await requireProjectAccess(input.projectId, ctx.user.id);
+        return getProjectRevisions(input.projectId);
+      }),
+
+    getRevision: protectedProcedure
+      .input(z.object({ projectId: z.number(), revisionId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const { project } = await requireProjectAccess(input.projectId, ctx.user.id);
+        const revision = await getProjectRevision(input.revisionId);
+        if (!revision || revision.projectId !== project.id) {
+          throw new Error("版本不存在");
+        }
+        return revision;
+      }),
+
+    restoreRevision: protectedProcedure
+      .input(z.object({ projectId: z.number(), revisionId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const { project } = await requireProjectAccess(input.projectId, ctx.user.id, "editor");
+        const revision = await getProjectRevision(input.revisionId);
+        if (!revision || revision.projectId !== project.id) {
+          throw new Error("版本不存在");
+        }
+        const restored = await restoreProjectRevision(project, revision, ctx.user.id);
+        // 正在协同编辑时，恢复结果作为一次修改同步给所有在线成员
+        await applyWorkflowToCollabRoom(project.id, restored.workflowData);
+        return restored;
       }),
 
     delete: protectedProcedure
       .input(z.object({ id: z.number() }))
       .mutation(async ({ ctx, input }) => {
-        const project = await getProjectById(input.id);
-        if (!project || project.userId !== ctx.user.id) {
-          throw new Error("Project not found");
-        }
+        await requireProjectAccess(input.id, ctx.user.id, "owner");
         return deleteProject(input.id);
       }),
 
     duplicate: protectedProcedure
       .input(z.object({ id: z.number() }))
       .mutation(async ({ ctx, input }) => {
-        const project = await getProjectById(input.id);
-        if (!project || project.userId !== ctx.user.id) {
-          throw new Error("Project not found");
-        }
+        // 可以查看的项目都能复制一份到自己名下
+        await requireProjectAccess(input.id, ctx.user.id);
         return duplicateProject(input.id, ctx.user.id);
       }),
+
+    // 导出为自包含的 zip 项目包（base64），可以导入到其他部署
+    export: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const { project } = await requireProjectAccess(input.id, ctx.user.id);
+        const bundle = await exportProjectBundle(project);
+        return { fileName: bundle.fileName, data: bundle.data.toString("base64") };
+      }),
+
+    import: protectedProcedure
+      .input(z.object({ data: z.string().min(1).max(MAX_PROJECT_BUNDLE_BASE64_LENGTH) }))
+      .mutation(async ({ ctx, input }) => {
+        return importProjectBundle(ctx.user.id, Buffer.from(input.data, "base64"));
+      }),
   }),
 
   // Asset management
@@ -136,10 +212,7 @@ export const appRouter = router({
     list: protectedProcedure
       .input(z.object({ projectId: z.number() }))
       .query(async ({ ctx, input }) => {
-        const project = await getProjectById(input.projectId);
-        if (!project || project.userId !== ctx.user.id) {
-          throw new Error("Project not found");
-        }
+        await requireProjectAccess(input.projectId, ctx.user.id);
         return getProjectAssets(input.projectId);
       }),
 
@@ -157,10 +230,7 @@ export const appRouter = router({
       }))
       .mutation(async ({ ctx, input }) => {
         if (input.projectId) {
-          const project = await getProjectById(input.projectId);
-          if (!project || project.userId !== ctx.user.id) {
-            throw new Error("Project not found");
-          }
+          await requireProjectAccess(input.projectId, ctx.user.id, "editor");
         }
         return createAsset({
           userId: ctx.user.id,
@@ -171,6 +241,22 @@ export const appRouter = router({
 
   // AI Generation
   ai: router({
+    // 可选的图片生成服务
+    listImageProviders: protectedProcedure.query(async ({ ctx }) => {
+      return {
+        providers: listImageProviders(),
+        userDefault: ctx.user.imageProvider ?? null,
+      };
+    }),
+
+    // 可选的文本模型后端
+    listLLMBackends: protectedProcedure.query(async ({ ctx }) => {
+      return {
+        backends: listLLMBackends(),
+        userDefault: ctx.user.llmBackend ?? null,
+      };
+    }),
+
     // Text to Image generation
     textToImage: protectedProcedure
       .input(z.object({
@@ -184,21 +270,29 @@ export const appRouter = router({
       }))
       .mutation(async ({ ctx, input }) => {
         const { prompt, negativePrompt, model, width, height, projectId, nodeId } = input;
+
+        if (projectId) {
+          await requireProjectAccess(projectId, ctx.user.id, "editor");
+        }
         
-        // Create task record
-        const task = await createGenerationTask({
+        // Create task record (由队列执行时复用队列中的任务记录)
+        const taskId = ctx.queuedTaskId ?? (await createGenerationTask({
           userId: ctx.user.id,
           projectId,
           nodeId,
           taskType: "text2img",
           inputData: { prompt, negativePrompt, model, width, height },
-        });
+        })).id;
 
         try {
-          // Use built-in image generation
+          // model 为已注册的图片服务 id 时使用该服务，否则使用用户默认服务
           const result = await generateImage({
             prompt: prompt,
-            apiKey: ctx.user?.apiKey,
+            negativePrompt,
+            aspectRatio: aspectRatioFromSize(width, height),
+            provider: model,
+            userProvider: ctx.user.imageProvider,
+            apiKey: ctx.user?.apiKey ?? undefined,
           });
 
           // OSS URL 用于数据库存储（短链接）
@@ -210,7 +304,7 @@ export const appRouter = router({
           }
 
           // Update task with result (存储 OSS URL)
-          await updateGenerationTask(task.id, {
+          await updateGenerationTask(taskId, {
             status: "completed",
             outputData: { imageUrl: ossUrl },
           });
@@ -230,10 +324,10 @@ export const appRouter = router({
           return {
             success: true,
             imageUrl: displayUrl,  // 返回 base64 给前端显示
-            taskId: task.id,
+            taskId,
           };
         } catch (error) {
-          await updateGenerationTask(task.id, {
+          await updateGenerationTask(taskId, {
             status: "failed",
             errorMessage: error instanceof Error ? error.message : "Generation failed",
           });
@@ -255,28 +349,22 @@ export const appRouter = router({
       }))
       .mutation(async ({ ctx, input }) => {
         const { prompt, imageUrl, strength, model, width, height, projectId, nodeId } = input;
-        
-        // 计算宽高比例
-        let aspectRatio: "1:1" | "16:9" | "9:16" | "4:3" | "3:4" | "5:4" | undefined;
-        if (width && height) {
-          const ratio = width / height;
-          if (Math.abs(ratio - 1) < 0.1) aspectRatio = "1:1";
-          else if (Math.abs(ratio - 16/9) < 0.1) aspectRatio = "16:9";
-          else if (Math.abs(ratio - 9/16) < 0.1) aspectRatio = "9:16";
-          else if (Math.abs(ratio - 4/3) < 0.1) aspectRatio = "4:3";
-          else if (Math.abs(ratio - 3/4) < 0.1) aspectRatio = "3:4";
-          else if (Math.abs(ratio - 5/4) < 0.1) aspectRatio = "5:4";
-          // 21:9 不支持，默认使用 16:9
-          else if (Math.abs(ratio - 21/9) < 0.1) aspectRatio = "16:9";
+
+        if (projectId) {
+          await requireProjectAccess(projectId, ctx.user.id, "editor");
         }
         
-        const task = await createGenerationTask({
+        // 计算宽高比例（21:9 等不支持的比例取最接近的）
+        const aspectRatio = aspectRatioFromSize(width, height);
+        
+        // 由队列执行时复用队列中的任务记录
+        const taskId = ctx.queuedTaskId ?? (await createGenerationTask({
           userId: ctx.user.id,
           projectId,
           nodeId,
           taskType: "img2img",
           inputData: { prompt, imageUrl, strength, model, width, height },
-        });
+        })).id;
 
         try {
           // Use built-in image generation with reference image
@@ -287,7 +375,9 @@ export const appRouter = router({
               mimeType: "image/png",
             }],
             aspectRatio,
-            apiKey: ctx.user?.apiKey,
+            provider: model,
+            userProvider: ctx.user.imageProvider,
+            apiKey: ctx.user?.apiKey ?? undefined,
           });
 
           // OSS URL 用于数据库存储
@@ -298,7 +388,7 @@ export const appRouter = router({
             displayUrl = `data:${result.mimeType};base64,${result.base64}`;
           }
 
-          await updateGenerationTask(task.id, {
+          await updateGenerationTask(taskId, {
             status: "completed",
             outputData: { imageUrl: ossUrl },
           });
@@ -317,10 +407,102 @@ export const appRouter = router({
           return {
             success: true,
             imageUrl: displayUrl,  // 返回 base64 给前端显示
-            taskId: task.id,
+            taskId,
           };
         } catch (error) {
-          await updateGenerationTask(task.id, {
+          await updateGenerationTask(taskId, {
+            status: "failed",
+            errorMessage: error instanceof Error ? error.message : "Generation failed",
+          });
+          throw error;
+        }
+      }),
+
+    // Image to Video generation
+    imageToVideo: protectedProcedure
+      .input(z.object({
+        prompt: z.string(),
+        imageUrl: z.string(),
+        model: z.string().optional(),
+        duration: z.number().min(1).max(30).optional().default(5),
+        aspectRatio: z.enum(["1:1", "16:9", "9:16", "4:3", "3:4", "21:9"]).optional(),
+        width: z.number().int().min(MIN_VIDEO_DIMENSION).max(MAX_VIDEO_DIMENSION).optional(),
+        height: z.number().int().min(MIN_VIDEO_DIMENSION).max(MAX_VIDEO_DIMENSION).optional(),
+        projectId: z.number().optional(),
+        nodeId: z.string().optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const { prompt, imageUrl, model, duration, aspectRatio, width, height, projectId, nodeId } = input;
+
+        if (projectId) {
+          await requireProjectAccess(projectId, ctx.user.id, "editor");
+        }
+
+        // 由队列执行时复用队列中的任务记录
+        const taskId = ctx.queuedTaskId ?? (await createGenerationTask({
+          userId: ctx.user.id,
+          projectId,
+          nodeId,
+          taskType: "img2video",
+          // data: URL 体积过大，不写入任务记录
+          inputData: {
+            prompt,
+            model,
+            duration,
+            aspectRatio,
+            width,
+            height,
+            imageUrl: imageUrl.startsWith("data:") ? "data-url" : imageUrl,
+          },
+        })).id;
+
+        try {
+          await updateGenerationTask(taskId, { status: "processing" });
+
+          const result = await generateVideo({
+            prompt,
+            imageUrl,
+            model,
+            duration,
+            aspectRatio,
+            width,
+            height,
+            apiKey: ctx.user?.apiKey ?? undefined,
+          });
+
+          await updateGenerationTask(taskId, {
+            status: "completed",
+            outputData: { videoUrl: result.url, provider: result.provider },
+          });
+
+          const asset = await createAsset({
+            userId: ctx.user.id,
+            projectId,
+            nodeId,
+            type: "video",
+            url: result.url,
+            fileKey: result.fileKey,
+            filename: result.fileKey.split("/").pop(),
+            mimeType: result.mimeType,
+            size: result.size,
+            metadata: {
+              prompt,
+              model,
+              provider: result.provider,
+              duration: result.duration,
+              width: result.width,
+              height: result.height,
+            },
+          });
+
+          return {
+            success: true,
+            videoUrl: result.url,
+            taskId,
+            assetId: asset.id,
+          };
+        } catch (error) {
+          await updateGenerationTask(taskId, {
             status: "failed",
             errorMessage: error instanceof Error ? error.message : "Generation failed",
           });
@@ -1035,8 +1217,77 @@ Output a high-quality, seamlessly edited image.`;
       }),
   }),
 
-  // Generation tasks (legacy, kept for compatibility)
+  // Generation tasks
   generation: router({
+    // 加入持久化队列，立即返回任务，通过 get / listByProject 轮询结果
+    enqueue: protectedProcedure
+      .input(z.object({
+        jobType: z.enum(QUEUEABLE_JOB_TYPES),
+        input: z.any(),
+        projectId: z.number().optional(),
+        nodeId: z.string().optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        if (input.projectId) {
+          await requireProjectAccess(input.projectId, ctx.user.id, "editor");
+        }
+        return enqueueGenerationJob({
+          userId: ctx.user.id,
+          ...input,
+        });
+      }),
+
+    get: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const task = await getGenerationTask(input.id);
+        if (!task || task.userId !== ctx.user.id) {
+          throw new Error("Task not found");
+        }
+        return task;
+      }),
+
+    listByProject: protectedProcedure
+      .input(z.object({
+        projectId: z.number(),
+        status: z.enum(["pending", "processing", "completed", "failed"]).optional(),
+        limit: z.number().min(1).max(200).optional(),
+      }))
+      .query(async ({ ctx, input }) => {
+        await requireProjectAccess(input.projectId, ctx.user.id);
+        return getProjectGenerationTasks(input.projectId, {
+          status: input.status,
+          limit: input.limit,
+        });
+      }),
+
+    // 只能取消尚未开始执行的任务
+    cancel: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const task = await getGenerationTask(input.id);
+        if (!task || task.userId !== ctx.user.id) {
+          throw new Error("Task not found");
+        }
+        const cancelled = await cancelPendingGenerationJob(input.id);
+        if (!cancelled) {
+          throw new Error("任务已开始执行，无法取消");
+        }
+        return { success: true };
+      }),
+
+    // 订阅生成进度（SSE），只推送当前用户的任务事件
+    onProgress: protectedProcedure
+      .input(z.object({
+        taskId: z.number().optional(),
+        projectId: z.number().optional(),
+        nodeId: z.string().optional(),
+      }))
+      .subscription(async function* ({ ctx, input, signal }) {
+        yield* streamGenerationEvents({ ...input, userId: ctx.user.id }, signal);
+      }),
+
+    // Legacy, kept for compatibility
     create: protectedProcedure
       .input(z.object({
         projectId: z.number().optional(),
@@ -1046,10 +1297,7 @@ Output a high-quality, seamlessly edited image.`;
       }))
       .mutation(async ({ ctx, input }) => {
         if (input.projectId) {
-          const project = await getProjectById(input.projectId);
-          if (!project || project.userId !== ctx.user.id) {
-            throw new Error("Project not found");
-          }
+          await requireProjectAccess(input.projectId, ctx.user.id, "editor");
         }
         return createGenerationTask({
           userId: ctx.user.id,
@@ -1057,15 +1305,24 @@ Output a high-quality, seamlessly edited image.`;
         });
       }),
 
+    // Legacy：只能结束自己通过 create 创建的任务；队列任务的状态由队列维护，
+    // 不能被改回 pending / processing 重新执行
     update: protectedProcedure
       .input(z.object({
         id: z.number(),
-        status: z.enum(["pending", "processing", "completed", "failed"]).optional(),
+        status: z.enum(["completed", "failed"]).optional(),
         outputData: z.any().optional(),
         errorMessage: z.string().optional(),
       }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
         const { id, ...data } = input;
+        const task = await getGenerationTask(id);
+        if (!task || task.userId !== ctx.user.id) {
+          throw new Error("Task not found");
+        }
+        if (task.jobType) {
+          throw new Error("队列任务的状态不能手动修改");
+        }
         return updateGenerationTask(id, data);
       }),
   }),
@@ -109,6 +109,23 @@ export async function storagePut(
   };
 }
 
+/**
+ * 本服务器上传文件的本地路径（地址可以是完整 URL、/uploads/... 或 uploads/...），
+ * 不是上传文件或文件不存在时返回 null
+ */
+export function localUploadPath(url: string): string | null {
+  const match = url.match(/^(?:https?:\/\/[^/]+)?\/?uploads\/([^?#]+)/);
+  if (!match) return null;
+  let relPath: string;
+  try {
+    relPath = decodeURIComponent(match[1]);
+  } catch {
+    return null;
+  }
+  const filePath = path.resolve(UPLOAD_BASE_DIR, relPath);
+  return filePath.startsWith(UPLOAD_BASE_DIR + path.sep) && fs.existsSync(filePath) ? filePath : null;
+}
+
 /**
  * 获取文件的访问 URL
  * @param relKey 文件相对路径
@@ -53,6 +53,7 @@ async function fetchImageWithRetry(
   throw new Error(`下载图片失败（已重试 ${maxRetries} 次）: ${lastError?.message || '未知错误'}`);
 }
 import { scripts, designs } from "../drizzle/schema";
+import { requireScriptAccess, requireStoryboardShotAccess } from "./projectAccess";
 import { eq, and } from "drizzle-orm";
 import {
   createStoryboardShot,
@@ -212,21 +213,23 @@ export const storyboardShotRouter = router({
   // 获取剧本的所有分镜
   getByScriptId: protectedProcedure
     .input(z.object({ scriptId: z.number() }))
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
+      await requireScriptAccess(input.scriptId, ctx.user.id);
       return getStoryboardShotsByScriptId(input.scriptId);
     }),
 
   // 获取单个分镜
   getById: protectedProcedure
     .input(z.object({ id: z.number() }))
-    .query(async ({ input }) => {
-      return getStoryboardShotById(input.id);
+    .query(async ({ ctx, input }) => {
+      return requireStoryboardShotAccess(input.id, ctx.user.id).catch(() => undefined);
     }),
 
   // 创建单个分镜
   create: protectedProcedure
     .input(storyboardShotSchema)
     .mutation(async ({ ctx, input }) => {
+      await requireScriptAccess(input.scriptId, ctx.user.id, "editor");
       return createStoryboardShot({
         ...input,
         userId: ctx.user.id,
@@ -240,6 +243,7 @@ export const storyboardShotRouter = router({
       shots: z.array(storyboardShotSchema.omit({ scriptId: true })),
     }))
     .mutation(async ({ ctx, input }) => {
+      await requireScriptAccess(input.scriptId, ctx.user.id, "editor");
       const shotsWithScriptId = input.shots.map((shot) => ({
         ...shot,
         scriptId: input.scriptId,
@@ -254,14 +258,20 @@ export const storyboardShotRouter = router({
       id: z.number(),
       data: storyboardShotSchema.partial(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      await requireStoryboardShotAccess(input.id, ctx.user.id, "editor");
+      // 移动到其他剧本时同样需要目标剧本的编辑权限
+      if (input.data.scriptId !== undefined) {
+        await requireScriptAccess(input.data.scriptId, ctx.user.id, "editor");
+      }
       return updateStoryboardShot(input.id, input.data);
     }),
 
   // 删除单个分镜
   delete: protectedProcedure
     .input(z.object({ id: z.number() }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      await requireStoryboardShotAccess(input.id, ctx.user.id, "editor");
       await deleteStoryboardShot(input.id);
       return { success: true };
     }),
@@ -269,7 +279,8 @@ export const storyboardShotRouter = router({
   // 删除剧本的所有分镜
   deleteByScriptId: protectedProcedure
     .input(z.object({ scriptId: z.number() }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      await requireScriptAccess(input.scriptId, ctx.user.id, "editor");
       await deleteStoryboardShotsByScriptId(input.scriptId);
       return { success: true };
     }),
@@ -288,17 +299,7 @@ export const storyboardShotRouter = router({
         throw new Error('数据库连接失败');
       }
       
-      const [scriptData] = await db.select()
-        .from(scripts)
-        .where(and(
-          eq(scripts.id, input.scriptId),
-          eq(scripts.userId, ctx.user.id)
-        ))
-        .limit(1);
-      
-      if (!scriptData) {
-        throw new Error('剧本不存在或无权访问');
-      }
+      const scriptData = await requireScriptAccess(input.scriptId, ctx.user.id, "editor");
       
       // 2. 提取场景分镜基础版数据
       const scenes = extractScenesFromScript(scriptData);
@@ -561,30 +562,20 @@ ${adaptedStory || '无改编剧本内容，请根据场景分镜基础版直接
       }
 
       // 1. 获取剧本数据（改编剧本内容）
-      const [scriptData] = await db.select()
-        .from(scripts)
-        .where(and(
-          eq(scripts.id, input.scriptId),
-          eq(scripts.userId, ctx.user.id)
-        ))
-        .limit(1);
-
-      if (!scriptData) {
-        throw new Error('剧本不存在或无权访问');
-      }
+      const scriptData = await requireScriptAccess(input.scriptId, ctx.user.id, "editor");
 
       // 2. 获取形象设计数据（角色、场景信息）
       const [designData] = await db.select()
         .from(designs)
         .where(and(
           eq(designs.scriptId, input.scriptId),
-          eq(designs.userId, ctx.user.id)
+          eq(designs.canvasId, scriptData.canvasId)
         ))
         .limit(1);
 
       // 3. 获取当前分镜数据
       const shotData = await getStoryboardShotById(input.shotId);
-      if (!shotData) {
+      if (!shotData || shotData.scriptId !== input.scriptId) {
         throw new Error('分镜不存在');
       }
 
@@ -748,10 +739,7 @@ ${input.sketchDataUrl ? '\n【草图图片】\n请识别上面的草图图片，
     }))
     .query(async ({ ctx, input }) => {
       // 1. 获取分镜数据
-      const shotData = await getStoryboardShotById(input.shotId);
-      if (!shotData) {
-        throw new Error('分镜不存在');
-      }
+      const shotData = await requireStoryboardShotAccess(input.shotId, ctx.user.id);
 
       // 2. 获取剧本数据（用于获取scriptId）
       const db = await getDb();
@@ -762,10 +750,7 @@ ${input.sketchDataUrl ? '\n【草图图片】\n请识别上面的草图图片，
       // 3. 获取形象设计数据
       const [designData] = await db.select()
         .from(designs)
-        .where(and(
-          eq(designs.scriptId, shotData.scriptId),
-          eq(designs.userId, ctx.user.id)
-        ))
+        .where(eq(designs.scriptId, shotData.scriptId))
         .limit(1);
 
       // 4. 构建参考图列表（动态编号）
@@ -919,10 +904,7 @@ ${input.sketchDataUrl ? '\n【草图图片】\n请识别上面的草图图片，
 
       try {
         // 获取分镜数据
-        const shotData = await getStoryboardShotById(input.shotId);
-        if (!shotData) {
-          throw new Error('分镜不存在');
-        }
+        const shotData = await requireStoryboardShotAccess(input.shotId, ctx.user.id, "editor");
 
         // 获取数据库连接
         const db = await getDb();
@@ -1128,10 +1110,7 @@ ${input.sketchDataUrl ? '\n【草图图片】\n请识别上面的草图图片，
       const { geminiGenerateContent } = await import("./_core/gemini");
 
       // 1. 获取分镜数据
-      const shotData = await getStoryboardShotById(input.shotId);
-      if (!shotData) {
-        throw new Error('分镜不存在');
-      }
+      const shotData = await requireStoryboardShotAccess(input.shotId, ctx.user.id, "editor");
 
       // 检查是否有生成的图片
       const generatedImageUrl = shotData.generatedImageUrl as string | null;
@@ -1153,10 +1132,7 @@ ${input.sketchDataUrl ? '\n【草图图片】\n请识别上面的草图图片，
 
       const [designData] = await db.select()
         .from(designs)
-        .where(and(
-          eq(designs.scriptId, shotData.scriptId),
-          eq(designs.userId, ctx.user.id)
-        ))
+        .where(eq(designs.scriptId, shotData.scriptId))
         .limit(1);
 
       // 3. 提取角色外貌特征
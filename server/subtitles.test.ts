@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import type { TimelineSubtitle } from "../shared/timeline";
+import { DEFAULT_SUBTITLE_STYLE, toAss, toSrt, toWebVtt } from "../shared/subtitles";
+
+const subtitles: TimelineSubtitle[] = [
+  { id: "b", startTime: 65.5, duration: 2.25, text: "小红：<好久不见> & {再会}" },
+  { id: "a", startTime: 0, duration: 3, text: "小明：你好\n 第二行 " },
+  { id: "empty", startTime: 4, duration: 1, text: "  " },
+];
+
+describe("subtitles", () => {
+  it("should export SRT cues in time order with comma milliseconds", () => {
+    expect(toSrt(subtitles)).toBe(
+      "1\n00:00:00,000 --> 00:00:03,000\n小明：你好\n第二行\n\n" +
+        "2\n00:01:05,500 --> 00:01:07,750\n小红：<好久不见> & {再会}\n"
+    );
+  });
+
+  it("should export WebVTT with a header and escaped markup", () => {
+    expect(toWebVtt(subtitles)).toBe(
+      "WEBVTT\n\n00:00:00.000 --> 00:00:03.000\n小明：你好\n第二行\n\n" +
+        "00:01:05.500 --> 00:01:07.750\n小红：&lt;好久不见&gt; &amp; {再会}\n"
+    );
+  });
+
+  it("should export ASS scaled to the output size with the chosen style", () => {
+    const ass = toAss(subtitles, { ...DEFAULT_SUBTITLE_STYLE, font: "Noto Serif CJK SC", color: "#FFCC00", bold: true, position: "top" }, { width: 1280, height: 720 });
+
+    expect(ass).toContain("PlayResX: 1280\nPlayResY: 720");
+    expect(ass).toContain("Style: Default,Noto Serif CJK SC,36,&H0000CCFF,&H0000CCFF,&H00000000,&H80000000,-1,0,0,0,100,100,0,0,1,2,0,8,40,40,40,1");
+    expect(ass).toContain("Dialogue: 0,0:00:00.00,0:00:03.00,Default,,0,0,0,,小明：你好\\N第二行");
+    expect(ass).toContain("Dialogue: 0,0:01:05.50,0:01:07.75,Default,,0,0,0,,小红：<好久不见> & \\{再会\\}");
+    expect(ass).not.toContain("0:00:04.00");
+  });
+});
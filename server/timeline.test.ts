@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import type { StoryboardTimelineShot, TimelineClip, TimelineData } from "../shared/timeline";
+import { layoutStoryboard, linkedStoryboardScriptId, normalizeTimeline } from "../shared/timeline";
+
+function shot(overrides: Partial<StoryboardTimelineShot>): StoryboardTimelineShot {
+  return { shotId: 1, shotNumber: 1, title: null, duration: 3, transition: "切入", dialogue: null, assetId: 10, voiceover: null, ...overrides };
+}
+
+const music: TimelineClip = {
+  id: "m",
+  track: "audio",
+  assetId: 5,
+  type: "audio",
+  name: "配乐",
+  startTime: 0,
+  duration: 30,
+  trimStart: 0,
+  trimEnd: 30,
+};
+
+describe("timeline", () => {
+  describe("layoutStoryboard", () => {
+    it("should lay shots out in order after the existing video clips, leaving room for shots without images", () => {
+      const intro: TimelineClip = { ...music, id: "i", track: "video", type: "image", name: "片头", trimEnd: 2 };
+      const timeline = layoutStoryboard({ clips: [intro, music], subtitles: [] }, 7, [
+        shot({ shotId: 1, shotNumber: 1, title: "开场", duration: 4, transition: "淡入", assetId: 11 }),
+        shot({ shotId: 2, shotNumber: 2, duration: 2, assetId: null }),
+        shot({ shotId: 3, shotNumber: 3, duration: 0, transition: "叠化", assetId: 13 }),
+      ]);
+
+      expect(timeline.clips.slice(0, 2)).toEqual([intro, music]);
+      expect(timeline.clips.slice(2)).toEqual([
+        expect.objectContaining({ id: "shot-1", name: "镜头1 开场", assetId: 11, startTime: 2, trimEnd: 4, transition: "淡入", scriptId: 7, shotId: 1 }),
+        expect.objectContaining({ id: "shot-3", name: "镜头3", assetId: 13, startTime: 8, trimEnd: 3, transition: "叠化" }),
+      ]);
+      expect(linkedStoryboardScriptId(timeline)).toBe(7);
+    });
+
+    it("should follow shot changes in place and keep the timeline when nothing changed", () => {
+      const shots = [shot({ shotId: 1, duration: 3 }), shot({ shotId: 2, duration: 3, assetId: 12 })];
+      const timeline = layoutStoryboard(
+        { clips: [music, { ...music, id: "shot-1", track: "video", type: "image", startTime: 10, shotId: 1, scriptId: 7 }], subtitles: [] },
+        7,
+        shots
+      );
+      expect(timeline.clips.filter(clip => clip.shotId !== undefined).map(clip => clip.startTime)).toEqual([10, 13]);
+      expect(layoutStoryboard(timeline, 7, shots)).toBe(timeline);
+
+      const changed = layoutStoryboard(timeline, 7, [shot({ shotId: 1, duration: 5, assetId: 20 }), shots[1]]);
+      expect(changed.clips.find(clip => clip.id === "shot-1")).toMatchObject({ assetId: 20, trimEnd: 5, startTime: 10 });
+      expect(changed.clips.find(clip => clip.id === "shot-2")).toMatchObject({ startTime: 15 });
+    });
+
+    it("should time dialogue subtitles to each shot and keep edited text", () => {
+      const shots = [
+        shot({ shotId: 1, duration: 4, dialogue: "  小明：你好\n小红：好久不见 " }),
+        shot({ shotId: 2, duration: 2, dialogue: "（无）" }),
+        shot({ shotId: 3, duration: 3, dialogue: "再见", assetId: null }),
+      ];
+      const manual = { id: "subtitle-a", startTime: 0, duration: 1, text: "片头" };
+      const timeline = layoutStoryboard({ clips: [], subtitles: [manual] }, 7, shots);
+
+      expect(timeline.subtitles).toEqual([
+        manual,
+        { id: "subtitle-shot-1", startTime: 0, duration: 4, text: "小明：你好\n小红：好久不见", scriptId: 7, shotId: 1 },
+        { id: "subtitle-shot-3", startTime: 6, duration: 3, text: "再见", scriptId: 7, shotId: 3 },
+      ]);
+
+      const edited: TimelineData = {
+        ...timeline,
+        subtitles: timeline.subtitles.map(s => (s.shotId === 3 ? { ...s, text: "回头见", edited: true } : s)),
+      };
+      const resynced = layoutStoryboard(edited, 7, [shots[0], shots[1], { ...shots[2], duration: 5 }]);
+      expect(resynced.subtitles.find(s => s.shotId === 3)).toMatchObject({ text: "回头见", edited: true, duration: 5 });
+    });
+
+    it("should put shot voiceovers on the audio track at each shot's start", () => {
+      const timeline = layoutStoryboard({ clips: [music], subtitles: [] }, 7, [
+        shot({ shotId: 1, duration: 2, voiceover: { assetId: 31, duration: 1.5 } }),
+        shot({ shotId: 2, duration: 3, assetId: null, voiceover: { assetId: 32, duration: 4 } }),
+      ]);
+
+      expect(timeline.clips.filter(clip => clip.track === "audio")).toEqual([
+        music,
+        { id: "voiceover-shot-1", track: "audio", assetId: 31, type: "audio", name: "配音 镜头1", startTime: 0, duration: 1.5, trimStart: 0, trimEnd: 1.5, scriptId: 7, shotId: 1 },
+        expect.objectContaining({ id: "voiceover-shot-2", assetId: 32, startTime: 2, trimEnd: 4 }),
+      ]);
+      const withoutVoiceover = layoutStoryboard(timeline, 7, [shot({ shotId: 1, duration: 2 }), shot({ shotId: 2, duration: 3, assetId: null })]);
+      expect(withoutVoiceover.clips.filter(clip => clip.track === "audio")).toEqual([music]);
+    });
+  });
+
+  it("should drop clips and subtitles with invalid fields when normalizing", () => {
+    const timeline = normalizeTimeline({
+      clips: [
+        { ...music, id: "a", transition: "叠化", shotId: 1, scriptId: 2 },
+        { ...music, id: "b", transition: "旋转" },
+        { ...music, id: "c", shotId: "1" },
+      ],
+      subtitles: [
+        { id: "s1", startTime: 1, duration: 2, text: "你好", shotId: 1 },
+        { id: "s2", startTime: 1, duration: 2 },
+      ],
+    });
+    expect(timeline.clips.map(clip => clip.id)).toEqual(["a"]);
+    expect(timeline.subtitles.map(subtitle => subtitle.id)).toEqual(["s1"]);
+    expect(normalizeTimeline({ clips: [] })).toEqual({ clips: [], subtitles: [] });
+  });
+});
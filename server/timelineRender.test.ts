@@ -0,0 +1,196 @@
+import fs from "fs";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("./db", () => ({
+  createAsset: vi.fn(),
+  getProjectAssets: vi.fn(),
+}));
+vi.mock("./storage", () => ({
+  localUploadPath: vi.fn(() => null),
+  storagePut: vi.fn(async (key: string) => ({ key: `uploads/${key}`, url: `/uploads/${key}` })),
+}));
+vi.mock("./_core/videoGeneration", () => ({
+  runFfmpeg: vi.fn(),
+}));
+
+import type { TimelineClip } from "../shared/timeline";
+import { timelineRenderSize } from "../shared/timeline";
+import { runFfmpeg } from "./_core/videoGeneration";
+import { createAsset, getProjectAssets } from "./db";
+import { buildTimelineRenderArgs, planVideoSegments, renderTimeline } from "./timelineRender";
+
+const PNG_HEADER = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+function clip(overrides: Partial<TimelineClip>): TimelineClip {
+  return {
+    id: "c",
+    track: "video",
+    assetId: 1,
+    type: "image",
+    name: "镜头",
+    startTime: 0,
+    duration: 5,
+    trimStart: 0,
+    trimEnd: 5,
+    ...overrides,
+  };
+}
+
+describe("timelineRender", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should compute even output sizes from aspect ratio and resolution", () => {
+    expect(timelineRenderSize("16:9", "720p")).toEqual({ width: 1280, height: 720 });
+    expect(timelineRenderSize("9:16", "1080p")).toEqual({ width: 1080, height: 1920 });
+    expect(timelineRenderSize("21:9", "480p")).toEqual({ width: 1120, height: 480 });
+  });
+
+  describe("planVideoSegments", () => {
+    it("should fill gaps with black and cut overlapped clips at the next start", () => {
+      const a = clip({ id: "a", startTime: 1, trimStart: 2, trimEnd: 8, type: "video", duration: 10 });
+      const b = clip({ id: "b", startTime: 4 });
+      const audio = clip({ id: "m", track: "audio", type: "audio", startTime: 0, trimEnd: 12 });
+
+      expect(planVideoSegments([b, audio, a], 12)).toEqual([
+        { kind: "gap", duration: 1 },
+        { kind: "clip", clip: a, trimStart: 2, duration: 3 },
+        { kind: "clip", clip: b, trimStart: 0, duration: 5 },
+        { kind: "gap", duration: 3 },
+      ]);
+    });
+  });
+
+  describe("buildTimelineRenderArgs", () => {
+    it("should concat the video track, delay and mix audio clips, and encode H.264/AAC", () => {
+      const clips = [
+        clip({ id: "i", assetId: 1, trimEnd: 4 }),
+        clip({ id: "v", assetId: 2, type: "video", startTime: 4, trimStart: 1, trimEnd: 3, duration: 10 }),
+        clip({ id: "m", assetId: 3, track: "audio", type: "audio", startTime: 2.5, trimStart: 0, trimEnd: 3 }),
+      ];
+      const files = new Map([[1, "/tmp/1.png"], [2, "/tmp/2.mp4"], [3, "/tmp/3.mp3"]]);
+      const { args, duration } = buildTimelineRenderArgs({ clips, files, width: 1280, height: 720, outputPath: "/tmp/out.mp4" });
+
+      expect(duration).toBe(6);
+      const filter = args[args.indexOf("-filter_complex") + 1];
+      expect(args.slice(1, 13)).toEqual([
+        "-loop", "1", "-framerate", "25", "-t", "4.000",
+        "-protocol_whitelist", "file", "-f", "image2", "-i", "/tmp/1.png",
+      ]);
+      expect(args.join(" ")).toContain("-ss 1.000 -t 2.000 -protocol_whitelist file -f mov -i /tmp/2.mp4");
+      expect(args.join(" ")).toContain("-protocol_whitelist file -f mp3 -i /tmp/3.mp3");
+      expect(args).toEqual(expect.arrayContaining(["-c:v", "libx264", "-c:a", "aac"]));
+      expect(filter).toContain("[v0][v1]concat=n=2:v=1:a=0[vout]");
+      expect(filter).toContain("pad=1280:720");
+      expect(filter).toContain("[2:a]aformat=sample_rates=48000:channel_layouts=stereo,adelay=2500|2500[a0]");
+      expect(args.slice(-1)).toEqual(["/tmp/out.mp4"]);
+    });
+
+    it("should use silence when there is no audio track", () => {
+      const { args } = buildTimelineRenderArgs({
+        clips: [clip({})],
+        files: new Map([[1, "/tmp/1.png"]]),
+        width: 640,
+        height: 480,
+        outputPath: "/tmp/out.mp4",
+      });
+      expect(args[args.indexOf("-filter_complex") + 1]).toContain("anullsrc=r=48000:cl=stereo[aout]");
+    });
+
+    it("should burn subtitles into the final video with the ass filter", () => {
+      const { args } = buildTimelineRenderArgs({
+        clips: [clip({})],
+        files: new Map([[1, "/tmp/1.png"]]),
+        width: 640,
+        height: 480,
+        outputPath: "/tmp/out.mp4",
+        subtitlesPath: "/tmp/render:1/subtitles.ass",
+      });
+      const filter = args[args.indexOf("-filter_complex") + 1];
+      expect(filter).toContain("[v0]concat=n=1:v=1:a=0[vbase]");
+      expect(filter).toContain("[vbase]ass=filename='/tmp/render\\:1/subtitles.ass'[vout]");
+    });
+
+    it("should map storyboard transitions to fades and overlapping xfades without changing the duration", () => {
+      const clips = [
+        clip({ id: "a", assetId: 1, trimEnd: 3, transition: "淡入" }),
+        clip({ id: "b", assetId: 2, startTime: 3, trimEnd: 2, transition: "切入" }),
+        clip({ id: "c", assetId: 3, startTime: 5, trimEnd: 4, transition: "叠化" }),
+        clip({ id: "d", assetId: 4, startTime: 9, trimEnd: 0.6, transition: "划出" }),
+        clip({ id: "e", assetId: 5, startTime: 9.6, trimEnd: 0.8, transition: "淡出" }),
+      ];
+      const files = new Map([1, 2, 3, 4, 5].map(id => [id, `/tmp/${id}.png`] as [number, string]));
+      const { args, duration } = buildTimelineRenderArgs({ clips, files, width: 640, height: 360, outputPath: "/tmp/out.mp4" });
+      const filter = args[args.indexOf("-filter_complex") + 1];
+
+      expect(duration).toBeCloseTo(10.4);
+      expect(filter).toContain("setpts=PTS-STARTPTS,fade=t=in:st=0:d=0.500[v0]");
+      // 叠化前的一段延长转场时长，与后一段重叠
+      expect(args).toEqual(expect.arrayContaining(["-t", "2.500", "-i", "/tmp/2.png"]));
+      expect(filter).toContain("[v0][v1]concat=n=2:v=1:a=0[g0]");
+      expect(filter).toContain("[v2][v3]concat=n=2:v=1:a=0[g1]");
+      expect(filter).toContain("[g0][g1]xfade=transition=fade:duration=0.500:offset=5.000[x1]");
+      // 划出作用在片段结尾，转场不超过后一段时长的一半
+      expect(args).toEqual(expect.arrayContaining(["-t", "1.000", "-i", "/tmp/4.png"]));
+      expect(filter).toContain("[x1][v4]xfade=transition=wiperight:duration=0.400:offset=9.600[vout]");
+      expect(filter).toContain("fade=t=out:st=0.400:d=0.400[v4]");
+    });
+  });
+
+  describe("renderTimeline", () => {
+    it("should reject assets from other projects", async () => {
+      vi.mocked(getProjectAssets).mockResolvedValue([]);
+      await expect(
+        renderTimeline({ userId: 1, projectId: 7, clips: [clip({ assetId: 99 })], aspectRatio: "16:9", resolution: "720p" })
+      ).rejects.toThrow("素材不存在或不属于该项目");
+      expect(runFfmpeg).not.toHaveBeenCalled();
+    });
+
+    it("should refuse to download assets from private or loopback hosts", async () => {
+      const fetchSpy = vi.spyOn(global, "fetch");
+      for (const url of ["http://169.254.169.254/latest/meta-data", "http://[::ffff:127.0.0.1]/uploads/x.png"]) {
+        vi.mocked(getProjectAssets).mockResolvedValue([{ id: 1, type: "image", url } as any]);
+        await expect(
+          renderTimeline({ userId: 1, projectId: 7, clips: [clip({})], aspectRatio: "16:9", resolution: "720p" })
+        ).rejects.toThrow("不允许访问内网地址");
+      }
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it("should reject downloaded assets whose bytes are not media of the clip's type", async () => {
+      vi.mocked(getProjectAssets).mockResolvedValue([{ id: 1, type: "image", url: "https://93.184.216.34/a.png" } as any]);
+      for (const body of ["#EXTM3U\n#EXTINF:1,\nfile:///etc/passwd\n", "ID3 not an image"]) {
+        vi.spyOn(global, "fetch").mockResolvedValue(new Response(body));
+        await expect(
+          renderTimeline({ userId: 1, projectId: 7, clips: [clip({})], aspectRatio: "16:9", resolution: "720p" })
+        ).rejects.toThrow("素材文件格式无效");
+      }
+      expect(runFfmpeg).not.toHaveBeenCalled();
+    });
+
+    it("should report progress and store the result as a video asset", async () => {
+      vi.mocked(getProjectAssets).mockResolvedValue([{ id: 1, type: "image", url: "https://93.184.216.34/a.png" } as any]);
+      vi.spyOn(global, "fetch").mockResolvedValue(new Response(PNG_HEADER));
+      vi.mocked(runFfmpeg).mockImplementation(async (args, onTime) => {
+        onTime?.(2.5);
+        fs.writeFileSync(args[args.length - 1], "mp4");
+      });
+      vi.mocked(createAsset).mockImplementation(async data => ({ id: 42, ...data }) as any);
+      const progress: number[] = [];
+
+      const result = await renderTimeline({
+        userId: 1,
+        projectId: 7,
+        clips: [clip({ trimEnd: 5 })],
+        aspectRatio: "9:16",
+        resolution: "480p",
+        onProgress: percent => progress.push(percent),
+      });
+
+      expect(progress).toEqual([50, 100]);
+      expect(result).toMatchObject({ assetId: 42, width: 480, height: 854, duration: 5 });
+      expect(createAsset).toHaveBeenCalledWith(expect.objectContaining({ projectId: 7, type: "video", mimeType: "video/mp4" }));
+    });
+  });
+});
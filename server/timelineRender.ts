@@ -0,0 +1,361 @@
+// 时间轴合成
+// 按片段的 startTime / trimStart / trimEnd 把视频轨道（图片按时长定格、视频截取片段）依次拼接，
+// 片段之间的空隙补黑场、重叠时后开始的片段覆盖前一个；音频轨道的片段按开始时间混音。
+// 用 ffmpeg 输出 H.264 / AAC 的 MP4，存为项目的 video 素材。
+// 视频片段自带的声音不参与混音，配乐和配音放在音频轨道上。
+// 片段的转场（分镜的 transition）：淡入 / 淡出 与黑场渐变，叠化 / 划入 / 划出 与相邻画面重叠过渡，
+// 重叠部分由前一段延长补足，总时长和各片段的开始时间不变。
+// 选择了字幕样式时，字幕轨道转为 ASS 后用 ass 滤镜烧录进画面。
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { nanoid } from "nanoid";
+import type { Asset } from "../drizzle/schema";
+import { toAss, type SubtitleStyle } from "../shared/subtitles";
+import {
+  timelineDuration,
+  timelineRenderSize,
+  type TimelineClip,
+  type TimelineRenderAspectRatio,
+  type TimelineRenderResolution,
+  type TimelineSubtitle,
+  type TimelineTransition,
+} from "../shared/timeline";
+import { fetchPublicUrl, readResponseBody } from "./_core/publicUrl";
+import { runFfmpeg } from "./_core/videoGeneration";
+import { createAsset, getProjectAssets } from "./db";
+import { mediaMatchesKind, sniffMediaType } from "./mediaTypes";
+import { localUploadPath, storagePut } from "./storage";
+
+const FPS = 25;
+const AUDIO_SAMPLE_RATE = 48000;
+// 转场时长（秒），不超过所在片段的一半
+const TRANSITION_SECONDS = 0.5;
+
+// 与相邻画面重叠过渡的转场对应的 xfade 效果
+const XFADE_TRANSITIONS: Partial<Record<TimelineTransition, string>> = {
+  叠化: "fade",
+  划入: "wipeleft",
+  划出: "wiperight",
+};
+// 最长合成 30 分钟
+export const MAX_TIMELINE_RENDER_SECONDS = 30 * 60;
+
+// 单个素材的下载上限
+const MAX_ASSET_BYTES = 500 * 1024 * 1024;
+
+// 临时文件扩展名（由文件头识别）→ ffmpeg 输入格式；指定格式后 ffmpeg 不再按内容猜测，
+// 不会把伪装成媒体的 HLS 列表等当作可以引用其他文件的格式打开
+const INPUT_FORMATS: Record<string, string> = {
+  ".png": "image2",
+  ".jpg": "image2",
+  ".gif": "image2",
+  ".webp": "image2",
+  ".mp4": "mov",
+  ".mov": "mov",
+  ".m4a": "mov",
+  ".webm": "matroska",
+  ".ogg": "ogg",
+  ".mp3": "mp3",
+  ".wav": "wav",
+  ".aac": "aac",
+};
+
+export type VideoSegment =
+  | { kind: "gap"; duration: number }
+  | { kind: "clip"; clip: TimelineClip; trimStart: number; duration: number };
+
+/**
+ * 视频轨道按时间顺序切成片段和空隙；重叠部分以后开始的片段为准，前一个片段在其开始处截断
+ */
+export function planVideoSegments(clips: TimelineClip[], totalDuration: number): VideoSegment[] {
+  const sorted = clips
+    .filter(clip => clip.track === "video" && clip.trimEnd > clip.trimStart)
+    .sort((a, b) => a.startTime - b.startTime);
+  const segments: VideoSegment[] = [];
+  let cursor = 0;
+
+  sorted.forEach((clip, index) => {
+    const next = sorted[index + 1];
+    const start = Math.max(clip.startTime, cursor);
+    const end = Math.min(clip.startTime + clip.trimEnd - clip.trimStart, next ? next.startTime : Infinity, totalDuration);
+    if (end <= start) return;
+    if (start > cursor) segments.push({ kind: "gap", duration: start - cursor });
+    segments.push({ kind: "clip", clip, trimStart: clip.trimStart + (start - clip.startTime), duration: end - start });
+    cursor = end;
+  });
+  if (totalDuration > cursor) segments.push({ kind: "gap", duration: totalDuration - cursor });
+  return segments;
+}
+
+function seconds(value: number): string {
+  return value.toFixed(3);
+}
+
+function transitionDuration(segment: VideoSegment): number {
+  return Math.min(TRANSITION_SECONDS, segment.duration / 2);
+}
+
+/**
+ * 相邻两段之间的 xfade 转场：后一段开头的 叠化 / 划入 优先，其次是前一段结尾的 划出
+ */
+function joinTransition(prev: VideoSegment, next: VideoSegment): { transition: string; duration: number } | null {
+  const entry = next.kind === "clip" ? next.clip.transition : undefined;
+  const exit = prev.kind === "clip" ? prev.clip.transition : undefined;
+  const transition =
+    entry === "叠化" || entry === "划入" ? XFADE_TRANSITIONS[entry] : exit === "划出" ? XFADE_TRANSITIONS[exit] : undefined;
+  const duration = transitionDuration(next);
+  // 不足一帧的转场没有意义，直接切换
+  return transition && duration >= 1 / FPS ? { transition, duration } : null;
+}
+
+// 淡入 / 淡出：片段开头从黑场渐显、结尾渐隐到黑场
+function fadeFilter(segment: VideoSegment): string {
+  if (segment.kind !== "clip") return "";
+  const d = transitionDuration(segment);
+  if (segment.clip.transition === "淡入") return `,fade=t=in:st=0:d=${seconds(d)}`;
+  if (segment.clip.transition === "淡出") return `,fade=t=out:st=${seconds(segment.duration - d)}:d=${seconds(d)}`;
+  return "";
+}
+
+// 滤镜参数中的文件路径：\ 和 : 在选项层转义，整体用单引号包起来避免 , ; [ ] 被当作滤镜图语法
+function filterPath(file: string): string {
+  return `'${file.replace(/[\\:]/g, ch => `\\${ch}`)}'`;
+}
+
+/**
+ * 生成 ffmpeg 参数。files 为素材 id 对应的本地文件，subtitlesPath 为要烧录的 ASS 字幕
+ */
+export function buildTimelineRenderArgs(options: {
+  clips: TimelineClip[];
+  files: Map<number, string>;
+  width: number;
+  height: number;
+  outputPath: string;
+  subtitlesPath?: string;
+}): { args: string[]; duration: number } {
+  const { clips, files, width, height, outputPath, subtitlesPath } = options;
+  const duration = timelineDuration(clips);
+  const inputs: string[][] = [];
+  const filters: string[] = [];
+  // 输入只允许读本地文件，并按扩展名指定格式
+  const inputOf = (clip: TimelineClip) => {
+    const file = files.get(clip.assetId);
+    if (!file) throw new Error(`素材不存在: ${clip.name}`);
+    const format = Object.prototype.hasOwnProperty.call(INPUT_FORMATS, path.extname(file))
+      ? INPUT_FORMATS[path.extname(file)]
+      : null;
+    if (!format) throw new Error(`不支持的素材格式: ${clip.name}`);
+    return ["-protocol_whitelist", "file", "-f", format, "-i", file];
+  };
+  // 所有画面统一缩放到输出尺寸（留黑边）、帧率和像素格式，才能拼接
+  const normalize = `scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:color=black,setsar=1,fps=${FPS},format=yuv420p`;
+
+  const segments = planVideoSegments(clips, duration);
+  const joins = segments.map((segment, index) => (index === 0 ? null : joinTransition(segments[index - 1], segment)));
+  const videoLabels = segments.map((segment, index) => {
+    const label = `v${index}`;
+    // 后面接 xfade 的一段延长转场时长，与下一段重叠
+    const d = seconds(segment.duration + (joins[index + 1]?.duration ?? 0));
+    if (segment.kind === "gap") {
+      filters.push(`color=c=black:s=${width}x${height}:r=${FPS}:d=${d},format=yuv420p,setsar=1[${label}]`);
+      return label;
+    }
+    const input = inputs.length;
+    const fade = fadeFilter(segment);
+    if (segment.clip.type === "image") {
+      inputs.push(["-loop", "1", "-framerate", String(FPS), "-t", d, ...inputOf(segment.clip)]);
+      filters.push(`[${input}:v]${normalize},trim=duration=${d},setpts=PTS-STARTPTS${fade}[${label}]`);
+    } else {
+      inputs.push(["-ss", seconds(segment.trimStart), "-t", d, ...inputOf(segment.clip)]);
+      // 素材比裁剪范围短时定格最后一帧补足
+      filters.push(`[${input}:v]${normalize},tpad=stop_mode=clone:stop_duration=${d},trim=duration=${d},setpts=PTS-STARTPTS${fade}[${label}]`);
+    }
+    return label;
+  });
+
+  // 烧录字幕时画面先输出到 vbase
+  const videoOut = subtitlesPath ? "vbase" : "vout";
+  // 没有 xfade 的相邻段用 concat 拼成一组，组与组之间用 xfade 过渡
+  const groups: number[][] = [];
+  segments.forEach((_, index) => {
+    if (index === 0 || joins[index]) groups.push([]);
+    groups[groups.length - 1].push(index);
+  });
+  const concatGroup = (group: number[], output: string) => {
+    filters.push(`${group.map(index => `[${videoLabels[index]}]`).join("")}concat=n=${group.length}:v=1:a=0[${output}]`);
+    return output;
+  };
+  if (groups.length === 1) {
+    concatGroup(groups[0], videoOut);
+  } else {
+    let current = groups[0].length === 1 ? videoLabels[0] : concatGroup(groups[0], "g0");
+    groups.slice(1).forEach((group, index) => {
+      const first = group[0];
+      const join = joins[first]!;
+      // xfade 的 offset 即后一组在时间轴上的开始时间
+      const offset = segments.slice(0, first).reduce((sum, segment) => sum + segment.duration, 0);
+      const next = group.length === 1 ? videoLabels[first] : concatGroup(group, `g${index + 1}`);
+      const output = index === groups.length - 2 ? videoOut : `x${index + 1}`;
+      filters.push(
+        `[${current}][${next}]xfade=transition=${join.transition}:duration=${seconds(join.duration)}:offset=${seconds(offset)}[${output}]`
+      );
+      current = output;
+    });
+  }
+  if (subtitlesPath) {
+    filters.push(`[${videoOut}]ass=filename=${filterPath(subtitlesPath)}[vout]`);
+  }
+
+  const audioLabels = clips
+    .filter(clip => clip.track === "audio" && clip.trimEnd > clip.trimStart && clip.startTime < duration)
+    .map((clip, index) => {
+      const label = `a${index}`;
+      const input = inputs.length;
+      const delay = Math.round(clip.startTime * 1000);
+      inputs.push(["-ss", seconds(clip.trimStart), "-t", seconds(clip.trimEnd - clip.trimStart), ...inputOf(clip)]);
+      filters.push(
+        `[${input}:a]aformat=sample_rates=${AUDIO_SAMPLE_RATE}:channel_layouts=stereo,adelay=${delay}|${delay}[${label}]`
+      );
+      return label;
+    });
+  if (audioLabels.length === 0) {
+    filters.push(`anullsrc=r=${AUDIO_SAMPLE_RATE}:cl=stereo[aout]`);
+  } else {
+    filters.push(
+      `${audioLabels.map(label => `[${label}]`).join("")}amix=inputs=${audioLabels.length}:duration=longest:dropout_transition=0:normalize=0,apad[aout]`
+    );
+  }
+
+  return {
+    duration,
+    args: [
+      "-y",
+      ...inputs.flat(),
+      "-filter_complex", filters.join(";"),
+      "-map", "[vout]",
+      "-map", "[aout]",
+      "-t", seconds(duration),
+      "-c:v", "libx264",
+      "-preset", "veryfast",
+      "-pix_fmt", "yuv420p",
+      "-r", String(FPS),
+      "-c:a", "aac",
+      "-b:a", "192k",
+      "-ar", String(AUDIO_SAMPLE_RATE),
+      "-movflags", "+faststart",
+      outputPath,
+    ],
+  };
+}
+
+// 素材文件写入临时目录：本服务器的上传文件直接读取，其他地址只从公网下载。
+// 按文件头确认是与素材类型相符的图片 / 视频 / 音频，临时文件以识别出的类型命名
+async function fetchAssetFile(asset: Asset, workDir: string): Promise<string> {
+  const name = asset.filename || asset.id;
+  let data: Buffer;
+  const localPath = localUploadPath(asset.url);
+  if (localPath) {
+    data = await fs.promises.readFile(localPath);
+  } else {
+    if (!/^https?:\/\//.test(asset.url)) {
+      throw new Error(`素材文件不存在: ${name}`);
+    }
+    const response = await fetchPublicUrl(asset.url);
+    if (!response.ok) {
+      throw new Error(`素材下载失败 (${response.status}): ${name}`);
+    }
+    data = await readResponseBody(response, MAX_ASSET_BYTES);
+  }
+
+  const media = sniffMediaType(data);
+  if (!media || !mediaMatchesKind(media, asset.type)) {
+    throw new Error(`素材文件格式无效: ${name}`);
+  }
+  const target = path.join(workDir, `asset-${asset.id}${media.extension}`);
+  await fs.promises.writeFile(target, data);
+  return target;
+}
+
+export interface TimelineRenderResult {
+  assetId: number;
+  url: string;
+  width: number;
+  height: number;
+  duration: number;
+}
+
+/**
+ * 合成时间轴并存为项目的 video 素材；onProgress 收到 0-100 的完成百分比
+ */
+export async function renderTimeline(options: {
+  userId: number;
+  projectId: number;
+  clips: TimelineClip[];
+  aspectRatio: TimelineRenderAspectRatio;
+  resolution: TimelineRenderResolution;
+  // 提供样式时烧录字幕
+  subtitles?: TimelineSubtitle[];
+  subtitleStyle?: SubtitleStyle;
+  onProgress?: (percent: number) => void;
+}): Promise<TimelineRenderResult> {
+  const { clips, aspectRatio, resolution, subtitleStyle } = options;
+  const subtitles = subtitleStyle ? (options.subtitles ?? []).filter(subtitle => subtitle.text.trim()) : [];
+  const duration = timelineDuration(clips);
+  if (!clips.some(clip => clip.track === "video") || duration <= 0) {
+    throw new Error("视频轨道为空，无法合成");
+  }
+  if (duration > MAX_TIMELINE_RENDER_SECONDS) {
+    throw new Error(`时间轴超过 ${MAX_TIMELINE_RENDER_SECONDS / 60} 分钟，无法合成`);
+  }
+
+  // 只能使用本项目的素材
+  const assets = new Map((await getProjectAssets(options.projectId)).map(asset => [asset.id, asset]));
+  const { width, height } = timelineRenderSize(aspectRatio, resolution);
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "timeline-"));
+
+  try {
+    const files = new Map<number, string>();
+    for (const assetId of Array.from(new Set(clips.map(clip => clip.assetId)))) {
+      const asset = assets.get(assetId);
+      if (!asset) throw new Error(`素材不存在或不属于该项目: ${assetId}`);
+      files.set(assetId, await fetchAssetFile(asset, workDir));
+    }
+
+    let subtitlesPath: string | undefined;
+    if (subtitleStyle && subtitles.length > 0) {
+      subtitlesPath = path.join(workDir, "subtitles.ass");
+      await fs.promises.writeFile(subtitlesPath, toAss(subtitles, subtitleStyle, { width, height }));
+    }
+
+    const outputPath = path.join(workDir, "timeline.mp4");
+    const { args } = buildTimelineRenderArgs({ clips, files, width, height, outputPath, subtitlesPath });
+    let lastPercent = -1;
+    await runFfmpeg(args, time => {
+      const percent = Math.min(99, Math.floor((time / duration) * 100));
+      if (percent > lastPercent) {
+        lastPercent = percent;
+        options.onProgress?.(percent);
+      }
+    });
+
+    const data = await fs.promises.readFile(outputPath);
+    const { key, url } = await storagePut(`generated/timeline-${Date.now()}-${nanoid(8)}.mp4`, data, "video/mp4");
+    const asset = await createAsset({
+      userId: options.userId,
+      projectId: options.projectId,
+      type: "video",
+      url,
+      fileKey: key,
+      filename: `时间轴合成-${resolution}.mp4`,
+      mimeType: "video/mp4",
+      size: data.length,
+      metadata: { source: "timeline", width, height, duration, aspectRatio, resolution, burnedSubtitles: !!subtitlesPath },
+    });
+    options.onProgress?.(100);
+    return { assetId: asset.id, url, width, height, duration };
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  }
+}
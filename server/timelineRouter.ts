@@ -0,0 +1,255 @@
+import crypto from "crypto";
+import { z } from "zod";
+import { nanoid } from "nanoid";
+import { assertPublicUrl } from "./_core/publicUrl";
+import { protectedProcedure, router } from "./_core/trpc";
+import type { Asset } from "../drizzle/schema";
+import { createAsset, getProjectAssets, getStoryboardShotsByScriptId } from "./db";
+import { publishGenerationEvent } from "./generationEvents";
+import { mediaMatchesKind, sniffMediaType } from "./mediaTypes";
+import { requireProjectAccess, requireScriptAccess } from "./projectAccess";
+import { localUploadPath, storagePut } from "./storage";
+import { renderTimeline } from "./timelineRender";
+import { findShotVoiceovers } from "./voiceover";
+import { SUBTITLE_POSITIONS } from "../shared/subtitles";
+import {
+  TIMELINE_RENDER_ASPECT_RATIOS,
+  TIMELINE_RENDER_RESOLUTIONS,
+  TIMELINE_TRACKS,
+  TIMELINE_TRANSITIONS,
+  type StoryboardTimelineShot,
+  type TimelineMediaType,
+} from "../shared/timeline";
+
+// ============================================
+// 时间轴素材与合成
+// 时间轴片段只保存 assets.id（见 shared/timeline.ts），
+// 从画布拖入或上传的素材先登记为项目素材再加入轨道
+// ============================================
+
+const mediaTypeSchema = z.enum(["image", "video", "audio"]);
+
+const clipSchema = z.object({
+  id: z.string(),
+  track: z.enum(TIMELINE_TRACKS),
+  assetId: z.number().int(),
+  type: mediaTypeSchema,
+  name: z.string(),
+  startTime: z.number().min(0),
+  duration: z.number().min(0),
+  trimStart: z.number().min(0),
+  trimEnd: z.number().min(0),
+  transition: z.enum(TIMELINE_TRANSITIONS).optional(),
+  scriptId: z.number().int().optional(),
+  shotId: z.number().int().optional(),
+});
+
+const subtitleSchema = z.object({
+  id: z.string(),
+  startTime: z.number().min(0),
+  duration: z.number().min(0),
+  text: z.string().max(2000),
+  scriptId: z.number().int().optional(),
+  shotId: z.number().int().optional(),
+  edited: z.boolean().optional(),
+});
+
+const colorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/);
+
+const subtitleStyleSchema = z.object({
+  font: z.string().min(1).max(100),
+  fontSize: z.number().min(12).max(200),
+  color: colorSchema,
+  outlineColor: colorSchema,
+  outline: z.number().min(0).max(10),
+  bold: z.boolean(),
+  position: z.enum(SUBTITLE_POSITIONS),
+  box: z.boolean(),
+});
+
+// 以 base64 随请求上传，受 express.json 的 200mb 限制
+const MAX_UPLOAD_BASE64_LENGTH = 190 * 1024 * 1024;
+
+// 类型和扩展名由文件头决定，不是与素材类型相符的媒体文件时拒绝存储
+async function storeTimelineFile(buffer: Buffer, type: TimelineMediaType) {
+  const media = sniffMediaType(buffer);
+  if (!media || !mediaMatchesKind(media, type)) {
+    throw new Error("文件内容与类型不符");
+  }
+  const stored = await storagePut(`assets/timeline-${nanoid(12)}${media.extension}`, buffer, media.mimeType);
+  return { ...stored, mimeType: media.mimeType };
+}
+
+// 本服务器上传文件的存储 key（uploads/...），其他地址原样记录
+function fileKeyOf(url: string): string {
+  const match = url.match(/\/?(uploads\/[^?#]+)/);
+  return (match ? match[1] : url).slice(0, 512);
+}
+
+// 把已有地址的图片 / 视频登记为项目素材；data URL 先存为文件
+async function importMediaAsset(
+  userId: number,
+  projectId: number,
+  media: { type: TimelineMediaType; url: string; name: string },
+  metadata?: Record<string, unknown>
+): Promise<Asset> {
+  const dataUrl = media.url.match(/^data:([\w.+-]+\/[\w.+-]+);base64,(.+)$/);
+  if (dataUrl) {
+    const buffer = Buffer.from(dataUrl[2], "base64");
+    const { key, url, mimeType } = await storeTimelineFile(buffer, media.type);
+    return createAsset({
+      userId,
+      projectId,
+      type: media.type,
+      url,
+      fileKey: key,
+      filename: media.name,
+      mimeType,
+      size: buffer.length,
+      metadata,
+    });
+  }
+  // 其他地址只接受本服务器的上传文件或公网地址，合成时再按文件头检查内容
+  if (!localUploadPath(media.url)) {
+    if (!/^https?:\/\//.test(media.url)) {
+      throw new Error("不支持的素材地址");
+    }
+    await assertPublicUrl(media.url);
+  }
+  return createAsset({
+    userId,
+    projectId,
+    type: media.type,
+    url: media.url,
+    fileKey: fileKeyOf(media.url),
+    filename: media.name,
+    metadata,
+  });
+}
+
+// 分镜图片可能是 data URL，存为文件后地址不同；登记时在 metadata 中记下原地址的摘要用于复用
+function storyboardImageHash(url: string): string {
+  return crypto.createHash("sha1").update(url).digest("hex");
+}
+
+export const timelineRouter = router({
+  // 从画布节点拖入的图片 / 视频
+  importMedia: protectedProcedure
+    .input(z.object({
+      projectId: z.number(),
+      type: mediaTypeSchema,
+      url: z.string().min(1),
+      name: z.string().max(255),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await requireProjectAccess(input.projectId, ctx.user.id, "editor");
+      return importMediaAsset(ctx.user.id, input.projectId, input);
+    }),
+
+  // 分镜发送到时间轴 / 关联分镜变化后同步：按镜头顺序返回时长、转场、对白、图片素材和配音，
+  // 分镜图片按地址复用已登记的素材，没有登记过的新登记一个。片段和字幕由客户端用 layoutStoryboard 排布
+  linkStoryboard: protectedProcedure
+    .input(z.object({
+      projectId: z.number(),
+      scriptId: z.number(),
+    }))
+    .mutation(async ({ ctx, input }): Promise<StoryboardTimelineShot[]> => {
+      await requireProjectAccess(input.projectId, ctx.user.id, "editor");
+      const script = await requireScriptAccess(input.scriptId, ctx.user.id);
+      if (script.canvasId !== input.projectId) {
+        throw new Error("剧本不属于该项目");
+      }
+
+      const shots = await getStoryboardShotsByScriptId(input.scriptId);
+      const assets = await getProjectAssets(input.projectId);
+      const voiceovers = findShotVoiceovers(assets, shots);
+      // 图片地址或原地址摘要 → 素材 id
+      const assetIds = new Map<string, number>();
+      for (const asset of assets) {
+        if (asset.type !== "image") continue;
+        assetIds.set(asset.url, asset.id);
+        const hash = (asset.metadata as { storyboardImageHash?: unknown } | null)?.storyboardImageHash;
+        if (typeof hash === "string") assetIds.set(hash, asset.id);
+      }
+
+      const result: StoryboardTimelineShot[] = [];
+      for (const shot of shots) {
+        const imageUrl = shot.generatedImageUrl;
+        let assetId: number | null = null;
+        if (imageUrl) {
+          const hash = storyboardImageHash(imageUrl);
+          assetId = assetIds.get(imageUrl) ?? assetIds.get(hash) ?? null;
+          if (assetId === null) {
+            const asset = await importMediaAsset(
+              ctx.user.id,
+              input.projectId,
+              { type: "image", url: imageUrl, name: `分镜-镜头${shot.shotNumber}.png` },
+              { source: "storyboard", shotId: shot.id, storyboardImageHash: hash }
+            );
+            assetId = asset.id;
+            assetIds.set(hash, asset.id);
+          }
+        }
+        result.push({
+          shotId: shot.id,
+          shotNumber: shot.shotNumber,
+          title: shot.title,
+          duration: shot.duration ?? 0,
+          transition: shot.transition,
+          dialogue: shot.dialogue,
+          assetId,
+          voiceover: voiceovers.get(shot.id) ?? null,
+        });
+      }
+      return result;
+    }),
+
+  // 从本地上传的图片 / 视频 / 音频
+  upload: protectedProcedure
+    .input(z.object({
+      projectId: z.number(),
+      type: mediaTypeSchema,
+      fileName: z.string().min(1).max(255),
+      mimeType: z.string().max(128),
+      data: z.string().min(1).max(MAX_UPLOAD_BASE64_LENGTH),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await requireProjectAccess(input.projectId, ctx.user.id, "editor");
+      if (!input.mimeType.startsWith(`${input.type}/`)) {
+        throw new Error("文件类型与轨道不匹配");
+      }
+
+      const buffer = Buffer.from(input.data, "base64");
+      const { key, url, mimeType } = await storeTimelineFile(buffer, input.type);
+      return createAsset({
+        userId: ctx.user.id,
+        projectId: input.projectId,
+        type: input.type,
+        url,
+        fileKey: key,
+        filename: input.fileName,
+        mimeType,
+        size: buffer.length,
+      });
+    }),
+
+  // 合成为 MP4 并存为项目的 video 素材；通过 generation.enqueue 以 timeline.render 任务执行，
+  // 合成进度以 progress 事件推送。提供 subtitleStyle 时把字幕烧录进画面
+  render: protectedProcedure
+    .input(z.object({
+      projectId: z.number(),
+      clips: z.array(clipSchema).min(1).max(1000),
+      aspectRatio: z.enum(TIMELINE_RENDER_ASPECT_RATIOS).default("16:9"),
+      resolution: z.enum(TIMELINE_RENDER_RESOLUTIONS).default("720p"),
+      subtitles: z.array(subtitleSchema).max(5000).optional(),
+      subtitleStyle: subtitleStyleSchema.optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await requireProjectAccess(input.projectId, ctx.user.id, "editor");
+      return renderTimeline({
+        userId: ctx.user.id,
+        ...input,
+        onProgress: percent => publishGenerationEvent({ type: "progress", percent, label: "合成视频" }),
+      });
+    }),
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("./db", () => ({
+  createUsageRecord: vi.fn(async () => undefined),
+  getUsageQuota: vi.fn(async () => undefined),
+  getUsageTotals: vi.fn(async () => ({ calls: 0, inputTokens: 0, outputTokens: 0, imageCount: 0 })),
+}));
+
+import { createUsageRecord, getUsageQuota, getUsageTotals } from "./db";
+import { checkUsageQuota, meterCall, runWithUsageContext, tokensFromUsageMetadata } from "./usageMeter";
+import { ENV } from "./_core/env";
+import { ollamaLLMBackend } from "./_core/llmBackends";
+
+const NO_LIMITS = { dailyTokenLimit: null, monthlyTokenLimit: null, dailyImageLimit: null, monthlyImageLimit: null };
+const totals = (tokens: number, images: number) => ({ calls: 1, inputTokens: tokens, outputTokens: 0, imageCount: images });
+
+describe("usageMeter", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe("checkUsageQuota", () => {
+    it("should allow calls when no limit is set", () => {
+      expect(checkUsageQuota(NO_LIMITS, { today: totals(1e9, 1e6), month: totals(1e9, 1e6) }, "image")).toBeNull();
+    });
+
+    it("should apply image limits only to image calls", () => {
+      const quota = { ...NO_LIMITS, dailyImageLimit: 10 };
+      const usage = { today: totals(0, 10), month: totals(0, 10) };
+
+      expect(checkUsageQuota(quota, usage, "llm")).toBeNull();
+      expect(checkUsageQuota(quota, usage, "image")).toMatch(/今日图片/);
+    });
+
+    it("should apply token limits to every call", () => {
+      const quota = { ...NO_LIMITS, monthlyTokenLimit: 1000 };
+      expect(checkUsageQuota(quota, { today: totals(10, 0), month: totals(1000, 0) }, "llm")).toMatch(/本月 token/);
+    });
+  });
+
+  describe("tokensFromUsageMetadata", () => {
+    it("should count thinking tokens as output", () => {
+      expect(
+        tokensFromUsageMetadata({ usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5, thoughtsTokenCount: 3 } })
+      ).toEqual({ inputTokens: 10, outputTokens: 8 });
+      expect(tokensFromUsageMetadata({})).toEqual({});
+    });
+  });
+
+  describe("meterCall", () => {
+    it("should not meter calls outside a usage context", async () => {
+      const result = await meterCall({ operation: "llm", model: "m" }, async () => "ok", () => ({}));
+
+      expect(result).toBe("ok");
+      expect(getUsageQuota).not.toHaveBeenCalled();
+      expect(createUsageRecord).not.toHaveBeenCalled();
+    });
+
+    it("should record usage with the originating procedure and project", async () => {
+      await runWithUsageContext({ userId: 3, procedure: "ai.textToImage", projectId: 9 }, () =>
+        meterCall(
+          { operation: "image", model: "gemini-3-pro-image-preview", imageSize: "2K" },
+          async () => ({ images: 1 }),
+          () => ({ inputTokens: 20, outputTokens: 1290, imageCount: 1 })
+        )
+      );
+
+      expect(createUsageRecord).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 3,
+          projectId: 9,
+          procedure: "ai.textToImage",
+          operation: "image",
+          imageSize: "2K",
+          inputTokens: 20,
+          outputTokens: 1290,
+          imageCount: 1,
+          success: true,
+        })
+      );
+    });
+
+    it("should record failed calls and rethrow", async () => {
+      await expect(
+        runWithUsageContext({ userId: 3 }, () =>
+          meterCall({ operation: "llm", model: "m" }, async () => {
+            throw new Error("quota exceeded upstream");
+          }, () => ({}))
+        )
+      ).rejects.toThrow("quota exceeded upstream");
+
+      expect(createUsageRecord).toHaveBeenCalledWith(
+        expect.objectContaining({ success: false, errorMessage: "quota exceeded upstream" })
+      );
+    });
+
+    it("should refuse calls once the user's cap is reached", async () => {
+      vi.mocked(getUsageQuota).mockResolvedValue({ userId: 3, ...NO_LIMITS, dailyImageLimit: 5, updatedAt: new Date() });
+      vi.mocked(getUsageTotals).mockResolvedValue(totals(0, 5));
+      const fn = vi.fn(async () => "image");
+
+      await expect(
+        runWithUsageContext({ userId: 3 }, () => meterCall({ operation: "image", model: "m" }, fn, () => ({})))
+      ).rejects.toThrow(/今日图片生成数量已达上限/);
+      expect(fn).not.toHaveBeenCalled();
+    });
+
+    it("should meter backends other than Gemini", async () => {
+      const originalUrl = ENV.ollamaUrl;
+      ENV.ollamaUrl = "http://127.0.0.1:11434";
+      vi.stubGlobal("fetch", vi.fn(async () =>
+        new Response(JSON.stringify({ message: { content: "好" }, prompt_eval_count: 5, eval_count: 6 }))
+      ));
+      try {
+        await runWithUsageContext({ userId: 3 }, () =>
+          ollamaLLMBackend.invoke({ messages: [{ role: "user", content: "你好" }] })
+        );
+      } finally {
+        ENV.ollamaUrl = originalUrl;
+      }
+
+      expect(createUsageRecord).toHaveBeenCalledWith(
+        expect.objectContaining({ operation: "llm", model: ENV.ollamaModel, inputTokens: 5, outputTokens: 6, success: true })
+      );
+    });
+  });
+});
@@ -0,0 +1,153 @@
+// 用量计量
+// tRPC 中间件把调用归属（用户、过程、项目）放入 AsyncLocalStorage，
+// 各模型服务（文本模型后端、图片生成服务、语音合成）的调用处用 meterCall 包裹：
+// 调用前检查用户配额，调用后写入用量台账。
+// 不在任何归属内的调用（如命令行脚本）不计量。
+
+import { AsyncLocalStorage } from "async_hooks";
+import type { UsageQuota } from "../drizzle/schema";
+import { createUsageRecord, getUsageQuota, getUsageTotals, type UsageTotals } from "./db";
+
+export type UsageOperation = "llm" | "image" | "tts";
+
+export type UsageContext = {
+  userId: number;
+  procedure?: string;
+  projectId?: number;
+};
+
+export type UsageMeasurement = {
+  inputTokens?: number;
+  outputTokens?: number;
+  imageCount?: number;
+};
+
+const usageStorage = new AsyncLocalStorage<UsageContext>();
+
+export function runWithUsageContext<T>(context: UsageContext, fn: () => T): T {
+  return usageStorage.run(context, fn);
+}
+
+export function getUsageContext(): UsageContext | undefined {
+  return usageStorage.getStore();
+}
+
+export function startOfDay(now = new Date()): Date {
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+}
+
+export function startOfMonth(now = new Date()): Date {
+  return new Date(now.getFullYear(), now.getMonth(), 1);
+}
+
+/**
+ * 检查本次调用是否会超出配额，返回错误信息；未超出返回 null。
+ * 所有操作都计入 token 上限，图片生成另外受图片数量上限约束
+ */
+export function checkUsageQuota(
+  quota: Pick<UsageQuota, "dailyTokenLimit" | "monthlyTokenLimit" | "dailyImageLimit" | "monthlyImageLimit">,
+  usage: { today: UsageTotals; month: UsageTotals },
+  operation: UsageOperation
+): string | null {
+  const tokensOf = (totals: UsageTotals) => totals.inputTokens + totals.outputTokens;
+
+  if (quota.dailyTokenLimit != null && tokensOf(usage.today) >= quota.dailyTokenLimit) {
+    return `今日 token 用量已达上限（${quota.dailyTokenLimit}）`;
+  }
+  if (quota.monthlyTokenLimit != null && tokensOf(usage.month) >= quota.monthlyTokenLimit) {
+    return `本月 token 用量已达上限（${quota.monthlyTokenLimit}）`;
+  }
+  if (operation === "image") {
+    if (quota.dailyImageLimit != null && usage.today.imageCount >= quota.dailyImageLimit) {
+      return `今日图片生成数量已达上限（${quota.dailyImageLimit} 张）`;
+    }
+    if (quota.monthlyImageLimit != null && usage.month.imageCount >= quota.monthlyImageLimit) {
+      return `本月图片生成数量已达上限（${quota.monthlyImageLimit} 张）`;
+    }
+  }
+  return null;
+}
+
+async function assertWithinUsageQuota(userId: number, operation: UsageOperation): Promise<void> {
+  let violation: string | null = null;
+  try {
+    const quota = await getUsageQuota(userId);
+    if (!quota) return;
+    const [today, month] = await Promise.all([
+      getUsageTotals(userId, startOfDay()),
+      getUsageTotals(userId, startOfMonth()),
+    ]);
+    violation = checkUsageQuota(quota, { today, month }, operation);
+  } catch (error) {
+    // 台账不可用时不阻塞生成
+    console.warn("[Usage] Failed to check quota:", error);
+    return;
+  }
+  if (violation) {
+    throw new Error(violation);
+  }
+}
+
+async function recordUsage(
+  context: UsageContext,
+  call: { operation: UsageOperation; model: string; imageSize?: string },
+  measurement: UsageMeasurement,
+  outcome: { latencyMs: number; error?: unknown }
+): Promise<void> {
+  try {
+    await createUsageRecord({
+      userId: context.userId,
+      projectId: context.projectId ?? null,
+      procedure: context.procedure ?? null,
+      operation: call.operation,
+      model: call.model,
+      imageSize: call.imageSize ?? null,
+      inputTokens: measurement.inputTokens ?? 0,
+      outputTokens: measurement.outputTokens ?? 0,
+      imageCount: measurement.imageCount ?? 0,
+      latencyMs: outcome.latencyMs,
+      success: !outcome.error,
+      errorMessage: outcome.error
+        ? (outcome.error instanceof Error ? outcome.error.message : String(outcome.error)).slice(0, 1000)
+        : null,
+    });
+  } catch (error) {
+    console.warn("[Usage] Failed to record usage:", error);
+  }
+}
+
+/**
+ * 从 Gemini 响应的 usageMetadata 中读取 token 数（思考 token 计入输出）
+ */
+export function tokensFromUsageMetadata(response: unknown): UsageMeasurement {
+  const metadata = (response as { usageMetadata?: Record<string, number | undefined> } | undefined)?.usageMetadata;
+  if (!metadata) return {};
+  return {
+    inputTokens: metadata.promptTokenCount ?? 0,
+    outputTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0),
+  };
+}
+
+/**
+ * 计量一次模型调用：先检查配额，再执行并记录用量（失败也记录）
+ */
+export async function meterCall<T>(
+  call: { operation: UsageOperation; model: string; imageSize?: string },
+  fn: () => Promise<T>,
+  measure: (result: T) => UsageMeasurement
+): Promise<T> {
+  const context = usageStorage.getStore();
+  if (!context) return fn();
+
+  await assertWithinUsageQuota(context.userId, call.operation);
+
+  const startedAt = Date.now();
+  try {
+    const result = await fn();
+    void recordUsage(context, call, measure(result), { latencyMs: Date.now() - startedAt });
+    return result;
+  } catch (error) {
+    void recordUsage(context, call, {}, { latencyMs: Date.now() - startedAt, error });
+    throw error;
+  }
+}
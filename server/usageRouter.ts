@@ -0,0 +1,75 @@
+import { z } from "zod";
+import { adminProcedure, protectedProcedure, router } from "./_core/trpc";
+import { getUsageBreakdown, getUsageBuckets, getUsageQuota, getUsageTotals, upsertUsageQuota } from "./db";
+import { startOfDay, startOfMonth } from "./usageMeter";
+
+// ============================================
+// 用量统计与配额
+// ============================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const limitSchema = z.number().int().min(0).nullable();
+
+export const usageRouter = router({
+  // 今日、本月用量及配额
+  summary: protectedProcedure.query(async ({ ctx }) => {
+    const [today, month, quota] = await Promise.all([
+      getUsageTotals(ctx.user.id, startOfDay()),
+      getUsageTotals(ctx.user.id, startOfMonth()),
+      getUsageQuota(ctx.user.id),
+    ]);
+
+    return {
+      today,
+      month,
+      quota: {
+        dailyTokenLimit: quota?.dailyTokenLimit ?? null,
+        monthlyTokenLimit: quota?.monthlyTokenLimit ?? null,
+        dailyImageLimit: quota?.dailyImageLimit ?? null,
+        monthlyImageLimit: quota?.monthlyImageLimit ?? null,
+      },
+    };
+  }),
+
+  // 按天汇总
+  daily: protectedProcedure
+    .input(z.object({ days: z.number().int().min(1).max(366).default(30) }).optional())
+    .query(async ({ ctx, input }) => {
+      const days = input?.days ?? 30;
+      const since = startOfDay(new Date(Date.now() - (days - 1) * DAY_MS));
+      return getUsageBuckets(ctx.user.id, since, "day");
+    }),
+
+  // 按月汇总
+  monthly: protectedProcedure
+    .input(z.object({ months: z.number().int().min(1).max(36).default(12) }).optional())
+    .query(async ({ ctx, input }) => {
+      const months = input?.months ?? 12;
+      const now = new Date();
+      const since = new Date(now.getFullYear(), now.getMonth() - (months - 1), 1);
+      return getUsageBuckets(ctx.user.id, since, "month");
+    }),
+
+  // 按模型和发起过程汇总
+  breakdown: protectedProcedure
+    .input(z.object({ days: z.number().int().min(1).max(366).default(30) }).optional())
+    .query(async ({ ctx, input }) => {
+      const days = input?.days ?? 30;
+      return getUsageBreakdown(ctx.user.id, startOfDay(new Date(Date.now() - (days - 1) * DAY_MS)));
+    }),
+
+  // 设置用户配额（管理员），null 表示不限制
+  setQuota: adminProcedure
+    .input(z.object({
+      userId: z.number(),
+      dailyTokenLimit: limitSchema,
+      monthlyTokenLimit: limitSchema,
+      dailyImageLimit: limitSchema,
+      monthlyImageLimit: limitSchema,
+    }))
+    .mutation(async ({ input }) => {
+      await upsertUsageQuota(input);
+      return { success: true };
+    }),
+});
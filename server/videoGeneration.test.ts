@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("./storage", () => ({
+  localUploadPath: vi.fn(() => null),
+  storagePut: vi.fn(async (key: string) => ({
+    key: `uploads/${key}`,
+    url: `http://localhost:3000/uploads/${key}`,
+  })),
+}));
+
+import { storagePut } from "./storage";
+import {
+  buildKenBurnsFilter,
+  generateVideo,
+  kenBurnsProvider,
+  registerVideoProvider,
+  resolveVideoProvider,
+  type VideoProviderInput,
+} from "./_core/videoGeneration";
+
+// 1x1 透明 PNG
+const PIXEL_DATA_URL =
+  "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=";
+
+describe("videoGeneration", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("buildKenBurnsFilter", () => {
+    it("should render the requested output size and frame count", () => {
+      const filter = buildKenBurnsFilter({ width: 1280, height: 720, duration: 4 });
+
+      expect(filter).toContain("s=1280x720");
+      expect(filter).toContain("d=100");
+      expect(filter).toContain("fps=25");
+      expect(filter.endsWith("format=yuv420p")).toBe(true);
+    });
+  });
+
+  describe("resolveVideoProvider", () => {
+    it("should fall back to the local Ken-Burns stub for unknown models", () => {
+      expect(resolveVideoProvider("hailuo").id).toBe(kenBurnsProvider.id);
+      expect(resolveVideoProvider().id).toBe(kenBurnsProvider.id);
+    });
+
+    it("should pick a registered provider by model id", () => {
+      registerVideoProvider({
+        id: "test-provider",
+        name: "Test",
+        generate: async () => ({ data: Buffer.from(""), mimeType: "video/mp4" }),
+      });
+
+      expect(resolveVideoProvider("test-provider").id).toBe("test-provider");
+    });
+  });
+
+  describe("generateVideo", () => {
+    it("should pass normalized input to the provider and store the clip", async () => {
+      const generate = vi.fn(async (_input: VideoProviderInput) => ({
+        data: Buffer.from("fake-mp4"),
+        mimeType: "video/mp4",
+      }));
+      registerVideoProvider({ id: "fake", name: "Fake", generate });
+
+      const result = await generateVideo({
+        prompt: "镜头缓慢推进",
+        imageUrl: PIXEL_DATA_URL,
+        model: "fake",
+        duration: 99,
+        width: 721,
+        height: 1281,
+      });
+
+      const input = generate.mock.calls[0][0];
+      expect(input.image.mimeType).toBe("image/png");
+      expect(input.duration).toBe(30);
+      expect(input.width % 2).toBe(0);
+      expect(input.height % 2).toBe(0);
+
+      expect(storagePut).toHaveBeenCalledTimes(1);
+      expect(result.provider).toBe("fake");
+      expect(result.mimeType).toBe("video/mp4");
+      expect(result.size).toBe("fake-mp4".length);
+      expect(result.fileKey).toMatch(/^uploads\/generated\/video-.*\.mp4$/);
+    });
+
+    it("should clamp the output size so ffmpeg never allocates huge frames", async () => {
+      const generate = vi.fn(async (_input: VideoProviderInput) => ({ data: Buffer.from("mp4"), mimeType: "video/mp4" }));
+      registerVideoProvider({ id: "fake", name: "Fake", generate });
+
+      await generateVideo({ prompt: "", imageUrl: PIXEL_DATA_URL, model: "fake", width: 1e6, height: 3 });
+
+      expect(generate.mock.calls[0][0]).toMatchObject({ width: 4096, height: 64 });
+    });
+
+    it("should reject unsupported image URLs", async () => {
+      await expect(
+        generateVideo({ prompt: "", imageUrl: "blob:http://localhost/abc" })
+      ).rejects.toThrow();
+    });
+
+    it("should refuse to download first frames from private hosts", async () => {
+      await expect(
+        generateVideo({ prompt: "", imageUrl: "http://169.254.169.254/latest/meta-data" })
+      ).rejects.toThrow("不允许访问内网地址");
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("./db", () => ({
+  createAsset: vi.fn(),
+  getDesignsByCanvasId: vi.fn(),
+  getProjectAssets: vi.fn(),
+  getStoryboardShotsByScriptId: vi.fn(),
+}));
+vi.mock("./storage", () => ({
+  storagePut: vi.fn(async (key: string) => ({ key: `uploads/${key}`, url: `/uploads/${key}` })),
+}));
+
+import { concatWav, decodeWav, encodeWav, localTtsProvider, wavDuration } from "./_core/ttsProviders";
+import { createAsset, getDesignsByCanvasId, getProjectAssets, getStoryboardShotsByScriptId } from "./db";
+import { assignVoices, characterProfile, findShotVoiceovers, generateScriptVoiceover, parseDialogue } from "./voiceover";
+
+describe("voiceover", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("local TTS", () => {
+    it("should synthesize deterministic speech whose length follows the text", async () => {
+      const short = await localTtsProvider.synthesize({ text: "你好", voice: "female-young" });
+      const again = await localTtsProvider.synthesize({ text: "你好", voice: "female-young" });
+      const long = await localTtsProvider.synthesize({ text: "你好，好久不见", voice: "female-young" });
+      const other = await localTtsProvider.synthesize({ text: "你好", voice: "male-senior" });
+
+      expect(short.data.equals(again.data)).toBe(true);
+      expect(short.data.equals(other.data)).toBe(false);
+      expect(wavDuration(short)).toBeCloseTo(0.4);
+      expect(wavDuration(long)).toBeCloseTo(1.35);
+    });
+
+    it("should round-trip WAV files and join clips with silence", async () => {
+      const audio = await localTtsProvider.synthesize({ text: "好", voice: "narrator" });
+      const decoded = decodeWav(encodeWav(audio));
+      expect(decoded).toMatchObject({ sampleRate: 24000, channels: 1, bitsPerSample: 16 });
+      expect(decoded.data.equals(audio.data)).toBe(true);
+      expect(wavDuration(concatWav([audio, audio], 0.3))).toBeCloseTo(0.7);
+      expect(() => concatWav([audio, { ...audio, sampleRate: 44100 }])).toThrow("音频格式不一致");
+      expect(() => decodeWav(Buffer.from("not a wav"))).toThrow("不是有效的 WAV 音频");
+    });
+  });
+
+  describe("assignVoices", () => {
+    it("should match voices by gender, age and personality and keep chosen voices", () => {
+      const characters = [
+        { characterName: "林婉儿", role: "女主角", visualDesign: { age: "18岁", temperament: "活泼可爱" } },
+        { name: "张老爷", personality: "威严" },
+        { name: "李慕白", gender: "男", age: 28, personality: "阳光" },
+        { name: "苏姐", personality: "温柔", voices: { local: "female-senior", openai: "nova" } },
+      ].map(character => characterProfile(character, "local")!);
+
+      expect(characters[0]).toMatchObject({ gender: "female", age: "young" });
+      expect(characters[1]).toMatchObject({ gender: "male", age: "senior" });
+      expect(characters[3]).toMatchObject({ gender: "female", voiceId: "female-senior" });
+      expect(Object.fromEntries(assignVoices(localTtsProvider, characters))).toEqual({
+        林婉儿: "female-young",
+        张老爷: "male-senior",
+        李慕白: "male-young",
+        苏姐: "female-senior",
+      });
+    });
+
+    it("should avoid giving two characters the same voice while others are free", () => {
+      const twins = [{ name: "大哥" }, { name: "二哥" }].map(character => characterProfile(character, "local")!);
+      const voices = assignVoices(localTtsProvider, twins);
+      expect(voices.get("大哥")).not.toBe(voices.get("二哥"));
+      expect(assignVoices(localTtsProvider, twins)).toEqual(voices);
+    });
+  });
+
+  it("should split dialogue into speakers and narration without stage directions", () => {
+    expect(parseDialogue("小明（低声）：“你来了。”\n旁白：夜深了\n  门外传来脚步声 \n小红:（转身）走吧")).toEqual([
+      { speaker: "小明", text: "你来了。" },
+      { speaker: null, text: "夜深了" },
+      { speaker: null, text: "门外传来脚步声" },
+      { speaker: "小红", text: "走吧" },
+    ]);
+    expect(parseDialogue("（无）")).toEqual([]);
+  });
+
+  describe("generateScriptVoiceover", () => {
+    const shots = [
+      { id: 1, shotNumber: 1, dialogue: "小明：你好\n小红：好久不见" },
+      { id: 2, shotNumber: 2, dialogue: "无" },
+      { id: 3, shotNumber: 3, dialogue: "夜深了" },
+    ];
+
+    beforeEach(() => {
+      vi.mocked(getStoryboardShotsByScriptId).mockResolvedValue(shots as any);
+      vi.mocked(getDesignsByCanvasId).mockResolvedValue([
+        { id: 5, scriptId: 7, characters: [{ name: "小明", gender: "男" }, { name: "小红", gender: "女" }] } as any,
+      ]);
+      vi.mocked(createAsset).mockImplementation(async data => ({ id: 100 + vi.mocked(createAsset).mock.calls.length, ...data }) as any);
+    });
+
+    it("should store one audio asset per shot with dialogue and report progress", async () => {
+      vi.mocked(getProjectAssets).mockResolvedValue([]);
+      const progress: number[] = [];
+
+      const result = await generateScriptVoiceover({
+        userId: 1,
+        projectId: 9,
+        scriptId: 7,
+        onProgress: percent => progress.push(percent),
+      });
+
+      expect(progress).toEqual([50, 100]);
+      expect(result.provider.id).toBe("local");
+      expect(result.shots).toEqual([
+        { shotId: 1, assetId: 101, duration: expect.closeTo(1.5, 3), reused: false },
+        { shotId: 3, assetId: 102, duration: expect.closeTo(0.6, 3), reused: false },
+      ]);
+      expect(createAsset).toHaveBeenCalledWith(
+        expect.objectContaining({
+          projectId: 9,
+          type: "audio",
+          mimeType: "audio/wav",
+          metadata: expect.objectContaining({ source: "voiceover", shotId: 1, voices: ["male-young", "female-young"] }),
+        })
+      );
+    });
+
+    it("should reuse voiceovers whose dialogue and voices are unchanged and find them for the timeline", async () => {
+      vi.mocked(getProjectAssets).mockResolvedValue([]);
+      await generateScriptVoiceover({ userId: 1, projectId: 9, scriptId: 7 });
+      const stored = vi.mocked(createAsset).mock.results.map(result => result.value);
+      const assets = (await Promise.all(stored)) as any[];
+      vi.mocked(getProjectAssets).mockResolvedValue(assets);
+      vi.mocked(createAsset).mockClear();
+
+      const result = await generateScriptVoiceover({ userId: 1, projectId: 9, scriptId: 7 });
+      expect(result.shots.every(shot => shot.reused)).toBe(true);
+      expect(createAsset).not.toHaveBeenCalled();
+
+      const found = findShotVoiceovers(assets, [shots[0], { ...shots[2], dialogue: "天亮了" }]);
+      expect(found.get(1)).toEqual({ assetId: assets[0].id, duration: expect.closeTo(1.5, 3) });
+      expect(found.has(3)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,371 @@
+import crypto from "crypto";
+import { nanoid } from "nanoid";
+import type { Asset, Design } from "../drizzle/schema";
+import { dialogueText } from "../shared/timeline";
+import {
+  concatWav,
+  encodeWav,
+  resolveTtsProvider,
+  wavDuration,
+  type TtsProvider,
+  type TtsVoice,
+  type TtsVoiceAge,
+  type TtsVoiceGender,
+} from "./_core/ttsProviders";
+import { createAsset, getDesignsByCanvasId, getProjectAssets, getStoryboardShotsByScriptId } from "./db";
+import { storagePut } from "./storage";
+
+// ============================================
+// 配音：按角色设定给角色分配声音，把分镜对白逐句合成为每个镜头一段音频，存为项目的 audio 素材。
+// 时间轴同步分镜时按对白找到镜头的配音，与画面、字幕一起排布（见 timeline.linkStoryboard）
+// ============================================
+
+// 同一镜头相邻两句对白之间的停顿（秒）
+const LINE_GAP_SECONDS = 0.3;
+
+// 用于匹配声音的角色信息；gender / age 推断不出时为 null
+export interface CharacterProfile {
+  name: string;
+  gender: TtsVoiceGender | null;
+  age: TtsVoiceAge | null;
+  // 性格、气质、身份等描述，与声音的 traits 匹配
+  traits: string;
+  // 用户为该角色选择的声音（按提供方保存在角色设定的 voices 中）
+  voiceId?: string;
+}
+
+// 设定中的角色是宽松的 JSON：新版为 characterName + visualDesign，旧版为 name + personality
+type CharacterJson = {
+  name?: unknown;
+  characterName?: unknown;
+  gender?: unknown;
+  sex?: unknown;
+  age?: unknown;
+  role?: unknown;
+  personality?: unknown;
+  description?: unknown;
+  appearance?: unknown;
+  voices?: unknown;
+  visualDesign?: { gender?: unknown; age?: unknown; temperament?: unknown } | null;
+};
+
+const FEMALE_WORDS = /女|妹|姐|娘|妈|母|婆|奶|姑|妻|公主|小姐|female|woman|girl/gi;
+const MALE_WORDS = /男|弟|哥|兄|爸|父|爷|公子|先生|丈夫|王子|少爷|(?<!fe)male|\bman\b|boy/gi;
+
+function text(value: unknown): string {
+  return typeof value === "string" ? value : typeof value === "number" ? String(value) : "";
+}
+
+function inferGender(explicit: string, description: string): TtsVoiceGender | null {
+  for (const source of [explicit, description]) {
+    const female = source.match(FEMALE_WORDS)?.length ?? 0;
+    const male = source.match(MALE_WORDS)?.length ?? 0;
+    if (female !== male) return female > male ? "female" : "male";
+  }
+  return null;
+}
+
+function inferAge(value: string): TtsVoiceAge | null {
+  const years = value.match(/\d+/);
+  if (years) {
+    const age = Number(years[0]);
+    return age < 13 ? "child" : age < 30 ? "young" : age < 55 ? "adult" : "senior";
+  }
+  if (/童|孩|幼|child|kid/i.test(value)) return "child";
+  if (/老|年迈|花甲|古稀|爷|奶|senior|old/i.test(value)) return "senior";
+  if (/少年|少女|青年|年轻|学生|young|teen/i.test(value)) return "young";
+  if (/中年|成年|adult/i.test(value)) return "adult";
+  return null;
+}
+
+/**
+ * 从设定中的一个角色读取名字、性别、年龄段和性格；没有名字时返回 null
+ */
+export function characterProfile(value: unknown, providerId: string): CharacterProfile | null {
+  if (!value || typeof value !== "object") return null;
+  const character = value as CharacterJson;
+  const name = (text(character.characterName) || text(character.name)).trim();
+  if (!name) return null;
+  const visual = character.visualDesign ?? {};
+  const description = [character.role, character.description, character.appearance].map(text).join(" ");
+  const voices = character.voices && typeof character.voices === "object" ? (character.voices as Record<string, unknown>) : {};
+  const voiceId = text(voices[providerId]);
+
+  return {
+    name,
+    gender: inferGender([character.gender, character.sex, visual.gender].map(text).join(" "), `${name} ${description}`),
+    age: inferAge([character.age, visual.age].map(text).join(" ")) ?? inferAge(`${name} ${text(character.role)}`),
+    traits: [character.personality, visual.temperament, description].map(text).join(" "),
+    ...(voiceId ? { voiceId } : {}),
+  };
+}
+
+// 对白中出现但设定里没有的说话人，只能从称呼推断
+function speakerProfile(name: string): CharacterProfile {
+  return { name, gender: inferGender("", name), age: inferAge(name), traits: "" };
+}
+
+function stableHash(value: string): number {
+  return crypto.createHash("md5").update(value).digest().readUInt32BE(0);
+}
+
+function voiceScore(voice: TtsVoice, character: CharacterProfile): number {
+  let score = 0;
+  if (character.gender) {
+    score += voice.gender === character.gender ? 4 : voice.gender === "neutral" ? 0 : -6;
+  }
+  // 不知道年龄时多半是青年或成年角色，不选童声和老年声音
+  if (character.age) {
+    score += voice.age === character.age ? 2 : 0;
+  } else {
+    score += voice.age === "young" || voice.age === "adult" ? 1 : 0;
+  }
+  return score + voice.traits.filter(trait => character.traits.includes(trait)).length;
+}
+
+/**
+ * 给角色分配声音：用户选过的直接使用，其他角色按性别、年龄段、性格匹配，
+ * 尽量不与其他角色和旁白重复；同分时按角色名取稳定的结果，每次分配相同
+ */
+export function assignVoices(provider: TtsProvider, characters: CharacterProfile[]): Map<string, string> {
+  const assigned = new Map<string, string>();
+  const used = new Map<string, number>([[provider.narratorVoice, 1]]);
+  const use = (name: string, voiceId: string) => {
+    assigned.set(name, voiceId);
+    used.set(voiceId, (used.get(voiceId) ?? 0) + 1);
+  };
+
+  for (const character of characters) {
+    if (character.voiceId && provider.voices.some(voice => voice.id === character.voiceId)) {
+      use(character.name, character.voiceId);
+    }
+  }
+  for (const character of characters) {
+    if (assigned.has(character.name)) continue;
+    const ranked = provider.voices
+      .map(voice => ({
+        voice,
+        score: voiceScore(voice, character) - 3 * (used.get(voice.id) ?? 0),
+        tiebreak: stableHash(`${character.name}:${voice.id}`),
+      }))
+      .sort((a, b) => b.score - a.score || a.tiebreak - b.tiebreak);
+    use(character.name, ranked[0].voice.id);
+  }
+  return assigned;
+}
+
+export interface DialogueLine {
+  // 旁白和没有标明说话人的对白为 null
+  speaker: string | null;
+  text: string;
+}
+
+const SPEAKER_LINE = /^([^：:（(\s][^：:（(]{0,19}?)\s*(?:[（(][^）)]*[）)])?\s*[：:]\s*(.*)$/;
+const NARRATOR_SPEAKERS = /^(旁白|画外音|独白|叙述|解说|narrator|os|vo)$/i;
+
+/**
+ * 把分镜对白拆成逐句的说话人和台词：每行“角色：台词”，“旁白：”和不带说话人的行由旁白朗读；
+ * 括号中的表演提示（如“小明（低声）：”）和台词两端的引号不朗读
+ */
+export function parseDialogue(dialogue: string | null): DialogueLine[] {
+  const lines: DialogueLine[] = [];
+  for (const raw of dialogueText(dialogue).split(/\r?\n/)) {
+    const match = raw.trim().match(SPEAKER_LINE);
+    const speaker = match ? match[1].trim() : null;
+    const line = (match ? match[2] : raw)
+      .replace(/[（(][^）)]*[）)]/g, "")
+      .trim()
+      .replace(/^[“"「『]|[”"」』]$/g, "")
+      .trim();
+    if (!line) continue;
+    lines.push({ speaker: speaker && !NARRATOR_SPEAKERS.test(speaker) ? speaker : null, text: line });
+  }
+  return lines;
+}
+
+// 镜头对白的摘要；对白修改后旧配音不再关联到镜头
+export function voiceoverDialogueHash(dialogue: string | null): string {
+  return crypto.createHash("sha1").update(dialogueText(dialogue)).digest("hex");
+}
+
+type VoiceoverMetadata = {
+  source?: unknown;
+  shotId?: unknown;
+  dialogueHash?: unknown;
+  voiceoverHash?: unknown;
+  duration?: unknown;
+};
+
+function voiceoverMetadata(asset: Asset): VoiceoverMetadata | null {
+  const metadata = asset.metadata as VoiceoverMetadata | null;
+  return asset.type === "audio" && metadata?.source === "voiceover" ? metadata : null;
+}
+
+/**
+ * 镜头当前对白对应的配音素材（同一对白生成过多次时取最新的）
+ */
+export function findShotVoiceovers(
+  assets: Asset[],
+  shots: Array<{ id: number; dialogue: string | null }>
+): Map<number, { assetId: number; duration: number }> {
+  const hashes = new Map(shots.map(shot => [shot.id, voiceoverDialogueHash(shot.dialogue)]));
+  const result = new Map<number, { assetId: number; duration: number }>();
+  for (const asset of assets) {
+    const metadata = voiceoverMetadata(asset);
+    if (!metadata || typeof metadata.shotId !== "number" || typeof metadata.duration !== "number") continue;
+    if (hashes.get(metadata.shotId) !== metadata.dialogueHash) continue;
+    const current = result.get(metadata.shotId);
+    if (!current || current.assetId < asset.id) {
+      result.set(metadata.shotId, { assetId: asset.id, duration: metadata.duration });
+    }
+  }
+  return result;
+}
+
+// 剧本的角色设定；没有关联到剧本的设定时使用项目中的全部设定
+async function scriptDesigns(projectId: number, scriptId: number): Promise<Design[]> {
+  const designs = await getDesignsByCanvasId(projectId);
+  const linked = designs.filter(design => design.scriptId === scriptId);
+  return linked.length > 0 ? linked : designs;
+}
+
+export interface VoiceCastMember extends CharacterProfile {
+  // 角色所在的设定；只在对白中出现的说话人为 null
+  designId: number | null;
+  assignedVoiceId: string;
+}
+
+export interface VoiceCast {
+  provider: { id: string; name: string };
+  voices: TtsVoice[];
+  narratorVoice: string;
+  characters: VoiceCastMember[];
+}
+
+/**
+ * 剧本的配音阵容：设定中的角色和分镜对白中出现的其他说话人，以及分配到的声音
+ */
+export async function getVoiceCast(projectId: number, scriptId: number, provider = resolveTtsProvider()): Promise<VoiceCast> {
+  const members: Array<Omit<VoiceCastMember, "assignedVoiceId">> = [];
+  for (const design of await scriptDesigns(projectId, scriptId)) {
+    const characters = Array.isArray(design.characters) ? design.characters : [];
+    for (const character of characters) {
+      const profile = characterProfile(character, provider.id);
+      if (profile && !members.some(member => member.name === profile.name)) {
+        members.push({ ...profile, designId: design.id });
+      }
+    }
+  }
+  for (const shot of await getStoryboardShotsByScriptId(scriptId)) {
+    for (const { speaker } of parseDialogue(shot.dialogue)) {
+      if (speaker && !matchSpeaker(members, speaker)) {
+        members.push({ ...speakerProfile(speaker), designId: null });
+      }
+    }
+  }
+
+  const assigned = assignVoices(provider, members);
+  return {
+    provider: { id: provider.id, name: provider.name },
+    voices: provider.voices,
+    narratorVoice: provider.narratorVoice,
+    characters: members.map(member => ({ ...member, assignedVoiceId: assigned.get(member.name)! })),
+  };
+}
+
+// 对白中的称呼可能是全名的一部分（“小明” / “李小明”），完全相同的优先
+function matchSpeaker<T extends { name: string }>(members: T[], speaker: string): T | undefined {
+  return (
+    members.find(member => member.name === speaker) ??
+    members.find(member => member.name.includes(speaker) || speaker.includes(member.name))
+  );
+}
+
+export interface VoiceoverShotResult {
+  shotId: number;
+  assetId: number;
+  duration: number;
+  // 对白和声音都没变，沿用了之前生成的配音
+  reused: boolean;
+}
+
+export interface VoiceoverResult {
+  provider: { id: string; name: string };
+  shots: VoiceoverShotResult[];
+}
+
+/**
+ * 为剧本每个有对白的镜头合成配音并存为项目的 audio 素材。
+ * 对白、声音和提供方都没变的镜头沿用已有的配音，regenerate 时全部重新合成
+ */
+export async function generateScriptVoiceover(options: {
+  userId: number;
+  projectId: number;
+  scriptId: number;
+  regenerate?: boolean;
+  onProgress?: (percent: number) => void;
+}): Promise<VoiceoverResult> {
+  const provider = resolveTtsProvider();
+  const cast = await getVoiceCast(options.projectId, options.scriptId, provider);
+  const shots = (await getStoryboardShotsByScriptId(options.scriptId))
+    .map(shot => ({ shot, lines: parseDialogue(shot.dialogue) }))
+    .filter(({ lines }) => lines.length > 0);
+  if (shots.length === 0) {
+    throw new Error("分镜还没有填写对白");
+  }
+
+  const existing = new Map<string, Asset>();
+  for (const asset of await getProjectAssets(options.projectId)) {
+    const hash = voiceoverMetadata(asset)?.voiceoverHash;
+    if (typeof hash === "string") existing.set(hash, asset);
+  }
+
+  const results: VoiceoverShotResult[] = [];
+  for (let index = 0; index < shots.length; index++) {
+    const { shot, lines } = shots[index];
+    const parts = lines.map(line => ({
+      voice: (line.speaker && matchSpeaker(cast.characters, line.speaker)?.assignedVoiceId) || provider.narratorVoice,
+      text: line.text,
+    }));
+    const voiceoverHash = crypto.createHash("sha1").update(JSON.stringify([provider.id, shot.id, parts])).digest("hex");
+    const previous = options.regenerate ? undefined : existing.get(voiceoverHash);
+    const previousDuration = previous ? voiceoverMetadata(previous)?.duration : undefined;
+
+    if (previous && typeof previousDuration === "number") {
+      results.push({ shotId: shot.id, assetId: previous.id, duration: previousDuration, reused: true });
+    } else {
+      const clips = [];
+      for (const part of parts) {
+        clips.push(await provider.synthesize({ text: part.text, voice: part.voice }));
+      }
+      const audio = concatWav(clips, LINE_GAP_SECONDS);
+      const data = encodeWav(audio);
+      const duration = Math.round(wavDuration(audio) * 1000) / 1000;
+      const { key, url } = await storagePut(`generated/voiceover-${Date.now()}-${nanoid(8)}.wav`, data, "audio/wav");
+      const asset = await createAsset({
+        userId: options.userId,
+        projectId: options.projectId,
+        type: "audio",
+        url,
+        fileKey: key,
+        filename: `配音-镜头${shot.shotNumber}.wav`,
+        mimeType: "audio/wav",
+        size: data.length,
+        metadata: {
+          source: "voiceover",
+          scriptId: options.scriptId,
+          shotId: shot.id,
+          provider: provider.id,
+          voices: Array.from(new Set(parts.map(part => part.voice))),
+          dialogueHash: voiceoverDialogueHash(shot.dialogue),
+          voiceoverHash,
+          duration,
+        },
+      });
+      results.push({ shotId: shot.id, assetId: asset.id, duration, reused: false });
+    }
+    options.onProgress?.(Math.round(((index + 1) / shots.length) * 100));
+  }
+
+  return { provider: cast.provider, shots: results };
+}
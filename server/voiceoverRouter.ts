@@ -0,0 +1,82 @@
+import { z } from "zod";
+import { protectedProcedure, router } from "./_core/trpc";
+import { resolveTtsProvider } from "./_core/ttsProviders";
+import { updateDesignCharacters } from "./db";
+import { publishGenerationEvent } from "./generationEvents";
+import { requireDesignAccess, requireProjectAccess, requireScriptAccess } from "./projectAccess";
+import { characterProfile, generateScriptVoiceover, getVoiceCast } from "./voiceover";
+
+// ============================================
+// 配音：角色声音分配与分镜对白的语音合成（见 server/voiceover.ts）
+// ============================================
+
+async function requireProjectScript(projectId: number, scriptId: number, userId: number) {
+  const script = await requireScriptAccess(scriptId, userId);
+  if (script.canvasId !== projectId) {
+    throw new Error("剧本不属于该项目");
+  }
+  return script;
+}
+
+export const voiceoverRouter = router({
+  // 当前配音服务的声音列表，以及剧本中各角色分配到的声音
+  cast: protectedProcedure
+    .input(z.object({
+      projectId: z.number(),
+      scriptId: z.number(),
+    }))
+    .query(async ({ ctx, input }) => {
+      await requireProjectAccess(input.projectId, ctx.user.id, "viewer");
+      await requireProjectScript(input.projectId, input.scriptId, ctx.user.id);
+      return getVoiceCast(input.projectId, input.scriptId);
+    }),
+
+  // 为设定中的角色选择声音，保存在角色的 voices[提供方 id] 中；voiceId 为 null 时恢复自动分配
+  setCharacterVoice: protectedProcedure
+    .input(z.object({
+      designId: z.number(),
+      name: z.string().min(1).max(100),
+      voiceId: z.string().max(64).nullable(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const design = await requireDesignAccess(input.designId, ctx.user.id, "editor");
+      const provider = resolveTtsProvider();
+      if (input.voiceId !== null && !provider.voices.some(voice => voice.id === input.voiceId)) {
+        throw new Error("声音不存在");
+      }
+
+      const characters = Array.isArray(design.characters) ? [...design.characters] : [];
+      const index = characters.findIndex(character => characterProfile(character, provider.id)?.name === input.name);
+      if (index === -1) {
+        throw new Error("角色不存在");
+      }
+      const character = characters[index] as { voices?: unknown };
+      const voices = { ...(character.voices && typeof character.voices === "object" ? character.voices : {}) } as Record<string, string>;
+      if (input.voiceId === null) {
+        delete voices[provider.id];
+      } else {
+        voices[provider.id] = input.voiceId;
+      }
+      characters[index] = { ...character, voices };
+      await updateDesignCharacters(design.id, characters);
+      return { success: true };
+    }),
+
+  // 为剧本有对白的镜头合成配音；通过 generation.enqueue 以 voiceover.generate 任务执行，
+  // 进度以 progress 事件推送。完成后由时间轴同步分镜时排到音频轨道
+  generate: protectedProcedure
+    .input(z.object({
+      projectId: z.number(),
+      scriptId: z.number(),
+      regenerate: z.boolean().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await requireProjectAccess(input.projectId, ctx.user.id, "editor");
+      await requireProjectScript(input.projectId, input.scriptId, ctx.user.id);
+      return generateScriptVoiceover({
+        userId: ctx.user.id,
+        ...input,
+        onProgress: percent => publishGenerationEvent({ type: "progress", percent, label: "生成配音" }),
+      });
+    }),
+});
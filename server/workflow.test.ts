@@ -0,0 +1,141 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  executeWorkflow,
+  planWorkflowRun,
+  topologicalSort,
+  workflowJobCacheKey,
+  type WorkflowEdge,
+  type WorkflowJob,
+  type WorkflowNode,
+} from "../shared/workflow";
+
+function chain(): { nodes: WorkflowNode[]; edges: WorkflowEdge[] } {
+  return {
+    nodes: [
+      { id: "video", type: "imageToVideo", data: { model: "kenburns", duration: "3" } },
+      { id: "display", type: "imageDisplay", data: {} },
+      { id: "t2i", type: "textToImage", data: { prompt: "夜景", aspectRatio: "16:9", styleName: "赛博朋克" } },
+      { id: "prompt", type: "prompt", data: { prompt: "霓虹街道" } },
+    ],
+    edges: [
+      { source: "prompt", target: "t2i" },
+      { source: "t2i", target: "display" },
+      { source: "display", target: "video" },
+    ],
+  };
+}
+
+function fakeRunJob() {
+  return vi.fn(async (job: WorkflowJob) =>
+    job.jobType === "ai.imageToVideo"
+      ? { videoUrl: `http://x/${job.input.nodeId}.mp4` }
+      : { imageUrl: `http://x/${job.input.nodeId}.png` }
+  );
+}
+
+describe("workflow engine", () => {
+  describe("topologicalSort", () => {
+    it("should order nodes after their upstream nodes", () => {
+      const { nodes, edges } = chain();
+      expect(topologicalSort(nodes, edges)).toEqual(["prompt", "t2i", "display", "video"]);
+    });
+
+    it("should reject cycles", () => {
+      const nodes = [{ id: "a", data: {} }, { id: "b", data: {} }];
+      const edges = [{ source: "a", target: "b" }, { source: "b", target: "a" }];
+      expect(() => topologicalSort(nodes, edges)).toThrow("循环连接");
+    });
+  });
+
+  describe("planWorkflowRun", () => {
+    it("should plan all nodes, downstream nodes or only the selection", () => {
+      const graph = chain();
+      expect(planWorkflowRun(graph, { type: "all" })).toHaveLength(4);
+      expect(planWorkflowRun(graph, { type: "from", nodeId: "t2i" })).toEqual(["t2i", "display", "video"]);
+      expect(planWorkflowRun(graph, { type: "selected", nodeIds: ["video", "prompt"] })).toEqual(["prompt", "video"]);
+    });
+  });
+
+  describe("executeWorkflow", () => {
+    it("should pass outputs along edges and build jobs like the node UIs", async () => {
+      const runJob = fakeRunJob();
+      const onNodeOutput = vi.fn();
+
+      const result = await executeWorkflow(chain(), { type: "all" }, { runJob, onNodeOutput });
+
+      expect(runJob.mock.calls[0][0]).toEqual({
+        jobType: "ai.textToImage",
+        input: { prompt: "霓虹街道, 夜景, 赛博朋克 style", model: undefined, width: 1344, height: 768, nodeId: "t2i" },
+      });
+      expect(runJob.mock.calls[1][0].input).toMatchObject({
+        imageUrl: "http://x/t2i.png",
+        model: "kenburns",
+        duration: 3,
+        aspectRatio: "16:9",
+      });
+      expect(result.outputs.video).toEqual({ video: "http://x/video.mp4" });
+      expect(result.statuses).toEqual({ prompt: "done", t2i: "done", display: "done", video: "done" });
+      expect(onNodeOutput).toHaveBeenCalledWith("display", { imageUrl: "http://x/t2i.png" });
+      expect(onNodeOutput).toHaveBeenCalledWith("t2i", expect.objectContaining({
+        outputImage: "http://x/t2i.png",
+        lastRun: expect.objectContaining({ outputs: { image: "http://x/t2i.png" } }),
+      }));
+    });
+
+    it("should skip generation nodes whose job has not changed", async () => {
+      const graph = chain();
+      const firstRun = fakeRunJob();
+      const outputs = new Map<string, Record<string, unknown>>();
+      await executeWorkflow(graph, { type: "all" }, {
+        runJob: firstRun,
+        onNodeOutput: (id, data) => outputs.set(id, data),
+      });
+      for (const node of graph.nodes) Object.assign(node.data, outputs.get(node.id));
+
+      const secondRun = fakeRunJob();
+      const result = await executeWorkflow(graph, { type: "all" }, { runJob: secondRun });
+      expect(secondRun).not.toHaveBeenCalled();
+      expect(result.statuses).toMatchObject({ t2i: "cached", video: "cached" });
+
+      // 修改参数后只重新生成受影响的节点
+      graph.nodes.find(node => node.id === "video")!.data.duration = "5";
+      const thirdRun = fakeRunJob();
+      await executeWorkflow(graph, { type: "all" }, { runJob: thirdRun });
+      expect(thirdRun.mock.calls.map(([job]) => job.input.nodeId)).toEqual(["video"]);
+    });
+
+    it("should mark downstream nodes as skipped when a node fails", async () => {
+      const graph = chain();
+      graph.nodes.find(node => node.id === "prompt")!.data.prompt = "";
+      graph.nodes.find(node => node.id === "t2i")!.data.prompt = "";
+      const runJob = fakeRunJob();
+
+      const result = await executeWorkflow(graph, { type: "all" }, { runJob });
+
+      expect(runJob).not.toHaveBeenCalled();
+      expect(result.statuses).toMatchObject({ t2i: "error", display: "skipped", video: "skipped" });
+      expect(result.errors.t2i).toContain("提示词");
+    });
+
+    it("should feed selected nodes from existing upstream results", async () => {
+      const graph = chain();
+      graph.nodes.find(node => node.id === "t2i")!.data.outputImage = "http://x/old.png";
+      const runJob = fakeRunJob();
+
+      await executeWorkflow(graph, { type: "selected", nodeIds: ["video"] }, { runJob });
+
+      expect(runJob).toHaveBeenCalledTimes(1);
+      expect(runJob.mock.calls[0][0].input.imageUrl).toBe("http://x/old.png");
+    });
+  });
+
+  describe("workflowJobCacheKey", () => {
+    it("should ignore key order but not values", () => {
+      const a = workflowJobCacheKey({ jobType: "ai.textToImage", input: { prompt: "a", width: 1 } });
+      const b = workflowJobCacheKey({ jobType: "ai.textToImage", input: { width: 1, prompt: "a" } });
+      const c = workflowJobCacheKey({ jobType: "ai.textToImage", input: { width: 2, prompt: "a" } });
+      expect(a).toBe(b);
+      expect(a).not.toBe(c);
+    });
+  });
+});
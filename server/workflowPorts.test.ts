@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import {
+  canConnectPortTypes,
+  checkEdgePortTypes,
+  findPort,
+  normalizeWorkflowEdges,
+  validateConnection,
+} from "../shared/workflowPorts";
+
+const nodes = [
+  { id: "prompt", type: "prompt" },
+  { id: "t2i", type: "textToImage" },
+  { id: "i2v", type: "imageToVideo" },
+  { id: "grid", type: "nineGridInput" },
+  { id: "result", type: "nineGridResult" },
+  { id: "legacy", type: "someRemovedNode" },
+];
+
+describe("workflow ports", () => {
+  it("should allow compatible conversions only", () => {
+    expect(canConnectPortTypes("image", "image[]")).toBe(true);
+    expect(canConnectPortTypes("grid", "image")).toBe(true);
+    expect(canConnectPortTypes("image", "grid")).toBe(false);
+    expect(canConnectPortTypes("video", "image")).toBe(false);
+  });
+
+  it("should match wildcard ports and default to the first port", () => {
+    expect(findPort("nineGridResult", "output", "cell-4")?.type).toBe("image");
+    expect(findPort("imageToVideo", "input", null)?.id).toBe("prompt-in");
+    expect(findPort("imageToVideo", "input", "nope")).toBeUndefined();
+  });
+
+  describe("validateConnection", () => {
+    const graph = { nodes, edges: [{ source: "t2i", target: "i2v", sourceHandle: "image-out", targetHandle: "image-in" }] };
+
+    it("should accept matching types and report the data type", () => {
+      expect(validateConnection(graph, { source: "prompt", target: "i2v", sourceHandle: "prompt-out", targetHandle: "prompt-in" }))
+        .toEqual({ valid: true, type: "text" });
+    });
+
+    it("should explain type mismatches", () => {
+      const check = validateConnection(graph, { source: "prompt", target: "result", sourceHandle: "prompt-out", targetHandle: "input" });
+      expect(check).toEqual({ valid: false, reason: expect.stringContaining("不能连接到需要宫格图") });
+    });
+
+    it("should reject a second connection into a single input", () => {
+      const check = validateConnection(
+        { nodes: [...nodes, { id: "t2i-2", type: "textToImage" }], edges: graph.edges },
+        { source: "t2i-2", target: "i2v", sourceHandle: "image-out", targetHandle: "image-in" }
+      );
+      expect(check).toEqual({ valid: false, reason: expect.stringContaining("只能连接一个输入") });
+    });
+
+    it("should reject cycles", () => {
+      const check = validateConnection(
+        { nodes, edges: [{ source: "grid", target: "result", sourceHandle: "output", targetHandle: "input" }] },
+        { source: "result", target: "grid", sourceHandle: "cell-0", targetHandle: "input" }
+      );
+      expect(check).toEqual({ valid: false, reason: expect.stringContaining("循环") });
+    });
+
+    it("should not restrict node types without declared ports", () => {
+      expect(validateConnection(graph, { source: "legacy", target: "t2i", targetHandle: "prompt-in" }).valid).toBe(true);
+    });
+  });
+
+  it("should fill in handles of legacy edges", () => {
+    const [edge] = normalizeWorkflowEdges(nodes, [{ id: "e1", source: "grid", target: "result", sourceHandle: null, targetHandle: null }]);
+    expect(edge).toEqual({ id: "e1", source: "grid", target: "result", sourceHandle: "output", targetHandle: "input" });
+    expect(checkEdgePortTypes(nodes, edge)).toEqual({ valid: true, type: "grid" });
+  });
+});
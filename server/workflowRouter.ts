@@ -0,0 +1,42 @@
+import { z } from "zod";
+import { protectedProcedure, router } from "./_core/trpc";
+import { getProjectWorkflowRuns, getWorkflowRun } from "./db";
+import { requireProjectAccess } from "./projectAccess";
+import { startWorkflowRun, workflowRunInputSchema } from "./workflowRunner";
+
+// ============================================
+// 无头工作流运行（脚本 / 批处理调用，REST 接口见 _core/workflowApi.ts）
+// ============================================
+
+export const workflowRouter = router({
+  // 在服务端执行项目保存的工作流，立即返回运行记录
+  run: protectedProcedure
+    .input(workflowRunInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      const run = await startWorkflowRun(ctx.user, input);
+      return { runId: run.id, status: run.status };
+    }),
+
+  // 查询运行状态、各节点状态与输出
+  getRun: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const run = await getWorkflowRun(input.id);
+      if (!run) {
+        throw new Error("运行记录不存在");
+      }
+      // 项目成员可以查看他人发起的运行
+      if (run.userId !== ctx.user.id) {
+        await requireProjectAccess(run.projectId, ctx.user.id);
+      }
+      return run;
+    }),
+
+  // 项目最近的运行记录
+  listRuns: protectedProcedure
+    .input(z.object({ projectId: z.number(), limit: z.number().int().min(1).max(100).default(20) }))
+    .query(async ({ ctx, input }) => {
+      await requireProjectAccess(input.projectId, ctx.user.id);
+      return getProjectWorkflowRuns(input.projectId, input.limit);
+    }),
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("./db", () => ({
+  createWorkflowRun: vi.fn(),
+  getGenerationTask: vi.fn(),
+  getProjectById: vi.fn(),
+  getProjectMember: vi.fn(),
+  updateWorkflowRun: vi.fn(),
+}));
+
+vi.mock("./generationQueue", () => ({
+  enqueueGenerationJob: vi.fn(),
+  persistInlineData: vi.fn(async (value: unknown) => value),
+}));
+
+import { createWorkflowRun, getGenerationTask, getProjectById, getProjectMember, updateWorkflowRun } from "./db";
+import { enqueueGenerationJob } from "./generationQueue";
+import { applyWorkflowOverrides, startWorkflowRun } from "./workflowRunner";
+
+const workflowData = {
+  nodes: [
+    { id: "prompt", type: "prompt", position: { x: 0, y: 0 }, data: { prompt: "霓虹街道" } },
+    { id: "t2i", type: "textToImage", position: { x: 300, y: 0 }, data: { aspectRatio: "1:1" } },
+  ],
+  edges: [{ id: "e1", source: "prompt", target: "t2i" }],
+};
+
+describe("workflowRunner", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getProjectById).mockResolvedValue({ id: 7, userId: 1, workflowData } as any);
+    vi.mocked(createWorkflowRun).mockImplementation(async data => ({ id: 42, ...data }) as any);
+    vi.mocked(updateWorkflowRun).mockResolvedValue(undefined as any);
+    vi.mocked(enqueueGenerationJob).mockImplementation(async data => ({ id: 100, ...data }) as any);
+    vi.mocked(getGenerationTask).mockResolvedValue({
+      id: 100,
+      status: "completed",
+      outputData: { imageUrl: "http://x/t2i.png" },
+    } as any);
+  });
+
+  describe("applyWorkflowOverrides", () => {
+    it("should merge overrides into node data", () => {
+      const nodes = applyWorkflowOverrides(
+        [{ id: "prompt", type: "prompt", data: { prompt: "a", extra: 1 } }],
+        { prompt: { prompt: "b" } }
+      );
+      expect(nodes[0].data).toEqual({ prompt: "b", extra: 1 });
+    });
+
+    it("should reject unknown node ids", () => {
+      expect(() => applyWorkflowOverrides([], { missing: { prompt: "b" } })).toThrow("节点不存在");
+    });
+  });
+
+  describe("startWorkflowRun", () => {
+    it("should queue generation nodes for the project and record the outputs", async () => {
+      const run = await startWorkflowRun({ id: 1 }, {
+        projectId: 7,
+        overrides: { prompt: { prompt: "雨夜小巷" } },
+      });
+
+      expect(run.id).toBe(42);
+      await vi.waitFor(() =>
+        expect(updateWorkflowRun).toHaveBeenCalledWith(42, expect.objectContaining({ status: "completed" }))
+      );
+
+      expect(enqueueGenerationJob).toHaveBeenCalledWith({
+        userId: 1,
+        jobType: "ai.textToImage",
+        input: expect.objectContaining({ prompt: "雨夜小巷", nodeId: "t2i", projectId: 7 }),
+        projectId: 7,
+        nodeId: "t2i",
+      });
+      const final = vi.mocked(updateWorkflowRun).mock.calls.at(-1)![1];
+      expect(final.outputs).toMatchObject({ t2i: { image: "http://x/t2i.png" } });
+      expect(final.nodeStatuses).toMatchObject({ prompt: { status: "done" }, t2i: { status: "done" } });
+    });
+
+    it("should mark the run failed when a queued job fails", async () => {
+      vi.mocked(getGenerationTask).mockResolvedValue({ id: 100, status: "failed", errorMessage: "配额不足" } as any);
+
+      await startWorkflowRun({ id: 1 }, { projectId: 7 });
+
+      await vi.waitFor(() =>
+        expect(updateWorkflowRun).toHaveBeenCalledWith(42, expect.objectContaining({ status: "failed" }))
+      );
+      const final = vi.mocked(updateWorkflowRun).mock.calls.at(-1)![1];
+      expect(final.nodeStatuses).toMatchObject({ t2i: { status: "error", error: "配额不足" } });
+    });
+
+    it("should not run other users' projects", async () => {
+      vi.mocked(getProjectMember).mockResolvedValue(undefined);
+      await expect(startWorkflowRun({ id: 2 }, { projectId: 7 })).rejects.toThrow("Project not found");
+      expect(createWorkflowRun).not.toHaveBeenCalled();
+    });
+
+    it("should not let viewers run shared projects", async () => {
+      vi.mocked(getProjectMember).mockResolvedValue({ projectId: 7, userId: 3, role: "viewer" } as any);
+      await expect(startWorkflowRun({ id: 3 }, { projectId: 7 })).rejects.toThrow("权限不足");
+      expect(createWorkflowRun).not.toHaveBeenCalled();
+    });
+  });
+});
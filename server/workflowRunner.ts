@@ -0,0 +1,194 @@
+// 服务端无头执行工作流
+// 读取项目保存的 workflowData，按与画布相同的节点语义（shared/workflow.ts）执行。
+// 每个生成节点作为一条生成任务进入持久化队列，沿用队列的并发限制与重试，
+// 结果照常写入 assets（带 projectId / nodeId）；运行记录保存在 workflowRuns 表中。
+
+import { z } from "zod";
+import type { User, WorkflowRun } from "../drizzle/schema";
+import {
+  createWorkflowRun,
+  getGenerationTask,
+  updateWorkflowRun,
+} from "./db";
+import { enqueueGenerationJob, persistInlineData } from "./generationQueue";
+import { subscribeGenerationEvents } from "./generationEvents";
+import { requireProjectAccess } from "./projectAccess";
+import {
+  executeWorkflow,
+  planWorkflowRun,
+  type NodeRunStatus,
+  type WorkflowEdge,
+  type WorkflowJob,
+  type WorkflowJobResult,
+  type WorkflowNode,
+  type WorkflowRunMode,
+} from "../shared/workflow";
+
+// 订阅丢失事件（如任务由其他实例执行）时按此间隔查询任务状态
+const TASK_POLL_INTERVAL_MS = 3000;
+
+export const workflowRunModeSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("all") }),
+  z.object({ type: z.literal("from"), nodeId: z.string() }),
+  z.object({ type: z.literal("selected"), nodeIds: z.array(z.string()).min(1) }),
+]);
+
+/**
+ * workflow.run 与 REST 接口共用的参数
+ * overrides 按节点 id 覆盖节点数据，如 { "prompt-1": { prompt: "新的提示词" } }
+ */
+export const workflowRunInputSchema = z.object({
+  projectId: z.number(),
+  mode: workflowRunModeSchema.default({ type: "all" }),
+  overrides: z.record(z.string(), z.record(z.string(), z.unknown())).optional(),
+  force: z.boolean().optional(),
+});
+
+export type WorkflowRunInput = z.input<typeof workflowRunInputSchema>;
+
+/**
+ * 从项目保存的 workflowData 中取出节点与连线
+ */
+export function parseWorkflowGraph(workflowData: unknown): { nodes: WorkflowNode[]; edges: WorkflowEdge[] } {
+  const data = (workflowData ?? {}) as { nodes?: any[]; edges?: any[] };
+  return {
+    nodes: (data.nodes ?? []).map(node => ({ id: String(node.id), type: node.type, data: node.data ?? {} })),
+    edges: (data.edges ?? []).map(edge => ({
+      id: edge.id,
+      source: String(edge.source),
+      target: String(edge.target),
+      sourceHandle: edge.sourceHandle,
+      targetHandle: edge.targetHandle,
+    })),
+  };
+}
+
+export function applyWorkflowOverrides(
+  nodes: WorkflowNode[],
+  overrides: Record<string, Record<string, unknown>> = {}
+): WorkflowNode[] {
+  const ids = new Set(nodes.map(node => node.id));
+  for (const nodeId of Object.keys(overrides)) {
+    if (!ids.has(nodeId)) throw new Error(`节点不存在: ${nodeId}`);
+  }
+  return nodes.map(node =>
+    overrides[node.id] ? { ...node, data: { ...node.data, ...overrides[node.id] } } : node
+  );
+}
+
+/**
+ * 等待队列任务结束，返回任务输出
+ */
+export function waitForGenerationTask<T>(taskId: number, userId: number): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    let settled = false;
+
+    const check = async () => {
+      if (settled) return;
+      try {
+        const task = await getGenerationTask(taskId);
+        if (settled || !task) return;
+        if (task.status === "completed") {
+          cleanup();
+          resolve(task.outputData as T);
+        } else if (task.status === "failed") {
+          cleanup();
+          reject(new Error(task.errorMessage || "生成失败"));
+        }
+      } catch (error) {
+        console.error("[WorkflowRunner] 查询任务状态失败:", error);
+      }
+    };
+
+    const unsubscribe = subscribeGenerationEvents({ userId, taskId }, event => {
+      if (event.type === "completed" || event.type === "failed") void check();
+    });
+    const pollTimer = setInterval(() => void check(), TASK_POLL_INTERVAL_MS);
+    const cleanup = () => {
+      settled = true;
+      unsubscribe();
+      clearInterval(pollTimer);
+    };
+
+    // 订阅建立前任务可能已经结束
+    void check();
+  });
+}
+
+async function executeRun(
+  run: WorkflowRun,
+  graph: { nodes: WorkflowNode[]; edges: WorkflowEdge[] },
+  mode: WorkflowRunMode,
+  force: boolean | undefined
+): Promise<void> {
+  const nodeStatuses: Record<string, { status: NodeRunStatus; error?: string }> = {};
+
+  try {
+    const result = await executeWorkflow(
+      graph,
+      mode,
+      {
+        runJob: async (job: WorkflowJob) => {
+          const task = await enqueueGenerationJob({
+            userId: run.userId,
+            jobType: job.jobType,
+            input: { ...job.input, projectId: run.projectId },
+            projectId: run.projectId,
+            nodeId: job.input.nodeId as string,
+          });
+          return waitForGenerationTask<WorkflowJobResult>(task.id, run.userId);
+        },
+        onNodeStatus: (nodeId, status, error) => {
+          nodeStatuses[nodeId] = error ? { status, error } : { status };
+          updateWorkflowRun(run.id, { nodeStatuses: { ...nodeStatuses } }).catch(err =>
+            console.error(`[WorkflowRunner] Run ${run.id} failed to record status:`, err)
+          );
+        },
+      },
+      { force }
+    );
+
+    const failed = Object.values(result.statuses).filter(status => status === "error").length;
+    await updateWorkflowRun(run.id, {
+      status: failed > 0 ? "failed" : "completed",
+      nodeStatuses,
+      outputs: await persistInlineData(result.outputs, `generated/workflow-run-${run.id}`),
+      errorMessage: failed > 0 ? `${failed} 个节点运行失败` : null,
+    });
+    console.log(`[WorkflowRunner] Run ${run.id} finished (${failed} failed)`);
+  } catch (error) {
+    console.error(`[WorkflowRunner] Run ${run.id} failed:`, error);
+    await updateWorkflowRun(run.id, {
+      status: "failed",
+      nodeStatuses,
+      errorMessage: error instanceof Error ? error.message : "运行失败",
+    }).catch(err => console.error(`[WorkflowRunner] Run ${run.id} failed to record failure:`, err));
+  }
+}
+
+/**
+ * 创建运行记录并在后台执行，立即返回运行记录
+ */
+export async function startWorkflowRun(user: Pick<User, "id">, input: WorkflowRunInput): Promise<WorkflowRun> {
+  const { projectId, mode, overrides, force } = workflowRunInputSchema.parse(input);
+
+  const { project } = await requireProjectAccess(projectId, user.id, "editor");
+
+  const saved = parseWorkflowGraph(project.workflowData);
+  const graph = { nodes: applyWorkflowOverrides(saved.nodes, overrides), edges: saved.edges };
+  if (graph.nodes.length === 0) {
+    throw new Error("项目中没有可运行的节点");
+  }
+  // 提前发现循环连接等问题，不创建运行记录
+  planWorkflowRun(graph, mode);
+
+  const run = await createWorkflowRun({
+    userId: user.id,
+    projectId,
+    status: "running",
+    mode,
+    overrides: overrides ?? null,
+  });
+  void executeRun(run, graph, mode, force);
+  return run;
+}
@@ -0,0 +1,166 @@
+// 最小的 zip 读写（项目导出 / 导入用，不依赖第三方库）
+// 只支持单卷、非 zip64 的归档，压缩方式为存储（0）或 deflate（8），文件名按 UTF-8 编码。
+
+import zlib from "zlib";
+
+export interface ZipEntry {
+  name: string;
+  data: Buffer;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIR_SIGNATURE = 0x06054b50;
+const UTF8_FLAG = 0x0800;
+// 解压后的总大小上限，防止压缩炸弹
+const MAX_UNCOMPRESSED_BYTES = 1024 * 1024 * 1024;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+/**
+ * CRC-32（IEEE），zip 与 PNG 共用
+ */
+export function crc32(buffer: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < buffer.length; i++) crc = CRC_TABLE[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * 打包为 zip；压缩后不变小的文件（如 PNG、MP4）直接存储
+ */
+export function createZip(entries: ZipEntry[], modifiedAt: Date = new Date()): Buffer {
+  const { time, date } = dosDateTime(modifiedAt);
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf8");
+    const deflated = zlib.deflateRawSync(entry.data);
+    const stored = deflated.length >= entry.data.length;
+    const body = stored ? entry.data : deflated;
+    const crc = crc32(entry.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(UTF8_FLAG, 6);
+    local.writeUInt16LE(stored ? 0 : 8, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(UTF8_FLAG, 8);
+    central.writeUInt16LE(stored ? 0 : 8, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(body.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, body);
+    centralParts.push(central, name);
+    offset += local.length + name.length + body.length;
+  }
+
+  const centralDir = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIR_SIGNATURE, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDir.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDir, end]);
+}
+
+function findEndOfCentralDir(buffer: Buffer): number {
+  // 末尾记录 22 字节，之后最多跟 65535 字节的注释
+  const start = Math.max(0, buffer.length - 22 - 0xffff);
+  for (let i = buffer.length - 22; i >= start; i--) {
+    if (buffer.readUInt32LE(i) === END_OF_CENTRAL_DIR_SIGNATURE) return i;
+  }
+  throw new Error("无效的压缩包");
+}
+
+/**
+ * 读取 zip 中的全部文件（不含目录），按文件名索引
+ */
+export function readZip(buffer: Buffer): Map<string, Buffer> {
+  if (buffer.length < 22) {
+    throw new Error("无效的压缩包");
+  }
+  const end = findEndOfCentralDir(buffer);
+  const count = buffer.readUInt16LE(end + 10);
+  let pointer = buffer.readUInt32LE(end + 16);
+  const files = new Map<string, Buffer>();
+  let totalSize = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (pointer + 46 > buffer.length || buffer.readUInt32LE(pointer) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error("无效的压缩包");
+    }
+    const method = buffer.readUInt16LE(pointer + 10);
+    const crc = buffer.readUInt32LE(pointer + 16);
+    const compressedSize = buffer.readUInt32LE(pointer + 20);
+    const size = buffer.readUInt32LE(pointer + 24);
+    const nameLength = buffer.readUInt16LE(pointer + 28);
+    const extraLength = buffer.readUInt16LE(pointer + 30);
+    const commentLength = buffer.readUInt16LE(pointer + 32);
+    const localOffset = buffer.readUInt32LE(pointer + 42);
+    const name = buffer.subarray(pointer + 46, pointer + 46 + nameLength).toString("utf8");
+    pointer += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/")) continue;
+    totalSize += size;
+    if (totalSize > MAX_UNCOMPRESSED_BYTES) {
+      throw new Error("压缩包解压后过大");
+    }
+
+    if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error("无效的压缩包");
+    }
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const body = buffer.subarray(dataStart, dataStart + compressedSize);
+    if (body.length !== compressedSize) {
+      throw new Error("无效的压缩包");
+    }
+
+    let data: Buffer;
+    if (method === 0) {
+      data = Buffer.from(body);
+    } else if (method === 8) {
+      data = zlib.inflateRawSync(body, { maxOutputLength: Math.max(size, 1) });
+    } else {
+      throw new Error(`不支持的压缩方式: ${method}`);
+    }
+    if (data.length !== size || crc32(data) !== crc) {
+      throw new Error(`压缩包中的文件已损坏: ${name}`);
+    }
+    files.set(name, data);
+  }
+
+  return files;
+}
@@ -0,0 +1,356 @@
+/**
+ * 画布协同编辑的数据模型（LWW 字段映射 CRDT）
+ * 每个节点 / 连线拆成若干字段（位置、类型、data 中的每个键……），每个字段独立记录
+ * 最后写入的 Lamport 时间戳。客户端只发送变化的字段，服务端与各客户端按时间戳合并：
+ * 不同字段的并发修改都会保留，同一字段以时间戳较新的为准（相同计数按客户端 id 决胜），
+ * 因此所有副本收到同一批操作后状态一致，与到达顺序无关。删除也是一个字段（deleted），
+ * 删除与其他字段的修改互不覆盖，撤销删除（deleted=false）时节点带着合并后的字段恢复。
+ * 时间轴片段和字幕（workflowData.timeline.clips / subtitles）按同样的方式逐字段合并。
+ */
+
+// ============================================================================
+// 类型
+// ============================================================================
+
+export interface CollabStamp {
+  // Lamport 计数
+  c: number;
+  // 产生该修改的客户端
+  id: string;
+}
+
+export interface CollabField {
+  v?: unknown;
+  s: CollabStamp;
+  // 字段被删除（如节点 data 中移除的键）
+  r?: true;
+}
+
+export type CollabEntity = Record<string, CollabField>;
+
+export interface CollabDoc {
+  nodes: Record<string, CollabEntity>;
+  edges: Record<string, CollabEntity>;
+  clips: Record<string, CollabEntity>;
+  subtitles: Record<string, CollabEntity>;
+}
+
+export const COLLAB_ENTITY_KINDS = ["node", "edge", "clip", "subtitle"] as const;
+
+export type CollabEntityKind = (typeof COLLAB_ENTITY_KINDS)[number];
+
+export interface CollabChange {
+  kind: CollabEntityKind;
+  id: string;
+  // 节点 data 中的键以 "data." 开头；deleted 表示节点 / 连线是否已删除
+  field: string;
+  value?: unknown;
+  removed?: boolean;
+}
+
+export interface CollabOp extends CollabChange {
+  stamp: CollabStamp;
+}
+
+export interface CollabGraph {
+  nodes: Array<{ id: string; data?: Record<string, unknown>; [key: string]: unknown }>;
+  edges: Array<{ id: string; [key: string]: unknown }>;
+  timeline?: {
+    clips: Array<{ id: string; [key: string]: unknown }>;
+    subtitles?: Array<{ id: string; [key: string]: unknown }>;
+  };
+}
+
+// 选中、拖动中、尺寸测量等只属于本地界面的状态不参与同步
+const LOCAL_KEYS: Record<CollabEntityKind, Set<string>> = {
+  node: new Set(["id", "data", "selected", "dragging", "measured", "resizing"]),
+  edge: new Set(["id", "selected"]),
+  clip: new Set(["id"]),
+  subtitle: new Set(["id"]),
+};
+const DATA_PREFIX = "data.";
+
+// ============================================================================
+// 时间戳
+// ============================================================================
+
+export function compareStamps(a: CollabStamp, b: CollabStamp): number {
+  if (a.c !== b.c) return a.c - b.c;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+/**
+ * Lamport 时钟：本地修改前 tick，收到其他副本的时间戳时 observe
+ */
+export function createCollabClock(clientId: string, start = 0) {
+  let counter = start;
+  return {
+    tick(): CollabStamp {
+      counter += 1;
+      return { c: counter, id: clientId };
+    },
+    observe(stamp: CollabStamp) {
+      if (stamp.c > counter) counter = stamp.c;
+    },
+    get counter() {
+      return counter;
+    },
+  };
+}
+
+export type CollabClock = ReturnType<typeof createCollabClock>;
+
+export function stampChanges(changes: CollabChange[], clock: CollabClock): CollabOp[] {
+  return changes.map(change => ({ ...change, stamp: clock.tick() }));
+}
+
+// ============================================================================
+// 合并
+// ============================================================================
+
+// 作为对象键会触及原型链的名称，不能用作实体 id 或字段名
+const RESERVED_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+/**
+ * 实体 id 或字段名（含 data. 之后的键）是否可以安全地用作对象键
+ */
+export function isSafeCollabKey(key: string): boolean {
+  return !RESERVED_KEYS.has(key) && !(key.startsWith(DATA_PREFIX) && RESERVED_KEYS.has(key.slice(DATA_PREFIX.length)));
+}
+
+// 文档中的映射不继承 Object.prototype，键只可能是自有属性
+function emptyMap<T>(): Record<string, T> {
+  return Object.create(null) as Record<string, T>;
+}
+
+export function createCollabDoc(): CollabDoc {
+  return { nodes: emptyMap(), edges: emptyMap(), clips: emptyMap(), subtitles: emptyMap() };
+}
+
+function entitiesOf(doc: CollabDoc, kind: CollabEntityKind): Record<string, CollabEntity> {
+  if (kind === "node") return doc.nodes;
+  if (kind === "edge") return doc.edges;
+  // 升级前加入协同的客户端收到的文档没有 clips / subtitles
+  if (kind === "clip") return (doc.clips ??= emptyMap());
+  return (doc.subtitles ??= emptyMap());
+}
+
+function ownEntry<T>(map: Record<string, T>, key: string): T | undefined {
+  return Object.prototype.hasOwnProperty.call(map, key) ? map[key] : undefined;
+}
+
+/**
+ * 按时间戳合并操作（原地修改 doc），返回实际生效的操作
+ */
+export function applyCollabOps(doc: CollabDoc, ops: CollabOp[]): CollabOp[] {
+  const applied: CollabOp[] = [];
+  for (const op of ops) {
+    if (!isSafeCollabKey(op.id) || !isSafeCollabKey(op.field)) continue;
+    const entities = entitiesOf(doc, op.kind);
+    let entity = ownEntry(entities, op.id);
+    if (!entity) {
+      entity = emptyMap<CollabField>();
+      entities[op.id] = entity;
+    }
+    const current = ownEntry(entity, op.field);
+    if (current && compareStamps(op.stamp, current.s) <= 0) continue;
+    entity[op.field] = op.removed ? { s: op.stamp, r: true } : { v: op.value, s: op.stamp };
+    applied.push(op);
+  }
+  return applied;
+}
+
+/**
+ * 文档中最大的 Lamport 计数，加入协同时用于推进本地时钟
+ */
+export function maxCollabCounter(doc: CollabDoc): number {
+  let max = 0;
+  for (const entities of [doc.nodes, doc.edges, doc.clips ?? {}, doc.subtitles ?? {}]) {
+    for (const entity of Object.values(entities)) {
+      for (const field of Object.values(entity)) {
+        if (field.s.c > max) max = field.s.c;
+      }
+    }
+  }
+  return max;
+}
+
+/**
+ * 读取某字段当前值（服务端拒绝修改时用于回发纠正）
+ */
+export function readCollabField(doc: CollabDoc, kind: CollabEntityKind, id: string, field: string): CollabChange {
+  const entity = ownEntry(entitiesOf(doc, kind), id);
+  const current = entity && ownEntry(entity, field);
+  return !current || current.r ? { kind, id, field, removed: true } : { kind, id, field, value: current.v };
+}
+
+// ============================================================================
+// 节点图 <-> 字段
+// ============================================================================
+
+function entityFields(kind: CollabEntityKind, entity: Record<string, unknown>): Map<string, unknown> {
+  const fields = new Map<string, unknown>([["deleted", false]]);
+  const localKeys = LOCAL_KEYS[kind];
+  for (const [key, value] of Object.entries(entity)) {
+    if (!localKeys.has(key) && value !== undefined) fields.set(key, value);
+  }
+  if (kind === "node") {
+    for (const [key, value] of Object.entries((entity.data ?? {}) as Record<string, unknown>)) {
+      if (value !== undefined) fields.set(`${DATA_PREFIX}${key}`, value);
+    }
+  }
+  return fields;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+function diffEntities(
+  kind: CollabEntityKind,
+  prev: Array<{ id: string }>,
+  next: Array<{ id: string }>
+): CollabChange[] {
+  const changes: CollabChange[] = [];
+  const prevById = new Map(prev.map(entity => [entity.id, entity]));
+  const nextIds = new Set(next.map(entity => entity.id));
+
+  for (const entity of next) {
+    const before = prevById.get(entity.id);
+    const nextFields = entityFields(kind, entity as Record<string, unknown>);
+    const prevFields = before ? entityFields(kind, before as Record<string, unknown>) : new Map<string, unknown>();
+    for (const [field, value] of Array.from(nextFields)) {
+      if (!before || !prevFields.has(field) || !sameValue(prevFields.get(field), value)) {
+        changes.push({ kind, id: entity.id, field, value });
+      }
+    }
+    for (const field of Array.from(prevFields.keys())) {
+      if (!nextFields.has(field)) changes.push({ kind, id: entity.id, field, removed: true });
+    }
+  }
+  for (const entity of prev) {
+    if (!nextIds.has(entity.id)) changes.push({ kind, id: entity.id, field: "deleted", value: true });
+  }
+  return changes;
+}
+
+/**
+ * 两个版本节点图（含时间轴片段和字幕）之间变化的字段
+ */
+export function diffCollabGraph(prev: CollabGraph, next: CollabGraph): CollabChange[] {
+  return [
+    ...diffEntities("node", prev.nodes, next.nodes),
+    ...diffEntities("edge", prev.edges, next.edges),
+    ...diffEntities("clip", prev.timeline?.clips ?? [], next.timeline?.clips ?? []),
+    ...diffEntities("subtitle", prev.timeline?.subtitles ?? [], next.timeline?.subtitles ?? []),
+  ];
+}
+
+function createdStamp(entity: CollabEntity): CollabStamp {
+  return Object.values(entity).reduce<CollabStamp>(
+    (min, field) => (compareStamps(field.s, min) < 0 ? field.s : min),
+    { c: Number.MAX_SAFE_INTEGER, id: "" }
+  );
+}
+
+function materializeEntities(entities: Record<string, CollabEntity>, kind: CollabEntityKind) {
+  return Object.entries(entities)
+    .filter(([, entity]) => entity.deleted && !entity.deleted.r && entity.deleted.v === false)
+    // 保持创建顺序（决定节点的层叠顺序）
+    .sort(([, a], [, b]) => compareStamps(createdStamp(a), createdStamp(b)))
+    .map(([id, entity]) => {
+      const result: Record<string, unknown> = { id };
+      const data: Record<string, unknown> = {};
+      for (const [field, value] of Object.entries(entity)) {
+        if (field === "deleted" || value.r) continue;
+        if (kind === "node" && field.startsWith(DATA_PREFIX)) {
+          data[field.slice(DATA_PREFIX.length)] = value.v;
+        } else {
+          result[field] = value.v;
+        }
+      }
+      if (kind === "node") result.data = data;
+      return result;
+    });
+}
+
+/**
+ * 由文档得到节点图（与 projects.workflowData 格式相同）
+ */
+export function materializeCollabDoc(doc: CollabDoc): CollabGraph {
+  type Timeline = NonNullable<CollabGraph["timeline"]>;
+  return {
+    nodes: materializeEntities(doc.nodes, "node") as CollabGraph["nodes"],
+    edges: materializeEntities(doc.edges, "edge") as CollabGraph["edges"],
+    timeline: {
+      clips: materializeEntities(doc.clips ?? {}, "clip") as Timeline["clips"],
+      subtitles: materializeEntities(doc.subtitles ?? {}, "subtitle") as Timeline["subtitles"],
+    },
+  };
+}
+
+/**
+ * 由保存的 workflowData 建立文档
+ */
+export function collabDocFromGraph(graph: Partial<CollabGraph> | null | undefined, clock: CollabClock): CollabDoc {
+  const doc = createCollabDoc();
+  const changes = diffCollabGraph(
+    { nodes: [], edges: [] },
+    { nodes: graph?.nodes ?? [], edges: graph?.edges ?? [], timeline: graph?.timeline }
+  );
+  applyCollabOps(doc, stampChanges(changes, clock));
+  return doc;
+}
+
+// ============================================================================
+// 撤销
+// ============================================================================
+
+// 本地的一步修改及撤销它所需的反向修改
+export interface CollabStep {
+  changes: CollabChange[];
+  inverse: CollabChange[];
+}
+
+function changeKey(change: CollabChange): string {
+  return `${change.kind}\u0000${change.id}\u0000${change.field}`;
+}
+
+function entitiesOfGraph(graph: CollabGraph, kind: CollabEntityKind): Array<{ id: string }> {
+  if (kind === "node") return graph.nodes;
+  if (kind === "edge") return graph.edges;
+  if (kind === "clip") return graph.timeline?.clips ?? [];
+  return graph.timeline?.subtitles ?? [];
+}
+
+/**
+ * 撤销一组本地修改的反向修改：只涉及这些修改过的字段，恢复为修改前（prev）的值，
+ * 修改前不存在的字段删除、新建的节点 / 连线标记为已删除；其他字段上他人的修改不受影响
+ */
+export function invertCollabChanges(prev: CollabGraph, changes: CollabChange[]): CollabChange[] {
+  const fieldsById = new Map<string, Map<string, unknown>>();
+  const fieldsOf = (kind: CollabEntityKind, id: string) => {
+    const key = `${kind}\u0000${id}`;
+    if (!fieldsById.has(key)) {
+      const entity = entitiesOfGraph(prev, kind).find(item => item.id === id);
+      fieldsById.set(key, entity ? entityFields(kind, entity as Record<string, unknown>) : new Map([["deleted", true]]));
+    }
+    return fieldsById.get(key)!;
+  };
+  return changes.map(({ kind, id, field }) => {
+    const fields = fieldsOf(kind, id);
+    return fields.has(field) ? { kind, id, field, value: fields.get(field) } : { kind, id, field, removed: true };
+  });
+}
+
+/**
+ * 连续的两步合为一步：修改以后一步为准，撤销恢复到前一步之前的值
+ */
+export function mergeCollabSteps(earlier: CollabStep, later: CollabStep): CollabStep {
+  const dedupe = (changes: CollabChange[]) =>
+    Array.from(new Map(changes.map(change => [changeKey(change), change])).values());
+  return {
+    changes: dedupe([...earlier.changes, ...later.changes]),
+    inverse: dedupe([...later.inverse, ...earlier.inverse]),
+  };
+}
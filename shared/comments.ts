@@ -0,0 +1,37 @@
+/**
+ * 评审评论的挂载对象
+ * node：画布节点，targetId 为节点 id
+ * storyboardShot：分镜，targetId 为 storyboardShots.id
+ * designItem：设计中的角色 / 场景 / 道具，targetId 为 `${designs.id}:${字段}:${设计项 id}`
+ */
+
+export const COMMENT_TARGET_TYPES = ["node", "storyboardShot", "designItem"] as const;
+
+export type CommentTargetType = (typeof COMMENT_TARGET_TYPES)[number];
+
+// designs 表中存放设计项的 JSON 字段
+export const DESIGN_ITEM_KINDS = ["characters", "scenes", "props"] as const;
+
+export type DesignItemKind = (typeof DESIGN_ITEM_KINDS)[number];
+
+export const DESIGN_ITEM_KIND_LABELS: Record<DesignItemKind, string> = {
+  characters: "角色",
+  scenes: "场景",
+  props: "道具",
+};
+
+export function designItemTargetId(designId: number, kind: DesignItemKind, itemId: string): string {
+  return `${designId}:${kind}:${itemId}`;
+}
+
+export function parseDesignItemTargetId(targetId: string): { designId: number; kind: DesignItemKind; itemId: string } | null {
+  const [designId, kind, ...rest] = targetId.split(":");
+  const itemId = rest.join(":");
+  if (!/^\d+$/.test(designId ?? "") || !DESIGN_ITEM_KINDS.includes(kind as DesignItemKind) || !itemId) return null;
+  return { designId: Number(designId), kind: kind as DesignItemKind, itemId };
+}
+
+// 按对象分组评论时使用的键
+export function commentTargetKey(targetType: CommentTargetType, targetId: string): string {
+  return `${targetType}:${targetId}`;
+}
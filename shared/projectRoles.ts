@@ -0,0 +1,27 @@
+/**
+ * 项目角色
+ * 所有者（projects.userId）之外，成员按角色获得权限，权限依次包含：
+ * viewer 查看 < commenter 评论 < editor 编辑 < owner 管理成员、分享链接和删除项目。
+ * 只读分享链接相当于 viewer。
+ */
+
+export const PROJECT_ROLES = ["viewer", "commenter", "editor", "owner"] as const;
+
+export type ProjectRole = (typeof PROJECT_ROLES)[number];
+
+// 可以邀请的成员角色（所有者只有一个）
+export const MEMBER_ROLES = ["editor", "commenter", "viewer"] as const;
+
+export type ProjectMemberRole = (typeof MEMBER_ROLES)[number];
+
+export const PROJECT_ROLE_LABELS: Record<ProjectRole, string> = {
+  owner: "所有者",
+  editor: "编辑者",
+  commenter: "评论者",
+  viewer: "查看者",
+};
+
+export function hasProjectRole(role: ProjectRole | null | undefined, required: ProjectRole): boolean {
+  if (!role) return false;
+  return PROJECT_ROLES.indexOf(role) >= PROJECT_ROLES.indexOf(required);
+}
@@ -0,0 +1,161 @@
+/**
+ * 时间轴字幕导出：SRT / WebVTT / ASS
+ * ASS 同时用于合成时把字幕烧录进画面（ffmpeg ass 滤镜），样式在合成或导出时选择，不随时间轴保存
+ */
+
+import type { TimelineSubtitle } from "./timeline";
+
+export const SUBTITLE_FORMATS = ["srt", "vtt", "ass"] as const;
+
+export type SubtitleFormat = (typeof SUBTITLE_FORMATS)[number];
+
+export const SUBTITLE_FORMAT_LABELS: Record<SubtitleFormat, string> = {
+  srt: "SRT",
+  vtt: "WebVTT",
+  ass: "ASS",
+};
+
+export const SUBTITLE_MIME_TYPES: Record<SubtitleFormat, string> = {
+  srt: "application/x-subrip",
+  vtt: "text/vtt",
+  ass: "text/x-ssa",
+};
+
+// 服务器需安装对应字体，找不到时由 fontconfig 回退到其他字体
+export const SUBTITLE_FONTS = ["Noto Sans CJK SC", "Noto Serif CJK SC", "WenQuanYi Zen Hei", "Microsoft YaHei"] as const;
+
+export const SUBTITLE_POSITIONS = ["bottom", "top"] as const;
+
+export type SubtitlePosition = (typeof SUBTITLE_POSITIONS)[number];
+
+export interface SubtitleStyle {
+  font: string;
+  fontSize: number; // 以 1080 像素画面高度计的字号，按实际输出高度缩放
+  color: string; // #RRGGBB
+  outlineColor: string; // #RRGGBB
+  outline: number; // 描边宽度（像素，按 1080 计）
+  bold: boolean;
+  position: SubtitlePosition;
+  // 半透明底框代替描边
+  box: boolean;
+}
+
+export const DEFAULT_SUBTITLE_STYLE: SubtitleStyle = {
+  font: SUBTITLE_FONTS[0],
+  fontSize: 54,
+  color: "#FFFFFF",
+  outlineColor: "#000000",
+  outline: 3,
+  bold: false,
+  position: "bottom",
+  box: false,
+};
+
+// 按开始时间排序，去掉空字幕
+function cues(subtitles: TimelineSubtitle[]): TimelineSubtitle[] {
+  return subtitles
+    .filter(subtitle => subtitle.text.trim() && subtitle.duration > 0)
+    .sort((a, b) => a.startTime - b.startTime);
+}
+
+function clock(seconds: number, separator: "," | "."): string {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+function lines(text: string): string[] {
+  return text.trim().split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+}
+
+export function toSrt(subtitles: TimelineSubtitle[]): string {
+  return cues(subtitles)
+    .map((cue, index) =>
+      [String(index + 1), `${clock(cue.startTime, ",")} --> ${clock(cue.startTime + cue.duration, ",")}`, ...lines(cue.text)].join("\n")
+    )
+    .join("\n\n") + "\n";
+}
+
+export function toWebVtt(subtitles: TimelineSubtitle[]): string {
+  // WebVTT 正文中的 & < > 需要转义
+  const escape = (line: string) => line.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  const body = cues(subtitles).map(cue =>
+    [`${clock(cue.startTime, ".")} --> ${clock(cue.startTime + cue.duration, ".")}`, ...lines(cue.text).map(escape)].join("\n")
+  );
+  return ["WEBVTT", ...body].join("\n\n") + "\n";
+}
+
+// ASS 时间为 H:MM:SS.cc
+function assClock(seconds: number): string {
+  const cs = Math.max(0, Math.round(seconds * 100));
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${Math.floor(cs / 360000)}:${pad(Math.floor(cs / 6000) % 60)}:${pad(Math.floor(cs / 100) % 60)}.${pad(cs % 100)}`;
+}
+
+// #RRGGBB → &HAABBGGRR（AA 为透明度，00 不透明）
+function assColor(hex: string, alpha = 0): string {
+  const match = hex.match(/^#?([0-9a-f]{6})$/i);
+  const [r, g, b] = match ? [0, 2, 4].map(i => match[1].slice(i, i + 2)) : ["FF", "FF", "FF"];
+  return `&H${alpha.toString(16).padStart(2, "0")}${b}${g}${r}`.toUpperCase();
+}
+
+/**
+ * ASS 字幕；width / height 为画面尺寸（PlayRes），字号和描边按高度相对 1080 缩放
+ */
+export function toAss(
+  subtitles: TimelineSubtitle[],
+  style: SubtitleStyle = DEFAULT_SUBTITLE_STYLE,
+  size: { width: number; height: number } = { width: 1920, height: 1080 }
+): string {
+  const scale = size.height / 1080;
+  const fontSize = Math.round(style.fontSize * scale);
+  const outline = Math.round(style.outline * scale * 10) / 10;
+  const margin = Math.round(60 * scale);
+  // 底框用 BorderStyle 3，框的颜色取 OutlineColour / BackColour
+  const boxColor = assColor("#000000", 0x60);
+  const fields = [
+    "Default",
+    style.font.replace(/,/g, " "),
+    fontSize,
+    assColor(style.color),
+    assColor(style.color),
+    style.box ? boxColor : assColor(style.outlineColor),
+    style.box ? boxColor : assColor("#000000", 0x80),
+    style.bold ? -1 : 0,
+    0, 0, 0, 100, 100, 0, 0,
+    style.box ? 3 : 1,
+    style.box ? Math.max(1, Math.round(8 * scale)) : outline,
+    0,
+    style.position === "top" ? 8 : 2,
+    margin, margin, margin,
+    1,
+  ];
+  // 花括号在 ASS 中表示样式代码，正文中的换行写作 \N
+  const text = (value: string) => lines(value).map(line => line.replace(/[{}]/g, ch => `\\${ch}`)).join("\\N");
+
+  return [
+    "[Script Info]",
+    "ScriptType: v4.00+",
+    `PlayResX: ${size.width}`,
+    `PlayResY: ${size.height}`,
+    "WrapStyle: 0",
+    "ScaledBorderAndShadow: yes",
+    "",
+    "[V4+ Styles]",
+    "Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding",
+    `Style: ${fields.join(",")}`,
+    "",
+    "[Events]",
+    "Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text",
+    ...cues(subtitles).map(
+      cue => `Dialogue: 0,${assClock(cue.startTime)},${assClock(cue.startTime + cue.duration)},Default,,0,0,0,,${text(cue.text)}`
+    ),
+    "",
+  ].join("\n");
+}
+
+export function formatSubtitles(subtitles: TimelineSubtitle[], format: SubtitleFormat, style?: SubtitleStyle): string {
+  if (format === "srt") return toSrt(subtitles);
+  if (format === "vtt") return toWebVtt(subtitles);
+  return toAss(subtitles, style);
+}
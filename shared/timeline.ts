@@ -0,0 +1,284 @@
+/**
+ * 时间轴（轨道编辑）的数据，随画布一起保存在 projects.workflowData.timeline 中
+ * 片段只记录 assets.id，显示和合成时再按 id 取素材地址，素材文件换地址不影响时间轴
+ */
+
+export const TIMELINE_TRACKS = ["video", "audio"] as const;
+
+export type TimelineTrack = (typeof TIMELINE_TRACKS)[number];
+
+export type TimelineMediaType = "image" | "video" | "audio";
+
+// 与 storyboardShots.transition 相同；淡入 / 叠化 / 划入 作用在片段开头，淡出 / 划出 作用在片段结尾
+export const TIMELINE_TRANSITIONS = ["切入", "淡入", "淡出", "叠化", "划入", "划出"] as const;
+
+export type TimelineTransition = (typeof TIMELINE_TRANSITIONS)[number];
+
+export interface TimelineClip {
+  id: string;
+  track: TimelineTrack;
+  // assets.id
+  assetId: number;
+  type: TimelineMediaType;
+  name: string;
+  startTime: number; // 在轨道上的开始时间（秒）
+  duration: number; // 素材时长（秒）
+  trimStart: number; // 裁剪开始点（秒）
+  trimEnd: number; // 裁剪结束点（秒）
+  transition?: TimelineTransition;
+  // 从分镜发送的片段关联到分镜，分镜的时长和图片变化时随之更新（见 layoutStoryboard）
+  scriptId?: number;
+  shotId?: number;
+}
+
+// 字幕轨道上的一条字幕，不引用素材
+export interface TimelineSubtitle {
+  id: string;
+  startTime: number; // 在时间轴上的开始时间（秒）
+  duration: number; // 显示时长（秒）
+  text: string; // 可以有多行
+  // 由分镜对白生成的字幕关联到分镜，手动修改过文字后（edited）同步时只更新时间
+  scriptId?: number;
+  shotId?: number;
+  edited?: boolean;
+}
+
+export interface TimelineData {
+  clips: TimelineClip[];
+  subtitles: TimelineSubtitle[];
+}
+
+// 图片没有固有时长，加入轨道时默认显示 5 秒
+export const DEFAULT_IMAGE_DURATION = 5;
+
+export function createTimeline(): TimelineData {
+  return { clips: [], subtitles: [] };
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isOptionalInteger(value: unknown): boolean {
+  return value === undefined || Number.isInteger(value);
+}
+
+/**
+ * 从保存的 workflowData.timeline 读取时间轴，丢弃字段不完整的片段和字幕（旧项目没有时间轴时返回空时间轴）
+ */
+export function normalizeTimeline(value: unknown): TimelineData {
+  const { clips, subtitles } = (value ?? {}) as { clips?: unknown; subtitles?: unknown };
+  if (!Array.isArray(clips)) return createTimeline();
+  return {
+    clips: clips.filter((clip): clip is TimelineClip => {
+      const c = clip as Partial<TimelineClip> | null;
+      return (
+        !!c &&
+        typeof c.id === "string" &&
+        TIMELINE_TRACKS.includes(c.track as TimelineTrack) &&
+        Number.isInteger(c.assetId) &&
+        (c.type === "image" || c.type === "video" || c.type === "audio") &&
+        typeof c.name === "string" &&
+        isFiniteNumber(c.startTime) &&
+        isFiniteNumber(c.duration) &&
+        isFiniteNumber(c.trimStart) &&
+        isFiniteNumber(c.trimEnd) &&
+        (c.transition === undefined || TIMELINE_TRANSITIONS.includes(c.transition)) &&
+        isOptionalInteger(c.scriptId) &&
+        isOptionalInteger(c.shotId)
+      );
+    }),
+    subtitles: (Array.isArray(subtitles) ? subtitles : []).filter((subtitle): subtitle is TimelineSubtitle => {
+      const s = subtitle as Partial<TimelineSubtitle> | null;
+      return (
+        !!s &&
+        typeof s.id === "string" &&
+        isFiniteNumber(s.startTime) &&
+        isFiniteNumber(s.duration) &&
+        typeof s.text === "string" &&
+        isOptionalInteger(s.scriptId) &&
+        isOptionalInteger(s.shotId) &&
+        (s.edited === undefined || typeof s.edited === "boolean")
+      );
+    }),
+  };
+}
+
+// 片段在轨道上的结束时间
+export function clipEnd(clip: TimelineClip): number {
+  return clip.startTime + (clip.trimEnd - clip.trimStart);
+}
+
+// 轨道上最后一个片段的结束时间，新片段默认接在后面
+export function trackEnd(clips: TimelineClip[], track: TimelineTrack): number {
+  return clips.reduce((max, clip) => (clip.track === track ? Math.max(max, clipEnd(clip)) : max), 0);
+}
+
+// ============================================================================
+// 分镜 → 时间轴
+// ============================================================================
+
+// 分镜在时间轴上的信息；assetId 为分镜图片登记的项目素材，还没有图片时为 null
+export interface StoryboardTimelineShot {
+  shotId: number;
+  shotNumber: number;
+  title: string | null;
+  duration: number;
+  transition: TimelineTransition;
+  dialogue: string | null;
+  assetId: number | null;
+  // 按当前对白生成的配音（audio 素材），还没有生成或对白已修改时为 null
+  voiceover: { assetId: number; duration: number } | null;
+}
+
+// 分镜没有填写时长时的默认值，与 storyboardShots.duration 的默认值一致
+export const DEFAULT_SHOT_DURATION = 3;
+
+function sameEntity<T extends object>(a: T, b: T | undefined): boolean {
+  const keys = Object.keys(a) as Array<keyof T>;
+  return !!b && keys.length === Object.keys(b).length && keys.every(key => a[key] === b[key]);
+}
+
+// 已关联分镜的部分（shotId 不为空）与排好的新内容相同时沿用原数组
+function replaceLinked<T extends { id: string; shotId?: number }>(items: T[], laidOut: T[]): T[] {
+  const linked = items.filter(item => item.shotId !== undefined);
+  const previous = new Map(linked.map(item => [item.id, item]));
+  if (laidOut.length === linked.length && laidOut.every(item => sameEntity(item, previous.get(item.id)))) {
+    return items;
+  }
+  return [...items.filter(item => item.shotId === undefined), ...laidOut];
+}
+
+// 分镜对白中表示没有对白的写法
+const EMPTY_DIALOGUE = /^[（(]?(无|无对白|没有对白|none)[）)]?[。.]?$/i;
+
+// 去掉首尾空白，表示没有对白时返回空字符串
+export function dialogueText(dialogue: string | null): string {
+  const text = (dialogue ?? "").trim();
+  return EMPTY_DIALOGUE.test(text) ? "" : text;
+}
+
+/**
+ * 把剧本的分镜按顺序排到视频轨道上，对白生成字幕轨道上对应时段的字幕，配音排到音频轨道上与镜头同时开始；
+ * 替换已关联分镜的片段和字幕，其他片段和字幕不动。
+ * 首次发送时接在视频轨道末尾，之后从已关联内容的最早开始时间起重排；
+ * 还没有图片的分镜留出同样时长的空白，生成图片后补上。
+ * id 由分镜 id 决定，多人同时同步得到相同的内容；没有变化时返回原对象
+ */
+export function layoutStoryboard(
+  timeline: TimelineData,
+  scriptId: number,
+  shots: StoryboardTimelineShot[]
+): TimelineData {
+  const linkedStarts = [...timeline.clips, ...timeline.subtitles]
+    .filter(item => item.shotId !== undefined)
+    .map(item => item.startTime);
+  let cursor =
+    linkedStarts.length > 0
+      ? Math.min(...linkedStarts)
+      : trackEnd(timeline.clips.filter(clip => clip.shotId === undefined), "video");
+  const editedSubtitles = new Map(
+    timeline.subtitles.filter(subtitle => subtitle.shotId !== undefined && subtitle.edited).map(subtitle => [subtitle.shotId, subtitle])
+  );
+
+  const clips: TimelineClip[] = [];
+  const subtitles: TimelineSubtitle[] = [];
+  for (const shot of shots) {
+    const duration = shot.duration > 0 ? shot.duration : DEFAULT_SHOT_DURATION;
+    if (shot.assetId !== null) {
+      clips.push({
+        id: `shot-${shot.shotId}`,
+        track: "video",
+        assetId: shot.assetId,
+        type: "image",
+        name: shot.title ? `镜头${shot.shotNumber} ${shot.title}` : `镜头${shot.shotNumber}`,
+        startTime: cursor,
+        duration,
+        trimStart: 0,
+        trimEnd: duration,
+        transition: shot.transition,
+        scriptId,
+        shotId: shot.shotId,
+      });
+    }
+    const edited = editedSubtitles.get(shot.shotId);
+    const text = edited ? edited.text : dialogueText(shot.dialogue);
+    if (text) {
+      subtitles.push({
+        id: `subtitle-shot-${shot.shotId}`,
+        startTime: cursor,
+        duration,
+        text,
+        scriptId,
+        shotId: shot.shotId,
+        ...(edited ? { edited: true } : {}),
+      });
+    }
+    // 配音比镜头长时不截断，需要加长镜头时长避免与下一镜头的配音重叠
+    if (shot.voiceover) {
+      clips.push({
+        id: `voiceover-shot-${shot.shotId}`,
+        track: "audio",
+        assetId: shot.voiceover.assetId,
+        type: "audio",
+        name: `配音 镜头${shot.shotNumber}`,
+        startTime: cursor,
+        duration: shot.voiceover.duration,
+        trimStart: 0,
+        trimEnd: shot.voiceover.duration,
+        scriptId,
+        shotId: shot.shotId,
+      });
+    }
+    cursor += duration;
+  }
+
+  const nextClips = replaceLinked(timeline.clips, clips);
+  const nextSubtitles = replaceLinked(timeline.subtitles, subtitles);
+  return nextClips === timeline.clips && nextSubtitles === timeline.subtitles
+    ? timeline
+    : { ...timeline, clips: nextClips, subtitles: nextSubtitles };
+}
+
+// 时间轴关联的剧本（最近一次发送到时间轴的分镜）
+export function linkedStoryboardScriptId(timeline: TimelineData): number | undefined {
+  return [...timeline.clips, ...timeline.subtitles].find(item => item.scriptId !== undefined)?.scriptId;
+}
+
+// 字幕在时间轴上的结束时间
+export function subtitleEnd(subtitle: TimelineSubtitle): number {
+  return subtitle.startTime + subtitle.duration;
+}
+
+// ============================================================================
+// 合成输出
+// ============================================================================
+
+export const TIMELINE_RENDER_ASPECT_RATIOS = ["16:9", "9:16", "1:1", "4:3", "3:4", "21:9"] as const;
+
+export type TimelineRenderAspectRatio = (typeof TIMELINE_RENDER_ASPECT_RATIOS)[number];
+
+// 分辨率指短边像素
+export const TIMELINE_RENDER_RESOLUTIONS = ["480p", "720p", "1080p"] as const;
+
+export type TimelineRenderResolution = (typeof TIMELINE_RENDER_RESOLUTIONS)[number];
+
+/**
+ * 输出画面尺寸，H.264 要求宽高为偶数
+ */
+export function timelineRenderSize(
+  aspectRatio: TimelineRenderAspectRatio,
+  resolution: TimelineRenderResolution
+): { width: number; height: number } {
+  const [w, h] = aspectRatio.split(":").map(Number);
+  const short = parseInt(resolution, 10);
+  const even = (value: number) => Math.round(value / 2) * 2;
+  return w >= h
+    ? { width: even((short * w) / h), height: short }
+    : { width: short, height: even((short * h) / w) };
+}
+
+// 时间轴总时长：所有轨道最后一个片段的结束时间
+export function timelineDuration(clips: TimelineClip[]): number {
+  return clips.reduce((max, clip) => Math.max(max, clipEnd(clip)), 0);
+}
@@ -0,0 +1,439 @@
+/**
+ * 节点图执行引擎
+ * 画布的“运行”按钮与服务端 workflow.run 共用同一套节点语义：
+ * 拓扑排序后按顺序执行节点，上游输出（文本 / 图片 / 视频）沿连线传给下游，
+ * 生成类节点的输入与参数未变化时复用上次结果（node.data.lastRun）。
+ * 实际的生成调用由调用方通过 runJob 提供（客户端走生成队列，服务端直接调用过程）。
+ */
+
+// ============================================================================
+// 类型
+// ============================================================================
+
+export interface WorkflowNode {
+  id: string;
+  type?: string;
+  data: Record<string, unknown>;
+}
+
+export interface WorkflowEdge {
+  id?: string;
+  source: string;
+  target: string;
+  sourceHandle?: string | null;
+  targetHandle?: string | null;
+}
+
+export interface NodeOutputs {
+  text?: string;
+  image?: string;
+  video?: string;
+}
+
+export interface NodeInputs {
+  texts: string[];
+  images: string[];
+  videos: string[];
+}
+
+export type WorkflowJobType = "ai.textToImage" | "ai.imageToImage" | "ai.imageToVideo";
+
+export interface WorkflowJob {
+  jobType: WorkflowJobType;
+  input: Record<string, unknown>;
+}
+
+export interface WorkflowJobResult {
+  imageUrl?: string;
+  videoUrl?: string;
+}
+
+// 上次执行结果，保存在节点数据中用于跳过未变化的节点
+export interface NodeRunCache {
+  key: string;
+  outputs: NodeOutputs;
+  finishedAt: number;
+}
+
+export type NodeRunStatus = "queued" | "running" | "done" | "cached" | "error" | "skipped";
+
+export type WorkflowRunMode =
+  | { type: "all" }
+  | { type: "from"; nodeId: string }
+  | { type: "selected"; nodeIds: string[] };
+
+// ============================================================================
+// 尺寸表（与节点界面的比例选项一致）
+// ============================================================================
+
+export const IMAGE_SIZES: Record<string, { width: number; height: number }> = {
+  "1:1": { width: 1024, height: 1024 },
+  "16:9": { width: 1344, height: 768 },
+  "9:16": { width: 768, height: 1344 },
+  "4:3": { width: 1152, height: 896 },
+  "3:4": { width: 896, height: 1152 },
+  "21:9": { width: 1536, height: 640 },
+};
+
+export const VIDEO_SIZES: Record<string, { width: number; height: number }> = {
+  "1:1": { width: 1024, height: 1024 },
+  "16:9": { width: 1280, height: 720 },
+  "9:16": { width: 720, height: 1280 },
+  "4:3": { width: 1024, height: 768 },
+  "3:4": { width: 768, height: 1024 },
+  "21:9": { width: 1280, height: 540 },
+};
+
+// 节点选择“默认”图片服务时保存的值（见 client/src/components/ImageProviderSelect.tsx）
+const DEFAULT_IMAGE_PROVIDER = "default";
+
+// ============================================================================
+// 节点语义
+// ============================================================================
+
+const str = (value: unknown): string => (typeof value === "string" ? value : "");
+
+/**
+ * 合并连接的提示词与节点自身的提示词
+ */
+function combinePrompt(texts: string[], own: string): string {
+  const connected = texts.filter(Boolean).join(", ");
+  if (!connected) return own;
+  return own.trim() ? `${connected}, ${own}` : connected;
+}
+
+interface NodeSpec {
+  /** 由节点数据与输入构造生成任务，输入不足时抛出错误 */
+  job?: (node: WorkflowNode, inputs: NodeInputs) => WorkflowJob;
+  /** 不需要生成任务的节点直接由输入与数据计算输出 */
+  outputs: (node: WorkflowNode, inputs: NodeInputs, result?: WorkflowJobResult) => NodeOutputs;
+  /** 输出写回节点数据的字段 */
+  toData?: (outputs: NodeOutputs) => Record<string, unknown>;
+}
+
+const NODE_SPECS: Record<string, NodeSpec> = {
+  prompt: {
+    outputs: node => ({ text: str(node.data.prompt) }),
+  },
+
+  textToImage: {
+    job: (node, inputs) => {
+      let prompt = combinePrompt(inputs.texts, str(node.data.prompt));
+      if (!prompt.trim()) throw new Error("请输入提示词或连接提示词节点");
+      const styleName = str(node.data.styleName);
+      if (styleName) prompt = `${prompt}, ${styleName} style`;
+
+      const model = str(node.data.model);
+      const size = IMAGE_SIZES[str(node.data.aspectRatio)] ?? IMAGE_SIZES["1:1"];
+      return {
+        jobType: "ai.textToImage",
+        input: {
+          prompt,
+          model: model && model !== DEFAULT_IMAGE_PROVIDER ? model : undefined,
+          width: size.width,
+          height: size.height,
+          nodeId: node.id,
+        },
+      };
+    },
+    outputs: (node, _inputs, result) => ({ image: result?.imageUrl ?? (str(node.data.outputImage) || undefined) }),
+    toData: outputs => ({ outputImage: outputs.image }),
+  },
+
+  imageToImage: {
+    job: (node, inputs) => {
+      const imageUrl = inputs.images[0] || str(node.data.inputImage);
+      if (!imageUrl) throw new Error("请上传图片或连接图片节点");
+      const prompt = combinePrompt(inputs.texts, str(node.data.prompt));
+      if (!prompt.trim()) throw new Error("请输入你想要的效果描述");
+
+      const model = str(node.data.model);
+      const size = IMAGE_SIZES[str(node.data.aspectRatio) || "9:16"] ?? IMAGE_SIZES["9:16"];
+      return {
+        jobType: "ai.imageToImage",
+        input: {
+          prompt,
+          imageUrl,
+          strength: typeof node.data.strength === "number" ? node.data.strength : 0.7,
+          model: model && model !== DEFAULT_IMAGE_PROVIDER ? model : undefined,
+          width: size.width,
+          height: size.height,
+          nodeId: node.id,
+        },
+      };
+    },
+    outputs: (node, _inputs, result) => ({ image: result?.imageUrl ?? (str(node.data.outputImage) || undefined) }),
+    toData: outputs => ({ outputImage: outputs.image }),
+  },
+
+  imageToVideo: {
+    job: (node, inputs) => {
+      const imageUrl = inputs.images[0] || str(node.data.inputImage);
+      if (!imageUrl) throw new Error("请上传首帧图片或连接图片节点");
+
+      const aspectRatio = VIDEO_SIZES[str(node.data.aspectRatio)] ? str(node.data.aspectRatio) : "16:9";
+      const size = VIDEO_SIZES[aspectRatio];
+      return {
+        jobType: "ai.imageToVideo",
+        input: {
+          prompt: str(node.data.optimizedPrompt) || str(node.data.desiredEffect) || inputs.texts.join(", "),
+          imageUrl,
+          model: str(node.data.model) || "hailuo",
+          duration: parseInt(str(node.data.duration) || "5", 10),
+          aspectRatio,
+          width: size.width,
+          height: size.height,
+          nodeId: node.id,
+        },
+      };
+    },
+    outputs: (node, _inputs, result) => ({ video: result?.videoUrl ?? (str(node.data.outputVideo) || undefined) }),
+    toData: outputs => ({ outputVideo: outputs.video }),
+  },
+
+  // 展示节点：有上游时透传上游结果，否则使用自身内容
+  imageDisplay: {
+    outputs: (node, inputs) => ({ image: inputs.images[0] || str(node.data.imageUrl) || str(node.data.image) || undefined }),
+    toData: outputs => ({ imageUrl: outputs.image }),
+  },
+
+  videoDisplay: {
+    outputs: (node, inputs) => ({ video: inputs.videos[0] || str(node.data.videoUrl) || str(node.data.video) || undefined }),
+    toData: outputs => ({ videoUrl: outputs.video }),
+  },
+};
+
+/**
+ * 未被引擎支持的节点（九宫格、分镜台等）只对外提供已有结果，不会被执行
+ */
+function existingOutputs(node: WorkflowNode): NodeOutputs {
+  const image = str(node.data.outputImage) || str(node.data.imageUrl) || str(node.data.image);
+  const video = str(node.data.outputVideo) || str(node.data.videoUrl);
+  return { image: image || undefined, video: video || undefined };
+}
+
+export function isRunnableNodeType(type: string | undefined): boolean {
+  return !!type && type in NODE_SPECS;
+}
+
+// ============================================================================
+// 图算法
+// ============================================================================
+
+/**
+ * 拓扑排序（Kahn 算法），同层保持节点原有顺序；存在循环连接时抛出错误
+ */
+export function topologicalSort(nodes: WorkflowNode[], edges: WorkflowEdge[]): string[] {
+  const ids = new Set(nodes.map(node => node.id));
+  const indegree = new Map(nodes.map(node => [node.id, 0]));
+  const outgoing = new Map<string, string[]>();
+
+  for (const edge of edges) {
+    if (!ids.has(edge.source) || !ids.has(edge.target)) continue;
+    indegree.set(edge.target, indegree.get(edge.target)! + 1);
+    outgoing.set(edge.source, [...(outgoing.get(edge.source) ?? []), edge.target]);
+  }
+
+  const queue = nodes.filter(node => indegree.get(node.id) === 0).map(node => node.id);
+  const order: string[] = [];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    for (const next of outgoing.get(id) ?? []) {
+      const remaining = indegree.get(next)! - 1;
+      indegree.set(next, remaining);
+      if (remaining === 0) queue.push(next);
+    }
+  }
+
+  if (order.length !== nodes.length) {
+    throw new Error("工作流存在循环连接，无法确定执行顺序");
+  }
+  return order;
+}
+
+function downstreamOf(nodeId: string, edges: WorkflowEdge[]): Set<string> {
+  const visited = new Set([nodeId]);
+  const stack = [nodeId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    for (const edge of edges) {
+      if (edge.source === id && !visited.has(edge.target)) {
+        visited.add(edge.target);
+        stack.push(edge.target);
+      }
+    }
+  }
+  return visited;
+}
+
+/**
+ * 按运行模式挑出要执行的节点，返回拓扑序
+ * - all：所有节点
+ * - from：该节点及其所有下游
+ * - selected：仅选中的节点，上游使用已有结果
+ */
+export function planWorkflowRun(graph: { nodes: WorkflowNode[]; edges: WorkflowEdge[] }, mode: WorkflowRunMode): string[] {
+  const order = topologicalSort(graph.nodes, graph.edges);
+  if (mode.type === "all") return order;
+
+  const included = mode.type === "from" ? downstreamOf(mode.nodeId, graph.edges) : new Set(mode.nodeIds);
+  return order.filter(id => included.has(id));
+}
+
+/**
+ * 汇总连接到节点的上游输出
+ */
+export function collectNodeInputs(nodeId: string, edges: WorkflowEdge[], outputs: Map<string, NodeOutputs>): NodeInputs {
+  const inputs: NodeInputs = { texts: [], images: [], videos: [] };
+  for (const edge of edges) {
+    if (edge.target !== nodeId) continue;
+    const upstream = outputs.get(edge.source);
+    if (!upstream) continue;
+    if (upstream.text) inputs.texts.push(upstream.text);
+    if (upstream.image) inputs.images.push(upstream.image);
+    if (upstream.video) inputs.videos.push(upstream.video);
+  }
+  return inputs;
+}
+
+// ============================================================================
+// 缓存
+// ============================================================================
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * 生成任务的缓存 key（FNV-1a），任务类型或任一参数变化都会得到新的 key
+ */
+export function workflowJobCacheKey(job: WorkflowJob): string {
+  const text = stableStringify({ jobType: job.jobType, input: job.input });
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${job.jobType}:${(hash >>> 0).toString(16)}:${text.length}`;
+}
+
+// ============================================================================
+// 执行
+// ============================================================================
+
+export interface WorkflowRunHooks {
+  /** 执行生成任务 */
+  runJob: (job: WorkflowJob, node: WorkflowNode) => Promise<WorkflowJobResult>;
+  /** 节点状态变化 */
+  onNodeStatus?: (nodeId: string, status: NodeRunStatus, error?: string) => void;
+  /** 节点产生新输出后，需要写回节点数据的字段 */
+  onNodeOutput?: (nodeId: string, data: Record<string, unknown>) => void;
+  /** 返回 true 时停止调度后续节点 */
+  isCancelled?: () => boolean;
+}
+
+export interface WorkflowRunResult {
+  outputs: Record<string, NodeOutputs>;
+  statuses: Record<string, NodeRunStatus>;
+  errors: Record<string, string>;
+}
+
+/**
+ * 按计划依次执行节点。节点失败后其下游标记为 skipped，其余分支继续执行
+ */
+export async function executeWorkflow(
+  graph: { nodes: WorkflowNode[]; edges: WorkflowEdge[] },
+  mode: WorkflowRunMode,
+  hooks: WorkflowRunHooks,
+  options: { force?: boolean } = {}
+): Promise<WorkflowRunResult> {
+  const plan = planWorkflowRun(graph, mode);
+  const planned = new Set(plan);
+  const nodesById = new Map(graph.nodes.map(node => [node.id, node]));
+  const outputs = new Map<string, NodeOutputs>();
+  const statuses: Record<string, NodeRunStatus> = {};
+  const errors: Record<string, string> = {};
+  const blocked = new Set<string>();
+
+  const setStatus = (nodeId: string, status: NodeRunStatus, error?: string) => {
+    statuses[nodeId] = status;
+    if (error) errors[nodeId] = error;
+    hooks.onNodeStatus?.(nodeId, status, error);
+  };
+
+  // 不在计划内的节点使用已有结果作为上游输入
+  for (const id of topologicalSort(graph.nodes, graph.edges)) {
+    if (planned.has(id)) continue;
+    const node = nodesById.get(id)!;
+    const spec = node.type ? NODE_SPECS[node.type] : undefined;
+    const cached = node.data.lastRun as NodeRunCache | undefined;
+    outputs.set(
+      id,
+      spec && !spec.job
+        ? spec.outputs(node, collectNodeInputs(id, graph.edges, outputs))
+        : cached?.outputs ?? existingOutputs(node)
+    );
+  }
+
+  for (const id of plan) setStatus(id, "queued");
+
+  for (const id of plan) {
+    const node = nodesById.get(id)!;
+    const spec = node.type ? NODE_SPECS[node.type] : undefined;
+
+    if (hooks.isCancelled?.() || graph.edges.some(edge => edge.target === id && blocked.has(edge.source))) {
+      blocked.add(id);
+      setStatus(id, "skipped");
+      continue;
+    }
+
+    if (!spec) {
+      outputs.set(id, existingOutputs(node));
+      setStatus(id, "skipped");
+      continue;
+    }
+
+    const inputs = collectNodeInputs(id, graph.edges, outputs);
+    try {
+      if (!spec.job) {
+        const result = spec.outputs(node, inputs);
+        outputs.set(id, result);
+        if (spec.toData && inputs.texts.length + inputs.images.length + inputs.videos.length > 0) {
+          hooks.onNodeOutput?.(id, spec.toData(result));
+        }
+        setStatus(id, "done");
+        continue;
+      }
+
+      const job = spec.job(node, inputs);
+      const key = workflowJobCacheKey(job);
+      const cached = node.data.lastRun as NodeRunCache | undefined;
+      if (!options.force && cached?.key === key) {
+        outputs.set(id, cached.outputs);
+        setStatus(id, "cached");
+        continue;
+      }
+
+      setStatus(id, "running");
+      const result = await hooks.runJob(job, node);
+      const nodeOutputs = spec.outputs(node, inputs, result);
+      outputs.set(id, nodeOutputs);
+      const lastRun: NodeRunCache = { key, outputs: nodeOutputs, finishedAt: Date.now() };
+      hooks.onNodeOutput?.(id, { ...spec.toData?.(nodeOutputs), lastRun });
+      setStatus(id, "done");
+    } catch (error) {
+      blocked.add(id);
+      setStatus(id, "error", error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  return { outputs: Object.fromEntries(outputs), statuses, errors };
+}
@@ -0,0 +1,236 @@
+/**
+ * 画布节点的连接点（端口）类型
+ * 每种节点声明自己的输入 / 输出端口及其数据类型，连线时按类型校验，
+ * 连线颜色也按数据类型区分。端口 id 与节点组件中 <Handle id> 一致。
+ */
+
+import type { WorkflowEdge } from "./workflow";
+
+// ============================================================================
+// 类型
+// ============================================================================
+
+export type PortType = "text" | "image" | "image[]" | "video" | "character-ref" | "grid";
+
+export interface PortSpec {
+  // 以 * 结尾表示前缀匹配，如九宫格结果节点的 cell-0 … cell-8
+  id: string;
+  type: PortType;
+  label: string;
+  // 输入端口是否允许多条连线
+  multiple?: boolean;
+}
+
+export interface NodePorts {
+  inputs: PortSpec[];
+  outputs: PortSpec[];
+}
+
+export type PortDirection = "input" | "output";
+
+type PortNode = { id: string; type?: string };
+
+type PortConnection = Pick<WorkflowEdge, "source" | "target" | "sourceHandle" | "targetHandle">;
+
+export type ConnectionCheck =
+  | { valid: true; type?: PortType }
+  | { valid: false; reason: string };
+
+export const PORT_TYPE_LABELS: Record<PortType, string> = {
+  text: "文本",
+  image: "图片",
+  "image[]": "多张图片",
+  video: "视频",
+  "character-ref": "角色参考图",
+  grid: "宫格图",
+};
+
+// 输出类型可以连接到的其他输入类型（同类型总是可以连接）
+// 角色参考图、宫格图本身也是图片；单张图片可以作为多图输入或角色参考
+const PORT_CONVERSIONS: Record<PortType, PortType[]> = {
+  text: [],
+  image: ["image[]", "character-ref"],
+  "image[]": [],
+  video: [],
+  "character-ref": ["image", "image[]"],
+  grid: ["image", "image[]"],
+};
+
+export function canConnectPortTypes(from: PortType, to: PortType): boolean {
+  return from === to || PORT_CONVERSIONS[from].includes(to);
+}
+
+// ============================================================================
+// 各节点端口声明
+// ============================================================================
+
+const promptIn: PortSpec = { id: "prompt-in", type: "text", label: "提示词", multiple: true };
+
+export const NODE_PORTS: Record<string, NodePorts> = {
+  prompt: {
+    inputs: [],
+    outputs: [{ id: "prompt-out", type: "text", label: "提示词" }],
+  },
+  textToImage: {
+    inputs: [promptIn],
+    outputs: [{ id: "image-out", type: "image", label: "生成图片" }],
+  },
+  imageToImage: {
+    inputs: [promptIn, { id: "image-in", type: "image", label: "参考图" }],
+    outputs: [{ id: "image-out", type: "image", label: "生成图片" }],
+  },
+  imageToVideo: {
+    inputs: [promptIn, { id: "image-in", type: "image", label: "首帧图片" }],
+    outputs: [{ id: "video-out", type: "video", label: "生成视频" }],
+  },
+  imageDisplay: {
+    inputs: [{ id: "input", type: "image", label: "图片" }],
+    outputs: [{ id: "image-out", type: "image", label: "图片" }],
+  },
+  videoDisplay: {
+    inputs: [{ id: "video-in", type: "video", label: "视频" }],
+    outputs: [{ id: "video-out", type: "video", label: "视频" }],
+  },
+  imageEditor: {
+    inputs: [
+      { id: "source-in", type: "image", label: "原图" },
+      { id: "ref-1", type: "image", label: "参考图1" },
+      { id: "ref-2", type: "image", label: "参考图2" },
+      { id: "ref-3", type: "image", label: "参考图3" },
+    ],
+    outputs: [{ id: "image-out", type: "image", label: "编辑结果" }],
+  },
+  subjectMultiView: {
+    inputs: [{ id: "input", type: "image", label: "主体图片" }],
+    outputs: [{ id: "output", type: "character-ref", label: "多视角图" }],
+  },
+  storyboardWorkbench: {
+    inputs: [{ id: "input", type: "image[]", label: "参考图", multiple: true }],
+    outputs: [{ id: "output", type: "image", label: "分镜图" }],
+  },
+  nineGridInput: {
+    inputs: [{ id: "input", type: "character-ref", label: "角色参考图" }],
+    outputs: [{ id: "output", type: "grid", label: "九宫格" }],
+  },
+  dynamicNineGridInput: {
+    inputs: [{ id: "input", type: "character-ref", label: "角色参考图" }],
+    outputs: [{ id: "output", type: "grid", label: "九宫格" }],
+  },
+  nineGridResult: {
+    inputs: [{ id: "input", type: "grid", label: "九宫格" }],
+    outputs: [{ id: "cell-*", type: "image", label: "镜头" }],
+  },
+  shotReverseShot: {
+    inputs: [{ id: "input", type: "character-ref", label: "角色参考图" }],
+    outputs: [{ id: "output", type: "image", label: "正反打镜头" }],
+  },
+};
+
+/**
+ * 查找节点的端口；未指定 handle（早期保存的连线）时取该方向的第一个端口
+ */
+export function findPort(nodeType: string | undefined, direction: PortDirection, handleId?: string | null): PortSpec | undefined {
+  const ports = nodeType ? NODE_PORTS[nodeType] : undefined;
+  if (!ports) return undefined;
+  const list = direction === "input" ? ports.inputs : ports.outputs;
+  if (!handleId) return list[0];
+  return list.find(port =>
+    port.id.endsWith("*") ? handleId.startsWith(port.id.slice(0, -1)) : port.id === handleId
+  );
+}
+
+// ============================================================================
+// 连线校验
+// ============================================================================
+
+function reaches(from: string, to: string, edges: PortConnection[]): boolean {
+  const visited = new Set<string>();
+  const stack = [from];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === to) return true;
+    if (visited.has(id)) continue;
+    visited.add(id);
+    for (const edge of edges) {
+      if (edge.source === id) stack.push(edge.target);
+    }
+  }
+  return false;
+}
+
+/**
+ * 只按端口类型检查一条连线（用于已有连线的着色与标记）
+ * 未声明端口的节点类型不做限制
+ */
+export function checkEdgePortTypes(nodes: PortNode[], edge: PortConnection): ConnectionCheck {
+  const source = nodes.find(node => node.id === edge.source);
+  const target = nodes.find(node => node.id === edge.target);
+  if (!source || !target) return { valid: false, reason: "连接的节点不存在" };
+
+  const sourcePort = findPort(source.type, "output", edge.sourceHandle);
+  const targetPort = findPort(target.type, "input", edge.targetHandle);
+  if (source.type && NODE_PORTS[source.type] && !sourcePort) {
+    return { valid: false, reason: "源节点没有这个输出端口" };
+  }
+  if (target.type && NODE_PORTS[target.type] && !targetPort) {
+    return { valid: false, reason: "目标节点没有这个输入端口" };
+  }
+  if (sourcePort && targetPort && !canConnectPortTypes(sourcePort.type, targetPort.type)) {
+    return {
+      valid: false,
+      reason: `「${sourcePort.label}」输出${PORT_TYPE_LABELS[sourcePort.type]}，不能连接到需要${PORT_TYPE_LABELS[targetPort.type]}的「${targetPort.label}」`,
+    };
+  }
+  return { valid: true, type: sourcePort?.type ?? targetPort?.type };
+}
+
+/**
+ * 校验新建连线：端口类型、单输入端口占用、重复连线与循环
+ */
+export function validateConnection(
+  graph: { nodes: PortNode[]; edges: PortConnection[] },
+  connection: PortConnection
+): ConnectionCheck {
+  if (connection.source === connection.target) {
+    return { valid: false, reason: "不能连接节点自身" };
+  }
+
+  const typeCheck = checkEdgePortTypes(graph.nodes, connection);
+  if (!typeCheck.valid) return typeCheck;
+
+  const target = graph.nodes.find(node => node.id === connection.target);
+  const targetPort = findPort(target?.type, "input", connection.targetHandle);
+  const sameTargetPort = (edge: PortConnection) =>
+    edge.target === connection.target &&
+    (targetPort ? findPort(target?.type, "input", edge.targetHandle) === targetPort : edge.targetHandle === connection.targetHandle);
+
+  if (graph.edges.some(edge =>
+    sameTargetPort(edge) && edge.source === connection.source && (edge.sourceHandle ?? null) === (connection.sourceHandle ?? null)
+  )) {
+    return { valid: false, reason: "这两个端口已经连接" };
+  }
+  if (targetPort && !targetPort.multiple && graph.edges.some(sameTargetPort)) {
+    return { valid: false, reason: `「${targetPort.label}」只能连接一个输入，请先断开已有连线` };
+  }
+  if (reaches(connection.target, connection.source, graph.edges)) {
+    return { valid: false, reason: "连接会形成循环，工作流无法运行" };
+  }
+  return typeCheck;
+}
+
+/**
+ * 早期保存的连线可能没有 handle id，补全为节点对应方向的默认端口，
+ * 使旧的 workflowData 能按端口类型着色和校验
+ */
+export function normalizeWorkflowEdges<E extends PortConnection>(nodes: PortNode[], edges: E[]): E[] {
+  const typeOf = new Map(nodes.map(node => [node.id, node.type]));
+  return edges.map(edge => {
+    if (edge.sourceHandle && edge.targetHandle) return edge;
+    const sourcePort = edge.sourceHandle ? undefined : findPort(typeOf.get(edge.source), "output");
+    const targetPort = edge.targetHandle ? undefined : findPort(typeOf.get(edge.target), "input");
+    const sourceHandle = sourcePort && !sourcePort.id.endsWith("*") ? sourcePort.id : edge.sourceHandle;
+    const targetHandle = targetPort ? targetPort.id : edge.targetHandle;
+    if (sourceHandle === edge.sourceHandle && targetHandle === edge.targetHandle) return edge;
+    return { ...edge, sourceHandle, targetHandle };
+  });
+}